@@ -1,50 +1,32 @@
-import { useState } from 'react'
+import { Profiler, Suspense, useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Menu } from 'lucide-react'
-import UseStateDemo from "@/components/hook-components/UseStateDemo.tsx";
 import Sidebar from "@/components/Sidebar.tsx";
-import {UseEffectDemo} from "@/components/hook-components/UseEffectDemo.tsx";
-import {UseContextDemo} from "@/components/hook-components/UseContextHookDemo.tsx";
-import {UseReducerDemo} from "@/components/hook-components/UseReducerDemo.tsx";
-import {UseCallbackDemo} from "@/components/hook-components/UseCallbackDemo.tsx";
-import {UseMemoDemo} from "@/components/hook-components/UseMemoDemo.tsx";
-import UseRefDemo from "@/components/hook-components/UseRefDemo.tsx";
-import UseLayoutEffectDemo from "@/components/hook-components/UseLayoutEffectDemo.tsx";
-import UseImperativeHandleDemo from "@/components/hook-components/UseImperativeHandleDemo.tsx";
-import UseDebugValueDemo from "@/components/hook-components/UseDebugValueDemo.tsx";
-
-export type HookType = 'useState' | 'useEffect' | 'useContext' | 'useReducer' | 'useCallback' | 'useMemo' | 'useRef' | 'useImperativeHandle' | 'useLayoutEffect' | 'useDebugValue'
+import ConsolePanel from "@/components/ConsolePanel.tsx";
+import DemoSkeleton from "@/components/DemoSkeleton.tsx";
+import DemoErrorBoundary from "@/components/DemoErrorBoundary.tsx";
+import HighlightRendersSwitch from "@/components/HighlightRendersSwitch.tsx";
+import HookDetails from "@/components/HookDetails.tsx";
+import HookInspector from "@/components/HookInspector.tsx";
+import ProfilerTimeline from "@/components/ProfilerTimeline.tsx";
+import {discardDemoComponent, getDemoComponent} from "@/lib/demo-loader.ts";
+import {profilerTimeline} from "@/lib/profiler-timeline.ts";
+import {getHook} from "@/lib/registry.ts";
+import {navigate} from "@/lib/routing.ts";
+import {useRoute} from "@/hooks/useRoute.ts";
 
 function App() {
-  const [selectedHook, setSelectedHook] = useState<HookType>('useState');
+  const {hook: selectedHook} = useRoute();
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [retryCount, setRetryCount] = useState(0);
+
+  const hook = getHook(selectedHook);
+  const HookDemo = getDemoComponent(hook);
 
-  const renderHookDemo = () => {
-      switch(selectedHook) {
-          case 'useState':
-              return <UseStateDemo />
-          case 'useEffect':
-              return <UseEffectDemo />
-          case 'useContext':
-              return <UseContextDemo />
-          case 'useReducer':
-              return <UseReducerDemo />
-          case 'useCallback':
-              return <UseCallbackDemo />
-          case 'useMemo':
-              return <UseMemoDemo />
-          case 'useRef':
-              return <UseRefDemo />
-          case 'useImperativeHandle':
-              return <UseImperativeHandleDemo />
-          case 'useLayoutEffect':
-              return <UseLayoutEffectDemo />
-          case 'useDebugValue':
-              return <UseDebugValueDemo />
-          default:
-              return <div className="p-8 text-center text-muted-foreground">Hook demo coming soon...</div>
-      }
-  }
+  const retryDemo = () => {
+      discardDemoComponent(hook.id);
+      setRetryCount(count => count + 1);
+  };
 
   return (
       <div className="h-screen flex bg-background">
@@ -52,27 +34,46 @@ function App() {
               <header className="border-b bg-card px-6 py-4">
                   <div className="flex items-center justify-between">
                       <h1 className="text-2xl font-bold">React Hooks Interactive Demo</h1>
-                      <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => setSidebarOpen(!sidebarOpen)}
-                          className="lg:hidden"
-                      >
-                        <Menu className="h-4 w-4" />
-                      </Button>
+                      <div className="flex items-center gap-4">
+                          <HighlightRendersSwitch />
+                          <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setSidebarOpen(!sidebarOpen)}
+                              className="lg:hidden"
+                          >
+                            <Menu className="h-4 w-4" />
+                          </Button>
+                      </div>
                   </div>
               </header>
+              <HookDetails hook={hook} />
 
               {/* Content Area */}
-              <main className="flex-1 overflow-auto">
-                  {renderHookDemo()}
+              {/* Components in here are outlined when "Highlight renders" is on */}
+              <main className="flex-1 overflow-auto" data-highlight-renders>
+                  <DemoErrorBoundary
+                      key={`${hook.id}-${retryCount}`}
+                      demoName={hook.name}
+                      onRetry={retryDemo}
+                  >
+                      <Suspense fallback={<DemoSkeleton />}>
+                          <Profiler id={hook.id} onRender={profilerTimeline.onRender}>
+                              <HookDemo />
+                          </Profiler>
+                      </Suspense>
+                  </DemoErrorBoundary>
               </main>
+
+              <HookInspector />
+              <ConsolePanel />
+              <ProfilerTimeline />
           </div>
 
           {/* Sidebar */}
           <Sidebar
               selectedHook={selectedHook}
-              onHookSelect={setSelectedHook}
+              onHookSelect={(hook) => navigate({hook, tab: null})}
               isOpen={sidebarOpen}
               onClose={() => setSidebarOpen(false)}
           />
@@ -0,0 +1,160 @@
+import {useEffect, useId, useRef, useState, useSyncExternalStore} from "react";
+import {ChevronDown, ChevronUp, Pause, Play, Terminal, Trash2} from "lucide-react";
+import {Badge} from "@/components/ui/badge.tsx";
+import {Button} from "@/components/ui/button.tsx";
+import {Input} from "@/components/ui/input.tsx";
+import {Label} from "@/components/ui/label.tsx";
+import {Switch} from "@/components/ui/switch.tsx";
+import {type ConsoleEntry, demoConsole, LOG_LEVELS, type LogLevel} from "@/lib/demo-console.ts";
+import {getHook} from "@/lib/registry.ts";
+import {useRoute} from "@/hooks/useRoute.ts";
+
+const levelClasses: Record<LogLevel, string> = {
+    debug: "text-muted-foreground",
+    log: "",
+    info: "text-blue-700",
+    warn: "bg-yellow-50 text-yellow-800",
+    error: "bg-red-50 text-red-700"
+};
+
+const formatTime = (time: number) => {
+    const date = new Date(time);
+    return `${date.toTimeString().slice(0, 8)}.${String(date.getMilliseconds()).padStart(3, "0")}`;
+};
+
+const EntryRow = ({entry}: { entry: ConsoleEntry }) => (
+    <li className={`flex items-start gap-3 border-t px-2 py-1 ${levelClasses[entry.level]}`}>
+        <span className="shrink-0 font-mono text-muted-foreground">{formatTime(entry.time)}</span>
+        <span className="w-10 shrink-0 font-mono uppercase">{entry.level}</span>
+        {entry.fromDemo ? (
+            <Badge variant="outline" className="shrink-0">{getHook(entry.demo).name}</Badge>
+        ) : (
+            <Badge variant="secondary" className="shrink-0" title={`Logged while ${getHook(entry.demo).name} was open, but not by the demo's code`}>
+                React / app
+            </Badge>
+        )}
+        <span className="min-w-0 flex-1 whitespace-pre-wrap break-words font-mono">{entry.message}</span>
+        {entry.count > 1 && (
+            <Badge variant="secondary" className="shrink-0 rounded-full" aria-label={`Repeated ${entry.count} times`}>
+                {entry.count}
+            </Badge>
+        )}
+    </li>
+);
+
+// Docked console that mirrors what demos log, so the examples explain themselves without DevTools
+export default function ConsolePanel() {
+    const {entries, paused} = useSyncExternalStore(demoConsole.subscribe, demoConsole.getSnapshot);
+    const {hook} = useRoute();
+    const [isOpen, setIsOpen] = useState(false);
+    const [levels, setLevels] = useState<ReadonlySet<LogLevel>>(() => new Set(LOG_LEVELS));
+    const [search, setSearch] = useState("");
+    const [currentDemoOnly, setCurrentDemoOnly] = useState(true);
+    const id = useId();
+
+    const visible = entries.filter(entry =>
+        levels.has(entry.level) &&
+        (!currentDemoOnly || entry.demo === hook) &&
+        entry.message.toLowerCase().includes(search.toLowerCase())
+    );
+    const problems = entries.filter(entry => entry.level === "warn" || entry.level === "error").length;
+
+    // Follow new entries unless the reader has scrolled up to look at older ones
+    const listRef = useRef<HTMLDivElement>(null);
+    const followRef = useRef(true);
+    useEffect(() => {
+        if (listRef.current && followRef.current) {
+            listRef.current.scrollTop = listRef.current.scrollHeight;
+        }
+    }, [visible.length, isOpen]);
+
+    const toggleLevel = (level: LogLevel) => {
+        setLevels(current => {
+            const next = new Set(current);
+            if (!next.delete(level)) next.add(level);
+            return next;
+        });
+    };
+
+    return (
+        <section className="border-t bg-card" aria-label="Console">
+            <div className="flex flex-wrap items-center justify-between gap-2 px-6 py-2">
+                <Button variant="ghost" size="sm" onClick={() => setIsOpen(!isOpen)} aria-expanded={isOpen}>
+                    <Terminal className="h-4 w-4 mr-2" />
+                    Console
+                    <Badge variant="secondary" className="ml-2">{entries.length} entries</Badge>
+                    {problems > 0 && <Badge variant="destructive" className="ml-1">{problems} warnings and errors</Badge>}
+                    {isOpen ? <ChevronDown className="h-4 w-4 ml-2" /> : <ChevronUp className="h-4 w-4 ml-2" />}
+                </Button>
+                {isOpen && (
+                    <div className="flex gap-2">
+                        <Button
+                            variant={paused ? "default" : "outline"}
+                            size="sm"
+                            onClick={() => demoConsole.setPaused(!paused)}
+                        >
+                            {paused ? <Play className="h-4 w-4 mr-2" /> : <Pause className="h-4 w-4 mr-2" />}
+                            {paused ? "Resume" : "Pause"}
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={demoConsole.clear} disabled={entries.length === 0}>
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            Clear
+                        </Button>
+                    </div>
+                )}
+            </div>
+
+            {isOpen && (
+                <div className="space-y-2 px-6 pb-4 text-xs">
+                    <div className="flex flex-wrap items-center gap-4">
+                        <Input
+                            placeholder="Filter messages"
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                            className="h-8 w-48"
+                            aria-label="Filter messages"
+                        />
+                        <div className="flex gap-1" role="group" aria-label="Log levels">
+                            {LOG_LEVELS.map(level => (
+                                <Button
+                                    key={level}
+                                    size="sm"
+                                    variant={levels.has(level) ? "secondary" : "ghost"}
+                                    aria-pressed={levels.has(level)}
+                                    onClick={() => toggleLevel(level)}
+                                    className="h-7 px-2 text-xs"
+                                >
+                                    {level}
+                                </Button>
+                            ))}
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <Switch id={id} checked={currentDemoOnly} onCheckedChange={setCurrentDemoOnly} />
+                            <Label htmlFor={id} className="text-xs">Only {getHook(hook).name}</Label>
+                        </div>
+                        {paused && <Badge variant="outline">Paused: new messages are not captured</Badge>}
+                    </div>
+
+                    <div
+                        ref={listRef}
+                        className="max-h-64 overflow-auto rounded border"
+                        onScroll={(e) => {
+                            const list = e.currentTarget;
+                            followRef.current = list.scrollHeight - list.scrollTop - list.clientHeight < 8;
+                        }}
+                    >
+                        {visible.length === 0 ? (
+                            <p className="p-2 text-muted-foreground">
+                                {entries.length === 0 ? "Nothing logged yet. Interact with a demo to see its console output." : "No entries match the filters."}
+                            </p>
+                        ) : (
+                            <ul>
+                                {visible.map(entry => <EntryRow key={entry.id} entry={entry} />)}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+            )}
+        </section>
+    );
+}
@@ -0,0 +1,51 @@
+import {screen} from "@testing-library/react";
+import {describe, expect, it, vi} from "vitest";
+import {ThemeProvider} from "@/components/ContextProviders.tsx";
+import {useTheme} from "@/hooks/useTheme.ts";
+import {renderDemo, renderWithUser} from "@/test/render.tsx";
+
+const ThemeConsumer = () => {
+    const {theme, toggleTheme} = useTheme();
+    return <button onClick={toggleTheme}>Theme: {theme}</button>;
+};
+
+describe("ThemeProvider", () => {
+    it("starts in light mode", () => {
+        renderWithUser(<ThemeProvider><ThemeConsumer /></ThemeProvider>);
+
+        expect(screen.getByRole("button")).toHaveTextContent("Theme: light");
+    });
+
+    it("toggles between light and dark", async () => {
+        const {user, container} = renderWithUser(<ThemeProvider><ThemeConsumer /></ThemeProvider>);
+        const wrapper = container.firstElementChild;
+
+        await user.click(screen.getByRole("button"));
+        expect(screen.getByRole("button")).toHaveTextContent("Theme: dark");
+        // The provider's wrapper carries the class Tailwind's dark: variants key off
+        expect(wrapper).toHaveClass("dark");
+
+        await user.click(screen.getByRole("button"));
+        expect(screen.getByRole("button")).toHaveTextContent("Theme: light");
+        expect(wrapper).not.toHaveClass("dark");
+    });
+
+    it("is required by useTheme", () => {
+        // React reports the error thrown during render before rethrowing it
+        vi.spyOn(console, "error").mockImplementation(() => {});
+
+        expect(() => renderWithUser(<ThemeConsumer />)).toThrow("useTheme must be used within a ThemeProvider");
+    });
+});
+
+describe("UseContextHookDemo theme toggle", () => {
+    it("switches the label of the toggle", async () => {
+        const {user} = await renderDemo("useContext");
+
+        await user.click(screen.getByRole("button", {name: "Dark Mode"}));
+        expect(screen.getByRole("button", {name: "Light Mode"})).toBeInTheDocument();
+
+        await user.click(screen.getByRole("button", {name: "Light Mode"}));
+        expect(screen.getByRole("button", {name: "Dark Mode"})).toBeInTheDocument();
+    });
+});
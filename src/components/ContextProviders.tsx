@@ -0,0 +1,128 @@
+import {useState, type ReactNode} from "react";
+import {ThemeContext} from "@/lib/theme-context.ts";
+import {UserContext, type User} from "@/lib/user-context.ts";
+import {SettingsContext, type Settings} from "@/lib/settings-context.ts";
+import {CartContext, type CartItem} from "@/lib/cart-context.ts";
+
+// Providers for the contexts read by useTheme, useUser, useSettings and useCart.
+// Used by the useContext demo and the Custom Hooks gallery.
+
+// #region ThemeProvider
+export const ThemeProvider = ({children}: { children: ReactNode }) => {
+    const [theme, setTheme] = useState<'light' | 'dark'>('light');
+
+    const toggleTheme = () => {
+        setTheme(prev => prev === 'light' ? 'dark' : 'light');
+    };
+
+    return (
+        <ThemeContext.Provider value={{theme, toggleTheme}}>
+            <div className={`${theme === 'dark' ? 'dark' : ''}`}>
+                {children}
+            </div>
+        </ThemeContext.Provider>
+    );
+};
+// #endregion ThemeProvider
+
+// #region UserProvider
+export const UserProvider = ({children}: { children: ReactNode }) => {
+    const [user, setUser] = useState<User | null>(null);
+
+    const login = (userData: User) => {
+        setUser(userData);
+    };
+
+    const logout = () => {
+        setUser(null);
+    };
+
+    const updateUser = (updates: Partial<User>) => {
+        setUser(prev => prev ? {...prev, ...updates} : null);
+    };
+
+    return (
+        <UserContext.Provider value={{user, login, logout, updateUser}}>
+            {children}
+        </UserContext.Provider>
+    );
+};
+// #endregion UserProvider
+
+// #region SettingsProvider
+export const SettingsProvider = ({children}: { children: ReactNode }) => {
+    const [settings, setSettings] = useState<Settings>({
+        language: 'en',
+        notifications: true,
+        soundEnabled: true,
+        autoSave: false
+    });
+
+    const updateSettings = (updates: Partial<Settings>) => {
+        setSettings(prev => ({...prev, ...updates}));
+    };
+
+    return (
+        <SettingsContext.Provider value={{settings, updateSettings}}>
+            {children}
+        </SettingsContext.Provider>
+    );
+};
+// #endregion SettingsProvider
+
+// #region CartProvider
+export const CartProvider = ({children}: { children: ReactNode }) => {
+    const [items, setItems] = useState<CartItem[]>([]);
+
+    const addItem = (newItem: Omit<CartItem, 'quantity'>) => {
+        setItems(prev => {
+            const existing = prev.find(item => item.id === newItem.id);
+            if (existing) {
+                return prev.map(item =>
+                    item.id === newItem.id
+                        ? {...item, quantity: item.quantity + 1}
+                        : item
+                );
+            }
+            return [...prev, {...newItem, quantity: 1}];
+        });
+    };
+
+    const removeItem = (id: string) => {
+        setItems(prev => prev.filter(item => item.id !== id));
+    };
+
+    const updateQuantity = (id: string, quantity: number) => {
+        if (quantity <= 0) {
+            removeItem(id);
+            return;
+        }
+        setItems(prev =>
+            prev.map(item =>
+                item.id === id ? {...item, quantity} : item
+            )
+        );
+    };
+
+    const clearCart = () => {
+        setItems([]);
+    };
+
+    const total = items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+    const itemCount = items.reduce((sum, item) => sum + item.quantity, 0);
+
+    return (
+        <CartContext.Provider value={{
+            items,
+            addItem,
+            removeItem,
+            updateQuantity,
+            clearCart,
+            total,
+            itemCount
+        }}>
+            {children}
+        </CartContext.Provider>
+    );
+};
+// #endregion CartProvider
@@ -0,0 +1,51 @@
+import {Component, type ErrorInfo, type ReactNode} from "react";
+import {AlertCircle, RotateCcw} from "lucide-react";
+import {Alert, AlertDescription, AlertTitle} from "@/components/ui/alert.tsx";
+import {Button} from "@/components/ui/button.tsx";
+
+interface DemoErrorBoundaryProps {
+    demoName: string;
+    onRetry: () => void;
+    children: ReactNode;
+}
+
+interface DemoErrorBoundaryState {
+    error: Error | null;
+}
+
+// Catches both failed chunk downloads and errors thrown while rendering a demo, so one
+// broken page doesn't take down the sidebar and header with it.
+export default class DemoErrorBoundary extends Component<DemoErrorBoundaryProps, DemoErrorBoundaryState> {
+    state: DemoErrorBoundaryState = {error: null};
+
+    static getDerivedStateFromError(error: Error): DemoErrorBoundaryState {
+        return {error};
+    }
+
+    componentDidCatch(error: Error, info: ErrorInfo) {
+        console.error(`Failed to render ${this.props.demoName} demo`, error, info.componentStack);
+    }
+
+    render() {
+        const {error} = this.state;
+        if (!error) {
+            return this.props.children;
+        }
+
+        return (
+            <div className="max-w-2xl mx-auto p-6">
+                <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertTitle>The {this.props.demoName} demo failed to load</AlertTitle>
+                    <AlertDescription className="space-y-3">
+                        <p>{error.message}</p>
+                        <Button variant="outline" size="sm" onClick={this.props.onRetry}>
+                            <RotateCcw className="h-4 w-4 mr-2" />
+                            Try again
+                        </Button>
+                    </AlertDescription>
+                </Alert>
+            </div>
+        );
+    }
+}
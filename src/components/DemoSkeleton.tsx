@@ -0,0 +1,33 @@
+import {Card, CardContent, CardHeader} from "@/components/ui/card.tsx";
+
+const Bar = ({className}: {className: string}) => (
+    <div className={`bg-muted rounded-md animate-pulse ${className}`} />
+);
+
+export default function DemoSkeleton() {
+    return (
+        <div className="max-w-6xl mx-auto p-6 space-y-6" aria-busy="true" aria-label="Loading demo">
+            {/* Header */}
+            <div className="flex flex-col items-center space-y-2">
+                <Bar className="h-9 w-96 max-w-full" />
+                <Bar className="h-5 w-[32rem] max-w-full" />
+            </div>
+
+            {/* Tabs */}
+            <Bar className="h-9 w-full" />
+
+            {[0, 1].map(card => (
+                <Card key={card}>
+                    <CardHeader className="space-y-2">
+                        <Bar className="h-5 w-48" />
+                        <Bar className="h-4 w-80 max-w-full" />
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                        <Bar className="h-24 w-full" />
+                        <Bar className="h-10 w-2/3" />
+                    </CardContent>
+                </Card>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,17 @@
+import {useId, useSyncExternalStore} from "react";
+import {Label} from "@/components/ui/label.tsx";
+import {Switch} from "@/components/ui/switch.tsx";
+import {renderHighlighting} from "@/lib/render-highlighter.ts";
+
+// Header switch for the app-wide render highlighting overlay
+export default function HighlightRendersSwitch() {
+    const enabled = useSyncExternalStore(renderHighlighting.subscribe, renderHighlighting.getSnapshot);
+    const id = useId();
+
+    return (
+        <div className="flex items-center gap-2">
+            <Switch id={id} checked={enabled} onCheckedChange={renderHighlighting.setEnabled} />
+            <Label htmlFor={id} className="text-sm">Highlight renders</Label>
+        </div>
+    );
+}
@@ -0,0 +1,23 @@
+import {Badge} from "@/components/ui/badge.tsx";
+import {getHook, type HookInfo} from "@/lib/registry.ts";
+import {formatHash} from "@/lib/routing.ts";
+
+// Bar under the header with the open hook's registry details: the React version that introduced
+// it and links to the demos of related hooks
+export default function HookDetails({hook}: { hook: HookInfo }) {
+    return (
+        <div className="flex flex-wrap items-center gap-2 border-b px-6 py-2 text-sm text-muted-foreground">
+            <Badge variant="outline">React {hook.minReactVersion}+</Badge>
+            {hook.related.length > 0 && (
+                <nav aria-label="Related hooks" className="flex flex-wrap items-center gap-2">
+                    Related:
+                    {hook.related.map(id => (
+                        <a key={id} href={formatHash({hook: id, tab: null})} className="text-primary underline-offset-4 hover:underline">
+                            {getHook(id).name}
+                        </a>
+                    ))}
+                </nav>
+            )}
+        </div>
+    );
+}
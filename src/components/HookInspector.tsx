@@ -0,0 +1,136 @@
+import {useId, useState, useSyncExternalStore} from "react";
+import {ChevronDown, ChevronUp, ScanSearch} from "lucide-react";
+import {Button} from "@/components/ui/button.tsx";
+import {Label} from "@/components/ui/label.tsx";
+import {Switch} from "@/components/ui/switch.tsx";
+import {type ComponentNode, hookInspector, type InspectedHook, previewValue} from "@/lib/hook-inspector.ts";
+
+interface TreeProps {
+    node: ComponentNode;
+    depth: number;
+    selected: string | null;
+    onlyWithHooks: boolean;
+}
+
+const ComponentTree = ({node, depth, selected, onlyWithHooks}: TreeProps) => {
+    // Hidden components pass their place in the tree on to their children. The demo itself is always shown.
+    if (onlyWithHooks && !node.hasHooks && depth > 0) {
+        return (
+            <>
+                {node.children.map(child => (
+                    <ComponentTree key={child.path} node={child} depth={depth} selected={selected} onlyWithHooks={onlyWithHooks} />
+                ))}
+            </>
+        );
+    }
+
+    return (
+        <li>
+            <button
+                type="button"
+                onClick={() => hookInspector.select(node.path)}
+                aria-current={node.path === selected}
+                className={`w-full rounded px-1 text-left font-mono hover:bg-muted ${node.path === selected ? "bg-teal-100 text-teal-900" : ""}`}
+                style={{paddingLeft: `${depth * 12 + 4}px`}}
+            >
+                {node.name}
+            </button>
+            {node.children.length > 0 && (
+                <ul>
+                    {node.children.map(child => (
+                        <ComponentTree key={child.path} node={child} depth={depth + 1} selected={selected} onlyWithHooks={onlyWithHooks} />
+                    ))}
+                </ul>
+            )}
+        </li>
+    );
+};
+
+const HookList = ({hooks}: { hooks: InspectedHook[] }) => (
+    <ul className="space-y-0.5">
+        {hooks.map((hook, i) => (
+            <li key={i} className="font-mono">
+                {hook.index !== null && <span className="mr-2 text-muted-foreground">{hook.index}</span>}
+                <span className={hook.isCustom ? "font-semibold" : "text-teal-700"}>{hook.name}</span>
+                {(!hook.isCustom || hook.value !== undefined) && (
+                    <span className="break-words">: {previewValue(hook.value)}</span>
+                )}
+                {hook.subHooks.length > 0 && (
+                    <div className="ml-4 border-l pl-2">
+                        <HookList hooks={hook.subHooks} />
+                    </div>
+                )}
+            </li>
+        ))}
+    </ul>
+);
+
+// Subscribed only while the panel is open, since every commit that re-renders the demo runs the selected component again
+const InspectorBody = ({onlyWithHooks}: { onlyWithHooks: boolean }) => {
+    const {tree, selected, props, hooks, error} = useSyncExternalStore(hookInspector.subscribe, hookInspector.getSnapshot);
+
+    if (!tree) {
+        return <p className="px-6 pb-4 text-xs text-muted-foreground">The demo is still loading.</p>;
+    }
+
+    const propEntries = Object.entries(props);
+
+    return (
+        <div className="grid gap-4 px-6 pb-4 text-xs md:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+            <ul className="max-h-72 overflow-auto rounded border p-1" aria-label="Components">
+                <ComponentTree node={tree} depth={0} selected={selected} onlyWithHooks={onlyWithHooks} />
+            </ul>
+
+            <div className="max-h-72 space-y-3 overflow-auto rounded border p-2">
+                {error && <p role="alert" className="text-red-700">{error}</p>}
+                <div>
+                    <h4 className="mb-1 font-medium">Hooks</h4>
+                    {hooks.length === 0 ? <p className="text-muted-foreground">This component calls no hooks.</p> : <HookList hooks={hooks} />}
+                </div>
+                {propEntries.length > 0 && (
+                    <div>
+                        <h4 className="mb-1 font-medium">Props</h4>
+                        <ul className="space-y-0.5">
+                            {propEntries.map(([name, value]) => (
+                                <li key={name} className="break-words font-mono">
+                                    <span className="text-teal-700">{name}</span>: {previewValue(value)}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+                {import.meta.env.PROD && (
+                    <p className="text-muted-foreground">
+                        useDebugValue labels need a development build: production React skips them.
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+// DevTools-style view of the open demo's components and the current values of their hooks
+export default function HookInspector() {
+    const [isOpen, setIsOpen] = useState(false);
+    const [onlyWithHooks, setOnlyWithHooks] = useState(true);
+    const id = useId();
+
+    return (
+        <section className="border-t bg-card" aria-label="Hook inspector">
+            <div className="flex items-center justify-between gap-2 px-6 py-2">
+                <Button variant="ghost" size="sm" onClick={() => setIsOpen(!isOpen)} aria-expanded={isOpen}>
+                    <ScanSearch className="h-4 w-4 mr-2" />
+                    Hook inspector
+                    {isOpen ? <ChevronDown className="h-4 w-4 ml-2" /> : <ChevronUp className="h-4 w-4 ml-2" />}
+                </Button>
+                {isOpen && (
+                    <div className="flex items-center gap-2">
+                        <Switch id={id} checked={onlyWithHooks} onCheckedChange={setOnlyWithHooks} />
+                        <Label htmlFor={id} className="text-xs">Only components with hooks</Label>
+                    </div>
+                )}
+            </div>
+            {isOpen && <InspectorBody onlyWithHooks={onlyWithHooks} />}
+        </section>
+    );
+}
@@ -0,0 +1,221 @@
+import {useEffect, useState, useSyncExternalStore} from "react";
+import {ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Play, Radio, Trash2} from "lucide-react";
+import {Badge} from "@/components/ui/badge.tsx";
+import {Button} from "@/components/ui/button.tsx";
+import type {LifecycleEvent, LifecyclePhase, LifecycleTimeline as Timeline} from "@/lib/lifecycle-timeline.ts";
+
+const tracks = [
+    {label: "Render", phases: ["render"], color: "#3b82f6"},
+    {label: "Commit", phases: ["commit"], color: "#8b5cf6"},
+    {label: "Layout effects", phases: ["layout-cleanup", "layout-effect"], color: "#f59e0b"},
+    {label: "Paint", phases: ["paint"], color: "#10b981"},
+    {label: "Effects", phases: ["cleanup", "effect"], color: "#14b8a6"}
+] satisfies { label: string; phases: LifecyclePhase[]; color: string }[];
+
+const COLUMN = 56;
+const ROW = 36;
+const RADIUS = 7;
+const REPLAY_STEP_MS = 700;
+
+const trackOf = (phase: LifecyclePhase) => tracks.findIndex(track => (track.phases as LifecyclePhase[]).includes(phase));
+const isCleanup = (phase: LifecyclePhase) => phase === "cleanup" || phase === "layout-cleanup";
+
+const describe = (event: LifecycleEvent) => {
+    const effect = event.phase.startsWith("layout") ? "layout effect" : "effect";
+    switch (event.phase) {
+        case "render":
+            return `${event.component} rendered`;
+        case "commit":
+            return event.label === "unmount"
+                ? `${event.component} was removed from the DOM`
+                : `React applied ${event.component}'s DOM changes`;
+        case "paint":
+            return "The browser painted the frame";
+        case "layout-cleanup":
+        case "cleanup":
+            return `${event.component} cleaned up ${effect} "${event.label}" (set up in #${event.undoes})`;
+        default:
+            if (event.changes === null) return `${event.component} ran ${effect} "${event.label}" for the first time`;
+            if (event.changes.length === 0) return `${event.component} ran ${effect} "${event.label}" again, with no dependency change`;
+            return `${event.component} ran ${effect} "${event.label}" because ${event.changes.join(", ")}`;
+    }
+};
+
+interface TrackProps {
+    columns: (LifecycleEvent | null)[];
+    current: LifecycleEvent | undefined;
+}
+
+// One column per event, left to right in the order they happened. A null column is the gap
+// between setups from earlier updates and the update being shown.
+const Tracks = ({columns, current}: TrackProps) => {
+    const x = (column: number) => column * COLUMN + COLUMN / 2;
+    const y = (phase: LifecyclePhase) => trackOf(phase) * ROW + ROW / 2;
+    const columnOf = new Map(columns.flatMap((event, column) => event ? [[event.id, column] as const] : []));
+
+    return (
+        <div className="flex overflow-x-auto">
+            <div className="shrink-0 pr-3 text-xs text-muted-foreground">
+                {tracks.map(track => (
+                    <div key={track.label} className="flex items-center" style={{height: ROW}}>{track.label}</div>
+                ))}
+            </div>
+            <svg width={Math.max(columns.length, 1) * COLUMN} height={tracks.length * ROW} className="shrink-0" role="img" aria-label="Lifecycle tracks">
+                {tracks.map((track, row) => (
+                    <line key={track.label} x1={0} x2="100%" y1={row * ROW + ROW / 2} y2={row * ROW + ROW / 2} stroke="#e5e7eb" />
+                ))}
+
+                {/* Each cleanup is linked to the setup it undoes */}
+                {columns.map((event, column) => {
+                    const setupColumn = event?.undoes != null ? columnOf.get(event.undoes) : undefined;
+                    if (!event || setupColumn === undefined) return null;
+                    const [x1, x2, row] = [x(setupColumn), x(column), y(event.phase)];
+                    return (
+                        <path
+                            key={`link-${event.id}`}
+                            d={`M ${x1} ${row} C ${x1} ${row - ROW * 0.6}, ${x2} ${row - ROW * 0.6}, ${x2} ${row}`}
+                            fill="none"
+                            stroke="#ef4444"
+                            strokeDasharray="3 3"
+                        />
+                    );
+                })}
+
+                {columns.map((event, column) => {
+                    if (!event) {
+                        return <text key="gap" x={x(column)} y={tracks.length * ROW / 2} textAnchor="middle" fill="#9ca3af">…</text>;
+                    }
+                    const {color} = tracks[trackOf(event.phase)];
+                    const cx = x(column);
+                    const cy = y(event.phase);
+                    return (
+                        <g key={event.id}>
+                            <title>{`#${event.id} ${describe(event)}`}</title>
+                            {event.id === current?.id && <circle cx={cx} cy={cy} r={RADIUS + 4} fill="none" stroke="#111827" strokeWidth={2} />}
+                            {event.phase === "commit"
+                                ? <rect x={cx - RADIUS} y={cy - RADIUS} width={RADIUS * 2} height={RADIUS * 2} fill={color} />
+                                : <circle cx={cx} cy={cy} r={RADIUS} fill={isCleanup(event.phase) ? "white" : color} stroke={isCleanup(event.phase) ? "#ef4444" : color} strokeWidth={2} />}
+                            {/* Dependency change marker */}
+                            {event.changes && event.changes.length > 0 && (
+                                <path d={`M ${cx} ${cy - RADIUS - 9} l 4 4 l -4 4 l -4 -4 z`} fill="#f97316" />
+                            )}
+                            <text x={cx} y={cy + RADIUS + 10} textAnchor="middle" fontSize={9} fill="#6b7280">#{event.id}</text>
+                        </g>
+                    );
+                })}
+            </svg>
+        </div>
+    );
+};
+
+// Draws what an instrumented example recorded (see useLifecycleTrace), one update at a time.
+// Stepping or replaying stops following new updates until "Latest" is pressed.
+export default function LifecycleTimeline({timeline}: { timeline: Timeline }) {
+    const events = useSyncExternalStore(timeline.subscribe, timeline.getSnapshot);
+    const [selected, setSelected] = useState<number | null>(null);
+    const [step, setStep] = useState<number | null>(null);
+    const [playing, setPlaying] = useState(false);
+
+    const updates = [...new Set(events.map(event => event.update))];
+    const current = selected !== null && updates.includes(selected) ? selected : updates.at(-1);
+    const position = current === undefined ? -1 : updates.indexOf(current);
+    const updateEvents = events.filter(event => event.update === current);
+    const revealed = Math.min(step ?? updateEvents.length, updateEvents.length);
+    const shown = updateEvents.slice(0, revealed);
+
+    // Setups from earlier updates that this update cleans up are shown first, for context
+    const earlierSetups = events.filter(event =>
+        event.update !== current && shown.some(cleanup => cleanup.undoes === event.id)
+    );
+    const columns = earlierSetups.length > 0 ? [...earlierSetups, null, ...shown] : shown;
+
+    useEffect(() => {
+        if (!playing) return;
+        if (revealed >= updateEvents.length) {
+            setPlaying(false);
+            return;
+        }
+        const timer = setTimeout(() => setStep(revealed + 1), REPLAY_STEP_MS);
+        return () => clearTimeout(timer);
+    }, [playing, revealed, updateEvents.length]);
+
+    const selectUpdate = (index: number) => {
+        setSelected(updates[index]);
+        setStep(null);
+        setPlaying(false);
+    };
+
+    const stepTo = (next: number) => {
+        setSelected(current ?? null);
+        setStep(Math.max(1, Math.min(next, updateEvents.length)));
+        setPlaying(false);
+    };
+
+    const replay = () => {
+        setSelected(current ?? null);
+        setStep(1);
+        setPlaying(true);
+    };
+
+    const follow = () => {
+        setSelected(null);
+        setStep(null);
+        setPlaying(false);
+    };
+
+    return (
+        <div className="space-y-3 rounded-lg border p-4">
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium">Lifecycle timeline</span>
+                <Badge variant="outline">
+                    {position === -1 ? "No updates yet" : `Update ${position + 1} of ${updates.length}`}
+                </Badge>
+                {position !== -1 && <Badge variant="secondary">Step {revealed} of {updateEvents.length}</Badge>}
+                <div className="ml-auto flex flex-wrap gap-1">
+                    <Button size="sm" variant="outline" aria-label="Previous update" disabled={position <= 0} onClick={() => selectUpdate(position - 1)}>
+                        <ChevronsLeft className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" aria-label="Previous step" disabled={revealed <= 1} onClick={() => stepTo(revealed - 1)}>
+                        <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" aria-label="Next step" disabled={revealed >= updateEvents.length} onClick={() => stepTo(revealed + 1)}>
+                        <ChevronRight className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" aria-label="Next update" disabled={position === -1 || position >= updates.length - 1} onClick={() => selectUpdate(position + 1)}>
+                        <ChevronsRight className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" disabled={updateEvents.length === 0 || playing} onClick={replay}>
+                        <Play className="h-4 w-4 mr-1" />
+                        Replay
+                    </Button>
+                    <Button size="sm" variant={selected === null ? "secondary" : "outline"} onClick={follow}>
+                        <Radio className="h-4 w-4 mr-1" />
+                        Latest
+                    </Button>
+                    <Button size="sm" variant="outline" aria-label="Clear timeline" disabled={events.length === 0} onClick={timeline.clear}>
+                        <Trash2 className="h-4 w-4" />
+                    </Button>
+                </div>
+            </div>
+
+            {position === -1 ? (
+                <p className="text-sm text-muted-foreground">Interact with the example to record its lifecycle.</p>
+            ) : (
+                <>
+                    <Tracks columns={columns} current={shown.at(-1)} />
+                    <ol className="space-y-1 text-xs">
+                        {shown.map((event, i) => (
+                            <li key={event.id} className={i === shown.length - 1 ? "font-medium" : "text-muted-foreground"}>
+                                <span className="font-mono">#{event.id}</span> {describe(event)}
+                            </li>
+                        ))}
+                    </ol>
+                </>
+            )}
+            <p className="text-xs text-muted-foreground">
+                Filled markers are setups, hollow ones cleanups (the dashed line leads to the setup they undo), and an
+                orange diamond means a dependency changed. Only renders that commit are drawn; in development, StrictMode still runs mount effects twice.
+            </p>
+        </div>
+    );
+}
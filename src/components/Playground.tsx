@@ -0,0 +1,150 @@
+import {useEffect, useMemo, useRef, useState} from "react";
+import {AlertCircle, FlaskConical, RotateCcw, X} from "lucide-react";
+import {Alert, AlertDescription, AlertTitle} from "@/components/ui/alert.tsx";
+import {Button} from "@/components/ui/button.tsx";
+import {extractRegion} from "@/lib/source-regions.ts";
+import {compile, isPlaygroundMessage, type PlaygroundMessage} from "@/lib/playground.ts";
+
+interface PlaygroundProps {
+    // Raw text of the demo module, imported with Vite's `?raw` suffix, plus any shared
+    // modules (such as the hooks in src/hooks) whose regions seed the editor
+    source: string | string[];
+    // `// #region` names whose code seeds the editor, in the order given
+    regions: string | string[];
+    // Import lines placed above the regions
+    imports: string;
+    // Code placed below the regions; it must `export default` the component to preview
+    preview: string;
+}
+
+interface PlaygroundError {
+    kind: 'compile' | 'runtime';
+    message: string;
+}
+
+// Edits are compiled once typing pauses for this long
+const COMPILE_DELAY = 300;
+
+const frameSrc = `${import.meta.env.BASE_URL}playground.html`;
+
+export default function Playground({source, regions, imports, preview}: PlaygroundProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const names = typeof regions === 'string' ? [regions] : regions;
+    const key = names.join(',');
+
+    const initialCode = useMemo(
+        () => [
+            imports,
+            ...key.split(',').map(name => extractRegion(source, name) ?? `// Source region "${name}" not found`),
+            preview
+        ].join('\n\n'),
+        [source, key, imports, preview]
+    );
+
+    const [code, setCode] = useState(initialCode);
+    const [error, setError] = useState<PlaygroundError | null>(null);
+    // Bumped each time the frame (re)loads, so the current code is sent to every fresh frame
+    const [frameLoads, setFrameLoads] = useState(0);
+    const frameRef = useRef<HTMLIFrameElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const handleMessage = (event: MessageEvent) => {
+            if (event.source !== frameRef.current?.contentWindow || !isPlaygroundMessage(event.data)) return;
+
+            if (event.data.type === 'ready') {
+                setFrameLoads(loads => loads + 1);
+            } else if (event.data.type === 'error') {
+                setError({kind: 'runtime', message: event.data.message});
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, [isOpen]);
+
+    useEffect(() => {
+        if (!isOpen || frameLoads === 0) return;
+
+        let cancelled = false;
+        const timeout = setTimeout(async () => {
+            const result = await compile(code);
+            if (cancelled) return;
+
+            if (!result.ok) {
+                setError({kind: 'compile', message: result.error});
+                return;
+            }
+            setError(null);
+            const message: PlaygroundMessage = {type: 'run', code: result.code};
+            // The sandboxed frame has an opaque origin, so it can't be addressed by origin
+            frameRef.current?.contentWindow?.postMessage(message, '*');
+        }, COMPILE_DELAY);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timeout);
+        };
+    }, [isOpen, code, frameLoads]);
+
+    const close = () => {
+        setIsOpen(false);
+        setFrameLoads(0);
+        setError(null);
+    };
+
+    if (!isOpen) {
+        return (
+            <Button variant="outline" size="sm" className="mt-4" onClick={() => setIsOpen(true)}>
+                <FlaskConical className="h-4 w-4 mr-2" />
+                Open playground
+            </Button>
+        );
+    }
+
+    return (
+        <div className="mt-4 space-y-3 rounded-lg border p-3">
+            <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">Playground</span>
+                <div className="flex gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setCode(initialCode)} disabled={code === initialCode}>
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Reset
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={close} aria-label="Close playground">
+                        <X className="h-4 w-4" />
+                    </Button>
+                </div>
+            </div>
+
+            <div className="grid gap-3 lg:grid-cols-2">
+                <textarea
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    spellCheck={false}
+                    aria-label="Playground code"
+                    className="bg-muted h-80 w-full resize-y rounded-md border p-3 font-mono text-xs leading-5 outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                />
+                <iframe
+                    ref={frameRef}
+                    src={frameSrc}
+                    // No allow-same-origin: the preview can run scripts but can't touch this page
+                    sandbox="allow-scripts"
+                    title="Playground preview"
+                    className="h-80 w-full rounded-md border bg-white"
+                />
+            </div>
+
+            {error && (
+                <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertTitle>{error.kind === 'compile' ? 'Compile error' : 'Runtime error'}</AlertTitle>
+                    <AlertDescription>
+                        <pre className="whitespace-pre-wrap font-mono text-xs">{error.message}</pre>
+                    </AlertDescription>
+                </Alert>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,45 @@
+import {useState} from "react";
+import {screen} from "@testing-library/react";
+import {describe, expect, it} from "vitest";
+import ProfiledSection from "@/components/ProfiledSection.tsx";
+import {profilerTimeline} from "@/lib/profiler-timeline.ts";
+import {renderWithUser} from "@/test/render.tsx";
+
+const Counter = ({label}: { label: string }) => {
+    const [count, setCount] = useState(0);
+    return <button onClick={() => setCount(count + 1)}>{label} {count}</button>;
+};
+
+const Parent = () => {
+    const [count, setCount] = useState(0);
+    return (
+        <>
+            <button onClick={() => setCount(count + 1)}>Parent {count}</button>
+            <ProfiledSection id="Section">
+                <Counter label="Child" />
+            </ProfiledSection>
+        </>
+    );
+};
+
+const lastSection = () => profilerTimeline.getSnapshot().at(-1)?.sections[0];
+
+describe("ProfiledSection", () => {
+    it("marks the section as the trigger when its own state changes", async () => {
+        const {user} = renderWithUser(<Parent />);
+        expect(lastSection()).toMatchObject({section: "Section", phase: "mount", triggered: false});
+
+        await user.click(screen.getByRole("button", {name: "Child 0"}));
+        expect(lastSection()).toMatchObject({phase: "update", triggered: true});
+    });
+
+    it("does not mark the section when its parent re-renders it", async () => {
+        const {user} = renderWithUser(<Parent />);
+
+        await user.click(screen.getByRole("button", {name: "Parent 0"}));
+        expect(lastSection()).toMatchObject({phase: "update", triggered: false});
+
+        await user.click(screen.getByRole("button", {name: "Child 0"}));
+        expect(lastSection()).toMatchObject({phase: "update", triggered: true});
+    });
+});
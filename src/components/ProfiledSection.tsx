@@ -0,0 +1,30 @@
+import {Profiler, useRef, type ProfilerOnRenderCallback, type ReactNode} from "react";
+import {profilerTimeline} from "@/lib/profiler-timeline.ts";
+
+interface ProfiledSectionProps {
+    // Shown in the Profiler timeline for every commit this section renders in. Hook ids are
+    // reserved for the demo-level profiler in App.
+    id: string;
+    // Wrap the component that owns the section's state and does its work, so the measured time
+    // includes that work
+    children: ReactNode;
+}
+
+export default function ProfiledSection({id, children}: ProfiledSectionProps) {
+    const lastOnRender = useRef<ProfilerOnRenderCallback | null>(null);
+
+    // A new callback is created whenever this component renders, which it only does along with its
+    // parent. A commit that reports through the same callback as the last one therefore started
+    // inside the section: its own state changed.
+    const onRender: ProfilerOnRenderCallback = (profilerId, phase, actualDuration, baseDuration, startTime, commitTime) => {
+        const triggered = phase !== "mount" && lastOnRender.current === onRender;
+        lastOnRender.current = onRender;
+        profilerTimeline.onSectionRender({section: profilerId, phase, actualDuration, baseDuration, triggered}, commitTime, startTime);
+    };
+
+    return (
+        <Profiler id={id} onRender={onRender}>
+            {children}
+        </Profiler>
+    );
+}
@@ -0,0 +1,111 @@
+import {useState, useSyncExternalStore} from "react";
+import {Activity, ChevronDown, ChevronUp, Download, Trash2} from "lucide-react";
+import {Badge} from "@/components/ui/badge.tsx";
+import {Button} from "@/components/ui/button.tsx";
+import {type CommitRecord, profilerTimeline} from "@/lib/profiler-timeline.ts";
+import {getHook, isHookType} from "@/lib/registry.ts";
+
+const ms = (duration: number) => `${duration.toFixed(2)}ms`;
+
+const exportJson = () => {
+    const url = URL.createObjectURL(new Blob([profilerTimeline.toJSON()], {type: "application/json"}));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "profiler-timeline.json";
+    link.click();
+    // Firefox and Safari start the download asynchronously, so the URL has to outlive this task
+    setTimeout(() => URL.revokeObjectURL(url));
+};
+
+const CommitRow = ({commit, longest}: { commit: CommitRecord; longest: number }) => {
+    const demo = isHookType(commit.demo) ? getHook(commit.demo).name : commit.demo;
+
+    return (
+        <tr className="border-t align-top">
+            <td className="py-1 pr-3 font-mono text-muted-foreground">#{commit.commit}</td>
+            <td className="py-1 pr-3">
+                <Badge variant={commit.phase === "mount" ? "default" : "outline"}>{commit.phase}</Badge>
+            </td>
+            <td className="py-1 pr-3 font-mono">
+                <div>{ms(commit.actualDuration)} / {ms(commit.baseDuration)}</div>
+                {/* Actual time against the longest commit recorded, with the base time behind it */}
+                <div className="relative mt-1 h-1.5 w-32 rounded bg-muted">
+                    <div
+                        className="absolute inset-y-0 left-0 rounded bg-teal-200"
+                        style={{width: `${Math.min(100, commit.baseDuration / longest * 100)}%`}}
+                    />
+                    <div
+                        className="absolute inset-y-0 left-0 rounded bg-teal-600"
+                        style={{width: `${Math.min(100, commit.actualDuration / longest * 100)}%`}}
+                    />
+                </div>
+            </td>
+            <td className="py-1 pr-3">
+                <div>{demo} <span className="text-muted-foreground">› {commit.tab}</span></div>
+                {commit.sections.map(({section, actualDuration, triggered}) => (
+                    <div key={section} className="text-muted-foreground">
+                        {section} <span className="font-mono">({ms(actualDuration)})</span>
+                        {triggered && <Badge variant="secondary" className="ml-1">trigger</Badge>}
+                    </div>
+                ))}
+            </td>
+        </tr>
+    );
+};
+
+// Collapsible list of the commits recorded by the demo's <Profiler> and any <ProfiledSection>s in it
+export default function ProfilerTimeline() {
+    const commits = useSyncExternalStore(profilerTimeline.subscribe, profilerTimeline.getSnapshot);
+    const [isOpen, setIsOpen] = useState(false);
+    const longest = Math.max(0.01, ...commits.map(commit => Math.max(commit.actualDuration, commit.baseDuration)));
+
+    return (
+        <section className="border-t bg-card" aria-label="Profiler timeline">
+            <div className="flex items-center justify-between gap-2 px-6 py-2">
+                <Button variant="ghost" size="sm" onClick={() => setIsOpen(!isOpen)} aria-expanded={isOpen}>
+                    <Activity className="h-4 w-4 mr-2" />
+                    Profiler timeline
+                    <Badge variant="secondary" className="ml-2">{commits.length} commits</Badge>
+                    {isOpen ? <ChevronDown className="h-4 w-4 ml-2" /> : <ChevronUp className="h-4 w-4 ml-2" />}
+                </Button>
+                {isOpen && (
+                    <div className="flex gap-2">
+                        <Button variant="outline" size="sm" onClick={profilerTimeline.clear} disabled={commits.length === 0}>
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            Clear
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={exportJson} disabled={commits.length === 0}>
+                            <Download className="h-4 w-4 mr-2" />
+                            Export JSON
+                        </Button>
+                    </div>
+                )}
+            </div>
+
+            {isOpen && (
+                <div className="max-h-64 overflow-auto px-6 pb-4 text-xs">
+                    {commits.length === 0 ? (
+                        <p className="text-muted-foreground">Interact with a demo to record its commits.</p>
+                    ) : (
+                        <table className="w-full text-left">
+                            <thead className="text-muted-foreground">
+                                <tr>
+                                    <th className="py-1 pr-3 font-medium">Commit</th>
+                                    <th className="py-1 pr-3 font-medium">Phase</th>
+                                    <th className="py-1 pr-3 font-medium">Actual / base</th>
+                                    <th className="py-1 pr-3 font-medium">Demo › tab, sections</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {/* Newest first */}
+                                {[...commits].reverse().map(commit => (
+                                    <CommitRow key={commit.commit} commit={commit} longest={longest} />
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            )}
+        </section>
+    );
+}
@@ -0,0 +1,179 @@
+import {useEffect, useId, useState} from "react";
+import {ChevronLeft, ChevronRight, ChevronsRight, History, RotateCcw, Trash2} from "lucide-react";
+import {Badge} from "@/components/ui/badge.tsx";
+import {Button} from "@/components/ui/button.tsx";
+import {Label} from "@/components/ui/label.tsx";
+import type {ReducerInspector} from "@/hooks/useInspectableReducer.ts";
+import {previewValue} from "@/lib/hook-inspector.ts";
+import {diffStates} from "@/lib/state-diff.ts";
+
+const REPLAY_STEP_MS = 600;
+
+const actionType = (action: unknown) =>
+    typeof action === "object" && action !== null && "type" in action ? String(action.type) : previewValue(action);
+
+const actionPayload = (action: unknown) => {
+    if (typeof action !== "object" || action === null) return null;
+    const rest = Object.fromEntries(Object.entries(action).filter(([key]) => key !== "type"));
+    return Object.keys(rest).length > 0 ? previewValue(rest) : null;
+};
+
+const formatTime = (time: number) =>
+    new Date(time).toLocaleTimeString([], {hour12: false, minute: "2-digit", second: "2-digit"});
+
+// Time-travel panel for a reducer wrapped in useInspectableReducer. Moving the cursor changes the
+// state the example renders, so scrubbing replays the UI as well as the data.
+export default function ReducerDebugger({inspector}: { inspector: ReducerInspector<unknown, unknown> }) {
+    const {entries, cursor, jumpTo, replay, clear} = inspector;
+    const [playing, setPlaying] = useState(false);
+    const [showState, setShowState] = useState(false);
+    const id = useId();
+
+    // A replay rewinds to the initial state, then applies the recorded actions one at a time
+    useEffect(() => {
+        if (!playing) return;
+        if (cursor >= entries.length) {
+            setPlaying(false);
+            return;
+        }
+        const timer = setTimeout(() => jumpTo(cursor + 1), REPLAY_STEP_MS);
+        return () => clearTimeout(timer);
+    }, [playing, cursor, entries.length, jumpTo]);
+
+    const step = (next: number) => {
+        setPlaying(false);
+        jumpTo(next);
+    };
+
+    const startReplay = () => {
+        replay();
+        setPlaying(true);
+    };
+
+    const clearHistory = () => {
+        setPlaying(false);
+        clear();
+    };
+
+    const current = cursor > 0 ? entries[cursor - 1] : null;
+    const changes = current ? diffStates(current.before, current.after) : [];
+    const state = current ? current.after : inspector.initialState;
+    const replayed = entries.filter(entry => entry.replayed !== null);
+    const differing = replayed.filter(entry => entry.replayed === "different").length;
+
+    return (
+        <div className="mt-4 space-y-3 rounded-lg border p-4">
+            <div className="flex flex-wrap items-center gap-2">
+                <History className="h-4 w-4" />
+                <span className="text-sm font-medium">Time-travel debugger</span>
+                <Badge variant="outline">{cursor} of {entries.length} actions applied</Badge>
+                {cursor < entries.length && !playing && <Badge variant="secondary">Viewing the past</Badge>}
+                <div className="ml-auto flex flex-wrap gap-1">
+                    <Button size="sm" variant="outline" aria-label="Step back" disabled={cursor === 0} onClick={() => step(cursor - 1)}>
+                        <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" aria-label="Step forward" disabled={cursor >= entries.length} onClick={() => step(cursor + 1)}>
+                        <ChevronRight className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" aria-label="Jump to latest" disabled={cursor >= entries.length} onClick={() => step(entries.length)}>
+                        <ChevronsRight className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" disabled={entries.length === 0 || playing} onClick={startReplay}>
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Replay from scratch
+                    </Button>
+                    <Button size="sm" variant="outline" aria-label="Clear history" disabled={entries.length === 0} onClick={clearHistory}>
+                        <Trash2 className="h-4 w-4" />
+                    </Button>
+                </div>
+            </div>
+
+            {entries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Use the example above; every action it dispatches is recorded here.</p>
+            ) : (
+                <>
+                    <input
+                        type="range"
+                        min={0}
+                        max={entries.length}
+                        value={cursor}
+                        onChange={(e) => step(Number(e.target.value))}
+                        aria-label="Scrub through history"
+                        className="w-full accent-teal-600"
+                    />
+
+                    <div className="grid gap-4 text-xs md:grid-cols-2">
+                        <ol className="max-h-56 space-y-0.5 overflow-auto rounded border p-1" aria-label="Actions">
+                            <li>
+                                <button
+                                    type="button"
+                                    onClick={() => step(0)}
+                                    aria-current={cursor === 0}
+                                    className={`w-full rounded px-2 py-0.5 text-left font-mono hover:bg-muted ${cursor === 0 ? "bg-teal-100 text-teal-900" : ""}`}
+                                >
+                                    Initial state
+                                </button>
+                            </li>
+                            {entries.map((entry, i) => (
+                                <li key={i}>
+                                    <button
+                                        type="button"
+                                        onClick={() => step(i + 1)}
+                                        aria-current={cursor === i + 1}
+                                        className={`flex w-full items-center gap-2 rounded px-2 py-0.5 text-left font-mono hover:bg-muted ${cursor === i + 1 ? "bg-teal-100 text-teal-900" : ""} ${i >= cursor ? "opacity-50" : ""}`}
+                                    >
+                                        <span className="text-muted-foreground">{i + 1}</span>
+                                        <span className="font-semibold">{actionType(entry.action)}</span>
+                                        {entry.replayed === "same" && <span className="text-green-700" title="Replay produced the same state">✓</span>}
+                                        {entry.replayed === "different" && <span className="text-red-700" title="Replay produced a different state">≠</span>}
+                                        <span className="ml-auto text-muted-foreground">{formatTime(entry.time)}</span>
+                                    </button>
+                                </li>
+                            ))}
+                        </ol>
+
+                        <div className="max-h-56 space-y-2 overflow-auto rounded border p-2">
+                            {current ? (
+                                <>
+                                    <p className="font-mono">
+                                        <span className="font-semibold">{actionType(current.action)}</span>
+                                        {actionPayload(current.action) && <span className="text-muted-foreground"> {actionPayload(current.action)}</span>}
+                                    </p>
+                                    {changes.length === 0 ? (
+                                        <p className="text-muted-foreground">The reducer returned the state unchanged.</p>
+                                    ) : (
+                                        <ul className="space-y-0.5" aria-label="State changes">
+                                            {changes.map(change => (
+                                                <li key={change.path} className="break-words font-mono">
+                                                    <span className="text-teal-700">{change.path || "state"}</span>:{" "}
+                                                    {change.kind !== "added" && <span className="text-red-700 line-through">{previewValue(change.before)}</span>}
+                                                    {change.kind === "changed" && " → "}
+                                                    {change.kind !== "removed" && <span className="text-green-700">{previewValue(change.after)}</span>}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </>
+                            ) : (
+                                <p className="text-muted-foreground">Showing the initial state, before any action.</p>
+                            )}
+                            <div className="flex items-center gap-2 pt-1">
+                                <input id={id} type="checkbox" checked={showState} onChange={(e) => setShowState(e.target.checked)} />
+                                <Label htmlFor={id} className="text-xs">Show full state</Label>
+                            </div>
+                            {showState && <pre className="whitespace-pre-wrap break-words font-mono">{JSON.stringify(state, null, 2)}</pre>}
+                        </div>
+                    </div>
+
+                    {replayed.length > 0 && !playing && (
+                        <p className="text-xs text-muted-foreground">
+                            {differing === 0
+                                ? `Replaying all ${replayed.length} actions from the initial state produced the same states again: the reducer is pure.`
+                                : `${differing} of ${replayed.length} replayed actions produced a different state, so the reducer depends on something besides its state and action.`}
+                        </p>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
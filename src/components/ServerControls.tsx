@@ -0,0 +1,53 @@
+import {useId, useSyncExternalStore} from "react";
+import {Server, Zap} from "lucide-react";
+import {Button} from "@/components/ui/button.tsx";
+import {Input} from "@/components/ui/input.tsx";
+import {Label} from "@/components/ui/label.tsx";
+import {serverSettings} from "@/lib/fake-server.ts";
+
+// Latency and failure settings for the fake server; shared by every demo that calls it
+export default function ServerControls() {
+    const {latency, failureRate, failNext} = useSyncExternalStore(serverSettings.subscribe, serverSettings.getSnapshot);
+    const id = useId();
+
+    return (
+        <div className="flex flex-wrap items-end gap-6 rounded-lg border border-dashed p-4">
+            <div className="flex items-center gap-2 text-sm font-medium">
+                <Server className="h-4 w-4" />
+                Fake server
+            </div>
+            <div className="space-y-1">
+                <Label htmlFor={`${id}-latency`}>Latency: {latency}ms</Label>
+                <Input
+                    id={`${id}-latency`}
+                    type="range"
+                    min="0"
+                    max="3000"
+                    step="100"
+                    value={latency}
+                    onChange={(e) => serverSettings.update({latency: parseInt(e.target.value)})}
+                />
+            </div>
+            <div className="space-y-1">
+                <Label htmlFor={`${id}-failure-rate`}>Failure rate: {Math.round(failureRate * 100)}%</Label>
+                <Input
+                    id={`${id}-failure-rate`}
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.1"
+                    value={failureRate}
+                    onChange={(e) => serverSettings.update({failureRate: parseFloat(e.target.value)})}
+                />
+            </div>
+            <Button
+                size="sm"
+                variant={failNext ? "destructive" : "outline"}
+                onClick={() => serverSettings.update({failNext: !failNext})}
+            >
+                <Zap className="h-4 w-4 mr-2" />
+                {failNext ? "Next request will fail" : "Fail next request"}
+            </Button>
+        </div>
+    );
+}
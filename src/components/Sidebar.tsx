@@ -1,4 +1,4 @@
-import type {HookType} from "@/App.tsx";
+import {hooks, type HookCategory, type HookType} from "@/lib/registry.ts";
 import {cn} from "@/lib/utils.ts";
 import {Button} from "@/components/ui/button.tsx";
 import {Badge} from "@/components/ui/badge.tsx";
@@ -12,77 +12,7 @@ interface SidebarProps {
     onClose: () => void;
 }
 
-interface HookInfo {
-    id: HookType;
-    name: string;
-    description: string;
-    category: 'Basic' | 'Advanced' | 'Performance';
-}
-
-const hooks: HookInfo[] = [
-    {
-        id: 'useState',
-        name: 'useState',
-        description: 'Manage component state',
-        category: 'Basic'
-    },
-    {
-        id: 'useEffect',
-        name: 'useEffect',
-        description: 'Handle side effects',
-        category: 'Basic'
-    },
-    {
-        id: 'useContext',
-        name: 'useContext',
-        description: 'Access React context',
-        category: 'Basic'
-    },
-    {
-        id: 'useReducer',
-        name: 'useReducer',
-        description: 'Complex state management',
-        category: 'Advanced'
-    },
-    {
-        id: 'useCallback',
-        name: 'useCallback',
-        description: 'Memoize callbacks',
-        category: 'Performance'
-    },
-    {
-        id: 'useMemo',
-        name: 'useMemo',
-        description: 'Memoize expensive calculations',
-        category: 'Performance'
-    },
-    {
-        id: 'useRef',
-        name: 'useRef',
-        description: 'Access DOM elements',
-        category: 'Advanced'
-    },
-    {
-        id: 'useImperativeHandle',
-        name: 'useImperativeHandle',
-        description: 'Customize ref exposure',
-        category: 'Advanced'
-    },
-    {
-        id: 'useLayoutEffect',
-        name: 'useLayoutEffect',
-        description: 'Synchronous effects',
-        category: 'Advanced'
-    },
-    {
-        id: 'useDebugValue',
-        name: 'useDebugValue',
-        description: 'Display debug info',
-        category: 'Advanced'
-    }
-];
-
-const getCategoryColor = (category: string) => {
+const getCategoryColor = (category: HookCategory) => {
     switch (category) {
         case 'Basic':
             return 'bg-green-100 text-green-800 hover:bg-green-200'
@@ -90,6 +20,10 @@ const getCategoryColor = (category: string) => {
             return 'bg-blue-100 text-blue-800 hover:bg-blue-200'
         case 'Performance':
             return 'bg-purple-100 text-purple-800 hover:bg-purple-200'
+        case 'Actions':
+            return 'bg-orange-100 text-orange-800 hover:bg-orange-200'
+        case 'Patterns':
+            return 'bg-teal-100 text-teal-800 hover:bg-teal-200'
         default:
             return 'bg-gray-100 text-gray-800 hover:bg-gray-200'
     }
@@ -0,0 +1,96 @@
+import {useId} from "react";
+import {AlertTriangle, Star} from "lucide-react";
+import {Badge} from "@/components/ui/badge.tsx";
+import {Button} from "@/components/ui/button.tsx";
+import {Input} from "@/components/ui/input.tsx";
+import {Label} from "@/components/ui/label.tsx";
+import {useLocalStorage} from "@/hooks/useLocalStorage.ts";
+import {
+    defaultProfile,
+    FAVORITES_KEY,
+    favoritesSerializer,
+    parseProfile,
+    PROFILE_COLORS,
+    PROFILE_KEY
+} from "@/lib/synced-profile.ts";
+
+const favoriteOptions = ['useState', 'useEffect', 'useMemo', 'use'];
+
+const colorClasses = {
+    blue: 'bg-blue-500',
+    green: 'bg-green-500',
+    purple: 'bg-purple-500',
+    orange: 'bg-orange-500'
+};
+
+// Rendered by storage-sync.html. The Custom Hooks page embeds that page twice, and because both
+// frames share this origin's localStorage, a change in one arrives in the other as a `storage` event.
+// #region StorageSyncFrame
+export default function StorageSyncFrame({name}: { name: string }) {
+    const id = useId();
+    const [profile, setProfile, {error}] = useLocalStorage(PROFILE_KEY, defaultProfile, {validate: parseProfile});
+    const [favorites, setFavorites] = useLocalStorage(FAVORITES_KEY, new Set<string>(), favoritesSerializer);
+
+    const toggleFavorite = (hook: string) => {
+        setFavorites(current => {
+            const next = new Set(current);
+            if (!next.delete(hook)) next.add(hook);
+            return next;
+        });
+    };
+
+    return (
+        <div className="space-y-4 text-sm">
+            <div className="flex items-center gap-2">
+                <span className={`h-3 w-3 rounded-full ${colorClasses[profile.color]}`} />
+                <span className="font-medium">Frame {name}</span>
+                <Badge variant="outline" className="font-mono">v{profile.version}</Badge>
+            </div>
+
+            {error && (
+                <p role="alert" className="flex items-start gap-2 text-red-700">
+                    <AlertTriangle className="h-4 w-4 shrink-0" />
+                    {error.message}. Showing the default profile.
+                </p>
+            )}
+
+            <div className="space-y-2">
+                <Label htmlFor={`${id}-name`}>Name</Label>
+                <Input
+                    id={`${id}-name`}
+                    value={profile.name}
+                    onChange={(e) => setProfile(current => ({...current, name: e.target.value}))}
+                />
+            </div>
+
+            <div className="flex gap-2" role="group" aria-label="Color">
+                {PROFILE_COLORS.map(color => (
+                    <button
+                        key={color}
+                        type="button"
+                        aria-label={color}
+                        aria-pressed={profile.color === color}
+                        onClick={() => setProfile(current => ({...current, color}))}
+                        className={`h-6 w-6 rounded-full ${colorClasses[color]} ${profile.color === color ? 'ring-2 ring-offset-2 ring-black' : ''}`}
+                    />
+                ))}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+                {favoriteOptions.map(hook => (
+                    <Button
+                        key={hook}
+                        size="sm"
+                        variant={favorites.has(hook) ? 'default' : 'outline'}
+                        aria-pressed={favorites.has(hook)}
+                        onClick={() => toggleFavorite(hook)}
+                    >
+                        <Star className="h-3 w-3 mr-1" />
+                        {hook}
+                    </Button>
+                ))}
+            </div>
+        </div>
+    );
+}
+// #endregion StorageSyncFrame
@@ -0,0 +1,47 @@
+import {useMemo, useState} from "react";
+import {AlertCircle, Code2, EyeOff} from "lucide-react";
+import {Alert, AlertDescription, AlertTitle} from "@/components/ui/alert.tsx";
+import {Button} from "@/components/ui/button.tsx";
+import {CodeBlock} from "@/components/ui/code-block.tsx";
+import {extractRegion} from "@/lib/source-regions.ts";
+
+interface ViewSourceProps {
+    // Raw text of the demo module, imported with Vite's `?raw` suffix, plus any shared
+    // modules (such as the hooks in src/hooks) whose regions it shows
+    source: string | string[];
+    // One or more `// #region` names, shown in the order given
+    regions: string | string[];
+}
+
+export default function ViewSource({source, regions}: ViewSourceProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const names = typeof regions === 'string' ? [regions] : regions;
+    const key = names.join(',');
+
+    const {code, missing} = useMemo(() => {
+        const regions = isOpen ? key.split(',').map(name => ({name, code: extractRegion(source, name)})) : [];
+        return {
+            code: regions.flatMap(region => region.code ?? []).join('\n\n'),
+            missing: regions.filter(region => region.code === null).map(region => region.name)
+        };
+    }, [isOpen, source, key]);
+
+    return (
+        <div className="mt-4 space-y-2">
+            <Button variant="ghost" size="sm" onClick={() => setIsOpen(!isOpen)}>
+                {isOpen ? <EyeOff className="h-4 w-4 mr-2" /> : <Code2 className="h-4 w-4 mr-2" />}
+                {isOpen ? 'Hide source' : 'View source'}
+            </Button>
+            {missing.length > 0 && (
+                <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertTitle>Source region not found</AlertTitle>
+                    <AlertDescription>
+                        No module defines {missing.map(name => `"${name}"`).join(', ')}.
+                    </AlertDescription>
+                </Alert>
+            )}
+            {isOpen && code && <CodeBlock code={code} />}
+        </div>
+    );
+}
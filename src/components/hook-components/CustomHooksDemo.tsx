@@ -0,0 +1,758 @@
+import { useId, useState, type ComponentType } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { CodeBlock } from '@/components/ui/code-block'
+import ViewSource from '@/components/ViewSource'
+import { useRouteTab } from '@/hooks/useRoute'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { Switch } from '@/components/ui/switch'
+import {
+    Activity,
+    Database,
+    Globe,
+    HardDrive,
+    Minus,
+    Moon,
+    MonitorSmartphone,
+    Plus,
+    Search,
+    Settings,
+    ShoppingBag,
+    ShoppingCart,
+    Sun,
+    Timer,
+    User,
+    UserCircle,
+    Wifi,
+    WifiOff,
+    type LucideIcon
+} from 'lucide-react'
+import { CartProvider, SettingsProvider, ThemeProvider, UserProvider } from '@/components/ContextProviders'
+import { useCart } from '@/hooks/useCart'
+import { useCounter } from '@/hooks/useCounter'
+import { useFetch } from '@/hooks/useFetch'
+import { useLocalStorage, writeLocalStorage, type LocalStorageError } from '@/hooks/useLocalStorage'
+import { useOnlineStatus } from '@/hooks/useOnlineStatus'
+import { useSearch } from '@/hooks/useSearch'
+import { useSettings } from '@/hooks/useSettings'
+import { useShoppingCart } from '@/hooks/useShoppingCart'
+import { useTheme } from '@/hooks/useTheme'
+import { useTimer } from '@/hooks/useTimer'
+import { useUser } from '@/hooks/useUser'
+import { useUserProfile } from '@/hooks/useUserProfile'
+import { getTabIds, hooks, type HookInfo, type HookTabId } from '@/lib/registry'
+import { defaultProfile, parseProfile, PROFILE_KEY } from '@/lib/synced-profile'
+import demoSource from '@/components/hook-components/CustomHooksDemo.tsx?raw'
+import providersSource from '@/components/ContextProviders.tsx?raw'
+import storageSyncFrameSource from '@/components/StorageSyncFrame.tsx?raw'
+import syncedProfileSource from '@/lib/synced-profile.ts?raw'
+import themeContextSource from '@/lib/theme-context.ts?raw'
+import userContextSource from '@/lib/user-context.ts?raw'
+import settingsContextSource from '@/lib/settings-context.ts?raw'
+import cartContextSource from '@/lib/cart-context.ts?raw'
+import useCartSource from '@/hooks/useCart.ts?raw'
+import useCounterSource from '@/hooks/useCounter.ts?raw'
+import useFetchSource from '@/hooks/useFetch.ts?raw'
+import useLocalStorageSource from '@/hooks/useLocalStorage.ts?raw'
+import useOnlineStatusSource from '@/hooks/useOnlineStatus.ts?raw'
+import useSearchSource from '@/hooks/useSearch.ts?raw'
+import useSettingsSource from '@/hooks/useSettings.ts?raw'
+import useShoppingCartSource from '@/hooks/useShoppingCart.ts?raw'
+import useThemeSource from '@/hooks/useTheme.ts?raw'
+import useTimerSource from '@/hooks/useTimer.ts?raw'
+import useUserSource from '@/hooks/useUser.ts?raw'
+import useUserProfileSource from '@/hooks/useUserProfile.ts?raw'
+
+const sources = [
+    demoSource,
+    providersSource,
+    storageSyncFrameSource,
+    syncedProfileSource,
+    themeContextSource,
+    userContextSource,
+    settingsContextSource,
+    cartContextSource,
+    useCartSource,
+    useCounterSource,
+    useFetchSource,
+    useLocalStorageSource,
+    useOnlineStatusSource,
+    useSearchSource,
+    useSettingsSource,
+    useShoppingCartSource,
+    useThemeSource,
+    useTimerSource,
+    useUserSource,
+    useUserProfileSource
+]
+
+// State and timers
+// #region CounterExample
+const CounterExample = () => {
+    const { count, increment, decrement, reset } = useCounter(10)
+
+    return (
+        <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={decrement} aria-label="Decrement">
+                <Minus className="h-4 w-4" />
+            </Button>
+            <span className="w-12 text-center text-2xl font-bold">{count}</span>
+            <Button variant="outline" size="sm" onClick={increment} aria-label="Increment">
+                <Plus className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={reset}>Reset to 10</Button>
+        </div>
+    )
+}
+// #endregion CounterExample
+
+// #region TimerExample
+const TimerExample = () => {
+    const { timeLeft, isRunning, start, pause, reset } = useTimer(10)
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center gap-3">
+                <span className="w-12 text-2xl font-bold">{timeLeft}s</span>
+                <Progress value={((10 - timeLeft) / 10) * 100} className="flex-1" />
+            </div>
+            <div className="flex gap-2">
+                <Button size="sm" onClick={start} disabled={isRunning || timeLeft === 0}>Start</Button>
+                <Button size="sm" variant="outline" onClick={pause} disabled={!isRunning}>Pause</Button>
+                <Button size="sm" variant="outline" onClick={reset}>Reset</Button>
+            </div>
+        </div>
+    )
+}
+// #endregion TimerExample
+
+// #region ShoppingCartExample
+const products = [
+    { id: 'mug', name: 'Hooks Mug', price: 12 },
+    { id: 'shirt', name: 'React T-Shirt', price: 25 }
+]
+
+const ShoppingCartExample = () => {
+    const { items, totalItems, totalPrice, addItem, removeItem, clear } = useShoppingCart()
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+                {products.map(product => (
+                    <Button key={product.id} size="sm" variant="outline" onClick={() => addItem(product)}>
+                        <Plus className="h-4 w-4 mr-2" />
+                        {product.name} (${product.price})
+                    </Button>
+                ))}
+            </div>
+            <ul className="space-y-1 text-sm">
+                {items.map(item => (
+                    <li key={item.id} className="flex items-center justify-between">
+                        <span>{item.name} x{item.quantity}</span>
+                        <Button size="sm" variant="ghost" onClick={() => removeItem(item.id)}>Remove</Button>
+                    </li>
+                ))}
+            </ul>
+            <div className="flex items-center justify-between text-sm font-medium">
+                <span>{totalItems} items · ${totalPrice.toFixed(2)}</span>
+                <Button size="sm" variant="ghost" onClick={clear} disabled={items.length === 0}>Clear</Button>
+            </div>
+        </div>
+    )
+}
+// #endregion ShoppingCartExample
+
+// #region SearchExample
+// Defined outside the component so useSearch's memo isn't invalidated on every render
+const matchesHook = (hook: HookInfo, term: string) =>
+    hook.name.toLowerCase().includes(term.toLowerCase()) ||
+    hook.description.toLowerCase().includes(term.toLowerCase())
+
+const SearchExample = () => {
+    const id = useId()
+    const [searchTerm, setSearchTerm] = useState('')
+    const { results, isSearching } = useSearch(hooks, searchTerm, matchesHook)
+
+    return (
+        <div className="space-y-3">
+            <Label htmlFor={id}>Search this app's pages</Label>
+            <Input id={id} value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} placeholder="e.g. effect" />
+            <p className="text-sm text-muted-foreground">
+                {isSearching ? 'Searching...' : `${results.length} of ${hooks.length} pages`}
+            </p>
+            <div className="flex flex-wrap gap-1">
+                {results.map(hook => (
+                    <Badge key={hook.id} variant="secondary" className="font-mono">{hook.name}</Badge>
+                ))}
+            </div>
+        </div>
+    )
+}
+// #endregion SearchExample
+
+// Data and browser APIs
+// #region FetchExample
+const FetchExample = () => {
+    const id = useId()
+    const [url, setUrl] = useState('/api/hooks')
+    const [enabled, setEnabled] = useState(true)
+    const { data, loading, error } = useFetch<{ message: string; timestamp: string }>(url, enabled)
+
+    return (
+        <div className="space-y-3">
+            <div className="space-y-2">
+                <Label htmlFor={`${id}-url`}>URL</Label>
+                <Input id={`${id}-url`} value={url} onChange={(e) => setUrl(e.target.value)} />
+            </div>
+            <div className="flex items-center gap-2">
+                <Switch id={`${id}-enabled`} checked={enabled} onCheckedChange={setEnabled} />
+                <Label htmlFor={`${id}-enabled`}>Enabled</Label>
+            </div>
+            <div className="p-3 bg-muted rounded-lg text-sm">
+                {loading && <span className="flex items-center gap-2"><Activity className="h-4 w-4 animate-spin" />Loading...</span>}
+                {error && <span className="text-red-700">Error: {error}</span>}
+                {!loading && data && <span>{data.message} at {new Date(data.timestamp).toLocaleTimeString()}</span>}
+                {!loading && !error && !data && <span className="text-muted-foreground">No data</span>}
+            </div>
+        </div>
+    )
+}
+// #endregion FetchExample
+
+// #region UserProfileExample
+const UserProfileExample = () => {
+    const [userId, setUserId] = useState('1')
+    const user = useUserProfile(userId)
+
+    return (
+        <div className="space-y-3">
+            <div className="flex gap-2">
+                {['1', '2', '3'].map(id => (
+                    <Button key={id} size="sm" variant={id === userId ? 'default' : 'outline'} onClick={() => setUserId(id)}>
+                        User {id}
+                    </Button>
+                ))}
+            </div>
+            <div className="p-3 bg-muted rounded-lg text-sm">
+                {user.status === 'loading' ? (
+                    <span className="flex items-center gap-2"><Activity className="h-4 w-4 animate-spin" />Loading user {userId}...</span>
+                ) : (
+                    <span>{user.name} · {user.email}</span>
+                )}
+            </div>
+        </div>
+    )
+}
+// #endregion UserProfileExample
+
+// #region LocalStorageExample
+const LocalStorageExample = () => {
+    const id = useId()
+    const [note, setNote] = useLocalStorage('custom-hooks-note', '')
+
+    return (
+        <div className="space-y-2">
+            <Label htmlFor={id}>Note (survives a reload)</Label>
+            <Input id={id} value={note} onChange={(e) => setNote(e.target.value)} placeholder="Type, then reload the page" />
+        </div>
+    )
+}
+// #endregion LocalStorageExample
+
+// #region OnlineStatusExample
+const OnlineStatusExample = () => {
+    const { isOnline, lastChanged } = useOnlineStatus()
+
+    return (
+        <div className="flex items-center gap-3">
+            {isOnline ? <Wifi className="h-6 w-6 text-green-600" /> : <WifiOff className="h-6 w-6 text-red-600" />}
+            <div className="text-sm">
+                <p className="font-medium">{isOnline ? 'Online' : 'Offline'}</p>
+                <p className="text-muted-foreground">
+                    {lastChanged ? `Changed at ${lastChanged.toLocaleTimeString()}` : 'Go offline in DevTools to see it change'}
+                </p>
+            </div>
+        </div>
+    )
+}
+// #endregion OnlineStatusExample
+
+// Context hooks: each example renders its own provider
+// #region ThemeExample
+const ThemeReadout = () => {
+    const { theme, toggleTheme } = useTheme()
+
+    return (
+        <Button variant="outline" size="sm" onClick={toggleTheme}>
+            {theme === 'light' ? <Moon className="h-4 w-4 mr-2" /> : <Sun className="h-4 w-4 mr-2" />}
+            Theme: {theme}
+        </Button>
+    )
+}
+
+const ThemeExample = () => (
+    <ThemeProvider>
+        <ThemeReadout />
+    </ThemeProvider>
+)
+// #endregion ThemeExample
+
+// #region UserExample
+const AccountButton = () => {
+    const { user, login, logout, updateUser } = useUser()
+
+    if (!user) {
+        return (
+            <Button size="sm" onClick={() => login({ id: '1', name: 'Ada', email: 'ada@example.com', avatar: 'A', role: 'user' })}>
+                Log in as Ada
+            </Button>
+        )
+    }
+    return (
+        <div className="flex items-center gap-2">
+            <span className="text-sm">{user.name}</span>
+            <Badge variant="secondary">{user.role}</Badge>
+            <Button size="sm" variant="outline" onClick={() => updateUser({ role: user.role === 'admin' ? 'user' : 'admin' })}>
+                Toggle role
+            </Button>
+            <Button size="sm" variant="ghost" onClick={logout}>Log out</Button>
+        </div>
+    )
+}
+
+const UserExample = () => (
+    <UserProvider>
+        <AccountButton />
+    </UserProvider>
+)
+// #endregion UserExample
+
+// #region SettingsExample
+const SettingsToggles = () => {
+    const id = useId()
+    const { settings, updateSettings } = useSettings()
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center gap-2">
+                <Switch
+                    id={`${id}-notifications`}
+                    checked={settings.notifications}
+                    onCheckedChange={(checked) => updateSettings({ notifications: checked })}
+                />
+                <Label htmlFor={`${id}-notifications`}>Notifications</Label>
+            </div>
+            <div className="flex items-center gap-2">
+                <Switch
+                    id={`${id}-sound`}
+                    checked={settings.soundEnabled}
+                    onCheckedChange={(checked) => updateSettings({ soundEnabled: checked })}
+                />
+                <Label htmlFor={`${id}-sound`}>Sound</Label>
+            </div>
+        </div>
+    )
+}
+
+const SettingsExample = () => (
+    <SettingsProvider>
+        <SettingsToggles />
+    </SettingsProvider>
+)
+// #endregion SettingsExample
+
+// #region CartExample
+const CartSummary = () => {
+    const { items, addItem, updateQuantity, itemCount, total } = useCart()
+    const mug = items.find(item => item.id === 'mug')
+
+    return (
+        <div className="flex items-center gap-2">
+            <Button size="sm" variant="outline" onClick={() => addItem(products[0])}>
+                <ShoppingCart className="h-4 w-4 mr-2" />
+                Add mug
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => mug && updateQuantity('mug', mug.quantity - 1)} disabled={!mug}>
+                <Minus className="h-4 w-4" />
+            </Button>
+            <span className="text-sm">{itemCount} items · ${total.toFixed(2)}</span>
+        </div>
+    )
+}
+
+const CartExample = () => (
+    <CartProvider>
+        <CartSummary />
+    </CartProvider>
+)
+// #endregion CartExample
+
+// Storage sync
+// #region SyncedFrames
+const frameSrc = (name: string) => `${import.meta.env.BASE_URL}storage-sync.html?frame=${name}`
+
+// Written straight to storage, as an older or newer version of the app might
+const rawWrites = [
+    { label: 'Write a v1 profile', raw: JSON.stringify({ name: 'Grace' }) },
+    { label: 'Write invalid JSON', raw: '{"name": ' },
+    { label: 'Write a v3 profile', raw: JSON.stringify({ version: 3, name: 'Future', color: 'blue' }) },
+    { label: 'Remove the key', raw: null }
+]
+
+const SyncedFrames = () => (
+    <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {['A', 'B'].map(name => (
+                <iframe
+                    key={name}
+                    src={frameSrc(name)}
+                    title={`Storage sync frame ${name}`}
+                    className="h-72 w-full rounded-md border bg-white"
+                />
+            ))}
+        </div>
+        <div className="flex flex-wrap gap-2">
+            {rawWrites.map(({ label, raw }) => (
+                <Button key={label} size="sm" variant="outline" onClick={() => writeLocalStorage(PROFILE_KEY, raw)}>
+                    {label}
+                </Button>
+            ))}
+        </div>
+    </div>
+)
+// #endregion SyncedFrames
+
+// #region ErrorReporting
+// Big enough to exceed the roughly 5 MB that browsers allow each origin
+const HUGE_NAME_LENGTH = 6_000_000
+
+const ErrorReporting = () => {
+    const [reported, setReported] = useState<LocalStorageError[]>([])
+    const [profile, setProfile, { error, remove }] = useLocalStorage(PROFILE_KEY, defaultProfile, {
+        validate: parseProfile,
+        onError: error => setReported(reported => [error, ...reported].slice(0, 5))
+    })
+
+    return (
+        <div className="space-y-3">
+            <div className="p-3 bg-muted rounded-lg font-mono text-xs">
+                {JSON.stringify(profile)}
+            </div>
+            {error && <p role="alert" className="text-sm text-red-700">Current error: {error.message}</p>}
+            <div className="flex flex-wrap gap-2">
+                <Button size="sm" variant="outline" onClick={() => setProfile(current => ({ ...current, name: 'x'.repeat(HUGE_NAME_LENGTH) }))}>
+                    Save a 6 MB name
+                </Button>
+                <Button size="sm" variant="outline" onClick={remove}>Remove the key</Button>
+                <Button size="sm" variant="ghost" onClick={() => setReported([])} disabled={reported.length === 0}>
+                    Clear log
+                </Button>
+            </div>
+            <ul className="space-y-1 text-sm">
+                {reported.length === 0 && <li className="text-muted-foreground">No errors reported yet</li>}
+                {reported.map((error, index) => (
+                    <li key={index} className="flex items-start gap-2">
+                        <Badge variant="destructive">{error.kind}</Badge>
+                        <span className="break-all">{error.message}</span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    )
+}
+// #endregion ErrorReporting
+
+interface GalleryEntry {
+    name: string
+    tag: string
+    icon: LucideIcon
+    description: string
+    signature: string
+    // Regions shown by View source: the hook's module first, then the example above
+    regions: string[]
+    Example: ComponentType
+}
+
+const gallery: Record<Exclude<HookTabId<'customHooks'>, 'storage'>, GalleryEntry[]> = {
+    state: [
+        {
+            name: 'useCounter',
+            tag: 'State',
+            icon: Plus,
+            description: 'A number with stable increment, decrement and reset callbacks',
+            signature: `import { useCounter } from '@/hooks/useCounter'
+
+useCounter(initialValue?: number): { count, increment, decrement, reset }`,
+            regions: ['useCounter', 'CounterExample'],
+            Example: CounterExample
+        },
+        {
+            name: 'useTimer',
+            tag: 'Timer',
+            icon: Timer,
+            description: 'A countdown that can be started, paused and reset',
+            signature: `import { useTimer } from '@/hooks/useTimer'
+
+useTimer(duration: number): { timeLeft, isRunning, start, pause, reset }`,
+            regions: ['useTimer', 'TimerExample'],
+            Example: TimerExample
+        },
+        {
+            name: 'useShoppingCart',
+            tag: 'Collection',
+            icon: ShoppingBag,
+            description: 'Local cart state with memoized totals; use useCart when the cart is shared',
+            signature: `import { useShoppingCart } from '@/hooks/useShoppingCart'
+
+useShoppingCart(): { items: CartItem[], totalItems, totalPrice, addItem, removeItem, clear }`,
+            regions: ['useShoppingCart', 'ShoppingCartExample'],
+            Example: ShoppingCartExample
+        },
+        {
+            name: 'useSearch',
+            tag: 'Search',
+            icon: Search,
+            description: 'Filters a list with a match function. Pass a stable function, or results are recomputed every render.',
+            signature: `import { useSearch } from '@/hooks/useSearch'
+
+useSearch<T>(items: T[], searchTerm: string, searchFn: (item: T, term: string) => boolean): { results: T[], isSearching }`,
+            regions: ['useSearch', 'SearchExample'],
+            Example: SearchExample
+        }
+    ],
+    data: [
+        {
+            name: 'useFetch',
+            tag: 'Fetch',
+            icon: Globe,
+            description: 'Loads data for a URL and ignores responses that arrive after the URL changed',
+            signature: `import { useFetch } from '@/hooks/useFetch'
+
+useFetch<T>(url: string, enabled?: boolean): FetchState<T> // { data, loading, error }`,
+            regions: ['useFetch', 'FetchExample'],
+            Example: FetchExample
+        },
+        {
+            name: 'useUserProfile',
+            tag: 'Fetch',
+            icon: UserCircle,
+            description: 'Loads a user by id; the result reports its own loading status',
+            signature: `import { useUserProfile } from '@/hooks/useUserProfile'
+
+useUserProfile(userId: string): UserProfile // { id, name, email, status }`,
+            regions: ['useUserProfile', 'UserProfileExample'],
+            Example: UserProfileExample
+        },
+        {
+            name: 'useLocalStorage',
+            tag: 'Storage',
+            icon: Database,
+            description: 'Like useState, but saved to localStorage and kept in sync across tabs. See Storage Sync for the options.',
+            signature: `import { useLocalStorage, writeLocalStorage, type LocalStorageError } from '@/hooks/useLocalStorage'
+
+useLocalStorage<T>(key: string, initialValue: T, options?: LocalStorageOptions<T>):
+  readonly [T, (value: T | ((current: T) => T)) => void, { error: LocalStorageError | null, remove }]`,
+            regions: ['useLocalStorage', 'LocalStorageExample'],
+            Example: LocalStorageExample
+        },
+        {
+            name: 'useOnlineStatus',
+            tag: 'Browser',
+            icon: Wifi,
+            description: "Follows the browser's online and offline events",
+            signature: `import { useOnlineStatus } from '@/hooks/useOnlineStatus'
+
+useOnlineStatus(): { isOnline: boolean, lastChanged: Date | null }`,
+            regions: ['useOnlineStatus', 'OnlineStatusExample'],
+            Example: OnlineStatusExample
+        }
+    ],
+    context: [
+        {
+            name: 'useTheme',
+            tag: 'Context',
+            icon: Sun,
+            description: 'Reads the theme from the nearest ThemeProvider',
+            signature: `import { useTheme } from '@/hooks/useTheme'
+
+useTheme(): ThemeContextType // { theme, toggleTheme }; throws outside a ThemeProvider`,
+            regions: ['ThemeContext', 'useTheme', 'ThemeExample'],
+            Example: ThemeExample
+        },
+        {
+            name: 'useUser',
+            tag: 'Context',
+            icon: User,
+            description: 'Reads the signed-in user and the functions that change it',
+            signature: `import { useUser } from '@/hooks/useUser'
+
+useUser(): UserContextType // { user, login, logout, updateUser }; throws outside a UserProvider`,
+            regions: ['UserContext', 'useUser', 'UserExample'],
+            Example: UserExample
+        },
+        {
+            name: 'useSettings',
+            tag: 'Context',
+            icon: Settings,
+            description: 'Reads app settings and merges partial updates into them',
+            signature: `import { useSettings } from '@/hooks/useSettings'
+
+useSettings(): SettingsContextType // { settings, updateSettings }; throws outside a SettingsProvider`,
+            regions: ['SettingsContext', 'useSettings', 'SettingsExample'],
+            Example: SettingsExample
+        },
+        {
+            name: 'useCart',
+            tag: 'Context',
+            icon: ShoppingCart,
+            description: 'A cart shared by every component under one CartProvider',
+            signature: `import { useCart } from '@/hooks/useCart'
+
+useCart(): CartContextType // { items, addItem, removeItem, updateQuantity, clearCart, total, itemCount }`,
+            regions: ['CartContext', 'useCart', 'CartExample'],
+            Example: CartExample
+        }
+    ]
+}
+
+const HookCard = ({ entry: { name, tag, icon: Icon, description, signature, regions, Example } }: { entry: GalleryEntry }) => (
+    <Card>
+        <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+                <Badge variant="outline">{tag}</Badge>
+                <Icon className="h-4 w-4" />
+                <code className="font-mono">{name}</code>
+            </CardTitle>
+            <CardDescription>{description}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+            <CodeBlock code={signature} />
+            <div className="p-4 border rounded-lg">
+                <Example />
+            </div>
+            <ViewSource source={sources} regions={regions} />
+        </CardContent>
+    </Card>
+)
+
+const tabIds = getTabIds('customHooks')
+
+export default function CustomHooksDemo() {
+    const { tab, setTab, tabs } = useRouteTab()
+
+    return (
+        <div className="max-w-6xl mx-auto p-6 space-y-6">
+            {/* Header */}
+            <div className="text-center space-y-2">
+                <h1 className="text-3xl font-bold">Custom Hooks Gallery</h1>
+                <p className="text-muted-foreground">
+                    The reusable hooks from the demos, each with its signature, a live example and its source
+                </p>
+            </div>
+
+            <Tabs value={tab} onValueChange={setTab} className="space-y-6">
+                <TabsList className="grid w-full grid-cols-4">
+                    {tabs.map(({ id, label }) => (
+                        <TabsTrigger key={id} value={id}>{label}</TabsTrigger>
+                    ))}
+                </TabsList>
+
+                {Object.entries(gallery).map(([id, entries]) => (
+                    <TabsContent key={id} value={id} className="space-y-6">
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                            {entries.map(entry => <HookCard key={entry.name} entry={entry} />)}
+                        </div>
+                    </TabsContent>
+                ))}
+
+                <TabsContent value={tabIds.storage} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Sync</Badge>
+                                <MonitorSmartphone className="h-4 w-4" />
+                                Live Sync Across Frames
+                            </CardTitle>
+                            <CardDescription>
+                                Two iframes read the same keys with useLocalStorage. Edit one and the other follows, just
+                                like two tabs would. The buttons below write raw data the way an older or newer app might.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <SyncedFrames />
+                            <CodeBlock
+                                code={`const [profile, setProfile, { error }] = useLocalStorage(PROFILE_KEY, defaultProfile, {
+  validate: parseProfile // migrates v1 data, throws on anything it can't use
+})
+
+const [favorites, setFavorites] = useLocalStorage(FAVORITES_KEY, new Set<string>(), {
+  serialize: favorites => JSON.stringify([...favorites]),
+  deserialize: raw => new Set(JSON.parse(raw))
+})`}
+                                highlightLines={[2, 6, 7]}
+                            />
+                            <ViewSource source={sources} regions={['StorageSyncFrame', 'parseProfile', 'favoritesSerializer', 'SyncedFrames']} />
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Errors</Badge>
+                                <HardDrive className="h-4 w-4" />
+                                Error Reporting
+                            </CardTitle>
+                            <CardDescription>
+                                Parse and validation errors fall back to the initial value. Quota and storage errors leave the
+                                stored value alone. Each error is returned by the hook and passed to onError once.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <ErrorReporting />
+                            <ViewSource source={sources} regions={['useLocalStorage', 'ErrorReporting']} />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+            </Tabs>
+
+            {/* Key Concepts */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Key Concepts</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <h4 className="font-medium">📦 Import, Don't Copy</h4>
+                            <p className="text-sm text-muted-foreground">
+                                Every hook here is exported from src/hooks, so fixes reach all of its users at once.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">🔁 Logic, Not State</h4>
+                            <p className="text-sm text-muted-foreground">
+                                Each call gets its own state. Share state by putting it in context, as useCart does.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">🚨 Fail Loudly</h4>
+                            <p className="text-sm text-muted-foreground">
+                                The context hooks throw when their provider is missing instead of returning undefined.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">🏷️ Debug Labels</h4>
+                            <p className="text-sm text-muted-foreground">
+                                The standalone hooks call useDebugValue, so DevTools shows a readable summary of each one.
+                            </p>
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
@@ -0,0 +1,399 @@
+import { startTransition, useActionState, useId, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { CodeBlock } from '@/components/ui/code-block'
+import ViewSource from '@/components/ViewSource'
+import ServerControls from '@/components/ServerControls'
+import { useRouteTab } from '@/hooks/useRoute'
+import { getTabIds } from '@/lib/registry'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+    AlertCircle,
+    CheckCircle,
+    ListOrdered,
+    Loader2,
+    Mail,
+    ShieldCheck,
+    ShoppingCart,
+    XCircle
+} from 'lucide-react'
+import { addToCart, getCartQuantity, registerUsername, subscribeToNewsletter } from '@/lib/fake-server'
+import demoSource from '@/components/hook-components/UseActionStateDemo.tsx?raw'
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : 'Something went wrong'
+
+// Example 1: Form submission with pending and error state
+// #region NewsletterForm
+type NewsletterState =
+    | { status: 'idle' }
+    | { status: 'subscribed'; email: string }
+    | { status: 'error'; message: string }
+
+// The action receives the previous state and the submitted FormData, and returns the next state
+const subscribeAction = async (_previous: NewsletterState, formData: FormData): Promise<NewsletterState> => {
+    const email = String(formData.get('email')).trim()
+    try {
+        const result = await subscribeToNewsletter(email)
+        return result.ok ? { status: 'subscribed', email: result.email } : { status: 'error', message: result.reason }
+    } catch (error) {
+        return { status: 'error', message: errorMessage(error) }
+    }
+}
+
+const NewsletterForm = () => {
+    const [state, formAction, isPending] = useActionState(subscribeAction, { status: 'idle' })
+    const id = useId()
+
+    return (
+        <form action={formAction} className="space-y-3">
+            <Label htmlFor={id}>Email</Label>
+            <div className="flex gap-2">
+                <Input id={id} name="email" type="email" required placeholder="you@example.com" />
+                <Button type="submit" disabled={isPending}>
+                    {isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Mail className="h-4 w-4 mr-2" />}
+                    {isPending ? 'Subscribing...' : 'Subscribe'}
+                </Button>
+            </div>
+            {state.status === 'subscribed' && (
+                <p className="flex items-center gap-1 text-sm text-green-700">
+                    <CheckCircle className="h-4 w-4" />
+                    Subscribed {state.email}
+                </p>
+            )}
+            {state.status === 'error' && (
+                <p role="alert" className="flex items-center gap-1 text-sm text-red-700">
+                    <XCircle className="h-4 w-4" />
+                    {state.message}
+                </p>
+            )}
+        </form>
+    )
+}
+// #endregion NewsletterForm
+
+// Example 2: Server-side validation that keeps what the user typed
+// #region SignupForm
+interface SignupState {
+    values: { username: string }
+    errors: { username?: string; password?: string; form?: string }
+    registered: string | null
+}
+
+const initialSignupState: SignupState = { values: { username: '' }, errors: {}, registered: null }
+
+const signupAction = async (_previous: SignupState, formData: FormData): Promise<SignupState> => {
+    const username = String(formData.get('username')).trim()
+    const password = String(formData.get('password'))
+    const values = { username }
+
+    const errors: SignupState['errors'] = {}
+    if (!/^[a-z0-9_]{3,16}$/i.test(username)) {
+        errors.username = 'Use 3-16 letters, numbers or underscores'
+    }
+    if (password.length < 8) {
+        errors.password = 'Password must be at least 8 characters'
+    }
+    if (errors.username || errors.password) {
+        return { values, errors, registered: null }
+    }
+
+    try {
+        const available = await registerUsername(username)
+        return available
+            ? { values: { username: '' }, errors: {}, registered: username }
+            : { values, errors: { username: `"${username}" is taken` }, registered: null }
+    } catch (error) {
+        return { values, errors: { form: errorMessage(error) }, registered: null }
+    }
+}
+
+const SignupForm = () => {
+    const [state, formAction, isPending] = useActionState(signupAction, initialSignupState)
+    const id = useId()
+
+    return (
+        // React resets uncontrolled fields after the action, so the returned values are fed
+        // back in as defaultValue to keep what the user typed when validation fails
+        <form action={formAction} className="space-y-3">
+            <div className="space-y-1">
+                <Label htmlFor={`${id}-username`}>Username</Label>
+                <Input
+                    id={`${id}-username`}
+                    name="username"
+                    defaultValue={state.values.username}
+                    aria-invalid={Boolean(state.errors.username)}
+                    aria-describedby={`${id}-username-error`}
+                />
+                <p id={`${id}-username-error`} className="text-xs text-red-600">{state.errors.username}</p>
+            </div>
+            <div className="space-y-1">
+                <Label htmlFor={`${id}-password`}>Password</Label>
+                <Input
+                    id={`${id}-password`}
+                    name="password"
+                    type="password"
+                    aria-invalid={Boolean(state.errors.password)}
+                    aria-describedby={`${id}-password-error`}
+                />
+                <p id={`${id}-password-error`} className="text-xs text-red-600">{state.errors.password}</p>
+            </div>
+            <Button type="submit" disabled={isPending}>
+                {isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ShieldCheck className="h-4 w-4 mr-2" />}
+                {isPending ? 'Checking...' : 'Create account'}
+            </Button>
+            {state.errors.form && (
+                <p role="alert" className="flex items-center gap-1 text-sm text-red-700">
+                    <XCircle className="h-4 w-4" />
+                    {state.errors.form}
+                </p>
+            )}
+            {state.registered && (
+                <p className="flex items-center gap-1 text-sm text-green-700">
+                    <CheckCircle className="h-4 w-4" />
+                    Welcome, {state.registered}!
+                </p>
+            )}
+        </form>
+    )
+}
+// #endregion SignupForm
+
+// Example 3: Actions queue up and run one after another
+// #region CartQueue
+interface CartState {
+    quantity: number
+    completed: number
+    failed: number
+}
+
+const addToCartAction = async (previous: CartState, amount: number): Promise<CartState> => {
+    try {
+        const quantity = await addToCart(amount)
+        return { ...previous, quantity, completed: previous.completed + 1 }
+    } catch {
+        // A failed request leaves the quantity alone; the next queued action still runs
+        return { ...previous, completed: previous.completed + 1, failed: previous.failed + 1 }
+    }
+}
+
+const CartQueue = () => {
+    const [state, dispatch, isPending] = useActionState(addToCartAction, {
+        quantity: getCartQuantity(),
+        completed: 0,
+        failed: 0
+    })
+    const [sent, setSent] = useState(0)
+
+    const add = () => {
+        setSent(s => s + 1)
+        // Outside a <form>, dispatch has to be called inside a transition
+        startTransition(() => dispatch(1))
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center gap-3">
+                <Button onClick={add}>
+                    <ShoppingCart className="h-4 w-4 mr-2" />
+                    Add to cart
+                </Button>
+                {isPending && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+                <div className="p-3 border rounded-lg">
+                    <div className="text-2xl font-bold">{state.quantity}</div>
+                    <div className="text-xs text-muted-foreground">In cart (server)</div>
+                </div>
+                <div className="p-3 border rounded-lg">
+                    <div className="text-2xl font-bold">{sent}</div>
+                    <div className="text-xs text-muted-foreground">Clicks</div>
+                </div>
+                <div className="p-3 border rounded-lg">
+                    <div className="text-2xl font-bold">{state.completed}</div>
+                    <div className="text-xs text-muted-foreground">Processed</div>
+                </div>
+                <div className="p-3 border rounded-lg">
+                    <div className="text-2xl font-bold text-red-600">{state.failed}</div>
+                    <div className="text-xs text-muted-foreground">Failed</div>
+                </div>
+            </div>
+        </div>
+    )
+}
+// #endregion CartQueue
+
+const tabIds = getTabIds('useActionState')
+
+export default function UseActionStateDemo() {
+    const { tab, setTab, tabs } = useRouteTab()
+
+    return (
+        <div className="max-w-6xl mx-auto p-6 space-y-6">
+            {/* Header */}
+            <div className="text-center space-y-2">
+                <h1 className="text-3xl font-bold">useActionState Hook Interactive Demo</h1>
+                <p className="text-muted-foreground">
+                    Run async form actions and keep their result, pending flag and errors in state
+                </p>
+            </div>
+
+            <ServerControls />
+
+            <Tabs value={tab} onValueChange={setTab} className="space-y-6">
+                <TabsList className="grid w-full grid-cols-3">
+                    {tabs.map(({ id, label }) => (
+                        <TabsTrigger key={id} value={id}>{label}</TabsTrigger>
+                    ))}
+                </TabsList>
+
+                <TabsContent value={tabIds.basic} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Basic</Badge>
+                                <Mail className="h-4 w-4" />
+                                Form Submission
+                            </CardTitle>
+                            <CardDescription>
+                                Pass the action to &lt;form action&gt;. React tracks the pending state and stores whatever the
+                                action returns. Try taken@example.com, or make the server fail.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <NewsletterForm />
+                            <CodeBlock
+                                code={`const [state, formAction, isPending] = useActionState(
+  async (previousState, formData) => {
+    const result = await subscribeToNewsletter(formData.get('email'))
+    return result.ok ? { status: 'subscribed' } : { status: 'error', message: result.reason }
+  },
+  { status: 'idle' }
+)
+
+<form action={formAction}>
+  <Input name="email" />
+  <Button disabled={isPending}>Subscribe</Button>
+</form>`}
+                                highlightLines={[1]}
+                            />
+                            <ViewSource source={demoSource} regions="NewsletterForm" />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value={tabIds.validation} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Validation</Badge>
+                                <ShieldCheck className="h-4 w-4" />
+                                Server Validation
+                            </CardTitle>
+                            <CardDescription>
+                                The action validates the FormData and returns field errors. "admin", "react" and "dan" are
+                                already taken.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <SignupForm />
+                            <Alert>
+                                <AlertCircle className="h-4 w-4" />
+                                <AlertDescription>
+                                    After a form action finishes, React resets the form's uncontrolled fields. Return the
+                                    submitted values and use them as defaultValue, or the user loses their input on every error.
+                                </AlertDescription>
+                            </Alert>
+                            <CodeBlock
+                                code={`const signupAction = async (previousState, formData) => {
+  const values = { username: formData.get('username') }
+  const errors = validate(formData)
+  if (hasErrors(errors)) {
+    return { values, errors }
+  }
+  ...
+}
+
+<Input name="username" defaultValue={state.values.username} />`}
+                                highlightLines={[5, 10]}
+                            />
+                            <ViewSource source={demoSource} regions="SignupForm" />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value={tabIds.queue} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Sequencing</Badge>
+                                <ListOrdered className="h-4 w-4" />
+                                Queued Actions
+                            </CardTitle>
+                            <CardDescription>
+                                Click several times quickly. Each dispatch waits for the previous one and receives the state
+                                it returned. The queued actions share one transition, so the results appear together once the
+                                queue is empty.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <CartQueue />
+                            <CodeBlock
+                                code={`const [state, dispatch, isPending] = useActionState(
+  async (previousState, amount) => {
+    const quantity = await addToCart(amount)
+    return { ...previousState, quantity }
+  },
+  initialState
+)
+
+// Outside a form, dispatch inside a transition
+startTransition(() => dispatch(1))`}
+                                highlightLines={[10]}
+                            />
+                            <ViewSource source={demoSource} regions="CartQueue" />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+            </Tabs>
+
+            {/* Key Concepts */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Key Concepts</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <h4 className="font-medium">🔁 Previous State In, Next State Out</h4>
+                            <p className="text-sm text-muted-foreground">
+                                The action works like an async reducer: it gets the previous state plus the payload and returns the next state.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">⏳ Built-in Pending State</h4>
+                            <p className="text-sm text-muted-foreground">
+                                isPending turns true as soon as an action is dispatched, without a separate loading flag.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">❗ Errors Are State</h4>
+                            <p className="text-sm text-muted-foreground">
+                                Catch failures inside the action and return them, so the form can render the message next to the fields.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">📋 Queued, Not Parallel</h4>
+                            <p className="text-sm text-muted-foreground">
+                                Dispatches run one at a time in order, and isPending stays true until the last one finishes.
+                            </p>
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
@@ -4,6 +4,11 @@ import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { CodeBlock } from '@/components/ui/code-block'
+import ViewSource from '@/components/ViewSource'
+import ProfiledSection from '@/components/ProfiledSection'
+import { useRouteTab } from '@/hooks/useRoute'
+import { getTabIds } from '@/lib/registry'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import {
     Play,
@@ -16,6 +21,7 @@ import {
     Clock,
     TrendingUp
 } from 'lucide-react'
+import demoSource from '@/components/hook-components/UseCallbackDemo.tsx?raw'
 
 interface Todo {
     id: number
@@ -31,6 +37,7 @@ interface ExpensiveItem {
 }
 
 // Child component that shows re-render count
+// #region RenderCounter
 const RenderCounter = ({ name, onAction }: { name: string; onAction: () => void }) => {
     const renderCount = useRef(0)
     renderCount.current++
@@ -49,8 +56,10 @@ const RenderCounter = ({ name, onAction }: { name: string; onAction: () => void
         </div>
     )
 }
+// #endregion RenderCounter
 
 // Expensive computation component for demonstration
+// #region ExpensiveList
 const ExpensiveList = ({ items, onItemClick }: { items: ExpensiveItem[]; onItemClick: (item: ExpensiveItem) => void }) => {
     const renderCount = useRef(0)
     renderCount.current++
@@ -87,8 +96,43 @@ const ExpensiveList = ({ items, onItemClick }: { items: ExpensiveItem[]; onItemC
         </div>
     )
 }
+// #endregion ExpensiveList
+
+// Example 5: Expensive operations with useCallback. Its own component, so the section profiled
+// around it includes the list's work and is marked as the trigger when an item is selected.
+const ExpensiveOperationsExample = () => {
+    // #region expensiveCallbacks
+    const [items] = useState<ExpensiveItem[]>([
+        { id: 1, name: 'Laptop', category: 'Electronics', price: 999 },
+        { id: 2, name: 'Phone', category: 'Electronics', price: 699 },
+        { id: 3, name: 'Book', category: 'Education', price: 29 },
+        { id: 4, name: 'Headphones', category: 'Electronics', price: 199 }
+    ])
+    const [selectedItem, setSelectedItem] = useState<ExpensiveItem | null>(null)
+
+    const handleItemClick = useCallback((item: ExpensiveItem) => {
+        setSelectedItem(item)
+        console.log('Item selected:', item.name)
+    }, [])
+    // #endregion expensiveCallbacks
+
+    return (
+        <>
+            <ExpensiveList items={items} onItemClick={handleItemClick} />
+
+            {selectedItem && (
+                <div className="p-3 bg-blue-50 rounded-lg">
+                    <p className="text-sm">
+                        <strong>Selected:</strong> {selectedItem.name} - ${selectedItem.price}
+                    </p>
+                </div>
+            )}
+        </>
+    )
+}
 
 // Search component that demonstrates useCallback with debouncing
+// #region SearchComponent
 const SearchComponent = ({ onSearch }: { onSearch: (term: string) => void }) => {
     const [searchTerm, setSearchTerm] = useState('')
     const renderCount = useRef(0)
@@ -121,9 +165,15 @@ const SearchComponent = ({ onSearch }: { onSearch: (term: string) => void }) =>
         </div>
     )
 }
+// #endregion SearchComponent
+
+const tabIds = getTabIds('useCallback')
 
 export function UseCallbackDemo() {
+    const { tab, setTab, tabs } = useRouteTab()
+
     // Example 1: Basic useCallback demonstration
+    // #region functionStability
     const [count, setCount] = useState(0)
     const [name, setName] = useState('John')
 
@@ -136,14 +186,18 @@ export function UseCallbackDemo() {
     const handleClickWithCallback = useCallback(() => {
         console.log('Button clicked with useCallback')
     }, [])
+    // #endregion functionStability
 
     // Example 2: useCallback with dependencies
+    // #region counterCallback
     const handleCountUpdate = useCallback(() => {
         setCount(prev => prev + 1)
         console.log('Count updated:', count)
     }, [count])
+    // #endregion counterCallback
 
     // Example 3: Complex todo list with useCallback
+    // #region todoCallbacks
     const [todos, setTodos] = useState<Todo[]>([
         { id: 1, text: 'Learn React', completed: false },
         { id: 2, text: 'Master useCallback', completed: false }
@@ -170,8 +224,10 @@ export function UseCallbackDemo() {
     const deleteTodo = useCallback((id: number) => {
         setTodos(prev => prev.filter(todo => todo.id !== id))
     }, [])
+    // #endregion todoCallbacks
 
     // Example 4: Timer with useCallback
+    // #region timerCallbacks
     const [seconds, setSeconds] = useState(0)
     const [isRunning, setIsRunning] = useState(false)
     const timerRef = useRef<NodeJS.Timeout | null>(null)
@@ -199,22 +255,10 @@ export function UseCallbackDemo() {
             timerRef.current = null
         }
     }, [])
-
-    // Example 5: Expensive operations with useCallback
-    const [items] = useState<ExpensiveItem[]>([
-        { id: 1, name: 'Laptop', category: 'Electronics', price: 999 },
-        { id: 2, name: 'Phone', category: 'Electronics', price: 699 },
-        { id: 3, name: 'Book', category: 'Education', price: 29 },
-        { id: 4, name: 'Headphones', category: 'Electronics', price: 199 }
-    ])
-    const [selectedItem, setSelectedItem] = useState<ExpensiveItem | null>(null)
-
-    const handleItemClick = useCallback((item: ExpensiveItem) => {
-        setSelectedItem(item)
-        console.log('Item selected:', item.name)
-    }, [])
+    // #endregion timerCallbacks
 
     // Example 6: Search with useCallback
+    // #region searchCallbacks
     const [searchResults, setSearchResults] = useState<string[]>([])
     const [isSearching, setIsSearching] = useState(false)
 
@@ -235,8 +279,10 @@ export function UseCallbackDemo() {
             setIsSearching(false)
         }, 500)
     }, [])
+    // #endregion searchCallbacks
 
     // Example 7: Form handlers with useCallback
+    // #region formCallbacks
     const [formData, setFormData] = useState({
         email: '',
         password: '',
@@ -279,8 +325,10 @@ export function UseCallbackDemo() {
         setFormData(prev => ({ ...prev, [field]: value }))
         validateField(field, value)
     }, [validateField])
+    // #endregion formCallbacks
 
     // Example 8: Event handler factory with useCallback
+    // #region handlerFactory
     const handleButtonClick = useCallback((variant: string) => {
         console.log(`${variant} button clicked`)
     }, [])
@@ -288,6 +336,7 @@ export function UseCallbackDemo() {
     const createButtonHandler = useCallback((variant: string) => () => {
         handleButtonClick(variant)
     }, [handleButtonClick])
+    // #endregion handlerFactory
 
     // Performance tracking
     const [performanceMetrics, setPerformanceMetrics] = useState({
@@ -321,15 +370,14 @@ export function UseCallbackDemo() {
                 </AlertDescription>
             </Alert>
 
-            <Tabs defaultValue="basic" className="space-y-6">
+            <Tabs value={tab} onValueChange={setTab} className="space-y-6">
                 <TabsList className="grid w-full grid-cols-4">
-                    <TabsTrigger value="basic">Basic Concepts</TabsTrigger>
-                    <TabsTrigger value="dependencies">Dependencies</TabsTrigger>
-                    <TabsTrigger value="optimization">Performance</TabsTrigger>
-                    <TabsTrigger value="patterns">Advanced Patterns</TabsTrigger>
+                    {tabs.map(({ id, label }) => (
+                        <TabsTrigger key={id} value={id}>{label}</TabsTrigger>
+                    ))}
                 </TabsList>
 
-                <TabsContent value="basic" className="space-y-6">
+                <TabsContent value={tabIds.basic} className="space-y-6">
                     {/* Basic useCallback */}
                     <Card>
                         <CardHeader>
@@ -353,17 +401,16 @@ export function UseCallbackDemo() {
                                         onAction={handleClickWithCallback}
                                     />
                                 </div>
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        {`// Without useCallback - new function every render
+                                <CodeBlock
+                                    code={`// Without useCallback - new function every render
 const handleClick = () => console.log('clicked')
 
 // With useCallback - same function reference
 const handleClick = useCallback(() => {
   console.log('clicked')
 }, [])`}
-                                    </code>
-                                </div>
+                                    highlightLines={[5, 6, 7]}
+                                />
                                 <Alert>
                                     <AlertCircle className="h-4 w-4" />
                                     <AlertDescription>
@@ -371,6 +418,7 @@ const handleClick = useCallback(() => {
                                     </AlertDescription>
                                 </Alert>
                             </div>
+                            <ViewSource source={demoSource} regions={['RenderCounter', 'functionStability']} />
                         </CardContent>
                     </Card>
 
@@ -401,14 +449,13 @@ const handleClick = useCallback(() => {
                                         </Button>
                                     </div>
                                 </div>
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        {`const handleCountUpdate = useCallback(() => {
+                                <CodeBlock
+                                    code={`const handleCountUpdate = useCallback(() => {
   setCount(prev => prev + 1)
 }, [count]) // Depends on count`}
-                                    </code>
-                                </div>
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions="counterCallback" />
                         </CardContent>
                     </Card>
 
@@ -437,11 +484,12 @@ const handleClick = useCallback(() => {
                                     Notice how changing the name affects the counter callback that depends on count.
                                 </p>
                             </div>
+                            <ViewSource source={demoSource} regions="functionStability" />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="dependencies" className="space-y-6">
+                <TabsContent value={tabIds.dependencies} className="space-y-6">
                     {/* Timer Example */}
                     <Card>
                         <CardHeader>
@@ -473,17 +521,16 @@ const handleClick = useCallback(() => {
                                         </Button>
                                     </div>
                                 </div>
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        {`const startTimer = useCallback(() => {
+                                <CodeBlock
+                                    code={`const startTimer = useCallback(() => {
   setIsRunning(true)
   timerRef.current = setInterval(() => {
     setSeconds(prev => prev + 1)
   }, 1000)
 }, []) // No dependencies needed`}
-                                    </code>
-                                </div>
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions="timerCallbacks" />
                         </CardContent>
                     </Card>
 
@@ -534,9 +581,8 @@ const handleClick = useCallback(() => {
                                         </div>
                                     ))}
                                 </div>
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        {`const addTodo = useCallback(() => {
+                                <CodeBlock
+                                    code={`const addTodo = useCallback(() => {
   if (newTodo.trim()) {
     setTodos(prev => [...prev, {...}])
     setNewTodo('')
@@ -548,14 +594,14 @@ const toggleTodo = useCallback((id: number) => {
     todo.id === id ? {...todo, completed: !todo.completed} : todo
   ))
 }, []) // No dependencies - uses function update`}
-                                    </code>
-                                </div>
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions="todoCallbacks" />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="optimization" className="space-y-6">
+                <TabsContent value={tabIds.optimization} className="space-y-6">
                     {/* Expensive Operations */}
                     <Card>
                         <CardHeader>
@@ -569,15 +615,9 @@ const toggleTodo = useCallback((id: number) => {
                         </CardHeader>
                         <CardContent>
                             <div className="space-y-4">
-                                <ExpensiveList items={items} onItemClick={handleItemClick} />
-
-                                {selectedItem && (
-                                    <div className="p-3 bg-blue-50 rounded-lg">
-                                        <p className="text-sm">
-                                            <strong>Selected:</strong> {selectedItem.name} - ${selectedItem.price}
-                                        </p>
-                                    </div>
-                                )}
+                                <ProfiledSection id="Expensive Operations">
+                                    <ExpensiveOperationsExample />
+                                </ProfiledSection>
 
                                 <div className="flex gap-2">
                                     <Button onClick={() => setCount(c => c + 1)} variant="outline">
@@ -588,13 +628,11 @@ const toggleTodo = useCallback((id: number) => {
                                     </Button>
                                 </div>
 
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        {`const handleItemClick = useCallback((item: ExpensiveItem) => {
+                                <CodeBlock
+                                    code={`const handleItemClick = useCallback((item: ExpensiveItem) => {
   setSelectedItem(item)
 }, []) // Stable reference prevents ExpensiveList re-render`}
-                                    </code>
-                                </div>
+                                />
 
                                 <Alert>
                                     <AlertCircle className="h-4 w-4" />
@@ -603,6 +641,7 @@ const toggleTodo = useCallback((id: number) => {
                                     </AlertDescription>
                                 </Alert>
                             </div>
+                            <ViewSource source={demoSource} regions={['ExpensiveList', 'expensiveCallbacks']} />
                         </CardContent>
                     </Card>
 
@@ -642,22 +681,21 @@ const toggleTodo = useCallback((id: number) => {
                                     </div>
                                 )}
 
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        {`const handleSearch = useCallback((term: string) => {
+                                <CodeBlock
+                                    code={`const handleSearch = useCallback((term: string) => {
   // Debounced search logic
   setTimeout(() => {
     // Perform search
   }, 300)
 }, []) // Stable reference for child component`}
-                                    </code>
-                                </div>
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions={['SearchComponent', 'searchCallbacks']} />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="patterns" className="space-y-6">
+                <TabsContent value={tabIds.patterns} className="space-y-6">
                     {/* Form Validation */}
                     <Card>
                         <CardHeader>
@@ -710,17 +748,16 @@ const toggleTodo = useCallback((id: number) => {
                                     )}
                                 </div>
 
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        {`const handleInputChange = useCallback((field: string) => 
+                                <CodeBlock
+                                    code={`const handleInputChange = useCallback((field: string) =>
   (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value
     setFormData(prev => ({...prev, [field]: value}))
     validateField(field, value)
   }, [validateField]) // Depends on validateField`}
-                                    </code>
-                                </div>
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions="formCallbacks" />
                         </CardContent>
                     </Card>
 
@@ -749,18 +786,17 @@ const toggleTodo = useCallback((id: number) => {
                                     ))}
                                 </div>
 
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        {`// Factory pattern with useCallback
+                                <CodeBlock
+                                    code={`// Factory pattern with useCallback
 const createHandler = useCallback((type: string) => () => {
   console.log(\`\${type} button clicked\`)
 }, [])
 
 // Usage in render
 onClick={createHandler('primary')}`}
-                                    </code>
-                                </div>
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions="handlerFactory" />
                         </CardContent>
                     </Card>
                 </TabsContent>
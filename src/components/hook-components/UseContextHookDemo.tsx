@@ -1,9 +1,13 @@
-import { useState, useContext, createContext, type ReactNode } from 'react'
+import { useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { CodeBlock } from '@/components/ui/code-block'
+import ViewSource from '@/components/ViewSource'
+import { useRouteTab } from '@/hooks/useRoute'
+import { getTabIds } from '@/lib/registry'
 import { Switch } from '@/components/ui/switch'
 import { Label } from '@/components/ui/label'
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
@@ -23,218 +27,38 @@ import {
     Eye,
     EyeOff
 } from 'lucide-react'
-
-// Theme Context
-interface ThemeContextType {
-    theme: 'light' | 'dark'
-    toggleTheme: () => void
-}
-
-const ThemeContext = createContext<ThemeContextType | undefined>(undefined)
-
-// User Context
-interface User {
-    id: string
-    name: string
-    email: string
-    avatar: string
-    role: 'admin' | 'user' | 'guest'
-}
-
-interface UserContextType {
-    user: User | null
-    login: (user: User) => void
-    logout: () => void
-    updateUser: (updates: Partial<User>) => void
-}
-
-const UserContext = createContext<UserContextType | undefined>(undefined)
-
-// Settings Context
-interface Settings {
-    language: 'en' | 'es' | 'fr'
-    notifications: boolean
-    soundEnabled: boolean
-    autoSave: boolean
-}
-
-interface SettingsContextType {
-    settings: Settings
-    updateSettings: (updates: Partial<Settings>) => void
-}
-
-const SettingsContext = createContext<SettingsContextType | undefined>(undefined)
-
-// Shopping Cart Context
-interface CartItem {
-    id: string
-    name: string
-    price: number
-    quantity: number
-}
-
-interface CartContextType {
-    items: CartItem[]
-    addItem: (item: Omit<CartItem, 'quantity'>) => void
-    removeItem: (id: string) => void
-    updateQuantity: (id: string, quantity: number) => void
-    clearCart: () => void
-    total: number
-    itemCount: number
-}
-
-const CartContext = createContext<CartContextType | undefined>(undefined)
-
-// Custom hooks for using contexts
-const useTheme = () => {
-    const context = useContext(ThemeContext)
-    if (!context) {
-        throw new Error('useTheme must be used within a ThemeProvider')
-    }
-    return context
-}
-
-const useUser = () => {
-    const context = useContext(UserContext)
-    if (!context) {
-        throw new Error('useUser must be used within a UserProvider')
-    }
-    return context
-}
-
-const useSettings = () => {
-    const context = useContext(SettingsContext)
-    if (!context) {
-        throw new Error('useSettings must be used within a SettingsProvider')
-    }
-    return context
-}
-
-const useCart = () => {
-    const context = useContext(CartContext)
-    if (!context) {
-        throw new Error('useCart must be used within a CartProvider')
-    }
-    return context
-}
-
-// Theme Provider Component
-const ThemeProvider = ({ children }: { children: ReactNode }) => {
-    const [theme, setTheme] = useState<'light' | 'dark'>('light')
-
-    const toggleTheme = () => {
-        setTheme(prev => prev === 'light' ? 'dark' : 'light')
-    }
-
-    return (
-        <ThemeContext.Provider value={{ theme, toggleTheme }}>
-            <div className={`${theme === 'dark' ? 'dark' : ''}`}>
-                {children}
-            </div>
-        </ThemeContext.Provider>
-    )
-}
-
-// User Provider Component
-const UserProvider = ({ children }: { children: ReactNode }) => {
-    const [user, setUser] = useState<User | null>(null)
-
-    const login = (userData: User) => {
-        setUser(userData)
-    }
-
-    const logout = () => {
-        setUser(null)
-    }
-
-    const updateUser = (updates: Partial<User>) => {
-        setUser(prev => prev ? { ...prev, ...updates } : null)
-    }
-
-    return (
-        <UserContext.Provider value={{ user, login, logout, updateUser }}>
-            {children}
-        </UserContext.Provider>
-    )
-}
-
-// Settings Provider Component
-const SettingsProvider = ({ children }: { children: ReactNode }) => {
-    const [settings, setSettings] = useState<Settings>({
-        language: 'en',
-        notifications: true,
-        soundEnabled: true,
-        autoSave: false
-    })
-
-    const updateSettings = (updates: Partial<Settings>) => {
-        setSettings(prev => ({ ...prev, ...updates }))
-    }
-
-    return (
-        <SettingsContext.Provider value={{ settings, updateSettings }}>
-            {children}
-        </SettingsContext.Provider>
-    )
-}
-
-// Cart Provider Component
-const CartProvider = ({ children }: { children: ReactNode }) => {
-    const [items, setItems] = useState<CartItem[]>([])
-
-    const addItem = (newItem: Omit<CartItem, 'quantity'>) => {
-        setItems(prev => {
-            const existing = prev.find(item => item.id === newItem.id)
-            if (existing) {
-                return prev.map(item =>
-                    item.id === newItem.id
-                        ? { ...item, quantity: item.quantity + 1 }
-                        : item
-                )
-            }
-            return [...prev, { ...newItem, quantity: 1 }]
-        })
-    }
-
-    const removeItem = (id: string) => {
-        setItems(prev => prev.filter(item => item.id !== id))
-    }
-
-    const updateQuantity = (id: string, quantity: number) => {
-        if (quantity <= 0) {
-            removeItem(id)
-            return
-        }
-        setItems(prev =>
-            prev.map(item =>
-                item.id === id ? { ...item, quantity } : item
-            )
-        )
-    }
-
-    const clearCart = () => {
-        setItems([])
-    }
-
-    const total = items.reduce((sum, item) => sum + (item.price * item.quantity), 0)
-    const itemCount = items.reduce((sum, item) => sum + item.quantity, 0)
-
-    return (
-        <CartContext.Provider value={{
-            items,
-            addItem,
-            removeItem,
-            updateQuantity,
-            clearCart,
-            total,
-            itemCount
-        }}>
-            {children}
-        </CartContext.Provider>
-    )
-}
+import { CartProvider, SettingsProvider, ThemeProvider, UserProvider } from '@/components/ContextProviders'
+import { useCart } from '@/hooks/useCart'
+import { useSettings } from '@/hooks/useSettings'
+import { useTheme } from '@/hooks/useTheme'
+import { useUser } from '@/hooks/useUser'
+import demoSource from '@/components/hook-components/UseContextHookDemo.tsx?raw'
+import providersSource from '@/components/ContextProviders.tsx?raw'
+import themeContextSource from '@/lib/theme-context.ts?raw'
+import userContextSource from '@/lib/user-context.ts?raw'
+import settingsContextSource from '@/lib/settings-context.ts?raw'
+import cartContextSource from '@/lib/cart-context.ts?raw'
+import useThemeSource from '@/hooks/useTheme.ts?raw'
+import useUserSource from '@/hooks/useUser.ts?raw'
+import useSettingsSource from '@/hooks/useSettings.ts?raw'
+import useCartSource from '@/hooks/useCart.ts?raw'
+
+// The contexts, their hooks and providers are shared modules; view source reads regions from all of them
+const sources = [
+    demoSource,
+    providersSource,
+    themeContextSource,
+    userContextSource,
+    settingsContextSource,
+    cartContextSource,
+    useThemeSource,
+    useUserSource,
+    useSettingsSource,
+    useCartSource
+]
 
 // Component that uses Theme Context
+// #region ThemeToggle
 const ThemeToggle = () => {
     const { theme, toggleTheme } = useTheme()
 
@@ -245,8 +69,10 @@ const ThemeToggle = () => {
         </Button>
     )
 }
+// #endregion ThemeToggle
 
 // Component that uses User Context
+// #region UserProfile
 const UserProfile = () => {
     const { user, login, logout, updateUser } = useUser()
     const [name, setName] = useState('')
@@ -286,6 +112,7 @@ const UserProfile = () => {
                         <User className="h-4 w-4 mr-2" />
                         Login
                     </Button>
+                    <ViewSource source={sources} regions={['UserContext', 'useUser', 'UserProvider', 'UserProfile']} />
                 </CardContent>
             </Card>
         )
@@ -321,12 +148,15 @@ const UserProfile = () => {
                         Logout
                     </Button>
                 </div>
+                <ViewSource source={sources} regions={['UserContext', 'useUser', 'UserProvider', 'UserProfile']} />
             </CardContent>
         </Card>
     )
 }
+// #endregion UserProfile
 
 // Component that uses Settings Context
+// #region SettingsPanel
 const SettingsPanel = () => {
     const { settings, updateSettings } = useSettings()
 
@@ -384,12 +214,15 @@ const SettingsPanel = () => {
                         onCheckedChange={(checked) => updateSettings({ autoSave: checked })}
                     />
                 </div>
+                <ViewSource source={sources} regions={['SettingsContext', 'useSettings', 'SettingsProvider', 'SettingsPanel']} />
             </CardContent>
         </Card>
     )
 }
+// #endregion SettingsPanel
 
 // Component that uses Cart Context
+// #region ShoppingCartDemo
 const ShoppingCartDemo = () => {
     const { items, addItem, removeItem, updateQuantity, clearCart, total, itemCount } = useCart()
 
@@ -477,11 +310,13 @@ const ShoppingCartDemo = () => {
                             </div>
                         </div>
                     )}
+                    <ViewSource source={sources} regions={['CartContext', 'useCart', 'CartProvider', 'ShoppingCartDemo']} />
                 </CardContent>
             </Card>
         </div>
     )
 }
+// #endregion ShoppingCartDemo
 
 // Context Debug Panel
 const ContextDebugPanel = () => {
@@ -544,8 +379,12 @@ const ContextDebugPanel = () => {
     )
 }
 
+const tabIds = getTabIds('useContext')
+
 // Main Demo Component
 const ContextDemoContent = () => {
+    const { tab, setTab, tabs } = useRouteTab()
+
     const [showDebug, setShowDebug] = useState(false)
 
     return (
@@ -571,14 +410,14 @@ const ContextDemoContent = () => {
                 </Button>
             </div>
 
-            <Tabs defaultValue="basic" className="space-y-6">
+            <Tabs value={tab} onValueChange={setTab} className="space-y-6">
                 <TabsList className="grid w-full grid-cols-3">
-                    <TabsTrigger value="basic">Basic Usage</TabsTrigger>
-                    <TabsTrigger value="multiple">Multiple Contexts</TabsTrigger>
-                    <TabsTrigger value="practical">Practical Examples</TabsTrigger>
+                    {tabs.map(({ id, label }) => (
+                        <TabsTrigger key={id} value={id}>{label}</TabsTrigger>
+                    ))}
                 </TabsList>
 
-                <TabsContent value="basic" className="space-y-6">
+                <TabsContent value={tabIds.basic} className="space-y-6">
                     <Card>
                         <CardHeader>
                             <CardTitle className="flex items-center gap-2">
@@ -600,17 +439,22 @@ const ContextDemoContent = () => {
                                     </p>
                                 </div>
 
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        {`const ThemeContext = createContext()\n\nconst useTheme = () => {\n  const context = useContext(ThemeContext)\n  if (!context) throw new Error('useTheme must be used within ThemeProvider')\n  return context\n}`}
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`const ThemeContext = createContext()
+
+const useTheme = () => {
+  const context = useContext(ThemeContext)
+  if (!context) throw new Error('useTheme must be used within ThemeProvider')
+  return context
+}`}
+                                />
                             </div>
+                            <ViewSource source={sources} regions={['ThemeContext', 'useTheme', 'ThemeProvider', 'ThemeToggle']} />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="multiple" className="space-y-6">
+                <TabsContent value={tabIds.multiple} className="space-y-6">
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                         <UserProfile />
                         <SettingsPanel />
@@ -624,16 +468,21 @@ const ContextDemoContent = () => {
                             </CardDescription>
                         </CardHeader>
                         <CardContent>
-                            <div className="p-3 bg-muted rounded-lg">
-                                <code className="text-sm">
-                                    {`<ThemeProvider>\n  <UserProvider>\n    <SettingsProvider>\n      <App />\n    </SettingsProvider>\n  </UserProvider>\n</ThemeProvider>`}
-                                </code>
-                            </div>
+                            <CodeBlock
+                                code={`<ThemeProvider>
+  <UserProvider>
+    <SettingsProvider>
+      <App />
+    </SettingsProvider>
+  </UserProvider>
+</ThemeProvider>`}
+                            />
+                            <ViewSource source={sources} regions="UseContextDemo" />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="practical" className="space-y-6">
+                <TabsContent value={tabIds.practical} className="space-y-6">
                     <ShoppingCartDemo />
 
                     <Card>
@@ -708,6 +557,7 @@ const ContextDemoContent = () => {
 }
 
 // Main export with all providers
+// #region UseContextDemo
 export function UseContextDemo() {
     return (
         <ThemeProvider>
@@ -720,4 +570,5 @@ export function UseContextDemo() {
             </UserProvider>
         </ThemeProvider>
     )
-}
\ No newline at end of file
+}
+// #endregion UseContextDemo
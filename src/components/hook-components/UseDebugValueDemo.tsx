@@ -1,9 +1,14 @@
-import { useState, useEffect, useCallback, useMemo, useDebugValue } from 'react'
+import { useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { CodeBlock } from '@/components/ui/code-block'
+import ViewSource from '@/components/ViewSource'
+import Playground from '@/components/Playground'
+import { useRouteTab } from '@/hooks/useRoute'
+import { getTabIds } from '@/lib/registry'
 import { Label } from '@/components/ui/label'
 import { Progress } from '@/components/ui/progress'
 import { Alert, AlertDescription } from '@/components/ui/alert'
@@ -22,303 +27,39 @@ import {
     Bell,
     Wifi
 } from 'lucide-react'
-
-// Example 1: Basic useDebugValue with simple state
-function useCounter(initialValue = 0) {
-    const [count, setCount] = useState(initialValue);
-
-    // Basic debug value
-    useDebugValue(count);
-
-    const increment = useCallback(() => setCount(c => c + 1), []);
-    const decrement = useCallback(() => setCount(c => c - 1), []);
-    const reset = useCallback(() => setCount(initialValue), [initialValue]);
-
-    return { count, increment, decrement, reset };
-}
-
-// Example 2: useDebugValue with object state
-function useUser(userId: string) {
-    const [user, setUser] = useState<{
-        id: string;
-        name: string;
-        email: string;
-        status: 'loading' | 'success' | 'error';
-    }>({
-        id: userId,
-        name: '',
-        email: '',
-        status: 'loading'
-    });
-
-    // Debug value with object
-    useDebugValue(user, user => `User: ${user.name} (${user.status})`);
-
-    useEffect(() => {
-        // Simulate API call
-        const timer = setTimeout(() => {
-            setUser({
-                id: userId,
-                name: `User ${userId}`,
-                email: `user${userId}@example.com`,
-                status: 'success'
-            });
-        }, 1000);
-
-        return () => clearTimeout(timer);
-    }, [userId]);
-
-    return user;
-}
-
-// Example 3: useDebugValue with formatter function
-function useLocalStorage<T>(key: string, initialValue: T) {
-    const [storedValue, setStoredValue] = useState<T>(() => {
-        try {
-            const item = window.localStorage.getItem(key);
-            return item ? JSON.parse(item) : initialValue;
-        } catch (error) {
-            console.error(`Error reading localStorage key "${key}":`, error);
-            return initialValue;
-        }
-    });
-
-    // Debug value with formatter function for performance
-    useDebugValue(
-        { key, value: storedValue },
-        ({ key, value }) => `localStorage[${key}]: ${JSON.stringify(value).slice(0, 50)}...`
-    );
-
-    const setValue = useCallback((value: T | ((val: T) => T)) => {
-        try {
-            const valueToStore = value instanceof Function ? value(storedValue) : value;
-            setStoredValue(valueToStore);
-            window.localStorage.setItem(key, JSON.stringify(valueToStore));
-        } catch (error) {
-            console.error(`Error setting localStorage key "${key}":`, error);
-        }
-    }, [key, storedValue]);
-
-    return [storedValue, setValue] as const;
-}
-
-// Example 4: useDebugValue with conditional debugging
-function useFetch<T>(url: string, enabled = true) {
-    const [data, setData] = useState<T | null>(null);
-    const [loading, setLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
-
-    const state = { data, loading, error, url };
-
-    // Conditional debug value only when there's an error or loading
-    useDebugValue(
-        state,
-        (state) => {
-            if (state.error) return `❌ Error: ${state.error}`;
-            if (state.loading) return `⏳ Loading: ${state.url}`;
-            if (state.data) return `✅ Success: ${state.url}`;
-            return `⚪ Idle: ${state.url}`;
-        }
-    );
-
-    useEffect(() => {
-        if (!enabled) return;
-
-        let cancelled = false;
-
-        const fetchData = async () => {
-            setLoading(true);
-            setError(null);
-
-            try {
-                // Simulate API call
-                await new Promise(resolve => setTimeout(resolve, 1000));
-
-                if (!cancelled) {
-                    // Mock successful response
-                    setData({ message: `Data from ${url}`, timestamp: new Date().toISOString() } as T);
-                }
-            } catch (err) {
-                if (!cancelled) {
-                    setError(err instanceof Error ? err.message : 'An error occurred');
-                }
-            } finally {
-                if (!cancelled) {
-                    setLoading(false);
-                }
-            }
-        };
-
-        fetchData();
-
-        return () => {
-            cancelled = true;
-        };
-    }, [url, enabled]);
-
-    return { data, loading, error };
-}
-
-// Example 5: useDebugValue with complex state
-function useShoppingCart() {
-    const [items, setItems] = useState<Array<{
-        id: string;
-        name: string;
-        price: number;
-        quantity: number;
-    }>>([]);
-
-    const totalItems = useMemo(() =>
-            items.reduce((sum, item) => sum + item.quantity, 0),
-        [items]
-    );
-
-    const totalPrice = useMemo(() =>
-            items.reduce((sum, item) => sum + (item.price * item.quantity), 0),
-        [items]
-    );
-
-    // Debug value with complex computed state
-    useDebugValue(
-        { items, totalItems, totalPrice },
-        ({ items, totalItems, totalPrice }) =>
-            `Cart: ${items.length} types, ${totalItems} items, $${totalPrice.toFixed(2)}`
-    );
-
-    const addItem = useCallback((item: { id: string; name: string; price: number }) => {
-        setItems(prev => {
-            const existing = prev.find(i => i.id === item.id);
-            if (existing) {
-                return prev.map(i =>
-                    i.id === item.id
-                        ? { ...i, quantity: i.quantity + 1 }
-                        : i
-                );
-            }
-            return [...prev, { ...item, quantity: 1 }];
-        });
-    }, []);
-
-    const removeItem = useCallback((id: string) => {
-        setItems(prev => prev.filter(item => item.id !== id));
-    }, []);
-
-    const clear = useCallback(() => {
-        setItems([]);
-    }, []);
-
-    return { items, totalItems, totalPrice, addItem, removeItem, clear };
-}
-
-// Example 6: useDebugValue with timer
-function useTimer(duration: number) {
-    const [timeLeft, setTimeLeft] = useState(duration);
-    const [isRunning, setIsRunning] = useState(false);
-
-    // Debug value with status indicator
-    useDebugValue(
-        { timeLeft, isRunning, duration },
-        ({ timeLeft, isRunning, duration }) => {
-            const progress = ((duration - timeLeft) / duration * 100).toFixed(1);
-            const status = isRunning ? '▶️' : timeLeft === 0 ? '🏁' : '⏸️';
-            return `${status} Timer: ${timeLeft}s (${progress}%)`;
-        }
-    );
-
-    useEffect(() => {
-        if (!isRunning || timeLeft === 0) return;
-
-        const timer = setTimeout(() => {
-            setTimeLeft(prev => {
-                if (prev <= 1) {
-                    setIsRunning(false);
-                    return 0;
-                }
-                return prev - 1;
-            });
-        }, 1000);
-
-        return () => clearTimeout(timer);
-    }, [timeLeft, isRunning]);
-
-    const start = useCallback(() => setIsRunning(true), []);
-    const pause = useCallback(() => setIsRunning(false), []);
-    const reset = useCallback(() => {
-        setTimeLeft(duration);
-        setIsRunning(false);
-    }, [duration]);
-
-    return { timeLeft, isRunning, start, pause, reset };
-}
-
-// Example 7: useDebugValue with online status
-function useOnlineStatus() {
-    const [isOnline, setIsOnline] = useState(navigator.onLine);
-    const [lastChanged, setLastChanged] = useState<Date | null>(null);
-
-    // Debug value with timestamp
-    useDebugValue(
-        { isOnline, lastChanged },
-        ({ isOnline, lastChanged }) => {
-            const status = isOnline ? '🟢 Online' : '🔴 Offline';
-            const time = lastChanged ? lastChanged.toLocaleTimeString() : 'Never';
-            return `${status} (changed: ${time})`;
-        }
-    );
-
-    useEffect(() => {
-        const handleOnline = () => {
-            setIsOnline(true);
-            setLastChanged(new Date());
-        };
-
-        const handleOffline = () => {
-            setIsOnline(false);
-            setLastChanged(new Date());
-        };
-
-        window.addEventListener('online', handleOnline);
-        window.addEventListener('offline', handleOffline);
-
-        return () => {
-            window.removeEventListener('online', handleOnline);
-            window.removeEventListener('offline', handleOffline);
-        };
-    }, []);
-
-    return { isOnline, lastChanged };
-}
-
-// Example 8: useDebugValue with search functionality
-function useSearch<T>(items: T[], searchTerm: string, searchFn: (item: T, term: string) => boolean) {
-    const [isSearching, setIsSearching] = useState(false);
-
-    const results = useMemo(() => {
-        if (!searchTerm.trim()) return items;
-
-        setIsSearching(true);
-        const filtered = items.filter(item => searchFn(item, searchTerm));
-
-        // Simulate search delay
-        setTimeout(() => setIsSearching(false), 100);
-
-        return filtered;
-    }, [items, searchTerm, searchFn]);
-
-    // Debug value with search statistics
-    useDebugValue(
-        { searchTerm, totalItems: items.length, resultCount: results.length, isSearching },
-        ({ searchTerm, totalItems, resultCount, isSearching }) => {
-            if (isSearching) return '🔍 Searching...';
-            if (!searchTerm) return `📋 All items (${totalItems})`;
-            return `🔍 "${searchTerm}": ${resultCount}/${totalItems} results`;
-        }
-    );
-
-    return { results, isSearching };
-}
+import { useCounter } from '@/hooks/useCounter'
+import { useFetch } from '@/hooks/useFetch'
+import { useLocalStorage } from '@/hooks/useLocalStorage'
+import { useOnlineStatus } from '@/hooks/useOnlineStatus'
+import { useSearch } from '@/hooks/useSearch'
+import { useShoppingCart } from '@/hooks/useShoppingCart'
+import { useTimer } from '@/hooks/useTimer'
+import { useUserProfile } from '@/hooks/useUserProfile'
+import demoSource from '@/components/hook-components/UseDebugValueDemo.tsx?raw'
+import useCounterSource from '@/hooks/useCounter.ts?raw'
+import useFetchSource from '@/hooks/useFetch.ts?raw'
+import useLocalStorageSource from '@/hooks/useLocalStorage.ts?raw'
+import useOnlineStatusSource from '@/hooks/useOnlineStatus.ts?raw'
+import useSearchSource from '@/hooks/useSearch.ts?raw'
+import useShoppingCartSource from '@/hooks/useShoppingCart.ts?raw'
+import useTimerSource from '@/hooks/useTimer.ts?raw'
+import useUserProfileSource from '@/hooks/useUserProfile.ts?raw'
+
+// The hooks live in src/hooks; each example shows its hook's region next to its own code
+const sources = [
+    demoSource,
+    useCounterSource,
+    useFetchSource,
+    useLocalStorageSource,
+    useOnlineStatusSource,
+    useSearchSource,
+    useShoppingCartSource,
+    useTimerSource,
+    useUserProfileSource
+];
 
 // Components using the custom hooks
+// #region CounterExample
 const CounterExample = () => {
     const { count, increment, decrement, reset } = useCounter(0);
 
@@ -335,16 +76,37 @@ const CounterExample = () => {
             <Alert>
                 <Bug className="h-4 w-4" />
                 <AlertDescription>
-                    Open React DevTools to see the debug value for this counter hook
+                    Open React DevTools or the Hook inspector below to see the debug value for this counter hook
                 </AlertDescription>
             </Alert>
         </div>
     );
 };
+// #endregion CounterExample
+
+// Playground seeded with useCounter; the preview below drives it with plain elements
+const counterPlayground = {
+    imports: `import { useCallback, useDebugValue, useState } from 'react'`,
+    preview: `export default function Preview() {
+    const { count, increment, decrement, reset } = useCounter(0);
+
+    return (
+        <div className="space-y-4 text-center">
+            <div className="text-4xl font-bold">{count}</div>
+            <div className="flex justify-center gap-2">
+                <button className="rounded border px-3 py-1" onClick={decrement}>-</button>
+                <button className="rounded border px-3 py-1" onClick={increment}>+</button>
+                <button className="rounded border px-3 py-1" onClick={reset}>Reset</button>
+            </div>
+        </div>
+    );
+}`
+};
 
+// #region UserExample
 const UserExample = () => {
     const [userId, setUserId] = useState('123');
-    const user = useUser(userId);
+    const user = useUserProfile(userId);
 
     return (
         <div className="space-y-4">
@@ -379,7 +141,9 @@ const UserExample = () => {
         </div>
     );
 };
+// #endregion UserExample
 
+// #region LocalStorageExample
 const LocalStorageExample = () => {
     const [name, setName] = useLocalStorage('demo-name', '');
     const [preferences, setPreferences] = useLocalStorage('demo-preferences', {
@@ -434,7 +198,9 @@ const LocalStorageExample = () => {
         </div>
     );
 };
+// #endregion LocalStorageExample
 
+// #region TimerExample
 const TimerExample = () => {
     const { timeLeft, isRunning, start, pause, reset } = useTimer(30);
 
@@ -461,7 +227,9 @@ const TimerExample = () => {
         </div>
     );
 };
+// #endregion TimerExample
 
+// #region ShoppingCartExample
 const ShoppingCartExample = () => {
     const { items, totalItems, totalPrice, addItem, removeItem, clear } = useShoppingCart();
 
@@ -532,7 +300,9 @@ const ShoppingCartExample = () => {
         </div>
     );
 };
+// #endregion ShoppingCartExample
 
+// #region OnlineStatusExample
 const OnlineStatusExample = () => {
     const { isOnline, lastChanged } = useOnlineStatus();
 
@@ -561,7 +331,9 @@ const OnlineStatusExample = () => {
         </div>
     );
 };
+// #endregion OnlineStatusExample
 
+// #region SearchExample
 const SearchExample = () => {
     const [searchTerm, setSearchTerm] = useState('');
 
@@ -625,7 +397,9 @@ const SearchExample = () => {
         </div>
     );
 };
+// #endregion SearchExample
 
+// #region FetchExample
 const FetchExample = () => {
     const [url, setUrl] = useState('/api/users');
     const [enabled, setEnabled] = useState(true);
@@ -685,8 +459,13 @@ const FetchExample = () => {
         </div>
     );
 };
+// #endregion FetchExample
+
+const tabIds = getTabIds('useDebugValue')
 
 export default function UseDebugValueDemo() {
+    const { tab, setTab, tabs } = useRouteTab()
+
     return (
         <div className="max-w-6xl mx-auto p-6 space-y-6">
             {/* Header */}
@@ -702,19 +481,19 @@ export default function UseDebugValueDemo() {
                 <Bug className="h-4 w-4" />
                 <AlertDescription>
                     <strong>Open React DevTools</strong> to see the debug values in action!
-                    Look for the custom hook names in the Components tab.
+                    Look for the custom hook names in the Components tab, or open the Hook inspector at the
+                    bottom of the page if you don't have DevTools installed.
                 </AlertDescription>
             </Alert>
 
-            <Tabs defaultValue="basic" className="space-y-6">
+            <Tabs value={tab} onValueChange={setTab} className="space-y-6">
                 <TabsList className="grid w-full grid-cols-4">
-                    <TabsTrigger value="basic">Basic Usage</TabsTrigger>
-                    <TabsTrigger value="formatted">Formatted Values</TabsTrigger>
-                    <TabsTrigger value="complex">Complex State</TabsTrigger>
-                    <TabsTrigger value="performance">Performance</TabsTrigger>
+                    {tabs.map(({ id, label }) => (
+                        <TabsTrigger key={id} value={id}>{label}</TabsTrigger>
+                    ))}
                 </TabsList>
 
-                <TabsContent value="basic" className="space-y-6">
+                <TabsContent value={tabIds.basic} className="space-y-6">
                     {/* Basic Counter */}
                     <Card>
                         <CardHeader>
@@ -729,15 +508,16 @@ export default function UseDebugValueDemo() {
                         </CardHeader>
                         <CardContent>
                             <CounterExample />
-                            <div className="mt-4 p-3 bg-muted rounded-lg">
-                                <code className="text-sm">
-                                    function useCounter() {'{'}<br />
-                                    &nbsp;&nbsp;const [count, setCount] = useState(0)<br />
-                                    &nbsp;&nbsp;useDebugValue(count)<br />
-                                    &nbsp;&nbsp;return {'{'} count, increment, decrement {'}'}<br />
-                                    {'}'}
-                                </code>
-                            </div>
+                            <CodeBlock
+                                className="mt-4"
+                                code={`function useCounter() {
+  const [count, setCount] = useState(0)
+  useDebugValue(count)
+  return { count, increment, decrement }
+}`}
+                            />
+                            <ViewSource source={sources} regions={['useCounter', 'CounterExample']} />
+                            <Playground source={sources} regions="useCounter" {...counterPlayground} />
                         </CardContent>
                     </Card>
 
@@ -755,15 +535,15 @@ export default function UseDebugValueDemo() {
                         </CardHeader>
                         <CardContent>
                             <OnlineStatusExample />
-                            <div className="mt-4 p-3 bg-muted rounded-lg">
-                                <code className="text-sm">
-                                    useDebugValue(<br />
-                                    &nbsp;&nbsp;{'{'} isOnline, lastChanged {'}'},<br />
-                                    &nbsp;&nbsp;({'{'} isOnline, lastChanged {'}'}) =&gt; <br />
-                                    &nbsp;&nbsp;&nbsp;&nbsp;`${'${isOnline ? "🟢 Online" : "🔴 Offline"}'} (changed: ${'${time}'})`<br />
-                                    )
-                                </code>
-                            </div>
+                            <CodeBlock
+                                className="mt-4"
+                                code={`useDebugValue(
+  { isOnline, lastChanged },
+  ({ isOnline, lastChanged }) =>
+    \`\${isOnline ? "🟢 Online" : "🔴 Offline"} (changed: \${time})\`
+)`}
+                            />
+                            <ViewSource source={sources} regions={['useOnlineStatus', 'OnlineStatusExample']} />
                         </CardContent>
                     </Card>
 
@@ -781,21 +561,21 @@ export default function UseDebugValueDemo() {
                         </CardHeader>
                         <CardContent>
                             <FetchExample />
-                            <div className="mt-4 p-3 bg-muted rounded-lg">
-                                <code className="text-sm">
-                                    useDebugValue(state, (state) =&gt; {'{'}<br />
-                                    &nbsp;&nbsp;if (state.error) return `❌ Error: ${'${state.error}'}`<br />
-                                    &nbsp;&nbsp;if (state.loading) return `⏳ Loading: ${'${state.url}'}`<br />
-                                    &nbsp;&nbsp;if (state.data) return `✅ Success: ${'${state.url}'}`<br />
-                                    &nbsp;&nbsp;return `⚪ Idle: ${'${state.url}'}`<br />
-                                    {'}'})
-                                </code>
-                            </div>
+                            <CodeBlock
+                                className="mt-4"
+                                code={`useDebugValue(state, (state) => {
+  if (state.error) return \`❌ Error: \${state.error}\`
+  if (state.loading) return \`⏳ Loading: \${state.url}\`
+  if (state.data) return \`✅ Success: \${state.url}\`
+  return \`⚪ Idle: \${state.url}\`
+})`}
+                            />
+                            <ViewSource source={sources} regions={['useFetch', 'FetchExample']} />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="formatted" className="space-y-6">
+                <TabsContent value={tabIds.formatted} className="space-y-6">
                     {/* User Hook */}
                     <Card>
                         <CardHeader>
@@ -810,14 +590,14 @@ export default function UseDebugValueDemo() {
                         </CardHeader>
                         <CardContent>
                             <UserExample />
-                            <div className="mt-4 p-3 bg-muted rounded-lg">
-                                <code className="text-sm">
-                                    useDebugValue(<br />
-                                    &nbsp;&nbsp;user,<br />
-                                    &nbsp;&nbsp;user =&gt; `User: ${'${user.name}'} (${'${user.status}'})`<br />
-                                    )
-                                </code>
-                            </div>
+                            <CodeBlock
+                                className="mt-4"
+                                code={`useDebugValue(
+  user,
+  user => \`User: \${user.name} (\${user.status})\`
+)`}
+                            />
+                            <ViewSource source={sources} regions={['useUserProfile', 'UserExample']} />
                         </CardContent>
                     </Card>
 
@@ -835,23 +615,23 @@ export default function UseDebugValueDemo() {
                         </CardHeader>
                         <CardContent>
                             <TimerExample />
-                            <div className="mt-4 p-3 bg-muted rounded-lg">
-                                <code className="text-sm">
-                                    useDebugValue(<br />
-                                    &nbsp;&nbsp;{'{'} timeLeft, isRunning, duration {'}'},<br />
-                                    &nbsp;&nbsp;({'{'} timeLeft, isRunning, duration {'}'}) =&gt; {'{'}<br />
-                                    &nbsp;&nbsp;&nbsp;&nbsp;const progress = ((duration - timeLeft) / duration * 100).toFixed(1)<br />
-                                    &nbsp;&nbsp;&nbsp;&nbsp;const status = isRunning ? '▶️' : timeLeft === 0 ? '🏁' : '⏸️'<br />
-                                    &nbsp;&nbsp;&nbsp;&nbsp;return `${'${status}'} Timer: ${'${timeLeft}'}s (${'${progress}'}%)`<br />
-                                    &nbsp;&nbsp;{'}'}<br />
-                                    )
-                                </code>
-                            </div>
+                            <CodeBlock
+                                className="mt-4"
+                                code={`useDebugValue(
+  { timeLeft, isRunning, duration },
+  ({ timeLeft, isRunning, duration }) => {
+    const progress = ((duration - timeLeft) / duration * 100).toFixed(1)
+    const status = isRunning ? '▶️' : timeLeft === 0 ? '🏁' : '⏸️'
+    return \`\${status} Timer: \${timeLeft}s (\${progress}%)\`
+  }
+)`}
+                            />
+                            <ViewSource source={sources} regions={['useTimer', 'TimerExample']} />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="complex" className="space-y-6">
+                <TabsContent value={tabIds.complex} className="space-y-6">
                     {/* Shopping Cart */}
                     <Card>
                         <CardHeader>
@@ -866,15 +646,15 @@ export default function UseDebugValueDemo() {
                         </CardHeader>
                         <CardContent>
                             <ShoppingCartExample />
-                            <div className="mt-4 p-3 bg-muted rounded-lg">
-                                <code className="text-sm">
-                                    useDebugValue(<br />
-                                    &nbsp;&nbsp;{'{'} items, totalItems, totalPrice {'}'},<br />
-                                    &nbsp;&nbsp;({'{'} items, totalItems, totalPrice {'}'}) =&gt;<br />
-                                    &nbsp;&nbsp;&nbsp;&nbsp;`Cart: ${'${items.length}'} types, ${'${totalItems}'} items, $${'${totalPrice.toFixed(2)}'}`<br />
-                                    )
-                                </code>
-                            </div>
+                            <CodeBlock
+                                className="mt-4"
+                                code={`useDebugValue(
+  { items, totalItems, totalPrice },
+  ({ items, totalItems, totalPrice }) =>
+    \`Cart: \${items.length} types, \${totalItems} items, $\${totalPrice.toFixed(2)}\`
+)`}
+                            />
+                            <ViewSource source={sources} regions={['useShoppingCart', 'ShoppingCartExample']} />
                         </CardContent>
                     </Card>
 
@@ -892,23 +672,23 @@ export default function UseDebugValueDemo() {
                         </CardHeader>
                         <CardContent>
                             <SearchExample />
-                            <div className="mt-4 p-3 bg-muted rounded-lg">
-                                <code className="text-sm">
-                                    useDebugValue(<br />
-                                    &nbsp;&nbsp;{'{'} searchTerm, totalItems, resultCount, isSearching {'}'},<br />
-                                    &nbsp;&nbsp;({'{'} searchTerm, totalItems, resultCount, isSearching {'}'}) =&gt; {'{'}<br />
-                                    &nbsp;&nbsp;&nbsp;&nbsp;if (isSearching) return '🔍 Searching...'<br />
-                                    &nbsp;&nbsp;&nbsp;&nbsp;if (!searchTerm) return `📋 All items (${'${totalItems}'})`<br />
-                                    &nbsp;&nbsp;&nbsp;&nbsp;return `🔍 "${'${searchTerm}'}": ${'${resultCount}'}/${'${totalItems}'} results`<br />
-                                    &nbsp;&nbsp;{'}'}<br />
-                                    )
-                                </code>
-                            </div>
+                            <CodeBlock
+                                className="mt-4"
+                                code={`useDebugValue(
+  { searchTerm, totalItems, resultCount, isSearching },
+  ({ searchTerm, totalItems, resultCount, isSearching }) => {
+    if (isSearching) return '🔍 Searching...'
+    if (!searchTerm) return \`📋 All items (\${totalItems})\`
+    return \`🔍 "\${searchTerm}": \${resultCount}/\${totalItems} results\`
+  }
+)`}
+                            />
+                            <ViewSource source={sources} regions={['useSearch', 'SearchExample']} />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="performance" className="space-y-6">
+                <TabsContent value={tabIds.performance} className="space-y-6">
                     {/* LocalStorage Hook */}
                     <Card>
                         <CardHeader>
@@ -923,15 +703,15 @@ export default function UseDebugValueDemo() {
                         </CardHeader>
                         <CardContent>
                             <LocalStorageExample />
-                            <div className="mt-4 p-3 bg-muted rounded-lg">
-                                <code className="text-sm">
-                                    useDebugValue(<br />
-                                    &nbsp;&nbsp;{'{'} key, value: storedValue {'}'},<br />
-                                    &nbsp;&nbsp;({'{'} key, value {'}'}) =&gt; <br />
-                                    &nbsp;&nbsp;&nbsp;&nbsp;`localStorage[${'${key}'}]: ${'${JSON.stringify(value).slice(0, 50)}'}...`<br />
-                                    )
-                                </code>
-                            </div>
+                            <CodeBlock
+                                className="mt-4"
+                                code={`useDebugValue(
+  { key, value: storedValue },
+  ({ key, value }) =>
+    \`localStorage[\${key}]: \${JSON.stringify(value).slice(0, 50)}...\`
+)`}
+                            />
+                            <ViewSource source={sources} regions={['useLocalStorage', 'LocalStorageExample']} />
                         </CardContent>
                     </Card>
 
@@ -0,0 +1,403 @@
+import { memo, useDeferredValue, useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { CodeBlock } from '@/components/ui/code-block'
+import ViewSource from '@/components/ViewSource'
+import { useRouteTab } from '@/hooks/useRoute'
+import { getTabIds } from '@/lib/registry'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+    Clock,
+    Layers,
+    RefreshCw,
+    Search,
+    Timer,
+    Info
+} from 'lucide-react'
+import demoSource from '@/components/hook-components/UseDeferredValueDemo.tsx?raw'
+
+const topics = [
+    'React Hooks', 'useEffect Guide', 'State Management', 'Component Lifecycle', 'Side Effects',
+    'Concurrent Rendering', 'Suspense Boundaries', 'Server Components', 'Memoization', 'Context API'
+]
+
+const searchIndex = Array.from({ length: 2000 }, (_, i) => `${topics[i % topics.length]} #${i + 1}`)
+
+// Blocks the main thread to stand in for a component that is expensive to render
+// #region slowDown
+const slowDown = (ms: number) => {
+    const end = performance.now() + ms
+    while (performance.now() < end) {
+        // Busy wait
+    }
+}
+// #endregion slowDown
+
+// An expensive list that only re-renders when its query changes
+// #region SlowSearchResults
+const SlowSearchResults = memo(({ query }: { query: string }) => {
+    const renderCount = useRef(0)
+    renderCount.current++
+
+    const matches = searchIndex
+        .filter(item => item.toLowerCase().includes(query.toLowerCase()))
+        .slice(0, 200)
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">
+                    Results for <code className="font-mono">{JSON.stringify(query)}</code>
+                </span>
+                <Badge variant="outline">Renders: {renderCount.current}</Badge>
+            </div>
+            <ul className="h-48 overflow-auto border rounded-lg divide-y text-sm">
+                {matches.map(item => <SlowResult key={item} text={item} />)}
+            </ul>
+        </div>
+    )
+})
+
+const SlowResult = ({ text }: { text: string }) => {
+    slowDown(1)
+    return <li className="px-3 py-1">{text}</li>
+}
+// #endregion SlowSearchResults
+
+// Example 1: Deferring an expensive render driven by a text input
+// #region DeferredSearch
+const DeferredSearch = () => {
+    const [query, setQuery] = useState('')
+    const deferredQuery = useDeferredValue(query)
+    const isStale = query !== deferredQuery
+
+    return (
+        <div className="space-y-4">
+            <div className="relative">
+                <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                <Input
+                    className="pl-9"
+                    placeholder="Type quickly, e.g. 'concurrent'"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                />
+            </div>
+            <div className={isStale ? 'opacity-50 transition-opacity delay-150' : 'transition-opacity'}>
+                <SlowSearchResults query={deferredQuery} />
+            </div>
+        </div>
+    )
+}
+// #endregion DeferredSearch
+
+// Example 2: Stale vs fresh values side by side
+// #region StaleVsFresh
+const StaleVsFresh = () => {
+    const [query, setQuery] = useState('')
+    const deferredQuery = useDeferredValue(query)
+    const isStale = query !== deferredQuery
+
+    return (
+        <div className="space-y-4">
+            <Input
+                placeholder="Watch the two values below"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+            />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="p-3 border rounded-lg space-y-1">
+                    <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium">Fresh value</span>
+                        <Badge className="bg-green-100 text-green-800">Up to date</Badge>
+                    </div>
+                    <code className="font-mono text-sm">{JSON.stringify(query)}</code>
+                </div>
+                <div className={`p-3 border rounded-lg space-y-1 ${isStale ? 'border-amber-400 bg-amber-50' : ''}`}>
+                    <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium">Deferred value</span>
+                        {isStale
+                            ? <Badge className="bg-amber-100 text-amber-800">Out of date</Badge>
+                            : <Badge className="bg-green-100 text-green-800">Caught up</Badge>}
+                    </div>
+                    <code className="font-mono text-sm">{JSON.stringify(deferredQuery)}</code>
+                </div>
+            </div>
+            <div className={isStale ? 'opacity-50 transition-opacity' : 'transition-opacity'}>
+                <SlowSearchResults query={deferredQuery} />
+            </div>
+        </div>
+    )
+}
+// #endregion StaleVsFresh
+
+// Example 3: useDeferredValue compared with a debounced search
+// #region DebouncedSearch
+const DebouncedSearch = () => {
+    const [query, setQuery] = useState('')
+    const [debouncedQuery, setDebouncedQuery] = useState('')
+
+    // The same pattern as the debounced search in the useEffect demo
+    useEffect(() => {
+        const timeout = setTimeout(() => setDebouncedQuery(query), 300)
+        return () => clearTimeout(timeout)
+    }, [query])
+
+    const isWaiting = query !== debouncedQuery
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center gap-2">
+                <Timer className="h-4 w-4" />
+                <span className="font-medium text-sm">Debounced (300ms)</span>
+                {isWaiting && <Badge variant="secondary">Waiting…</Badge>}
+            </div>
+            <Input placeholder="Search..." value={query} onChange={(e) => setQuery(e.target.value)} />
+            <SlowSearchResults query={debouncedQuery} />
+        </div>
+    )
+}
+// #endregion DebouncedSearch
+
+// #region DeferredComparison
+const DeferredComparison = () => {
+    const [query, setQuery] = useState('')
+    const deferredQuery = useDeferredValue(query)
+    const isStale = query !== deferredQuery
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center gap-2">
+                <Layers className="h-4 w-4" />
+                <span className="font-medium text-sm">Deferred</span>
+                {isStale && <Badge variant="secondary">Rendering…</Badge>}
+            </div>
+            <Input placeholder="Search..." value={query} onChange={(e) => setQuery(e.target.value)} />
+            <div className={isStale ? 'opacity-50 transition-opacity' : 'transition-opacity'}>
+                <SlowSearchResults query={deferredQuery} />
+            </div>
+        </div>
+    )
+}
+// #endregion DeferredComparison
+
+// Example 4: An initial value for the first render
+// #region InitialValueExample
+const InitialValueExample = () => {
+    const deferredTopics = useDeferredValue(searchIndex, [])
+    const isInitial = deferredTopics.length === 0
+
+    return (
+        <div className="space-y-2">
+            {isInitial
+                ? <div className="h-48 border rounded-lg flex items-center justify-center text-sm text-muted-foreground">
+                    Showing the initial value ([]) while the full list renders…
+                </div>
+                : (
+                    <ul className="h-48 overflow-auto border rounded-lg divide-y text-sm">
+                        {deferredTopics.slice(0, 300).map(item => <SlowResult key={item} text={item} />)}
+                    </ul>
+                )}
+        </div>
+    )
+}
+// #endregion InitialValueExample
+
+const tabIds = getTabIds('useDeferredValue')
+
+export default function UseDeferredValueDemo() {
+    const { tab, setTab, tabs } = useRouteTab()
+    const [mountCount, setMountCount] = useState(0)
+
+    return (
+        <div className="max-w-6xl mx-auto p-6 space-y-6">
+            {/* Header */}
+            <div className="text-center space-y-2">
+                <h1 className="text-3xl font-bold">useDeferredValue Hook Interactive Demo</h1>
+                <p className="text-muted-foreground">
+                    Let the input stay fresh while an expensive part of the UI renders a slightly stale value
+                </p>
+            </div>
+
+            <Tabs value={tab} onValueChange={setTab} className="space-y-6">
+                <TabsList className="grid w-full grid-cols-4">
+                    {tabs.map(({ id, label }) => (
+                        <TabsTrigger key={id} value={id}>{label}</TabsTrigger>
+                    ))}
+                </TabsList>
+
+                <TabsContent value={tabIds.basic} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Basic</Badge>
+                                Deferring an Expensive Render
+                            </CardTitle>
+                            <CardDescription>
+                                The input renders the latest text; the slow results render the deferred copy in the background
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <DeferredSearch />
+                            <CodeBlock
+                                className="mt-4"
+                                code={`const [query, setQuery] = useState('')
+const deferredQuery = useDeferredValue(query)
+
+<Input value={query} onChange={(e) => setQuery(e.target.value)} />
+<SlowSearchResults query={deferredQuery} />  // must be memo()`}
+                                highlightLines={[2, 5]}
+                            />
+                            <ViewSource source={demoSource} regions={['DeferredSearch', 'SlowSearchResults', 'slowDown']} />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value={tabIds.stale} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Visual Cues</Badge>
+                                <Clock className="h-4 w-4" />
+                                Stale vs Fresh
+                            </CardTitle>
+                            <CardDescription>
+                                Compare the value with its deferred copy to tell when the results are out of date
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <StaleVsFresh />
+                            <CodeBlock
+                                className="mt-4"
+                                code={`const deferredQuery = useDeferredValue(query)
+const isStale = query !== deferredQuery
+
+<div style={{ opacity: isStale ? 0.5 : 1 }}>
+  <SlowSearchResults query={deferredQuery} />
+</div>`}
+                                highlightLines={[2]}
+                            />
+                            <ViewSource source={demoSource} regions="StaleVsFresh" />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value={tabIds.debounce} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Comparison</Badge>
+                                useDeferredValue vs Debouncing
+                            </CardTitle>
+                            <CardDescription>
+                                The debounced search in the useEffect demo (Example 7) and the SearchComponent in the
+                                useCallback demo wait a fixed delay; useDeferredValue starts right away and yields to typing
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                                <DebouncedSearch />
+                                <DeferredComparison />
+                            </div>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                                <div className="p-3 border rounded-lg space-y-1">
+                                    <h4 className="font-medium">Debouncing</h4>
+                                    <p className="text-muted-foreground">• Always waits the full delay, even on a fast device</p>
+                                    <p className="text-muted-foreground">• Once rendering starts it blocks the input</p>
+                                    <p className="text-muted-foreground">• Still the right tool for limiting network requests</p>
+                                </div>
+                                <div className="p-3 border rounded-lg space-y-1">
+                                    <h4 className="font-medium">useDeferredValue</h4>
+                                    <p className="text-muted-foreground">• No fixed delay: fast devices update almost instantly</p>
+                                    <p className="text-muted-foreground">• Rendering is interrupted by the next keystroke</p>
+                                    <p className="text-muted-foreground">• Doesn't reduce how often work (or fetching) is requested</p>
+                                </div>
+                            </div>
+                            <CodeBlock
+                                code={`// Debounce: a timer decides when to update
+useEffect(() => {
+  const timeout = setTimeout(() => setDebouncedQuery(query), 300)
+  return () => clearTimeout(timeout)
+}, [query])
+
+// Deferred: React decides, based on how busy it is
+const deferredQuery = useDeferredValue(query)`}
+                            />
+                            <ViewSource source={demoSource} regions={['DebouncedSearch', 'DeferredComparison']} />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value={tabIds.initial} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">React 19</Badge>
+                                Initial Value
+                            </CardTitle>
+                            <CardDescription>
+                                Pass a cheap initial value so the first render shows something immediately
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <Button variant="outline" size="sm" onClick={() => setMountCount(c => c + 1)}>
+                                <RefreshCw className="h-4 w-4 mr-2" />
+                                Remount
+                            </Button>
+                            <InitialValueExample key={mountCount} />
+                            <Alert>
+                                <Info className="h-4 w-4" />
+                                <AlertDescription>
+                                    On mount React renders with the initial value first, then re-renders with the real
+                                    value in the background. Without it, the first render would have to draw the full list.
+                                </AlertDescription>
+                            </Alert>
+                            <CodeBlock
+                                code={`// First render uses [], then React re-renders with allTopics
+const deferredTopics = useDeferredValue(allTopics, [])`}
+                            />
+                            <ViewSource source={demoSource} regions="InitialValueExample" />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+            </Tabs>
+
+            {/* Key Concepts */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Key Concepts</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <h4 className="font-medium">🐢 Deferred Copy</h4>
+                            <p className="text-sm text-muted-foreground">
+                                useDeferredValue returns a copy of a value that may lag behind while React renders the latest one in the background.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">🧠 Pair with memo</h4>
+                            <p className="text-sm text-muted-foreground">
+                                The slow child must be wrapped in memo, otherwise it re-renders with the parent on every keystroke anyway.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">👀 Show Staleness</h4>
+                            <p className="text-sm text-muted-foreground">
+                                Compare value !== deferredValue to dim or badge content that is out of date.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">⏱️ Not a Debounce</h4>
+                            <p className="text-sm text-muted-foreground">
+                                There is no fixed delay. Use debouncing to limit requests and useDeferredValue to keep rendering responsive.
+                            </p>
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
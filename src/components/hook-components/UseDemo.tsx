@@ -0,0 +1,584 @@
+import { Component, Suspense, use, useState, useSyncExternalStore, useTransition, type ReactNode } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { CodeBlock } from '@/components/ui/code-block'
+import ViewSource from '@/components/ViewSource'
+import { useRouteTab } from '@/hooks/useRoute'
+import { getTabIds } from '@/lib/registry'
+import { Switch } from '@/components/ui/switch'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import {
+    AlertCircle,
+    Database,
+    Loader2,
+    Moon,
+    Palette,
+    RefreshCw,
+    RotateCcw,
+    ShieldAlert,
+    Sun,
+    Users
+} from 'lucide-react'
+import { ThemeContext } from '@/lib/theme-context'
+import demoSource from '@/components/hook-components/UseDemo.tsx?raw'
+
+// #region fetchUsers
+type Team = 'engineering' | 'design' | 'product'
+
+interface User {
+    id: number
+    name: string
+    email: string
+    team: Team
+}
+
+const mockUsers: User[] = [
+    { id: 1, name: 'John Doe', email: 'john@example.com', team: 'engineering' },
+    { id: 2, name: 'Jane Smith', email: 'jane@example.com', team: 'design' },
+    { id: 3, name: 'Bob Johnson', email: 'bob@example.com', team: 'engineering' },
+    { id: 4, name: 'Alice Brown', email: 'alice@example.com', team: 'product' },
+    { id: 5, name: 'Carol White', email: 'carol@example.com', team: 'design' }
+]
+
+// The same simulated request as the useEffect data-fetching example
+const fetchUsers = async ({ team, fail = false }: { team?: Team; fail?: boolean } = {}): Promise<User[]> => {
+    await new Promise(resolve => setTimeout(resolve, 1000))
+
+    if (fail) {
+        throw new Error('Failed to fetch users')
+    }
+    return team ? mockUsers.filter(user => user.team === team) : mockUsers
+}
+// #endregion fetchUsers
+
+// Example 1: use(promise) inside Suspense
+// #region UserList
+const UserRows = ({ users }: { users: User[] }) => (
+    <div className="space-y-2">
+        {users.map(user => (
+            <div key={user.id} className="p-3 border rounded-lg">
+                <p className="font-medium">{user.name}</p>
+                <p className="text-sm text-muted-foreground">{user.email}</p>
+            </div>
+        ))}
+    </div>
+)
+
+const UserList = ({ usersPromise }: { usersPromise: Promise<User[]> }) => {
+    // Suspends until the promise settles; a rejection is thrown to the nearest error boundary
+    const users = use(usersPromise)
+    return <UserRows users={users} />
+}
+
+const UsersFallback = () => (
+    <p className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Fetching users...
+    </p>
+)
+// #endregion UserList
+
+// #region SuspenseUsers
+const SuspenseUsers = () => {
+    const [usersPromise, setUsersPromise] = useState<Promise<User[]> | null>(null)
+    const [isPending, startTransition] = useTransition()
+
+    // The promise is created in an event handler and kept in state, never during render
+    const fetchNow = () => setUsersPromise(fetchUsers())
+
+    // Inside a transition React keeps showing the current list instead of the fallback
+    const refresh = () => startTransition(() => setUsersPromise(fetchUsers()))
+
+    return (
+        <div className="space-y-4">
+            <div className="flex gap-2">
+                <Button onClick={fetchNow}>
+                    <Users className="h-4 w-4 mr-2" />
+                    Fetch users
+                </Button>
+                <Button variant="outline" onClick={refresh} disabled={!usersPromise || isPending}>
+                    <RefreshCw className={`h-4 w-4 mr-2 ${isPending ? 'animate-spin' : ''}`} />
+                    Refresh in a transition
+                </Button>
+            </div>
+
+            {usersPromise ? (
+                <Suspense fallback={<UsersFallback />}>
+                    <div className={isPending ? 'opacity-60' : ''}>
+                        <UserList usersPromise={usersPromise} />
+                    </div>
+                </Suspense>
+            ) : (
+                <p className="text-sm text-muted-foreground">No request yet</p>
+            )}
+        </div>
+    )
+}
+// #endregion SuspenseUsers
+
+// Example 2: Caching promises
+// #region requestCounter
+// Counts fetchUsers calls. Requests start while React is rendering, so listeners are
+// notified afterwards: updating another component mid-render isn't allowed.
+const createRequestCounter = () => {
+    let count = 0
+    const listeners = new Set<() => void>()
+
+    return {
+        subscribe: (listener: () => void) => {
+            listeners.add(listener)
+            return () => {
+                listeners.delete(listener)
+            }
+        },
+        getSnapshot: () => count,
+        increment: () => {
+            count++
+            setTimeout(() => listeners.forEach(listener => listener()))
+        }
+    }
+}
+
+type RequestCounter = ReturnType<typeof createRequestCounter>
+
+const uncachedRequests = createRequestCounter()
+const cachedRequests = createRequestCounter()
+
+const RequestCount = ({ counter }: { counter: RequestCounter }) => {
+    const count = useSyncExternalStore(counter.subscribe, counter.getSnapshot)
+    return <Badge variant="outline">Requests: {count}</Badge>
+}
+// #endregion requestCounter
+
+// #region UncachedUsers
+// ❌ Every render creates a new promise. When it resolves React renders again, which starts
+// another request, so the list never appears.
+const UncachedUsers = () => {
+    uncachedRequests.increment()
+    const users = use(fetchUsers({ team: 'engineering' }))
+    return <UserRows users={users} />
+}
+// #endregion UncachedUsers
+
+// #region userCache
+// ✅ One promise per team, created on the first request and reused by every later render
+const userCache = new Map<Team, Promise<User[]>>()
+
+const getTeamUsers = (team: Team) => {
+    let promise = userCache.get(team)
+    if (!promise) {
+        cachedRequests.increment()
+        promise = fetchUsers({ team })
+        userCache.set(team, promise)
+    }
+    return promise
+}
+
+const CachedTeamUsers = ({ team }: { team: Team }) => <UserList usersPromise={getTeamUsers(team)} />
+// #endregion userCache
+
+// #region CachingComparison
+const teams: Team[] = ['engineering', 'design', 'product']
+
+const CachingComparison = () => {
+    const [showUncached, setShowUncached] = useState(false)
+    const [team, setTeam] = useState<Team>('engineering')
+    // Bumped after clearing the cache so the current team is fetched again
+    const [cacheVersion, setCacheVersion] = useState(0)
+
+    const clearCache = () => {
+        userCache.clear()
+        setCacheVersion(v => v + 1)
+    }
+
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-3 p-4 border rounded-lg border-red-200">
+                <div className="flex items-center justify-between">
+                    <h4 className="font-medium text-red-700">use(fetchUsers())</h4>
+                    <RequestCount counter={uncachedRequests} />
+                </div>
+                <Button size="sm" variant="outline" onClick={() => setShowUncached(!showUncached)}>
+                    {showUncached ? 'Stop' : 'Start'}
+                </Button>
+                {showUncached && (
+                    <Suspense fallback={<UsersFallback />}>
+                        <UncachedUsers />
+                    </Suspense>
+                )}
+            </div>
+
+            <div className="space-y-3 p-4 border rounded-lg border-green-200">
+                <div className="flex items-center justify-between">
+                    <h4 className="font-medium text-green-700">use(getTeamUsers(team))</h4>
+                    <RequestCount counter={cachedRequests} />
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    {teams.map(name => (
+                        <Button
+                            key={name}
+                            size="sm"
+                            variant={team === name ? 'default' : 'outline'}
+                            onClick={() => setTeam(name)}
+                            className="capitalize"
+                        >
+                            {name}
+                        </Button>
+                    ))}
+                    <Button size="sm" variant="ghost" onClick={clearCache}>
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Clear cache
+                    </Button>
+                </div>
+                <Suspense key={cacheVersion} fallback={<UsersFallback />}>
+                    <CachedTeamUsers team={team} />
+                </Suspense>
+            </div>
+        </div>
+    )
+}
+// #endregion CachingComparison
+
+// Example 3: Error boundaries for rejected promises
+// #region UsersErrorBoundary
+class UsersErrorBoundary extends Component<{ onRetry: () => void; children: ReactNode }, { error: Error | null }> {
+    state: { error: Error | null } = { error: null }
+
+    static getDerivedStateFromError(error: Error) {
+        return { error }
+    }
+
+    render() {
+        if (this.state.error) {
+            return (
+                <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertTitle>Couldn't load users</AlertTitle>
+                    <AlertDescription className="space-y-3">
+                        <p>{this.state.error.message}</p>
+                        <Button variant="outline" size="sm" onClick={this.props.onRetry}>
+                            <RotateCcw className="h-4 w-4 mr-2" />
+                            Try again
+                        </Button>
+                    </AlertDescription>
+                </Alert>
+            )
+        }
+        return this.props.children
+    }
+}
+// #endregion UsersErrorBoundary
+
+// #region ErrorHandling
+interface UsersRequest {
+    id: number
+    promise: Promise<User[]>
+}
+
+const ErrorHandling = () => {
+    const [shouldFail, setShouldFail] = useState(true)
+    const [request, setRequest] = useState<UsersRequest | null>(null)
+
+    // A rejected promise stays rejected, so retrying means starting a new request
+    const load = () => setRequest(previous => ({
+        id: (previous?.id ?? 0) + 1,
+        promise: fetchUsers({ fail: shouldFail })
+    }))
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-4">
+                <div className="flex items-center gap-2">
+                    <Switch id="use-should-fail" checked={shouldFail} onCheckedChange={setShouldFail} />
+                    <Label htmlFor="use-should-fail">Make the request fail</Label>
+                </div>
+                <Button onClick={load}>
+                    <Users className="h-4 w-4 mr-2" />
+                    Fetch users
+                </Button>
+            </div>
+
+            {request && (
+                // A new key gives every request a fresh boundary without a leftover error
+                <UsersErrorBoundary key={request.id} onRetry={load}>
+                    <Suspense fallback={<UsersFallback />}>
+                        <UserList usersPromise={request.promise} />
+                    </Suspense>
+                </UsersErrorBoundary>
+            )}
+        </div>
+    )
+}
+// #endregion ErrorHandling
+
+// Example 4: Reading context conditionally
+// #region ConditionalTheme
+const ThemedHint = ({ themed, children }: { themed: boolean; children: ReactNode }) => {
+    // An early return before a Hook call breaks the rules of Hooks, but use() may come after one
+    if (!themed) {
+        return <p className="p-3 border rounded-lg text-sm">{children}</p>
+    }
+
+    const theme = use(ThemeContext)?.theme ?? 'light'
+    return (
+        <p className={`p-3 border rounded-lg text-sm ${theme === 'dark' ? 'bg-gray-900 text-white border-gray-700' : 'bg-yellow-50 border-yellow-200'}`}>
+            {children}
+        </p>
+    )
+}
+
+const ThemeSwitchButton = () => {
+    const context = use(ThemeContext)
+    if (!context) return null
+
+    return (
+        <Button variant="outline" size="sm" onClick={context.toggleTheme}>
+            {context.theme === 'light' ? <Moon className="h-4 w-4 mr-2" /> : <Sun className="h-4 w-4 mr-2" />}
+            Switch to {context.theme === 'light' ? 'dark' : 'light'}
+        </Button>
+    )
+}
+
+const ConditionalTheme = () => {
+    const [theme, setTheme] = useState<'light' | 'dark'>('light')
+    const [themed, setThemed] = useState(true)
+
+    const toggleTheme = () => {
+        setTheme(prev => prev === 'light' ? 'dark' : 'light')
+    }
+
+    return (
+        // In React 19 a context can be rendered directly as its own provider
+        <ThemeContext value={{ theme, toggleTheme }}>
+            <div className="space-y-4">
+                <div className="flex flex-wrap items-center gap-4">
+                    <ThemeSwitchButton />
+                    <div className="flex items-center gap-2">
+                        <Switch id="use-themed-hint" checked={themed} onCheckedChange={setThemed} />
+                        <Label htmlFor="use-themed-hint">Follow the theme</Label>
+                    </div>
+                </div>
+                <ThemedHint themed={themed}>
+                    {themed
+                        ? `This hint read ThemeContext with use() and is using the ${theme} theme.`
+                        : 'This hint returned before calling use(), so it never read ThemeContext.'}
+                </ThemedHint>
+            </div>
+        </ThemeContext>
+    )
+}
+// #endregion ConditionalTheme
+
+const tabIds = getTabIds('use')
+
+export default function UseDemo() {
+    const { tab, setTab, tabs } = useRouteTab()
+
+    return (
+        <div className="max-w-6xl mx-auto p-6 space-y-6">
+            {/* Header */}
+            <div className="text-center space-y-2">
+                <h1 className="text-3xl font-bold">use API Interactive Demo</h1>
+                <p className="text-muted-foreground">
+                    Read promises and context during render, with Suspense and error boundaries handling the rest
+                </p>
+            </div>
+
+            <Tabs value={tab} onValueChange={setTab} className="space-y-6">
+                <TabsList className="grid w-full grid-cols-4">
+                    {tabs.map(({ id, label }) => (
+                        <TabsTrigger key={id} value={id}>{label}</TabsTrigger>
+                    ))}
+                </TabsList>
+
+                <TabsContent value={tabIds.suspense} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Basic</Badge>
+                                <Users className="h-4 w-4" />
+                                Fetching with Suspense
+                            </CardTitle>
+                            <CardDescription>
+                                The user list from the useEffect demo, without loading flags: the component reads the
+                                promise with use() and Suspense shows the fallback while it's pending
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <SuspenseUsers />
+                            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <h4 className="font-medium text-sm">Before: useEffect</h4>
+                                    <CodeBlock
+                                        code={`const [users, setUsers] = useState([])
+const [loading, setLoading] = useState(false)
+const [error, setError] = useState(null)
+
+useEffect(() => {
+  setLoading(true)
+  fetchUsers()
+    .then(setUsers)
+    .catch(error => setError(error.message))
+    .finally(() => setLoading(false))
+}, [])
+
+if (loading) return <Spinner />`}
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <h4 className="font-medium text-sm">After: use()</h4>
+                                    <CodeBlock
+                                        code={`const UserList = ({ usersPromise }) => {
+  const users = use(usersPromise)
+  return <UserRows users={users} />
+}
+
+<Suspense fallback={<Spinner />}>
+  <UserList usersPromise={usersPromise} />
+</Suspense>`}
+                                        highlightLines={[2]}
+                                    />
+                                </div>
+                            </div>
+                            <ViewSource source={demoSource} regions={['fetchUsers', 'UserList', 'SuspenseUsers']} />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value={tabIds.caching} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Caching</Badge>
+                                <Database className="h-4 w-4" />
+                                Promise Caching
+                            </CardTitle>
+                            <CardDescription>
+                                use() needs the same promise on every render. Start the uncached version and watch its request
+                                count climb; the cached one fetches each team once.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <CachingComparison />
+                            <CodeBlock
+                                code={`// ❌ New promise each render: suspends forever
+const users = use(fetchUsers({ team }))
+
+// ✅ Cache the promise outside the component
+const userCache = new Map()
+const getTeamUsers = (team) => {
+  if (!userCache.has(team)) userCache.set(team, fetchUsers({ team }))
+  return userCache.get(team)
+}
+const users = use(getTeamUsers(team))`}
+                                highlightLines={[2]}
+                            />
+                            <ViewSource
+                                source={demoSource}
+                                regions={['requestCounter', 'UncachedUsers', 'userCache', 'CachingComparison']}
+                            />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value={tabIds.errors} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Errors</Badge>
+                                <ShieldAlert className="h-4 w-4" />
+                                Rejected Promises
+                            </CardTitle>
+                            <CardDescription>
+                                When the promise rejects, use() throws the error to the closest error boundary. Retrying
+                                starts a new request.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <ErrorHandling />
+                            <CodeBlock
+                                code={`<UsersErrorBoundary key={request.id} onRetry={load}>
+  <Suspense fallback={<Spinner />}>
+    <UserList usersPromise={request.promise} />
+  </Suspense>
+</UsersErrorBoundary>
+
+// Or recover inside the promise and never reach the boundary
+const usersPromise = fetchUsers().catch(() => [])`}
+                            />
+                            <ViewSource source={demoSource} regions={['UsersErrorBoundary', 'ErrorHandling']} />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value={tabIds.context} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Context</Badge>
+                                <Palette className="h-4 w-4" />
+                                Conditional Context
+                            </CardTitle>
+                            <CardDescription>
+                                use(ThemeContext) reads the same ThemeContext as the useContext demo, but it can be called
+                                after an early return or inside a condition
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <ConditionalTheme />
+                            <CodeBlock
+                                code={`const ThemedHint = ({ themed, children }) => {
+  if (!themed) {
+    return <p>{children}</p>
+  }
+  const { theme } = use(ThemeContext) // ✅ fine after an early return
+  return <p className={theme}>{children}</p>
+}`}
+                                highlightLines={[5]}
+                            />
+                            <ViewSource source={demoSource} regions="ConditionalTheme" />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+            </Tabs>
+
+            {/* Key Concepts */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Key Concepts</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <h4 className="font-medium">⏸️ Suspends on Pending Promises</h4>
+                            <p className="text-sm text-muted-foreground">
+                                The closest Suspense boundary shows its fallback until the promise resolves.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">🗃️ Stable Promises</h4>
+                            <p className="text-sm text-muted-foreground">
+                                Create promises in event handlers, a cache or a framework loader, never fresh on each render.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">🧯 Errors Go to Boundaries</h4>
+                            <p className="text-sm text-muted-foreground">
+                                A rejected promise is thrown during render, so an error boundary decides what to show.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">🔀 Conditional Calls</h4>
+                            <p className="text-sm text-muted-foreground">
+                                Unlike Hooks, use() may be called inside conditions and loops, but still only while rendering.
+                            </p>
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
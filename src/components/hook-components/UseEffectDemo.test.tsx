@@ -0,0 +1,85 @@
+import { act, screen, within } from '@testing-library/react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { renderDemo } from '@/test/render'
+
+const card = (title: string) => within(screen.getByText(title).closest<HTMLElement>('[data-slot="card"]')!)
+
+const tick = (seconds: number) => act(() => vi.advanceTimersByTime(seconds * 1000))
+
+beforeEach(() => {
+    vi.useFakeTimers()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+describe('UseEffectDemo timer', () => {
+    it('counts seconds while running', async () => {
+        const { user } = await renderDemo('useEffect', { tab: 'cleanup' })
+        const timer = card('Timer with Cleanup')
+
+        expect(timer.getByText('0:00')).toBeInTheDocument()
+        await user.click(timer.getByRole('button', { name: 'Start' }))
+        tick(3)
+        expect(timer.getByText('0:03')).toBeInTheDocument()
+        tick(62)
+        expect(timer.getByText('1:05')).toBeInTheDocument()
+    })
+
+    it('stops counting when paused', async () => {
+        const { user } = await renderDemo('useEffect', { tab: 'cleanup' })
+        const timer = card('Timer with Cleanup')
+
+        await user.click(timer.getByRole('button', { name: 'Start' }))
+        tick(2)
+        await user.click(timer.getByRole('button', { name: 'Pause' }))
+        tick(10)
+        expect(timer.getByText('0:02')).toBeInTheDocument()
+        expect(timer.getByRole('button', { name: 'Start' })).toBeInTheDocument()
+    })
+
+    it('resets to zero and stops', async () => {
+        const { user } = await renderDemo('useEffect', { tab: 'cleanup' })
+        const timer = card('Timer with Cleanup')
+
+        await user.click(timer.getByRole('button', { name: 'Start' }))
+        tick(4)
+        await user.click(timer.getByRole('button', { name: 'Reset' }))
+        tick(4)
+        expect(timer.getByText('0:00')).toBeInTheDocument()
+    })
+
+    it('clears its interval on unmount', async () => {
+        const { user, unmount } = await renderDemo('useEffect', { tab: 'cleanup' })
+
+        await user.click(card('Timer with Cleanup').getByRole('button', { name: 'Start' }))
+        expect(vi.getTimerCount()).toBeGreaterThan(0)
+        unmount()
+        vi.runOnlyPendingTimers()
+        expect(vi.getTimerCount()).toBe(0)
+    })
+})
+
+describe('UseEffectDemo cleanup', () => {
+    it('runs the interval only while the component is shown', async () => {
+        const { user } = await renderDemo('useEffect', { tab: 'cleanup' })
+        const cleanup = card('Cleanup Function Demo')
+
+        await user.click(cleanup.getByRole('button', { name: 'Show Cleanup Demo' }))
+        tick(2)
+        expect(cleanup.getByText(/running for 2 seconds/)).toBeInTheDocument()
+
+        await user.click(cleanup.getByRole('button', { name: 'Hide Cleanup Demo' }))
+        expect(cleanup.queryByText(/running for/)).not.toBeInTheDocument()
+        expect(console.log).toHaveBeenCalledWith('CleanupDemo: Cleanup executed')
+    })
+
+    it('draws one render on the timeline for each render that commits', async () => {
+        const { user } = await renderDemo('useEffect', { tab: 'cleanup' })
+        const cleanup = card('Cleanup Function Demo')
+
+        // StrictMode calls the component twice, but only one of those renders is committed
+        await user.click(cleanup.getByRole('button', { name: 'Show Cleanup Demo' }))
+        await act(async () => {})
+        expect(cleanup.getAllByText(/CleanupDemo rendered/, { selector: 'li' })).toHaveLength(1)
+        expect(cleanup.getByText(/React applied CleanupDemo's DOM changes/, { selector: 'li' })).toBeInTheDocument()
+    })
+})
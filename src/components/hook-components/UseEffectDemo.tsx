@@ -4,6 +4,13 @@ import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { CodeBlock } from '@/components/ui/code-block'
+import ViewSource from '@/components/ViewSource'
+import LifecycleTimeline from '@/components/LifecycleTimeline'
+import { useRouteTab } from '@/hooks/useRoute'
+import { getTabIds } from '@/lib/registry'
+import { useLifecycleTrace } from '@/hooks/useLifecycleTrace'
+import { createLifecycleTimeline } from '@/lib/lifecycle-timeline'
 import { Progress } from '@/components/ui/progress'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import {
@@ -19,6 +26,8 @@ import {
     Zap,
     AlertCircle
 } from 'lucide-react'
+import demoSource from '@/components/hook-components/UseEffectDemo.tsx?raw'
+import useLifecycleTraceSource from '@/hooks/useLifecycleTrace.ts?raw'
 
 interface User {
     id: number
@@ -26,52 +35,110 @@ interface User {
     email: string
 }
 
+// Cleanup demo component, traced on the lifecycle timeline shown below it
+const cleanupTimeline = createLifecycleTimeline()
+
+// #region CleanupDemo
+const CleanupDemo = () => {
+    const [seconds, setSeconds] = useState(0)
+    useLifecycleTrace(cleanupTimeline, 'CleanupDemo')
+
+    useEffect(() => cleanupTimeline.effect('CleanupDemo', 'interval', () => {
+        console.log('CleanupDemo: Effect started')
+        const interval = setInterval(() => {
+            setSeconds(prev => prev + 1)
+        }, 1000)
+
+        return () => {
+            console.log('CleanupDemo: Cleanup executed')
+            clearInterval(interval)
+        }
+    }), [])
+
+    return (
+        <div className="p-4 border rounded-lg bg-blue-50">
+            <p className="text-sm">This component has been running for {seconds} seconds</p>
+            <p className="text-xs text-muted-foreground mt-1">
+                Check the console to see cleanup logs when you hide this component
+            </p>
+        </div>
+    )
+}
+// #endregion CleanupDemo
+
+const tabIds = getTabIds('useEffect')
+
 export function UseEffectDemo() {
+    const { tab, setTab, tabs } = useRouteTab()
+
     // Example 1: Basic useEffect (component did mount)
+    // #region mountState
     const [mountTime, setMountTime] = useState<string>('')
     const [renderCount, setRenderCount] = useState(0)
+    // #endregion mountState
 
     // Example 2: useEffect with dependencies
+    // #region countState
     const [count, setCount] = useState(0)
     const [isEven, setIsEven] = useState(true)
+    // #endregion countState
 
     // Example 3: Cleanup function
+    // #region timerState
     const [timer, setTimer] = useState(0)
     const [isTimerRunning, setIsTimerRunning] = useState(false)
+    // #endregion timerState
 
     // Example 4: Window resize listener
+    // #region windowSizeState
     const [windowSize, setWindowSize] = useState({
         width: window.innerWidth,
         height: window.innerHeight
     })
+    // #endregion windowSizeState
 
     // Example 5: Mouse position tracking
+    // #region mouseState
     const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 })
     const [isTrackingMouse, setIsTrackingMouse] = useState(false)
+    // #endregion mouseState
 
     // Example 6: Data fetching simulation
+    // #region usersState
     const [users, setUsers] = useState<User[]>([])
     const [loading, setLoading] = useState(false)
     const [error, setError] = useState<string | null>(null)
+    // #endregion usersState
 
     // Example 7: Search with debounce
+    // #region searchState
     const [searchTerm, setSearchTerm] = useState('')
     const [searchResults, setSearchResults] = useState<string[]>([])
     const [isSearching, setIsSearching] = useState(false)
+    // #endregion searchState
 
     // Example 8: Online/Offline status
+    // #region onlineState
     const [isOnline, setIsOnline] = useState(navigator.onLine)
+    // #endregion onlineState
 
     // Example 9: Document title updates
+    // #region titleState
     const [pageTitle, setPageTitle] = useState('useEffect Demo')
+    // #endregion titleState
 
     // Example 10: Cleanup demonstration
     const [showCleanupDemo, setShowCleanupDemo] = useState(false)
 
+    // #region timerRef
     const timerRef = useRef<NodeJS.Timeout | null>(null)
+    // #endregion timerRef
+    // #region searchTimeoutRef
     const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+    // #endregion searchTimeoutRef
 
     // Effect 1: Component mount effect
+    // #region mountEffect
     useEffect(() => {
         setMountTime(new Date().toLocaleTimeString())
         console.log('Component mounted!')
@@ -80,19 +147,25 @@ export function UseEffectDemo() {
             console.log('Component will unmount!')
         }
     }, [])
+    // #endregion mountEffect
 
     // Effect 2: Render count
+    // #region renderCountEffect
     useEffect(() => {
         setRenderCount(prev => prev + 1)
     }, [setRenderCount])
+    // #endregion renderCountEffect
 
     // Effect 3: Count dependency
+    // #region countEffect
     useEffect(() => {
         setIsEven(count % 2 === 0)
         console.log(`Count changed to: ${count}`)
     }, [count])
+    // #endregion countEffect
 
     // Effect 4: Timer with cleanup
+    // #region timerEffect
     useEffect(() => {
         if (isTimerRunning) {
             timerRef.current = setInterval(() => {
@@ -110,8 +183,10 @@ export function UseEffectDemo() {
             }
         }
     }, [isTimerRunning])
+    // #endregion timerEffect
 
     // Effect 5: Window resize
+    // #region resizeEffect
     useEffect(() => {
         const handleResize = () => {
             setWindowSize({
@@ -124,8 +199,10 @@ export function UseEffectDemo() {
 
         return () => window.removeEventListener('resize', handleResize)
     }, [])
+    // #endregion resizeEffect
 
     // Effect 6: Mouse tracking
+    // #region mouseEffect
     useEffect(() => {
         if (!isTrackingMouse) return
 
@@ -137,8 +214,10 @@ export function UseEffectDemo() {
 
         return () => document.removeEventListener('mousemove', handleMouseMove)
     }, [isTrackingMouse])
+    // #endregion mouseEffect
 
     // Effect 7: Search with debounce
+    // #region searchEffect
     useEffect(() => {
         if (!searchTerm) {
             setSearchResults([])
@@ -173,8 +252,10 @@ export function UseEffectDemo() {
             }
         }
     }, [searchTerm])
+    // #endregion searchEffect
 
     // Effect 8: Online/Offline detection
+    // #region onlineEffect
     useEffect(() => {
         const handleOnline = () => setIsOnline(true)
         const handleOffline = () => setIsOnline(false)
@@ -187,8 +268,10 @@ export function UseEffectDemo() {
             window.removeEventListener('offline', handleOffline)
         }
     }, [])
+    // #endregion onlineEffect
 
     // Effect 9: Document title
+    // #region titleEffect
     useEffect(() => {
         document.title = pageTitle
 
@@ -196,8 +279,10 @@ export function UseEffectDemo() {
             document.title = 'React Hooks Demo'
         }
     }, [pageTitle])
+    // #endregion titleEffect
 
     // Fetch users simulation
+    // #region fetchUsers
     const fetchUsers = async () => {
         setLoading(true)
         setError(null)
@@ -224,32 +309,7 @@ export function UseEffectDemo() {
             setLoading(false)
         }
     }
-
-    // Cleanup demo component
-    const CleanupDemo = () => {
-        const [seconds, setSeconds] = useState(0)
-
-        useEffect(() => {
-            console.log('CleanupDemo: Effect started')
-            const interval = setInterval(() => {
-                setSeconds(prev => prev + 1)
-            }, 1000)
-
-            return () => {
-                console.log('CleanupDemo: Cleanup executed')
-                clearInterval(interval)
-            }
-        }, [])
-
-        return (
-            <div className="p-4 border rounded-lg bg-blue-50">
-                <p className="text-sm">This component has been running for {seconds} seconds</p>
-                <p className="text-xs text-muted-foreground mt-1">
-                    Check the console to see cleanup logs when you hide this component
-                </p>
-            </div>
-        )
-    }
+    // #endregion fetchUsers
 
     return (
         <div className="max-w-6xl mx-auto p-6 space-y-6">
@@ -273,15 +333,14 @@ export function UseEffectDemo() {
                 </AlertDescription>
             </Alert>
 
-            <Tabs defaultValue="basic" className="space-y-6">
+            <Tabs value={tab} onValueChange={setTab} className="space-y-6">
                 <TabsList className="grid w-full grid-cols-4">
-                    <TabsTrigger value="basic">Basic Effects</TabsTrigger>
-                    <TabsTrigger value="cleanup">Cleanup & Timers</TabsTrigger>
-                    <TabsTrigger value="events">Event Listeners</TabsTrigger>
-                    <TabsTrigger value="advanced">Advanced Patterns</TabsTrigger>
+                    {tabs.map(({ id, label }) => (
+                        <TabsTrigger key={id} value={id}>{label}</TabsTrigger>
+                    ))}
                 </TabsList>
 
-                <TabsContent value="basic" className="space-y-6">
+                <TabsContent value={tabIds.basic} className="space-y-6">
                     {/* Mount Effect */}
                     <Card>
                         <CardHeader>
@@ -303,12 +362,14 @@ export function UseEffectDemo() {
                                         <strong>Total renders:</strong> {renderCount}
                                     </p>
                                 </div>
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        {`useEffect(() => {\n  console.log('Component mounted!')\n  return () => console.log('Cleanup!')\n}, [])`}
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`useEffect(() => {
+  console.log('Component mounted!')
+  return () => console.log('Cleanup!')
+}, [])`}
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions={['mountState', 'mountEffect', 'renderCountEffect']} />
                         </CardContent>
                     </Card>
 
@@ -345,12 +406,13 @@ export function UseEffectDemo() {
                                         +1
                                     </Button>
                                 </div>
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        {`useEffect(() => {\n  setIsEven(count % 2 === 0)\n}, [count])`}
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`useEffect(() => {
+  setIsEven(count % 2 === 0)
+}, [count])`}
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions={['countState', 'countEffect']} />
                         </CardContent>
                     </Card>
 
@@ -375,17 +437,18 @@ export function UseEffectDemo() {
                                 <p className="text-sm text-muted-foreground">
                                     Look at the browser tab title - it updates in real-time!
                                 </p>
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        {`useEffect(() => {\n  document.title = pageTitle\n}, [pageTitle])`}
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`useEffect(() => {
+  document.title = pageTitle
+}, [pageTitle])`}
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions={['titleState', 'titleEffect']} />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="cleanup" className="space-y-6">
+                <TabsContent value={tabIds.cleanup} className="space-y-6">
                     {/* Timer with Cleanup */}
                     <Card>
                         <CardHeader>
@@ -423,12 +486,17 @@ export function UseEffectDemo() {
                                         </Button>
                                     </div>
                                 </div>
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        {`useEffect(() => {\n  const interval = setInterval(() => {\n    setTimer(prev => prev + 1)\n  }, 1000)\n  return () => clearInterval(interval)\n}, [isTimerRunning])`}
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`useEffect(() => {
+  const interval = setInterval(() => {
+    setTimer(prev => prev + 1)
+  }, 1000)
+  return () => clearInterval(interval)
+}, [isTimerRunning])`}
+                                    highlightLines={[5]}
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions={['timerState', 'timerRef', 'timerEffect']} />
                         </CardContent>
                     </Card>
 
@@ -455,6 +523,8 @@ export function UseEffectDemo() {
 
                                 {showCleanupDemo && <CleanupDemo />}
 
+                                <LifecycleTimeline timeline={cleanupTimeline} />
+
                                 <Alert>
                                     <AlertCircle className="h-4 w-4" />
                                     <AlertDescription>
@@ -462,11 +532,12 @@ export function UseEffectDemo() {
                                     </AlertDescription>
                                 </Alert>
                             </div>
+                            <ViewSource source={[demoSource, useLifecycleTraceSource]} regions={['CleanupDemo', 'useLifecycleTrace']} />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="events" className="space-y-6">
+                <TabsContent value={tabIds.events} className="space-y-6">
                     {/* Window Resize */}
                     <Card>
                         <CardHeader>
@@ -488,12 +559,15 @@ export function UseEffectDemo() {
                                         Resize your browser window to see live updates
                                     </p>
                                 </div>
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        {`useEffect(() => {\n  const handleResize = () => setWindowSize({...})\n  window.addEventListener('resize', handleResize)\n  return () => window.removeEventListener('resize', handleResize)\n}, [])`}
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`useEffect(() => {
+  const handleResize = () => setWindowSize({...})
+  window.addEventListener('resize', handleResize)
+  return () => window.removeEventListener('resize', handleResize)
+}, [])`}
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions={['windowSizeState', 'resizeEffect']} />
                         </CardContent>
                     </Card>
 
@@ -530,12 +604,16 @@ export function UseEffectDemo() {
                                         </div>
                                     )}
                                 </div>
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        {`useEffect(() => {\n  if (!isTrackingMouse) return\n  const handleMouseMove = (e) => {...}\n  document.addEventListener('mousemove', handleMouseMove)\n  return () => document.removeEventListener('mousemove', handleMouseMove)\n}, [isTrackingMouse])`}
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`useEffect(() => {
+  if (!isTrackingMouse) return
+  const handleMouseMove = (e) => {...}
+  document.addEventListener('mousemove', handleMouseMove)
+  return () => document.removeEventListener('mousemove', handleMouseMove)
+}, [isTrackingMouse])`}
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions={['mouseState', 'mouseEffect']} />
                         </CardContent>
                     </Card>
 
@@ -565,17 +643,22 @@ export function UseEffectDemo() {
                                         Try turning off your internet connection to see the status change
                                     </p>
                                 </div>
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        {`useEffect(() => {\n  const handleOnline = () => setIsOnline(true)\n  const handleOffline = () => setIsOnline(false)\n  window.addEventListener('online', handleOnline)\n  window.addEventListener('offline', handleOffline)\n  return () => { /* cleanup */ }\n}, [])`}
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`useEffect(() => {
+  const handleOnline = () => setIsOnline(true)
+  const handleOffline = () => setIsOnline(false)
+  window.addEventListener('online', handleOnline)
+  window.addEventListener('offline', handleOffline)
+  return () => { /* cleanup */ }
+}, [])`}
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions={['onlineState', 'onlineEffect']} />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="advanced" className="space-y-6">
+                <TabsContent value={tabIds.advanced} className="space-y-6">
                     {/* Data Fetching */}
                     <Card>
                         <CardHeader>
@@ -620,6 +703,7 @@ export function UseEffectDemo() {
                                     </div>
                                 )}
                             </div>
+                            <ViewSource source={demoSource} regions={['usersState', 'fetchUsers']} />
                         </CardContent>
                     </Card>
 
@@ -662,12 +746,16 @@ export function UseEffectDemo() {
                                     </div>
                                 )}
 
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        {`useEffect(() => {\n  const timeout = setTimeout(() => {\n    // Perform search\n  }, 500)\n  return () => clearTimeout(timeout)\n}, [searchTerm])`}
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`useEffect(() => {
+  const timeout = setTimeout(() => {
+    // Perform search
+  }, 500)
+  return () => clearTimeout(timeout)
+}, [searchTerm])`}
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions={['searchState', 'searchTimeoutRef', 'searchEffect']} />
                         </CardContent>
                     </Card>
                 </TabsContent>
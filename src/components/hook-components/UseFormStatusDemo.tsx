@@ -0,0 +1,354 @@
+import { useId, useState, type ReactNode } from 'react'
+import { useFormStatus } from 'react-dom'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { CodeBlock } from '@/components/ui/code-block'
+import ViewSource from '@/components/ViewSource'
+import ServerControls from '@/components/ServerControls'
+import { useRouteTab } from '@/hooks/useRoute'
+import { getTabIds } from '@/lib/registry'
+import { Label } from '@/components/ui/label'
+import {
+    AlertTriangle,
+    Eye,
+    Loader2,
+    MessageSquare,
+    Send,
+    XCircle
+} from 'lucide-react'
+import { createPost, sendMessage, type Message } from '@/lib/fake-server'
+import demoSource from '@/components/hook-components/UseFormStatusDemo.tsx?raw'
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : 'Something went wrong'
+
+// Example 1: A submit button that knows when its form is submitting
+// #region SubmitButton
+// No props needed: useFormStatus reads the status of the closest parent <form>
+const SubmitButton = ({ children, pendingLabel }: { children: ReactNode; pendingLabel: string }) => {
+    const { pending } = useFormStatus()
+
+    return (
+        <Button type="submit" disabled={pending}>
+            {pending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+            {pending ? pendingLabel : children}
+        </Button>
+    )
+}
+// #endregion SubmitButton
+
+// #region MessageBoard
+const MessageForm = ({ author, onSent }: { author: string; onSent: (message: Message) => void }) => {
+    const id = useId()
+    const [error, setError] = useState<string | null>(null)
+
+    // A plain async function works as a form action; errors must be caught here
+    // or they reach the nearest error boundary
+    const send = async (formData: FormData) => {
+        setError(null)
+        try {
+            onSent(await sendMessage(author, String(formData.get('text'))))
+        } catch (error) {
+            setError(errorMessage(error))
+        }
+    }
+
+    return (
+        <form action={send} className="space-y-2 p-4 border rounded-lg">
+            <Label htmlFor={id}>Message as {author}</Label>
+            <div className="flex gap-2">
+                <Input id={id} name="text" required placeholder="Say hello" />
+                <SubmitButton pendingLabel="Sending...">Send</SubmitButton>
+            </div>
+            {error && (
+                <p role="alert" className="flex items-center gap-1 text-sm text-red-700">
+                    <XCircle className="h-4 w-4" />
+                    {error}
+                </p>
+            )}
+        </form>
+    )
+}
+
+const MessageBoard = () => {
+    const [messages, setMessages] = useState<Message[]>([])
+    const addMessage = (message: Message) => setMessages(messages => [...messages, message])
+
+    return (
+        <div className="space-y-4">
+            {/* Two forms, one SubmitButton component: each button only tracks its own form */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <MessageForm author="Alice" onSent={addMessage} />
+                <MessageForm author="Bob" onSent={addMessage} />
+            </div>
+            <div className="p-3 bg-muted rounded-lg space-y-1 text-sm min-h-16">
+                {messages.length === 0 && <p className="text-muted-foreground">No messages yet</p>}
+                {messages.map(message => (
+                    <p key={message.id}><span className="font-medium">{message.author}:</span> {message.text}</p>
+                ))}
+            </div>
+        </div>
+    )
+}
+// #endregion MessageBoard
+
+// Example 2: Reading what is being submitted
+// #region SubmissionPreview
+// data, method and action describe the submission in progress; they're null when idle
+const SubmissionPreview = () => {
+    const { pending, data, method, action } = useFormStatus()
+
+    if (!pending || !data) {
+        return <p className="text-sm text-muted-foreground">Idle: data, method and action are null</p>
+    }
+
+    return (
+        <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg space-y-1 text-sm">
+            <p className="flex items-center gap-2">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Posting "{String(data.get('text'))}" to #{String(data.get('channel'))}
+            </p>
+            <p className="font-mono text-xs text-muted-foreground">
+                method: {method} · action: {typeof action === 'function' ? 'function' : String(action)}
+            </p>
+        </div>
+    )
+}
+
+const ChannelPostForm = () => {
+    const [posted, setPosted] = useState<string | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    const post = async (formData: FormData) => {
+        setError(null)
+        try {
+            const created = await createPost(String(formData.get('channel')), String(formData.get('text')))
+            setPosted(`Posted "${created.text}" to #${created.channel}`)
+        } catch (error) {
+            setError(errorMessage(error))
+        }
+    }
+
+    return (
+        <form action={post} className="space-y-3">
+            <div className="flex gap-2">
+                <select name="channel" className="px-3 py-2 border rounded-md text-sm" defaultValue="general">
+                    <option value="general">#general</option>
+                    <option value="random">#random</option>
+                    <option value="react">#react</option>
+                </select>
+                <Input name="text" required placeholder="Write a post" aria-label="Post" />
+                <SubmitButton pendingLabel="Posting...">Post</SubmitButton>
+            </div>
+            <SubmissionPreview />
+            {posted && !error && <p className="text-sm text-green-700">{posted}</p>}
+            {error && <p role="alert" className="text-sm text-red-700">{error}</p>}
+        </form>
+    )
+}
+// #endregion SubmissionPreview
+
+// Example 3: Calling useFormStatus in the component that renders the form
+// #region SameComponentPitfall
+const ping = async () => {
+    try {
+        await sendMessage('demo', 'ping')
+    } catch {
+        // Only the pending state matters here
+    }
+}
+
+const StatusBadge = ({ pending }: { pending: boolean }) => (
+    <Badge variant={pending ? 'default' : 'outline'} className="font-mono">pending: {String(pending)}</Badge>
+)
+
+// ❌ useFormStatus only sees <form>s above it, not the one this component renders
+const BrokenStatusForm = () => {
+    const { pending } = useFormStatus()
+
+    return (
+        <form action={ping} className="flex items-center gap-3">
+            <Button type="submit" variant="outline">Submit</Button>
+            <StatusBadge pending={pending} />
+        </form>
+    )
+}
+
+// ✅ Move the hook into a component rendered inside the form
+const FormStatusBadge = () => {
+    const { pending } = useFormStatus()
+    return <StatusBadge pending={pending} />
+}
+
+const FixedStatusForm = () => (
+    <form action={ping} className="flex items-center gap-3">
+        <Button type="submit" variant="outline">Submit</Button>
+        <FormStatusBadge />
+    </form>
+)
+// #endregion SameComponentPitfall
+
+const tabIds = getTabIds('useFormStatus')
+
+export default function UseFormStatusDemo() {
+    const { tab, setTab, tabs } = useRouteTab()
+
+    return (
+        <div className="max-w-6xl mx-auto p-6 space-y-6">
+            {/* Header */}
+            <div className="text-center space-y-2">
+                <h1 className="text-3xl font-bold">useFormStatus Hook Interactive Demo</h1>
+                <p className="text-muted-foreground">
+                    Let components inside a form react to its submission without passing props down
+                </p>
+            </div>
+
+            <ServerControls />
+
+            <Tabs value={tab} onValueChange={setTab} className="space-y-6">
+                <TabsList className="grid w-full grid-cols-3">
+                    {tabs.map(({ id, label }) => (
+                        <TabsTrigger key={id} value={id}>{label}</TabsTrigger>
+                    ))}
+                </TabsList>
+
+                <TabsContent value={tabIds.button} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Basic</Badge>
+                                <MessageSquare className="h-4 w-4" />
+                                Reusable Submit Button
+                            </CardTitle>
+                            <CardDescription>
+                                Both forms use the same SubmitButton. Each one disables itself only while its own form submits.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <MessageBoard />
+                            <CodeBlock
+                                code={`const SubmitButton = () => {
+  const { pending } = useFormStatus()
+  return <Button type="submit" disabled={pending}>{pending ? 'Sending...' : 'Send'}</Button>
+}
+
+<form action={sendMessage}>
+  <Input name="text" />
+  <SubmitButton />
+</form>`}
+                                highlightLines={[2]}
+                            />
+                            <ViewSource source={demoSource} regions={['SubmitButton', 'MessageBoard']} />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value={tabIds.data} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Status</Badge>
+                                <Eye className="h-4 w-4" />
+                                Reading the Submission
+                            </CardTitle>
+                            <CardDescription>
+                                While the form submits, useFormStatus also exposes the FormData being sent, the method and the action
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <ChannelPostForm />
+                            <CodeBlock
+                                code={`const { pending, data, method, action } = useFormStatus()
+
+if (pending) {
+  return <p>Posting "{data.get('text')}" to #{data.get('channel')}</p>
+}`}
+                                highlightLines={[1]}
+                            />
+                            <ViewSource source={demoSource} regions="SubmissionPreview" />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value={tabIds.pitfall} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Pitfall</Badge>
+                                <AlertTriangle className="h-4 w-4" />
+                                Same Component as the Form
+                            </CardTitle>
+                            <CardDescription>
+                                Submit both forms: the status read next to the &lt;form&gt; never becomes pending
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div className="space-y-2 p-4 border rounded-lg border-red-200">
+                                    <h4 className="font-medium text-red-700">Hook in the form's component</h4>
+                                    <BrokenStatusForm />
+                                </div>
+                                <div className="space-y-2 p-4 border rounded-lg border-green-200">
+                                    <h4 className="font-medium text-green-700">Hook in a child of the form</h4>
+                                    <FixedStatusForm />
+                                </div>
+                            </div>
+                            <CodeBlock
+                                code={`// ❌ Looks for a <form> above BrokenForm: there isn't one
+const BrokenForm = () => {
+  const { pending } = useFormStatus()
+  return <form action={submit}>...</form>
+}
+
+// ✅ Rendered inside the form, so it sees that form's status
+const FormStatusBadge = () => {
+  const { pending } = useFormStatus()
+  return <Badge>pending: {String(pending)}</Badge>
+}`}
+                                highlightLines={[3, 9]}
+                            />
+                            <ViewSource source={demoSource} regions="SameComponentPitfall" />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+            </Tabs>
+
+            {/* Key Concepts */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Key Concepts</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <h4 className="font-medium">📝 Parent Form Only</h4>
+                            <p className="text-sm text-muted-foreground">
+                                useFormStatus reports on the closest &lt;form&gt; above the component, like reading a context.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">⚛️ Needs a Form Action</h4>
+                            <p className="text-sm text-muted-foreground">
+                                Status is only tracked when the form submits through an action function, not onSubmit.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">🧩 Design-System Friendly</h4>
+                            <p className="text-sm text-muted-foreground">
+                                Buttons and spinners can show pending state without every form threading an isPending prop.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">📦 From react-dom</h4>
+                            <p className="text-sm text-muted-foreground">
+                                Unlike most hooks it's imported from react-dom, because it describes a DOM form.
+                            </p>
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
@@ -0,0 +1,444 @@
+import { useEffect, useId, useRef, useState } from 'react'
+import { hydrateRoot, type Root } from 'react-dom/client'
+import { renderToString } from 'react-dom/server'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { CodeBlock } from '@/components/ui/code-block'
+import ViewSource from '@/components/ViewSource'
+import { useRouteTab } from '@/hooks/useRoute'
+import { getTabIds } from '@/lib/registry'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+    AlertCircle,
+    CheckCircle,
+    Copy,
+    Fingerprint,
+    Server,
+    XCircle
+} from 'lucide-react'
+import demoSource from '@/components/hook-components/UseIdDemo.tsx?raw'
+
+// Example 1: Generated ids for label/input pairs
+// #region LabelledInput
+const LabelledInput = ({ label, hint, type = 'text' }: { label: string; hint: string; type?: string }) => {
+    const id = useId()
+
+    return (
+        <div className="space-y-1">
+            <Label htmlFor={id}>{label}</Label>
+            <Input id={id} type={type} aria-describedby={`${id}-hint`} />
+            <p id={`${id}-hint`} className="text-xs text-muted-foreground">
+                {hint} <code className="font-mono">(id="{id}")</code>
+            </p>
+        </div>
+    )
+}
+// #endregion LabelledInput
+
+// Example 2: aria-describedby error messages
+// #region ValidatedField
+const ValidatedField = ({ label, type, validate }: {
+    label: string
+    type: string
+    validate: (value: string) => string | null
+}) => {
+    const id = useId()
+    const [value, setValue] = useState('')
+    const [touched, setTouched] = useState(false)
+    const error = touched ? validate(value) : null
+
+    const hintId = `${id}-hint`
+    const errorId = `${id}-error`
+
+    return (
+        <div className="space-y-1">
+            <Label htmlFor={id}>{label}</Label>
+            <Input
+                id={id}
+                type={type}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                onBlur={() => setTouched(true)}
+                aria-invalid={error !== null}
+                aria-describedby={error ? `${hintId} ${errorId}` : hintId}
+            />
+            <p id={hintId} className="text-xs text-muted-foreground">Required</p>
+            {error && (
+                <p id={errorId} role="alert" className="text-xs text-red-600">{error}</p>
+            )}
+            <code className="block text-xs font-mono text-muted-foreground">
+                aria-describedby="{error ? `${hintId} ${errorId}` : hintId}"
+            </code>
+        </div>
+    )
+}
+// #endregion ValidatedField
+
+// #region SignupForm
+const SignupForm = () => (
+    <form className="space-y-4" onSubmit={(e) => e.preventDefault()}>
+        <ValidatedField
+            label="Email"
+            type="email"
+            validate={(value) => /^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(value) ? null : 'Enter a valid email address'}
+        />
+        <ValidatedField
+            label="Password"
+            type="password"
+            validate={(value) => value.length >= 8 ? null : 'Password must be at least 8 characters'}
+        />
+    </form>
+)
+// #endregion SignupForm
+
+// Example 3: Multiple instances of one component
+// #region HardCodedField
+const HardCodedField = ({ label }: { label: string }) => (
+    <div className="space-y-1">
+        {/* Every instance renders the same id, so every label points at the first input */}
+        <Label htmlFor="quantity">{label}</Label>
+        <Input id="quantity" type="number" defaultValue={1} />
+    </div>
+)
+// #endregion HardCodedField
+
+// #region GeneratedField
+const GeneratedField = ({ label }: { label: string }) => {
+    const id = useId()
+    return (
+        <div className="space-y-1">
+            <Label htmlFor={id}>{label}</Label>
+            <Input id={id} type="number" defaultValue={1} />
+        </div>
+    )
+}
+// #endregion GeneratedField
+
+// Example 4: Why Math.random() and counters break hydration
+// #region idStrategies
+const useRandomId = () => useState(() => `field-${Math.random().toString(36).slice(2, 7)}`)[0]
+
+// Module state keeps counting across renders, so the client never starts where the server did
+let nextFieldId = 0
+const useCounterId = () => useState(() => `field-${++nextFieldId}`)[0]
+
+const idStrategies = {
+    useId: { label: 'useId()', useFieldId: useId },
+    random: { label: 'Math.random()', useFieldId: useRandomId },
+    counter: { label: 'Module counter', useFieldId: useCounterId }
+}
+
+type IdStrategy = keyof typeof idStrategies
+// #endregion idStrategies
+
+// #region HydrationExample
+const HydratedField = ({ strategy, onCommit }: { strategy: IdStrategy; onCommit?: () => void }) => {
+    const id = idStrategies[strategy].useFieldId()
+
+    useEffect(() => {
+        onCommit?.()
+    }, [onCommit])
+
+    return (
+        <div>
+            <label htmlFor={id}>Name</label> <input id={id} /> <small>id: {id}</small>
+        </div>
+    )
+}
+
+interface HydrationResult {
+    serverHtml: string
+    clientHtml: string
+    errors: string[]
+}
+
+const HydrationExample = ({ strategy }: { strategy: IdStrategy }) => {
+    const containerRef = useRef<HTMLDivElement>(null)
+    const rootRef = useRef<Root | null>(null)
+    const [result, setResult] = useState<HydrationResult | null>(null)
+
+    useEffect(() => () => {
+        const root = rootRef.current
+        // A root can't be unmounted synchronously while React is committing another one
+        setTimeout(() => root?.unmount())
+    }, [])
+
+    const run = () => {
+        const container = containerRef.current
+        if (!container) return
+
+        rootRef.current?.unmount()
+        setResult(null)
+
+        // 1. "Server": render the tree to an HTML string, as react-dom/server would in Node
+        const serverHtml = renderToString(<HydratedField strategy={strategy} />)
+        container.innerHTML = serverHtml
+
+        // 2. "Client": hydrate that HTML with the same tree
+        const errors: string[] = []
+        const report = () => setResult({ serverHtml, clientHtml: container.innerHTML, errors: [...errors] })
+
+        rootRef.current = hydrateRoot(container, <HydratedField strategy={strategy} onCommit={report} />, {
+            onRecoverableError: (error) => {
+                errors.push(error instanceof Error ? error.message.split('\n')[0] : String(error))
+                report()
+            }
+        })
+    }
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <Badge variant="outline" className="font-mono">{idStrategies[strategy].label}</Badge>
+                <Button size="sm" variant="outline" onClick={run}>
+                    <Server className="h-4 w-4 mr-2" />
+                    Render to string &amp; hydrate
+                </Button>
+            </div>
+
+            {/* React doesn't render into this div; the hydrated root owns its contents */}
+            <div ref={containerRef} className="p-3 border rounded-lg text-sm min-h-12" />
+
+            {result && (
+                <div className="space-y-2 text-xs">
+                    <div>
+                        <span className="text-muted-foreground">Server HTML</span>
+                        <code className="block font-mono break-all">{result.serverHtml}</code>
+                    </div>
+                    <div>
+                        <span className="text-muted-foreground">After hydration</span>
+                        <code className="block font-mono break-all">{result.clientHtml}</code>
+                    </div>
+                    {result.errors.length === 0 ? (
+                        <p className="flex items-center gap-1 text-green-700">
+                            <CheckCircle className="h-4 w-4" />
+                            Ids matched: React reused the server HTML
+                        </p>
+                    ) : (
+                        <div className="space-y-1 text-red-700">
+                            <p className="flex items-center gap-1">
+                                <XCircle className="h-4 w-4" />
+                                Hydration mismatch: React discarded the server HTML and re-rendered on the client
+                            </p>
+                            {result.errors.map((error, index) => (
+                                <p key={index} className="font-mono break-all">{error}</p>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
+// #endregion HydrationExample
+
+const tabIds = getTabIds('useId')
+
+export default function UseIdDemo() {
+    const { tab, setTab, tabs } = useRouteTab()
+
+    return (
+        <div className="max-w-6xl mx-auto p-6 space-y-6">
+            {/* Header */}
+            <div className="text-center space-y-2">
+                <h1 className="text-3xl font-bold">useId Hook Interactive Demo</h1>
+                <p className="text-muted-foreground">
+                    Generate unique, SSR-safe ids for accessible labels, hints and error messages
+                </p>
+            </div>
+
+            <Tabs value={tab} onValueChange={setTab} className="space-y-6">
+                <TabsList className="grid w-full grid-cols-4">
+                    {tabs.map(({ id, label }) => (
+                        <TabsTrigger key={id} value={id}>{label}</TabsTrigger>
+                    ))}
+                </TabsList>
+
+                <TabsContent value={tabIds.basic} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Basic</Badge>
+                                <Fingerprint className="h-4 w-4" />
+                                Label and Input Pairs
+                            </CardTitle>
+                            <CardDescription>
+                                Clicking a label focuses its input because both share an id generated by useId
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <LabelledInput label="Full name" hint="As it appears on your ID" />
+                                <LabelledInput label="Email" type="email" hint="We'll never share it" />
+                            </div>
+                            <CodeBlock
+                                code={`const id = useId()
+
+<Label htmlFor={id}>Email</Label>
+<Input id={id} aria-describedby={\`\${id}-hint\`} />
+<p id={\`\${id}-hint\`}>We'll never share it</p>`}
+                                highlightLines={[1]}
+                            />
+                            <ViewSource source={demoSource} regions="LabelledInput" />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value={tabIds.errors} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Accessibility</Badge>
+                                <AlertCircle className="h-4 w-4" />
+                                Error Messages with aria-describedby
+                            </CardTitle>
+                            <CardDescription>
+                                One useId call derives the input, hint and error ids, so screen readers announce the error
+                                with the field. Unlike the hard-coded ids in the useReducer form, this works for any number of forms.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <SignupForm />
+                            <CodeBlock
+                                code={`const id = useId()
+const hintId = \`\${id}-hint\`
+const errorId = \`\${id}-error\`
+
+<Input
+  id={id}
+  aria-invalid={error !== null}
+  aria-describedby={error ? \`\${hintId} \${errorId}\` : hintId}
+/>
+{error && <p id={errorId} role="alert">{error}</p>}`}
+                            />
+                            <ViewSource source={demoSource} regions={['ValidatedField', 'SignupForm']} />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value={tabIds.instances} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Reuse</Badge>
+                                <Copy className="h-4 w-4" />
+                                Multiple Instances
+                            </CardTitle>
+                            <CardDescription>
+                                Click each label: hard-coded ids all point at the first input, generated ids stay unique
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                <div className="space-y-3 p-4 border rounded-lg border-red-200">
+                                    <h4 className="font-medium text-red-700">Hard-coded id="quantity"</h4>
+                                    <HardCodedField label="Apples" />
+                                    <HardCodedField label="Oranges" />
+                                    <HardCodedField label="Pears" />
+                                </div>
+                                <div className="space-y-3 p-4 border rounded-lg border-green-200">
+                                    <h4 className="font-medium text-green-700">useId()</h4>
+                                    <GeneratedField label="Apples" />
+                                    <GeneratedField label="Oranges" />
+                                    <GeneratedField label="Pears" />
+                                </div>
+                            </div>
+                            <Alert>
+                                <AlertCircle className="h-4 w-4" />
+                                <AlertDescription>
+                                    If several React roots render on one page, give each root an <code>identifierPrefix</code> so
+                                    their generated ids can't collide.
+                                </AlertDescription>
+                            </Alert>
+                            <ViewSource source={demoSource} regions={['HardCodedField', 'GeneratedField']} />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value={tabIds.hydration} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">SSR</Badge>
+                                <Server className="h-4 w-4" />
+                                Server Rendering and Hydration
+                            </CardTitle>
+                            <CardDescription>
+                                Each example renders the field with react-dom/server's renderToString, then hydrates
+                                that HTML with hydrateRoot. Only useId produces the same id on both sides.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                                <HydrationExample strategy="useId" />
+                                <HydrationExample strategy="random" />
+                                <HydrationExample strategy="counter" />
+                            </div>
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                                <div className="space-y-1">
+                                    <h4 className="font-medium">useId()</h4>
+                                    <p className="text-muted-foreground">
+                                        Derived from the component's position in the tree, which is identical on server and client.
+                                    </p>
+                                </div>
+                                <div className="space-y-1">
+                                    <h4 className="font-medium">Math.random()</h4>
+                                    <p className="text-muted-foreground">
+                                        The server and the browser each roll their own number, so the ids never match.
+                                    </p>
+                                </div>
+                                <div className="space-y-1">
+                                    <h4 className="font-medium">Counters</h4>
+                                    <p className="text-muted-foreground">
+                                        Depend on render order and on how many components rendered before, which differs between
+                                        the server process and the browser.
+                                    </p>
+                                </div>
+                            </div>
+                            <ViewSource source={demoSource} regions={['idStrategies', 'HydrationExample']} />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+            </Tabs>
+
+            {/* Key Concepts */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Key Concepts</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <h4 className="font-medium">🆔 Stable and Unique</h4>
+                            <p className="text-sm text-muted-foreground">
+                                Each component instance gets its own id, and it stays the same for the lifetime of that instance.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">🌐 SSR Safe</h4>
+                            <p className="text-sm text-muted-foreground">
+                                The id comes from the component's place in the tree, so server HTML and client hydration agree.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">🔗 One Id, Many Attributes</h4>
+                            <p className="text-sm text-muted-foreground">
+                                Derive related ids with suffixes like {'`${id}-hint`'} instead of calling useId repeatedly.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">🚫 Not for List Keys</h4>
+                            <p className="text-sm text-muted-foreground">
+                                useId is for accessibility attributes. Keys should come from your data.
+                            </p>
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
@@ -0,0 +1,88 @@
+import { createRef } from 'react'
+import { act, screen, within } from '@testing-library/react'
+import { describe, expect, it, vi } from 'vitest'
+import { ImperativeCounter, type CounterRef } from '@/components/hook-components/UseImperativeHandleDemo'
+import { renderDemo, renderWithUser } from '@/test/render'
+
+describe('ImperativeCounter', () => {
+    const renderCounter = () => {
+        const ref = createRef<CounterRef>()
+        renderWithUser(<ImperativeCounter ref={ref} />)
+        // Calls through the handle update state, so they run inside act like an event handler would
+        const call = (method: (counter: CounterRef) => void) => act(() => method(ref.current!))
+        return { ref, call }
+    }
+
+    it('exposes its methods on the ref', () => {
+        const { ref } = renderCounter()
+
+        expect(Object.keys(ref.current!).sort()).toEqual(['decrement', 'getValue', 'increment', 'reset', 'setValue'])
+        expect(ref.current!.getValue()).toBe(0)
+    })
+
+    it('increments and decrements', () => {
+        const { ref, call } = renderCounter()
+
+        call(counter => counter.increment())
+        call(counter => counter.increment())
+        call(counter => counter.decrement())
+
+        expect(screen.getByText('1')).toBeInTheDocument()
+        expect(ref.current!.getValue()).toBe(1)
+    })
+
+    it('sets a value and resets to zero', () => {
+        const { ref, call } = renderCounter()
+
+        call(counter => counter.setValue(42))
+        expect(screen.getByText('42')).toBeInTheDocument()
+        expect(ref.current!.getValue()).toBe(42)
+
+        call(counter => counter.reset())
+        expect(screen.getByText('0')).toBeInTheDocument()
+        expect(ref.current!.getValue()).toBe(0)
+    })
+
+    it('clears the ref on unmount', () => {
+        const ref = createRef<CounterRef>()
+        const { unmount } = renderWithUser(<ImperativeCounter ref={ref} />)
+
+        unmount()
+        expect(ref.current).toBeNull()
+    })
+})
+
+describe('UseImperativeHandleDemo counter', () => {
+    const counterCard = () => within(screen.getByText('Imperative Counter').closest<HTMLElement>('[data-slot="card"]')!)
+    // The code sample's line numbers are digits too, so read the count from the counter itself
+    const count = () => screen.getByText('Counter controlled by parent').previousElementSibling
+
+    it('drives the counter from the parent buttons', async () => {
+        const { user } = await renderDemo('useImperativeHandle')
+        const card = counterCard()
+
+        await user.click(card.getByRole('button', { name: 'Increment' }))
+        await user.click(card.getByRole('button', { name: 'Increment' }))
+        await user.click(card.getByRole('button', { name: 'Decrement' }))
+        expect(count()).toHaveTextContent(/^1$/)
+
+        await user.type(card.getByPlaceholderText('Set value...'), '7')
+        await user.click(card.getByRole('button', { name: 'Set Value' }))
+        expect(count()).toHaveTextContent(/^7$/)
+        expect(card.getByPlaceholderText('Set value...')).toHaveValue('')
+
+        await user.click(card.getByRole('button', { name: 'Reset' }))
+        expect(count()).toHaveTextContent(/^0$/)
+    })
+
+    it('reads the value back through the ref', async () => {
+        const alert = vi.spyOn(window, 'alert').mockImplementation(() => {})
+        const { user } = await renderDemo('useImperativeHandle')
+        const card = counterCard()
+
+        await user.click(card.getByRole('button', { name: 'Increment' }))
+        await user.click(card.getByRole('button', { name: 'Get Value' }))
+
+        expect(alert).toHaveBeenCalledWith('Current counter value: 1')
+    })
+})
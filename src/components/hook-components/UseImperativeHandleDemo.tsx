@@ -4,6 +4,10 @@ import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { CodeBlock } from '@/components/ui/code-block'
+import ViewSource from '@/components/ViewSource'
+import { useRouteTab } from '@/hooks/useRoute'
+import { getTabIds } from '@/lib/registry'
 import { Label } from '@/components/ui/label'
 import { Progress } from '@/components/ui/progress'
 import { Alert, AlertDescription } from '@/components/ui/alert'
@@ -22,9 +26,11 @@ import {
     Bell,
     MessageSquare
 } from 'lucide-react'
+import demoSource from '@/components/hook-components/UseImperativeHandleDemo.tsx?raw'
 
 // Example 1: Basic Counter with Imperative API
-interface CounterRef {
+// #region ImperativeCounter
+export interface CounterRef {
     increment: () => void;
     decrement: () => void;
     reset: () => void;
@@ -32,7 +38,7 @@ interface CounterRef {
     getValue: () => number;
 }
 
-const ImperativeCounter = forwardRef<CounterRef>((_, ref) => {
+export const ImperativeCounter = forwardRef<CounterRef>((_, ref) => {
     const [count, setCount] = useState(0);
 
     useImperativeHandle(ref, () => ({
@@ -52,10 +58,12 @@ const ImperativeCounter = forwardRef<CounterRef>((_, ref) => {
         </div>
     );
 });
+// #endregion ImperativeCounter
 
 ImperativeCounter.displayName = 'ImperativeCounter';
 
 // Example 2: Media Player with Complex Controls
+// #region MediaPlayer
 interface MediaStatus {
     isPlaying: boolean;
     currentTime: number;
@@ -154,10 +162,12 @@ const MediaPlayer = forwardRef<MediaPlayerRef>((_, ref) => {
         </div>
     );
 });
+// #endregion MediaPlayer
 
 MediaPlayer.displayName = 'MediaPlayer';
 
 // Example 3: Form with Validation API
+// #region ImperativeForm
 interface FormRef {
     submit: () => boolean;
     reset: () => void;
@@ -277,10 +287,12 @@ const ImperativeForm = forwardRef<FormRef>((_, ref) => {
         </div>
     );
 });
+// #endregion ImperativeForm
 
 ImperativeForm.displayName = 'ImperativeForm';
 
 // Example 4: Modal with Imperative API
+// #region ImperativeModal
 interface ModalRef {
     open: (content?: string) => void;
     close: () => void;
@@ -327,10 +339,12 @@ const ImperativeModal = forwardRef<ModalRef>((_, ref) => {
         </div>
     );
 });
+// #endregion ImperativeModal
 
 ImperativeModal.displayName = 'ImperativeModal';
 
 // Example 5: Timer with Advanced Controls
+// #region ImperativeTimer
 interface TimerRef {
     start: () => void;
     pause: () => void;
@@ -412,10 +426,12 @@ const ImperativeTimer = forwardRef<TimerRef>((_, ref) => {
         </div>
     );
 });
+// #endregion ImperativeTimer
 
 ImperativeTimer.displayName = 'ImperativeTimer';
 
 // Example 6: Notification System
+// #region NotificationSystem
 interface NotificationRef {
     show: (message: string, type?: 'success' | 'error' | 'warning' | 'info') => void;
     hide: () => void;
@@ -474,10 +490,15 @@ const NotificationSystem = forwardRef<NotificationRef>((_, ref) => {
         </div>
     );
 });
+// #endregion NotificationSystem
 
 NotificationSystem.displayName = 'NotificationSystem';
 
+const tabIds = getTabIds('useImperativeHandle')
+
 export default function UseImperativeHandleDemo() {
+    const { tab, setTab, tabs } = useRouteTab()
+
     // Refs for all examples
     const counterRef = useRef<CounterRef>(null);
     const mediaPlayerRef = useRef<MediaPlayerRef>(null);
@@ -545,15 +566,14 @@ export default function UseImperativeHandleDemo() {
                 </p>
             </div>
 
-            <Tabs defaultValue="basic" className="space-y-6">
+            <Tabs value={tab} onValueChange={setTab} className="space-y-6">
                 <TabsList className="grid w-full grid-cols-4">
-                    <TabsTrigger value="basic">Basic Usage</TabsTrigger>
-                    <TabsTrigger value="forms">Forms & Validation</TabsTrigger>
-                    <TabsTrigger value="media">Media Controls</TabsTrigger>
-                    <TabsTrigger value="advanced">Advanced Patterns</TabsTrigger>
+                    {tabs.map(({ id, label }) => (
+                        <TabsTrigger key={id} value={id}>{label}</TabsTrigger>
+                    ))}
                 </TabsList>
 
-                <TabsContent value="basic" className="space-y-6">
+                <TabsContent value={tabIds.basic} className="space-y-6">
                     {/* Basic Counter Example */}
                     <Card>
                         <CardHeader>
@@ -613,17 +633,16 @@ export default function UseImperativeHandleDemo() {
                                     </Button>
                                 </div>
                                 
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        useImperativeHandle(ref, () =&gt; ({'{'}<br />
-                                        &nbsp;&nbsp;increment: () =&gt; setCount(prev =&gt; prev + 1),<br />
-                                        &nbsp;&nbsp;decrement: () =&gt; setCount(prev =&gt; prev - 1),<br />
-                                        &nbsp;&nbsp;reset: () =&gt; setCount(0),<br />
-                                        &nbsp;&nbsp;setValue: (value) =&gt; setCount(value)<br />
-                                        {'}'}))
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`useImperativeHandle(ref, () => ({
+  increment: () => setCount(prev => prev + 1),
+  decrement: () => setCount(prev => prev - 1),
+  reset: () => setCount(0),
+  setValue: (value) => setCount(value)
+}))`}
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions="ImperativeCounter" />
                         </CardContent>
                     </Card>
 
@@ -673,21 +692,20 @@ export default function UseImperativeHandleDemo() {
                                     </Button>
                                 </div>
                                 
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        useImperativeHandle(ref, () =&gt; ({'{'}<br />
-                                        &nbsp;&nbsp;open: (content) =&gt; setIsOpen(true),<br />
-                                        &nbsp;&nbsp;close: () =&gt; setIsOpen(false),<br />
-                                        &nbsp;&nbsp;toggle: () =&gt; setIsOpen(prev =&gt; !prev)<br />
-                                        {'}'}))
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`useImperativeHandle(ref, () => ({
+  open: (content) => setIsOpen(true),
+  close: () => setIsOpen(false),
+  toggle: () => setIsOpen(prev => !prev)
+}))`}
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions="ImperativeModal" />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="forms" className="space-y-6">
+                <TabsContent value={tabIds.forms} className="space-y-6">
                     {/* Form Example */}
                     <Card>
                         <CardHeader>
@@ -775,22 +793,21 @@ export default function UseImperativeHandleDemo() {
                                     </Button>
                                 </div>
                                 
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        useImperativeHandle(ref, () =&gt; ({'{'}<br />
-                                        &nbsp;&nbsp;submit: () =&gt; validate() && handleSubmit(),<br />
-                                        &nbsp;&nbsp;reset: () =&gt; resetForm(),<br />
-                                        &nbsp;&nbsp;validate: () =&gt; validateAllFields(),<br />
-                                        &nbsp;&nbsp;focus: (field) =&gt; focusField(field)<br />
-                                        {'}'}))
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`useImperativeHandle(ref, () => ({
+  submit: () => validate() && handleSubmit(),
+  reset: () => resetForm(),
+  validate: () => validateAllFields(),
+  focus: (field) => focusField(field)
+}))`}
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions="ImperativeForm" />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="media" className="space-y-6">
+                <TabsContent value={tabIds.media} className="space-y-6">
                     {/* Media Player Example */}
                     <Card>
                         <CardHeader>
@@ -878,22 +895,21 @@ export default function UseImperativeHandleDemo() {
                                     </div>
                                 )}
                                 
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        useImperativeHandle(ref, () =&gt; ({'{'}<br />
-                                        &nbsp;&nbsp;play: () =&gt; setIsPlaying(true),<br />
-                                        &nbsp;&nbsp;pause: () =&gt; setIsPlaying(false),<br />
-                                        &nbsp;&nbsp;seek: (time) =&gt; setCurrentTime(time),<br />
-                                        &nbsp;&nbsp;getStatus: () =&gt; ({'{'} isPlaying, currentTime {'}'})<br />
-                                        {'}'}))
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`useImperativeHandle(ref, () => ({
+  play: () => setIsPlaying(true),
+  pause: () => setIsPlaying(false),
+  seek: (time) => setCurrentTime(time),
+  getStatus: () => ({ isPlaying, currentTime })
+}))`}
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions="MediaPlayer" />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="advanced" className="space-y-6">
+                <TabsContent value={tabIds.advanced} className="space-y-6">
                     {/* Timer Example */}
                     <Card>
                         <CardHeader>
@@ -975,16 +991,15 @@ export default function UseImperativeHandleDemo() {
                                     </Button>
                                 </div>
                                 
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        useImperativeHandle(ref, () =&gt; ({'{'}<br />
-                                        &nbsp;&nbsp;start: () =&gt; setIsRunning(true),<br />
-                                        &nbsp;&nbsp;setTime: (seconds) =&gt; setTimeRemaining(seconds),<br />
-                                        &nbsp;&nbsp;addTime: (seconds) =&gt; setTimeRemaining(prev =&gt; prev + seconds)<br />
-                                        {'}'}))
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`useImperativeHandle(ref, () => ({
+  start: () => setIsRunning(true),
+  setTime: (seconds) => setTimeRemaining(seconds),
+  addTime: (seconds) => setTimeRemaining(prev => prev + seconds)
+}))`}
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions="ImperativeTimer" />
                         </CardContent>
                     </Card>
 
@@ -1050,16 +1065,15 @@ export default function UseImperativeHandleDemo() {
                                     </Button>
                                 </div>
                                 
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        useImperativeHandle(ref, () =&gt; ({'{'}<br />
-                                        &nbsp;&nbsp;show: (message, type) =&gt; addNotification(message, type),<br />
-                                        &nbsp;&nbsp;hide: () =&gt; removeFirstNotification(),<br />
-                                        &nbsp;&nbsp;clear: () =&gt; clearAllNotifications()<br />
-                                        {'}'}))
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`useImperativeHandle(ref, () => ({
+  show: (message, type) => addNotification(message, type),
+  hide: () => removeFirstNotification(),
+  clear: () => clearAllNotifications()
+}))`}
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions="NotificationSystem" />
                         </CardContent>
                     </Card>
                 </TabsContent>
@@ -0,0 +1,547 @@
+import { useCallback, useEffect, useInsertionEffect, useLayoutEffect, useRef, useState, type ReactNode } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { CodeBlock } from '@/components/ui/code-block'
+import ViewSource from '@/components/ViewSource'
+import { useRouteTab } from '@/hooks/useRoute'
+import { getTabIds } from '@/lib/registry'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+    AlertTriangle,
+    CheckCircle,
+    ListOrdered,
+    Paintbrush,
+    RotateCcw,
+    Trash2,
+    XCircle
+} from 'lucide-react'
+import demoSource from '@/components/hook-components/UseInsertionEffectDemo.tsx?raw'
+
+// Example 1: A mini CSS-in-JS runtime
+// #region styleInjector
+type StyleObject = Record<string, string>
+
+const toKebabCase = (property: string) => property.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)
+
+const serialize = (style: StyleObject) =>
+    Object.entries(style).map(([property, value]) => `${toKebabCase(property)}: ${value};`).join(' ')
+
+// djb2 string hash: identical styles always get the same class name
+const hash = (text: string) => {
+    let value = 5381
+    for (let i = 0; i < text.length; i++) {
+        value = (value * 33) ^ text.charCodeAt(i)
+    }
+    return (value >>> 0).toString(36)
+}
+
+let styleElement: HTMLStyleElement | null = null
+// How many mounted components use each class; a rule is removed when nobody uses it
+const ruleUsers = new Map<string, number>()
+
+const getSheet = () => {
+    if (!styleElement) {
+        styleElement = document.createElement('style')
+        styleElement.dataset.source = 'use-insertion-effect-demo'
+        document.head.appendChild(styleElement)
+    }
+    return styleElement.sheet!
+}
+
+const retainRule = (className: string, css: string) => {
+    const users = ruleUsers.get(className) ?? 0
+    ruleUsers.set(className, users + 1)
+    if (users === 0) {
+        const sheet = getSheet()
+        sheet.insertRule(`.${className} { ${css} }`, sheet.cssRules.length)
+    }
+}
+
+const releaseRule = (className: string) => {
+    const users = (ruleUsers.get(className) ?? 1) - 1
+    if (users > 0) {
+        ruleUsers.set(className, users)
+        return
+    }
+
+    ruleUsers.delete(className)
+    const sheet = getSheet()
+    const index = [...sheet.cssRules].findIndex(
+        rule => rule instanceof CSSStyleRule && rule.selectorText === `.${className}`
+    )
+    if (index !== -1) sheet.deleteRule(index)
+}
+
+const hasRule = (className: string) => ruleUsers.has(className)
+
+const listRules = () => [...getSheet().cssRules].map(rule => rule.cssText)
+// #endregion styleInjector
+
+// #region useCss
+// Insertion effects run before React changes the DOM, so the rule exists before any
+// element uses the class and before any layout effect can measure it
+const useCss = (style: StyleObject) => {
+    const css = serialize(style)
+    const className = `css-${hash(css)}`
+
+    useInsertionEffect(() => {
+        retainRule(className, css)
+        return () => releaseRule(className)
+    }, [className, css])
+
+    return className
+}
+// #endregion useCss
+
+// #region StyleInjector
+const swatches = ['#2563eb', '#16a34a', '#db2777', '#ea580c']
+
+const StyleInjector = () => {
+    const [color, setColor] = useState(swatches[0])
+    const [radius, setRadius] = useState(8)
+    const [padding, setPadding] = useState(12)
+    const [rules, setRules] = useState<string[]>([])
+
+    const className = useCss({
+        backgroundColor: color,
+        color: 'white',
+        fontWeight: '600',
+        borderRadius: `${radius}px`,
+        padding: `${padding}px ${padding * 2}px`
+    })
+
+    // Passive effects run after insertion effects, so the sheet is already up to date here
+    useEffect(() => {
+        setRules(listRules())
+    }, [className])
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                    <Label>Color</Label>
+                    <div className="flex gap-2">
+                        {swatches.map(swatch => (
+                            <button
+                                key={swatch}
+                                type="button"
+                                aria-label={`Use ${swatch}`}
+                                onClick={() => setColor(swatch)}
+                                className={`h-8 w-8 rounded-full border-2 ${color === swatch ? 'border-foreground' : 'border-transparent'}`}
+                                style={{ backgroundColor: swatch }}
+                            />
+                        ))}
+                    </div>
+                </div>
+                <div className="space-y-2">
+                    <Label>Radius: {radius}px</Label>
+                    <Input type="range" min="0" max="24" value={radius} onChange={(e) => setRadius(parseInt(e.target.value))} />
+                </div>
+                <div className="space-y-2">
+                    <Label>Padding: {padding}px</Label>
+                    <Input type="range" min="4" max="24" step="2" value={padding} onChange={(e) => setPadding(parseInt(e.target.value))} />
+                </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 p-4 border rounded-lg">
+                {/* Three elements share one style object, so they share one class and one rule */}
+                <button type="button" className={className}>Save</button>
+                <button type="button" className={className}>Publish</button>
+                <button type="button" className={className}>Share</button>
+                <code className="text-xs font-mono text-muted-foreground">className="{className}"</code>
+            </div>
+
+            <div className="space-y-1">
+                <h4 className="font-medium text-sm">Injected rules ({rules.length})</h4>
+                <div className="p-3 bg-muted rounded-lg font-mono text-xs space-y-1 break-all">
+                    {rules.map(rule => <div key={rule}>{rule}</div>)}
+                </div>
+            </div>
+        </div>
+    )
+}
+// #endregion StyleInjector
+
+// Example 2: Firing order of the three effect hooks
+// #region EffectOrderLog
+type EffectPhase = 'commit' | 'insertion' | 'layout' | 'passive'
+
+interface LogEntry {
+    id: number
+    phase: EffectPhase
+    text: string
+}
+
+type Log = (phase: EffectPhase, text: string) => void
+
+const EffectProbe = ({ name, version, log, children }: {
+    name: string
+    version: number
+    log: Log
+    children?: ReactNode
+}) => {
+    const ref = useRef<HTMLDivElement>(null)
+    const refState = () => ref.current ? 'ref attached' : 'ref is null'
+
+    useInsertionEffect(() => {
+        log('insertion', `${name}: useInsertionEffect (${refState()})`)
+        return () => log('insertion', `${name}: useInsertionEffect cleanup`)
+    }, [name, version, log])
+
+    useLayoutEffect(() => {
+        log('layout', `${name}: useLayoutEffect (${refState()})`)
+        return () => log('layout', `${name}: useLayoutEffect cleanup`)
+    }, [name, version, log])
+
+    useEffect(() => {
+        log('passive', `${name}: useEffect (${refState()})`)
+        return () => log('passive', `${name}: useEffect cleanup`)
+    }, [name, version, log])
+
+    return (
+        <div ref={ref} className="p-3 border rounded-lg space-y-2 text-sm">
+            <span className="font-medium">{name}</span>
+            {children}
+        </div>
+    )
+}
+
+const phaseStyles: Record<EffectPhase, string> = {
+    commit: 'bg-gray-100 text-gray-800',
+    insertion: 'bg-purple-100 text-purple-800',
+    layout: 'bg-blue-100 text-blue-800',
+    passive: 'bg-green-100 text-green-800'
+}
+
+const EffectOrderLog = () => {
+    const [mounted, setMounted] = useState(false)
+    const [version, setVersion] = useState(0)
+    const [entries, setEntries] = useState<LogEntry[]>([])
+    const pending = useRef<LogEntry[]>([])
+    const nextId = useRef(0)
+
+    // Insertion effects must not schedule updates, so entries are buffered and flushed below
+    const log = useCallback<Log>((phase, text) => {
+        pending.current.push({ id: nextId.current++, phase, text })
+    }, [])
+
+    // Passive effects run child-first, so this fires after every probe has logged
+    useEffect(() => {
+        if (pending.current.length === 0) return
+        const flushed = pending.current
+        pending.current = []
+        setEntries(entries => [...entries, ...flushed])
+    }, [mounted, version])
+
+    const toggleMounted = () => {
+        log('commit', mounted ? 'Unmount' : 'Mount')
+        setMounted(!mounted)
+    }
+
+    const update = () => {
+        log('commit', `Update (version ${version + 1})`)
+        setVersion(v => v + 1)
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+                <Button size="sm" onClick={toggleMounted}>{mounted ? 'Unmount' : 'Mount'}</Button>
+                <Button size="sm" variant="outline" onClick={update} disabled={!mounted}>Update</Button>
+                <Button size="sm" variant="outline" onClick={() => setEntries([])}>
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Clear log
+                </Button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="min-h-24">
+                    {mounted ? (
+                        <EffectProbe name="Parent" version={version} log={log}>
+                            <EffectProbe name="Child" version={version} log={log} />
+                        </EffectProbe>
+                    ) : (
+                        <p className="text-sm text-muted-foreground">Mount the components to start logging</p>
+                    )}
+                </div>
+
+                <ol className="p-3 bg-muted rounded-lg space-y-1 text-xs font-mono max-h-80 overflow-y-auto">
+                    {entries.length === 0 && <li className="text-muted-foreground">No effects yet</li>}
+                    {entries.map(entry => (
+                        <li key={entry.id} className={entry.phase === 'commit' ? 'pt-2 font-semibold' : ''}>
+                            {entry.phase !== 'commit' && (
+                                <span className={`inline-block w-20 mr-2 px-1 rounded text-center ${phaseStyles[entry.phase]}`}>
+                                    {entry.phase}
+                                </span>
+                            )}
+                            {entry.text}
+                        </li>
+                    ))}
+                </ol>
+            </div>
+        </div>
+    )
+}
+// #endregion EffectOrderLog
+
+// Example 3: Injecting the same styles from useLayoutEffect
+// #region useCssInLayoutEffect
+// Same runtime, but the rule is inserted after React has already updated the DOM
+const useCssInLayoutEffect = (style: StyleObject) => {
+    const css = serialize(style)
+    const className = `css-${hash(css)}`
+
+    useLayoutEffect(() => {
+        retainRule(className, css)
+        return () => releaseRule(className)
+    }, [className, css])
+
+    return className
+}
+// #endregion useCssInLayoutEffect
+
+// #region LayoutPitfall
+interface Measurement {
+    ruleInserted: boolean
+    padding: string
+}
+
+// Reads its parent's computed padding in a layout effect, like a tooltip or auto-sizing text would
+const PaddingReader = ({ className, onMeasure }: { className: string; onMeasure: (measurement: Measurement) => void }) => {
+    const ref = useRef<HTMLSpanElement>(null)
+
+    useLayoutEffect(() => {
+        const parent = ref.current?.parentElement
+        if (!parent) return
+        onMeasure({ ruleInserted: hasRule(className), padding: getComputedStyle(parent).paddingTop })
+    }, [className, onMeasure])
+
+    return <span ref={ref}>Measured by a child's useLayoutEffect</span>
+}
+
+const InsertionStyledBox = ({ onMeasure }: { onMeasure: (measurement: Measurement) => void }) => {
+    const className = useCss({ padding: '24px', backgroundColor: '#dcfce7', borderRadius: '8px' })
+    return (
+        <div className={className}>
+            <PaddingReader className={className} onMeasure={onMeasure} />
+        </div>
+    )
+}
+
+const LayoutStyledBox = ({ onMeasure }: { onMeasure: (measurement: Measurement) => void }) => {
+    const className = useCssInLayoutEffect({ padding: '24px', backgroundColor: '#fef3c7', borderRadius: '8px' })
+    return (
+        <div className={className}>
+            <PaddingReader className={className} onMeasure={onMeasure} />
+        </div>
+    )
+}
+
+const MeasurementResult = ({ measurement }: { measurement: Measurement | null }) => {
+    if (!measurement) return null
+
+    return measurement.ruleInserted ? (
+        <p className="flex items-center gap-1 text-sm text-green-700">
+            <CheckCircle className="h-4 w-4" />
+            Rule was in the sheet: measured padding {measurement.padding}
+        </p>
+    ) : (
+        <p className="flex items-center gap-1 text-sm text-red-700">
+            <XCircle className="h-4 w-4" />
+            Rule wasn't inserted yet: measured padding {measurement.padding || '0px'}
+        </p>
+    )
+}
+
+const LayoutPitfall = () => {
+    // Remounting removes the rules (no users left) and inserts them again
+    const [mountKey, setMountKey] = useState(0)
+    const [insertionMeasurement, setInsertionMeasurement] = useState<Measurement | null>(null)
+    const [layoutMeasurement, setLayoutMeasurement] = useState<Measurement | null>(null)
+
+    return (
+        <div className="space-y-4">
+            <Button size="sm" variant="outline" onClick={() => setMountKey(k => k + 1)}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Remount both
+            </Button>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                    <h4 className="font-medium text-green-700">useInsertionEffect</h4>
+                    <InsertionStyledBox key={mountKey} onMeasure={setInsertionMeasurement} />
+                    <MeasurementResult measurement={insertionMeasurement} />
+                </div>
+                <div className="space-y-2">
+                    <h4 className="font-medium text-amber-700">useLayoutEffect</h4>
+                    <LayoutStyledBox key={mountKey} onMeasure={setLayoutMeasurement} />
+                    <MeasurementResult measurement={layoutMeasurement} />
+                </div>
+            </div>
+        </div>
+    )
+}
+// #endregion LayoutPitfall
+
+const tabIds = getTabIds('useInsertionEffect')
+
+export default function UseInsertionEffectDemo() {
+    const { tab, setTab, tabs } = useRouteTab()
+
+    return (
+        <div className="max-w-6xl mx-auto p-6 space-y-6">
+            {/* Header */}
+            <div className="text-center space-y-2">
+                <h1 className="text-3xl font-bold">useInsertionEffect Hook Interactive Demo</h1>
+                <p className="text-muted-foreground">
+                    Insert styles before React touches the DOM, the way CSS-in-JS libraries do
+                </p>
+            </div>
+
+            <Tabs value={tab} onValueChange={setTab} className="space-y-6">
+                <TabsList className="grid w-full grid-cols-3">
+                    {tabs.map(({ id, label }) => (
+                        <TabsTrigger key={id} value={id}>{label}</TabsTrigger>
+                    ))}
+                </TabsList>
+
+                <TabsContent value={tabIds.injector} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">CSS-in-JS</Badge>
+                                <Paintbrush className="h-4 w-4" />
+                                Runtime Style Injection
+                            </CardTitle>
+                            <CardDescription>
+                                useCss turns a style object into a hashed class name and inserts a rule for it. Change the
+                                controls to generate new rules; unused ones are removed.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <StyleInjector />
+                            <CodeBlock
+                                code={`const useCss = (style) => {
+  const css = serialize(style)
+  const className = \`css-\${hash(css)}\`
+
+  useInsertionEffect(() => {
+    retainRule(className, css)
+    return () => releaseRule(className)
+  }, [className, css])
+
+  return className
+}`}
+                                highlightLines={[5, 6, 7, 8]}
+                            />
+                            <ViewSource source={demoSource} regions={['styleInjector', 'useCss', 'StyleInjector']} />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value={tabIds.order} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Timing</Badge>
+                                <ListOrdered className="h-4 w-4" />
+                                Effect Firing Order
+                            </CardTitle>
+                            <CardDescription>
+                                A parent and a child each register all three effects. Mount, update and unmount them: every
+                                insertion effect fires before any layout effect body, while layout cleanups run alongside
+                                them as React mutates the DOM. Passive effects come last.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <EffectOrderLog />
+                            <Alert>
+                                <AlertTriangle className="h-4 w-4" />
+                                <AlertDescription>
+                                    Refs are still null inside useInsertionEffect on mount, and it can't update state. In
+                                    development, Strict Mode also replays layout and passive effects once when the probes mount.
+                                </AlertDescription>
+                            </Alert>
+                            <ViewSource source={demoSource} regions="EffectOrderLog" />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value={tabIds.layout} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Pitfall</Badge>
+                                <AlertTriangle className="h-4 w-4" />
+                                Injecting Styles in useLayoutEffect
+                            </CardTitle>
+                            <CardDescription>
+                                Layout effects run child-first, so a child measuring its styled parent runs before the
+                                parent's useLayoutEffect has inserted the rule
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <LayoutPitfall />
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                                <div className="space-y-1">
+                                    <h4 className="font-medium">Stale measurements</h4>
+                                    <p className="text-muted-foreground">
+                                        Any layout effect that runs before the injecting one reads the element without its styles.
+                                        Both boxes look identical once painted, but the measurement is already wrong.
+                                    </p>
+                                </div>
+                                <div className="space-y-1">
+                                    <h4 className="font-medium">Extra style recalculation</h4>
+                                    <p className="text-muted-foreground">
+                                        A rule inserted after the DOM changed invalidates styles the browser may already have
+                                        computed, so layout can run several times in a single commit.
+                                    </p>
+                                </div>
+                            </div>
+                            <ViewSource source={demoSource} regions={['useCssInLayoutEffect', 'LayoutPitfall']} />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+            </Tabs>
+
+            {/* Key Concepts */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Key Concepts</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <h4 className="font-medium">💉 Before DOM Mutations</h4>
+                            <p className="text-sm text-muted-foreground">
+                                useInsertionEffect fires before React changes the DOM, ahead of every layout and passive effect.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">📚 Built for Libraries</h4>
+                            <p className="text-sm text-muted-foreground">
+                                It exists for CSS-in-JS runtimes. Application code almost always wants useEffect or useLayoutEffect.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">🚫 No Refs, No Updates</h4>
+                            <p className="text-sm text-muted-foreground">
+                                Refs aren't attached yet and state updates aren't allowed, so only insert global things like style rules.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">🖥️ Client Only</h4>
+                            <p className="text-sm text-muted-foreground">
+                                Like other effects it never runs on the server; libraries collect styles during server rendering instead.
+                            </p>
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
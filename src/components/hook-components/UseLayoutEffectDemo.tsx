@@ -4,6 +4,14 @@ import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { CodeBlock } from '@/components/ui/code-block'
+import ViewSource from '@/components/ViewSource'
+import ProfiledSection from '@/components/ProfiledSection'
+import LifecycleTimeline from '@/components/LifecycleTimeline'
+import { useRouteTab } from '@/hooks/useRoute'
+import { getTabIds } from '@/lib/registry'
+import { useLifecycleTrace } from '@/hooks/useLifecycleTrace'
+import { createLifecycleTimeline } from '@/lib/lifecycle-timeline'
 import { Label } from '@/components/ui/label'
 import { Progress } from '@/components/ui/progress'
 import { Alert, AlertDescription } from '@/components/ui/alert'
@@ -20,32 +28,39 @@ import {
     Layers,
     Target
 } from 'lucide-react'
+import demoSource from '@/components/hook-components/UseLayoutEffectDemo.tsx?raw'
+import useLifecycleTraceSource from '@/hooks/useLifecycleTrace.ts?raw'
 
 // Example 1: Visual Flash Comparison
+// The lifecycle timeline below the example shows where each effect runs relative to paint
+const flashTimeline = createLifecycleTimeline();
+
+// #region FlashComparison
 const FlashComparison = () => {
     const [count, setCount] = useState(0);
     const [useLayout, setUseLayout] = useState(false);
     const divRef = useRef<HTMLDivElement>(null);
+    useLifecycleTrace(flashTimeline, 'FlashComparison');
 
     // This will cause a flash with useEffect
-    useEffect(() => {
+    useEffect(() => flashTimeline.effect('FlashComparison', 'style', () => {
         if (!useLayout && divRef.current) {
             if (count > 0) {
                 divRef.current.style.backgroundColor = count % 2 === 0 ? '#ef4444' : '#10b981';
                 divRef.current.style.transform = `scale(${1 + (count % 3) * 0.1})`;
             }
         }
-    }, [count, useLayout]);
+    }, { count, useLayout }), [count, useLayout]);
 
     // This will NOT cause a flash with useLayoutEffect
-    useLayoutEffect(() => {
+    useLayoutEffect(() => flashTimeline.layoutEffect('FlashComparison', 'style', () => {
         if (useLayout && divRef.current) {
             if (count > 0) {
                 divRef.current.style.backgroundColor = count % 2 === 0 ? '#ef4444' : '#10b981';
                 divRef.current.style.transform = `scale(${1 + (count % 3) * 0.1})`;
             }
         }
-    }, [count, useLayout]);
+    }, { count, useLayout }), [count, useLayout]);
 
     return (
         <div className="space-y-4">
@@ -81,8 +96,10 @@ const FlashComparison = () => {
         </div>
     );
 };
+// #endregion FlashComparison
 
 // Example 2: DOM Measurements
+// #region DOMeasurements
 const DOMeasurements = () => {
     const [text, setText] = useState('Hello World');
     const [measurements, setMeasurements] = useState<{
@@ -150,8 +167,10 @@ const DOMeasurements = () => {
         </div>
     );
 };
+// #endregion DOMeasurements
 
 // Example 3: Tooltip Positioning
+// #region TooltipPositioning
 const TooltipPositioning = () => {
     const [showTooltip, setShowTooltip] = useState(false);
     const [tooltipPosition, setTooltipPosition] = useState({ x: 0, y: 0 });
@@ -219,8 +238,10 @@ const TooltipPositioning = () => {
         </div>
     );
 };
+// #endregion TooltipPositioning
 
 // Example 4: Scroll Position Synchronization
+// #region ScrollSync
 const ScrollSync = () => {
     const [scrollPosition, setScrollPosition] = useState(0);
     const [isScrolling, setIsScrolling] = useState(false);
@@ -299,8 +320,10 @@ const ScrollSync = () => {
         </div>
     );
 };
+// #endregion ScrollSync
 
 // Example 5: Animation Synchronization
+// #region AnimationSync
 const AnimationSync = () => {
     const [isAnimating, setIsAnimating] = useState(false);
     const [animationProgress, setAnimationProgress] = useState(0);
@@ -397,8 +420,10 @@ const AnimationSync = () => {
         </div>
     );
 };
+// #endregion AnimationSync
 
 // Example 6: Dynamic Layout Adjustments
+// #region DynamicLayout
 const DynamicLayout = () => {
     const [items, setItems] = useState(['Item 1', 'Item 2', 'Item 3']);
     const [containerWidth, setContainerWidth] = useState(0);
@@ -466,8 +491,10 @@ const DynamicLayout = () => {
         </div>
     );
 };
+// #endregion DynamicLayout
 
 // Example 7: Performance Comparison
+// #region PerformanceComparison
 const PerformanceComparison = () => {
     const [useLayoutVersion, setUseLayoutVersion] = useState(false);
     const [iterations, setIterations] = useState(0);
@@ -545,8 +572,13 @@ const PerformanceComparison = () => {
         </div>
     );
 };
+// #endregion PerformanceComparison
+
+const tabIds = getTabIds('useLayoutEffect')
 
 export default function UseLayoutEffectDemo() {
+    const { tab, setTab, tabs } = useRouteTab()
+
     return (
         <div className="max-w-6xl mx-auto p-6 space-y-6">
             {/* Header */}
@@ -557,15 +589,14 @@ export default function UseLayoutEffectDemo() {
                 </p>
             </div>
 
-            <Tabs defaultValue="visual" className="space-y-6">
+            <Tabs value={tab} onValueChange={setTab} className="space-y-6">
                 <TabsList className="grid w-full grid-cols-4">
-                    <TabsTrigger value="visual">Visual Differences</TabsTrigger>
-                    <TabsTrigger value="measurements">DOM Measurements</TabsTrigger>
-                    <TabsTrigger value="positioning">Positioning</TabsTrigger>
-                    <TabsTrigger value="performance">Performance</TabsTrigger>
+                    {tabs.map(({ id, label }) => (
+                        <TabsTrigger key={id} value={id}>{label}</TabsTrigger>
+                    ))}
                 </TabsList>
 
-                <TabsContent value="visual" className="space-y-6">
+                <TabsContent value={tabIds.visual} className="space-y-6">
                     {/* Flash Comparison */}
                     <Card>
                         <CardHeader>
@@ -580,14 +611,17 @@ export default function UseLayoutEffectDemo() {
                         </CardHeader>
                         <CardContent>
                             <FlashComparison />
-                            <div className="mt-4 p-3 bg-muted rounded-lg">
-                                <code className="text-sm">
-                                    useLayoutEffect(() =&gt; {'{'}<br />
-                                    &nbsp;&nbsp;// Runs synchronously before paint<br />
-                                    &nbsp;&nbsp;element.style.backgroundColor = 'red'<br />
-                                    {'}'}, [trigger])
-                                </code>
+                            <CodeBlock
+                                className="mt-4"
+                                code={`useLayoutEffect(() => {
+  // Runs synchronously before paint
+  element.style.backgroundColor = 'red'
+}, [trigger])`}
+                            />
+                            <div className="mt-4">
+                                <LifecycleTimeline timeline={flashTimeline} />
                             </div>
+                            <ViewSource source={[demoSource, useLifecycleTraceSource]} regions={['FlashComparison', 'useLifecycleTrace']} />
                         </CardContent>
                     </Card>
 
@@ -605,20 +639,20 @@ export default function UseLayoutEffectDemo() {
                         </CardHeader>
                         <CardContent>
                             <AnimationSync />
-                            <div className="mt-4 p-3 bg-muted rounded-lg">
-                                <code className="text-sm">
-                                    useLayoutEffect(() =&gt; {'{'}<br />
-                                    &nbsp;&nbsp;// Synchronize multiple DOM updates<br />
-                                    &nbsp;&nbsp;element1.style.transform = `rotate(${'${rotation}deg'})`<br />
-                                    &nbsp;&nbsp;element2.style.width = `${'${progress}%'}`<br />
-                                    {'}'}, [progress])
-                                </code>
-                            </div>
+                            <CodeBlock
+                                className="mt-4"
+                                code={`useLayoutEffect(() => {
+  // Synchronize multiple DOM updates
+  element1.style.transform = \`rotate(\${rotation}deg)\`
+  element2.style.width = \`\${progress}%\`
+}, [progress])`}
+                            />
+                            <ViewSource source={demoSource} regions="AnimationSync" />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="measurements" className="space-y-6">
+                <TabsContent value={tabIds.measurements} className="space-y-6">
                     {/* DOM Measurements */}
                     <Card>
                         <CardHeader>
@@ -633,14 +667,14 @@ export default function UseLayoutEffectDemo() {
                         </CardHeader>
                         <CardContent>
                             <DOMeasurements />
-                            <div className="mt-4 p-3 bg-muted rounded-lg">
-                                <code className="text-sm">
-                                    useLayoutEffect(() =&gt; {'{'}<br />
-                                    &nbsp;&nbsp;const rect = element.getBoundingClientRect()<br />
-                                    &nbsp;&nbsp;setMeasurements({'{'} width: rect.width, height: rect.height {'}'})<br />
-                                    {'}'}, [content])
-                                </code>
-                            </div>
+                            <CodeBlock
+                                className="mt-4"
+                                code={`useLayoutEffect(() => {
+  const rect = element.getBoundingClientRect()
+  setMeasurements({ width: rect.width, height: rect.height })
+}, [content])`}
+                            />
+                            <ViewSource source={demoSource} regions="DOMeasurements" />
                         </CardContent>
                     </Card>
 
@@ -658,20 +692,20 @@ export default function UseLayoutEffectDemo() {
                         </CardHeader>
                         <CardContent>
                             <DynamicLayout />
-                            <div className="mt-4 p-3 bg-muted rounded-lg">
-                                <code className="text-sm">
-                                    useLayoutEffect(() =&gt; {'{'}<br />
-                                    &nbsp;&nbsp;const width = container.offsetWidth<br />
-                                    &nbsp;&nbsp;const itemsPerRow = Math.floor(width / itemWidth)<br />
-                                    &nbsp;&nbsp;setItemsPerRow(itemsPerRow)<br />
-                                    {'}'}, [items])
-                                </code>
-                            </div>
+                            <CodeBlock
+                                className="mt-4"
+                                code={`useLayoutEffect(() => {
+  const width = container.offsetWidth
+  const itemsPerRow = Math.floor(width / itemWidth)
+  setItemsPerRow(itemsPerRow)
+}, [items])`}
+                            />
+                            <ViewSource source={demoSource} regions="DynamicLayout" />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="positioning" className="space-y-6">
+                <TabsContent value={tabIds.positioning} className="space-y-6">
                     {/* Tooltip Positioning */}
                     <Card>
                         <CardHeader>
@@ -686,16 +720,16 @@ export default function UseLayoutEffectDemo() {
                         </CardHeader>
                         <CardContent>
                             <TooltipPositioning />
-                            <div className="mt-4 p-3 bg-muted rounded-lg">
-                                <code className="text-sm">
-                                    useLayoutEffect(() =&gt; {'{'}<br />
-                                    &nbsp;&nbsp;const buttonRect = button.getBoundingClientRect()<br />
-                                    &nbsp;&nbsp;const tooltipRect = tooltip.getBoundingClientRect()<br />
-                                    &nbsp;&nbsp;const position = calculatePosition(buttonRect, tooltipRect)<br />
-                                    &nbsp;&nbsp;setTooltipPosition(position)<br />
-                                    {'}'}, [showTooltip])
-                                </code>
-                            </div>
+                            <CodeBlock
+                                className="mt-4"
+                                code={`useLayoutEffect(() => {
+  const buttonRect = button.getBoundingClientRect()
+  const tooltipRect = tooltip.getBoundingClientRect()
+  const position = calculatePosition(buttonRect, tooltipRect)
+  setTooltipPosition(position)
+}, [showTooltip])`}
+                            />
+                            <ViewSource source={demoSource} regions="TooltipPositioning" />
                         </CardContent>
                     </Card>
 
@@ -713,22 +747,22 @@ export default function UseLayoutEffectDemo() {
                         </CardHeader>
                         <CardContent>
                             <ScrollSync />
-                            <div className="mt-4 p-3 bg-muted rounded-lg">
-                                <code className="text-sm">
-                                    useLayoutEffect(() =&gt; {'{'}<br />
-                                    &nbsp;&nbsp;const handleScroll = () =&gt; {'{'}<br />
-                                    &nbsp;&nbsp;&nbsp;&nbsp;const percentage = (scrollTop / scrollHeight) * 100<br />
-                                    &nbsp;&nbsp;&nbsp;&nbsp;indicator.style.transform = `translateY(${'${percentage}%'})`<br />
-                                    &nbsp;&nbsp;{'}'}<br />
-                                    &nbsp;&nbsp;container.addEventListener('scroll', handleScroll)<br />
-                                    {'}'}, [])
-                                </code>
-                            </div>
+                            <CodeBlock
+                                className="mt-4"
+                                code={`useLayoutEffect(() => {
+  const handleScroll = () => {
+    const percentage = (scrollTop / scrollHeight) * 100
+    indicator.style.transform = \`translateY(\${percentage}%)\`
+  }
+  container.addEventListener('scroll', handleScroll)
+}, [])`}
+                            />
+                            <ViewSource source={demoSource} regions="ScrollSync" />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="performance" className="space-y-6">
+                <TabsContent value={tabIds.performance} className="space-y-6">
                     {/* Performance Comparison */}
                     <Card>
                         <CardHeader>
@@ -742,16 +776,18 @@ export default function UseLayoutEffectDemo() {
                             </CardDescription>
                         </CardHeader>
                         <CardContent>
-                            <PerformanceComparison />
-                            <div className="mt-4 p-3 bg-muted rounded-lg">
-                                <code className="text-sm">
-                                    // useLayoutEffect runs synchronously<br />
-                                    useLayoutEffect(() =&gt; {'{'}<br />
-                                    &nbsp;&nbsp;// Blocks painting until complete<br />
-                                    &nbsp;&nbsp;performDOMmeasurements()<br />
-                                    {'}'}, [trigger])
-                                </code>
-                            </div>
+                            <ProfiledSection id="Performance Comparison">
+                                <PerformanceComparison />
+                            </ProfiledSection>
+                            <CodeBlock
+                                className="mt-4"
+                                code={`// useLayoutEffect runs synchronously
+useLayoutEffect(() => {
+  // Blocks painting until complete
+  performDOMmeasurements()
+}, [trigger])`}
+                            />
+                            <ViewSource source={demoSource} regions="PerformanceComparison" />
                         </CardContent>
                     </Card>
 
@@ -4,6 +4,11 @@ import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { CodeBlock } from '@/components/ui/code-block'
+import ViewSource from '@/components/ViewSource'
+import ProfiledSection from '@/components/ProfiledSection'
+import { useRouteTab } from '@/hooks/useRoute'
+import { getTabIds } from '@/lib/registry'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import {
     Search,
@@ -17,22 +22,18 @@ import {
     RefreshCw
 } from 'lucide-react'
 import * as React from "react";
-
-interface Product {
-    id: number
-    name: string
-    price: number
-    category: string
-    rating: number
-    inStock: boolean
-    description: string
-}
-
-interface DataPoint {
-    x: number
-    y: number
-    label: string
-}
+import {
+    complexSort,
+    expensiveCalculation,
+    fibonacci,
+    isPrime,
+    processLargeDataset,
+    type Product
+} from '@/lib/memo-calculations'
+import demoSource from '@/components/hook-components/UseMemoDemo.tsx?raw'
+import memoCalculationsSource from '@/lib/memo-calculations.ts?raw'
+
+const sources = [demoSource, memoCalculationsSource]
 
 interface User {
     id: number
@@ -44,77 +45,8 @@ interface User {
     isActive: boolean
 }
 
-// Expensive computation function
-const expensiveCalculation = (num: number): number => {
-    console.log('🔥 Expensive calculation running for:', num)
-    let result = 0
-    for (let i = 0; i < num * 100000; i++) {
-        result += Math.sqrt(i)
-    }
-    return result
-}
-
-// Expensive fibonacci calculation
-const fibonacci = (n: number): number => {
-    console.log('🔥 Fibonacci calculation for:', n)
-    if (n <= 1) return n
-    return fibonacci(n - 1) + fibonacci(n - 2)
-}
-
-// Expensive prime calculation
-const isPrime = (num: number): boolean => {
-    console.log('🔥 Prime check for:', num)
-    if (num < 2) return false
-    for (let i = 2; i <= Math.sqrt(num); i++) {
-        if (num % i === 0) return false
-    }
-    return true
-}
-
-// Expensive data processing
-const processLargeDataset = (data: DataPoint[]): { mean: number; median: number; mode: number; std: number } => {
-    console.log('🔥 Processing large dataset with', data.length, 'points')
-
-    const values = data.map(d => d.y).sort((a, b) => a - b)
-    const mean = values.reduce((sum, val) => sum + val, 0) / values.length
-    const median = values.length % 2 === 0
-        ? (values[values.length / 2 - 1] + values[values.length / 2]) / 2
-        : values[Math.floor(values.length / 2)]
-
-    // Calculate mode
-    const frequency: { [key: number]: number } = {}
-    values.forEach(val => frequency[val] = (frequency[val] || 0) + 1)
-    const mode = Object.keys(frequency).reduce((a, b) => frequency[Number(a)] > frequency[Number(b)] ? a : b)
-
-    // Calculate standard deviation
-    const variance = values.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / values.length
-    const std = Math.sqrt(variance)
-
-    return { mean, median, mode: Number(mode), std }
-}
-
-// Complex sorting algorithm
-const complexSort = (items: Product[], sortBy: string, direction: 'asc' | 'desc'): Product[] => {
-    console.log('🔥 Complex sorting for', items.length, 'items by', sortBy, direction)
-
-    return [...items].sort((a, b) => {
-        let aVal: string | number | boolean = a[sortBy as keyof Product]
-        let bVal: string | number | boolean = b[sortBy as keyof Product]
-
-        if (typeof aVal === 'string') {
-            aVal = aVal.toLowerCase()
-            bVal = (bVal as string).toLowerCase()
-        }
-
-        if (direction === 'asc') {
-            return aVal > bVal ? 1 : -1
-        } else {
-            return aVal < bVal ? 1 : -1
-        }
-    })
-}
-
 // Performance tracker component
+// #region PerformanceTracker
 const PerformanceTracker = ({ label, children }: { label: string; children: React.ReactNode }) => {
     const renderCount = useRef(0)
     const startTime = useRef(performance.now())
@@ -136,8 +68,10 @@ const PerformanceTracker = ({ label, children }: { label: string; children: Reac
         </div>
     )
 }
+// #endregion PerformanceTracker
 
 // Expensive list component
+// #region ExpensiveList
 const ExpensiveList = ({ items, filter }: { items: Product[]; filter: string }) => {
     const renderCount = useRef(0)
     renderCount.current++
@@ -217,58 +151,143 @@ const ExpensiveList = ({ items, filter }: { items: Product[]; filter: string })
         </div>
     )
 }
+// #endregion ExpensiveList
+
+// Example 4: Complex data processing. Its own component, so the section profiled around it
+// measures the dataset work and re-renders only when this example's state changes.
+const LargeDatasetExample = () => {
+    // #region datasetMemo
+    const [dataSize, setDataSize] = useState(1000)
+
+    const generateDataset = useCallback(() => {
+        console.log('🔥 Generating large dataset with', dataSize, 'points')
+        return Array.from({ length: dataSize }, (_, i) => ({
+            x: i,
+            y: Math.random() * 100,
+            label: `Point ${i}`
+        }))
+    }, [dataSize])
+
+    const [largeDataset, setLargeDataset] = useState(() => generateDataset())
+
+    // Update dataset when dataSize changes
+    useEffect(() => {
+        setLargeDataset(generateDataset())
+    }, [generateDataset])
+
+    const dataStatistics = useMemo(() => {
+        console.log('🔥 Processing large dataset with', largeDataset.length, 'points')
+        return processLargeDataset(largeDataset)
+    }, [largeDataset])
+    // #endregion datasetMemo
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                    <label className="text-sm font-medium">Dataset Size</label>
+                    <Input
+                        type="number"
+                        value={dataSize}
+                        onChange={(e) => setDataSize(parseInt(e.target.value) || 1000)}
+                        min="100"
+                        max="10000"
+                    />
+                </div>
+                <div>
+                    <label className="text-sm font-medium">Refresh Data</label>
+                    <Button
+                        onClick={() => setLargeDataset(generateDataset())}
+                        variant="outline"
+                        className="w-full"
+                    >
+                        <RefreshCw className="h-4 w-4 mr-2" />
+                        Regenerate Dataset
+                    </Button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="text-center p-4 border rounded">
+                    <BarChart3 className="h-6 w-6 mx-auto mb-2 text-blue-600" />
+                    <div className="text-2xl font-bold">{dataStatistics.mean.toFixed(2)}</div>
+                    <div className="text-sm text-muted-foreground">Mean</div>
+                </div>
+                <div className="text-center p-4 border rounded">
+                    <Target className="h-6 w-6 mx-auto mb-2 text-green-600" />
+                    <div className="text-2xl font-bold">{dataStatistics.median.toFixed(2)}</div>
+                    <div className="text-sm text-muted-foreground">Median</div>
+                </div>
+                <div className="text-center p-4 border rounded">
+                    <TrendingUp className="h-6 w-6 mx-auto mb-2 text-purple-600" />
+                    <div className="text-2xl font-bold">{dataStatistics.mode}</div>
+                    <div className="text-sm text-muted-foreground">Mode</div>
+                </div>
+                <div className="text-center p-4 border rounded">
+                    <Layers className="h-6 w-6 mx-auto mb-2 text-orange-600" />
+                    <div className="text-2xl font-bold">{dataStatistics.std.toFixed(2)}</div>
+                    <div className="text-sm text-muted-foreground">Std Dev</div>
+                </div>
+            </div>
+
+            <CodeBlock
+                code={`const dataStatistics = useMemo(() => {
+  return processLargeDataset(largeDataset)
+}, [largeDataset]) // Only recalculates when dataset changes`}
+            />
+
+            <Alert>
+                <CheckCircle className="h-4 w-4" />
+                <AlertDescription>
+                    Processing {dataSize} data points. Statistics are memoized and only recalculate when the dataset changes.
+                </AlertDescription>
+            </Alert>
+        </div>
+    )
+}
+
+const tabIds = getTabIds('useMemo')
 
 export function UseMemoDemo() {
+    const { tab, setTab, tabs } = useRouteTab()
+
     // Example 1: Basic expensive calculation
+    // #region expensiveMemo
     const [number, setNumber] = useState(100)
     const [multiplier, setMultiplier] = useState(1)
     const [theme, setTheme] = useState('light')
 
     // Without useMemo - would recalculate on every render
     const expensiveResult = useMemo(() => {
+        console.log('🔥 Expensive calculation running for:', number)
         return expensiveCalculation(number)
     }, [number])
+    // #endregion expensiveMemo
 
     // Example 2: Fibonacci calculation
+    // #region fibonacciMemo
     const [fibNumber, setFibNumber] = useState(10)
     const [fibColor, setFibColor] = useState('blue')
 
     const fibResult = useMemo(() => {
+        console.log('🔥 Fibonacci calculation for:', fibNumber)
         return fibonacci(fibNumber)
     }, [fibNumber])
+    // #endregion fibonacciMemo
 
     // Example 3: Prime number checking
+    // #region primeMemo
     const [primeNumber, setPrimeNumber] = useState(97)
     const [primeCount, setPrimeCount] = useState(0)
 
     const primeResult = useMemo(() => {
+        console.log('🔥 Prime check for:', primeNumber)
         return isPrime(primeNumber)
     }, [primeNumber])
-
-    // Example 4: Complex data processing
-    const [dataSize, setDataSize] = useState(1000)
-
-    const generateDataset = useCallback(() => {
-        console.log('🔥 Generating large dataset with', dataSize, 'points')
-        return Array.from({ length: dataSize }, (_, i) => ({
-            x: i,
-            y: Math.random() * 100,
-            label: `Point ${i}`
-        }))
-    }, [dataSize])
-
-    const [largeDataset, setLargeDataset] = useState(() => generateDataset())
-
-    // Update dataset when dataSize changes
-    useEffect(() => {
-        setLargeDataset(generateDataset())
-    }, [generateDataset])
-
-    const dataStatistics = useMemo(() => {
-        return processLargeDataset(largeDataset)
-    }, [largeDataset])
+    // #endregion primeMemo
 
     // Example 5: Product filtering and sorting
+    // #region productMemo
     const [products] = useState<Product[]>([
         { id: 1, name: 'MacBook Pro', price: 1999, category: 'Electronics', rating: 4.8, inStock: true, description: 'High-performance laptop' },
         { id: 2, name: 'iPhone 14', price: 799, category: 'Electronics', rating: 4.6, inStock: true, description: 'Latest smartphone' },
@@ -300,10 +319,13 @@ export function UseMemoDemo() {
 
     // Sorted products with useMemo
     const sortedProducts = useMemo(() => {
+        console.log('🔥 Complex sorting for', filteredProducts.length, 'items by', sortBy, sortDirection)
         return complexSort(filteredProducts, sortBy, sortDirection)
     }, [filteredProducts, sortBy, sortDirection])
+    // #endregion productMemo
 
     // Example 6: Search suggestions
+    // #region suggestionsMemo
     const [searchQuery, setSearchQuery] = useState('')
 
     const searchSuggestions = useMemo(() => {
@@ -327,8 +349,10 @@ export function UseMemoDemo() {
             suggestion.toLowerCase().includes(searchQuery.toLowerCase())
         ).slice(0, 5)
     }, [searchQuery])
+    // #endregion suggestionsMemo
 
     // Example 7: User analytics
+    // #region analyticsMemo
     const [users] = useState<User[]>(() => {
         return Array.from({ length: 1000 }, (_, i) => ({
             id: i + 1,
@@ -373,6 +397,7 @@ export function UseMemoDemo() {
             }
         }
     }, [users, selectedDepartment, salaryRange])
+    // #endregion analyticsMemo
 
     // Performance metrics
     const renderCountRef = useRef(0)
@@ -399,15 +424,14 @@ export function UseMemoDemo() {
                 </AlertDescription>
             </Alert>
 
-            <Tabs defaultValue="basic" className="space-y-6">
+            <Tabs value={tab} onValueChange={setTab} className="space-y-6">
                 <TabsList className="grid w-full grid-cols-4">
-                    <TabsTrigger value="basic">Basic Memoization</TabsTrigger>
-                    <TabsTrigger value="complex">Complex Calculations</TabsTrigger>
-                    <TabsTrigger value="filtering">Data Filtering</TabsTrigger>
-                    <TabsTrigger value="analytics">Advanced Analytics</TabsTrigger>
+                    {tabs.map(({ id, label }) => (
+                        <TabsTrigger key={id} value={id}>{label}</TabsTrigger>
+                    ))}
                 </TabsList>
 
-                <TabsContent value="basic" className="space-y-6">
+                <TabsContent value={tabIds.basic} className="space-y-6">
                     {/* Basic Expensive Calculation */}
                     <Card>
                         <CardHeader>
@@ -464,13 +488,11 @@ export function UseMemoDemo() {
                                     </div>
                                 </PerformanceTracker>
 
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        {`const expensiveResult = useMemo(() => {
-                                              return expensiveCalculation(number)
-                                            }, [number]) // Only recalculates when 'number' changes`}
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`const expensiveResult = useMemo(() => {
+  return expensiveCalculation(number)
+}, [number]) // Only recalculates when 'number' changes`}
+                                />
 
                                 <Alert>
                                     <AlertTriangle className="h-4 w-4" />
@@ -480,6 +502,7 @@ export function UseMemoDemo() {
                                     </AlertDescription>
                                 </Alert>
                             </div>
+                            <ViewSource source={sources} regions={['expensiveCalculation', 'PerformanceTracker', 'expensiveMemo']} />
                         </CardContent>
                     </Card>
 
@@ -533,14 +556,13 @@ export function UseMemoDemo() {
                                     </div>
                                 </div>
 
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        {`const fibResult = useMemo(() => {
-                                              return fibonacci(fibNumber)
-                                            }, [fibNumber]) // Expensive recursive calculation`}
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`const fibResult = useMemo(() => {
+  return fibonacci(fibNumber)
+}, [fibNumber]) // Expensive recursive calculation`}
+                                />
                             </div>
+                            <ViewSource source={sources} regions={['fibonacci', 'fibonacciMemo']} />
                         </CardContent>
                     </Card>
 
@@ -598,19 +620,18 @@ export function UseMemoDemo() {
                                     </div>
                                 </div>
 
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        {`const primeResult = useMemo(() => {
-                                              return isPrime(primeNumber)
-                                            }, [primeNumber]) // Only recalculates when number changes`}
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`const primeResult = useMemo(() => {
+  return isPrime(primeNumber)
+}, [primeNumber]) // Only recalculates when number changes`}
+                                />
                             </div>
+                            <ViewSource source={sources} regions={['isPrime', 'primeMemo']} />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="complex" className="space-y-6">
+                <TabsContent value={tabIds.complex} className="space-y-6">
                     {/* Data Processing */}
                     <Card>
                         <CardHeader>
@@ -623,69 +644,10 @@ export function UseMemoDemo() {
                             </CardDescription>
                         </CardHeader>
                         <CardContent>
-                            <div className="space-y-4">
-                                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                                    <div>
-                                        <label className="text-sm font-medium">Dataset Size</label>
-                                        <Input
-                                            type="number"
-                                            value={dataSize}
-                                            onChange={(e) => setDataSize(parseInt(e.target.value) || 1000)}
-                                            min="100"
-                                            max="10000"
-                                        />
-                                    </div>
-                                    <div>
-                                        <label className="text-sm font-medium">Refresh Data</label>
-                                        <Button
-                                            onClick={() => setLargeDataset(generateDataset())}
-                                            variant="outline"
-                                            className="w-full"
-                                        >
-                                            <RefreshCw className="h-4 w-4 mr-2" />
-                                            Regenerate Dataset
-                                        </Button>
-                                    </div>
-                                </div>
-
-                                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                                    <div className="text-center p-4 border rounded">
-                                        <BarChart3 className="h-6 w-6 mx-auto mb-2 text-blue-600" />
-                                        <div className="text-2xl font-bold">{dataStatistics.mean.toFixed(2)}</div>
-                                        <div className="text-sm text-muted-foreground">Mean</div>
-                                    </div>
-                                    <div className="text-center p-4 border rounded">
-                                        <Target className="h-6 w-6 mx-auto mb-2 text-green-600" />
-                                        <div className="text-2xl font-bold">{dataStatistics.median.toFixed(2)}</div>
-                                        <div className="text-sm text-muted-foreground">Median</div>
-                                    </div>
-                                    <div className="text-center p-4 border rounded">
-                                        <TrendingUp className="h-6 w-6 mx-auto mb-2 text-purple-600" />
-                                        <div className="text-2xl font-bold">{dataStatistics.mode}</div>
-                                        <div className="text-sm text-muted-foreground">Mode</div>
-                                    </div>
-                                    <div className="text-center p-4 border rounded">
-                                        <Layers className="h-6 w-6 mx-auto mb-2 text-orange-600" />
-                                        <div className="text-2xl font-bold">{dataStatistics.std.toFixed(2)}</div>
-                                        <div className="text-sm text-muted-foreground">Std Dev</div>
-                                    </div>
-                                </div>
-
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        {`const dataStatistics = useMemo(() => {
-                                              return processLargeDataset(largeDataset)
-                                            }, [largeDataset]) // Only recalculates when dataset changes`}
-                                    </code>
-                                </div>
-
-                                <Alert>
-                                    <CheckCircle className="h-4 w-4" />
-                                    <AlertDescription>
-                                        Processing {dataSize} data points. Statistics are memoized and only recalculate when the dataset changes.
-                                    </AlertDescription>
-                                </Alert>
-                            </div>
+                            <ProfiledSection id="Large Dataset Processing">
+                                <LargeDatasetExample />
+                            </ProfiledSection>
+                            <ViewSource source={sources} regions={['processLargeDataset', 'datasetMemo']} />
                         </CardContent>
                     </Card>
 
@@ -725,21 +687,20 @@ export function UseMemoDemo() {
                                     </div>
                                 )}
 
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        {`const searchSuggestions = useMemo(() => {
-                                              return suggestions.filter(suggestion =>
-                                                suggestion.toLowerCase().includes(searchQuery.toLowerCase())
-                                              )
-                                            }, [searchQuery]) // Only filters when search query changes`}
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`const searchSuggestions = useMemo(() => {
+  return suggestions.filter(suggestion =>
+    suggestion.toLowerCase().includes(searchQuery.toLowerCase())
+  )
+}, [searchQuery]) // Only filters when search query changes`}
+                                />
                             </div>
+                            <ViewSource source={sources} regions="suggestionsMemo" />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="filtering" className="space-y-6">
+                <TabsContent value={tabIds.filtering} className="space-y-6">
                     {/* Product Filtering */}
                     <Card>
                         <CardHeader>
@@ -815,23 +776,22 @@ export function UseMemoDemo() {
 
                                 <ExpensiveList items={sortedProducts} filter={searchTerm} />
 
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        {`const sortedProducts = useMemo(() => {
-                                              return complexSort(filteredProducts, sortBy, sortDirection)
-                                            }, [filteredProducts, sortBy, sortDirection])
-                                            
-                                            const filteredProducts = useMemo(() => {
-                                              return products.filter(product => /* filtering logic */)
-                                            }, [products, searchTerm, priceFilter])`}
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`const sortedProducts = useMemo(() => {
+  return complexSort(filteredProducts, sortBy, sortDirection)
+}, [filteredProducts, sortBy, sortDirection])
+
+const filteredProducts = useMemo(() => {
+  return products.filter(product => /* filtering logic */)
+}, [products, searchTerm, priceFilter])`}
+                                />
                             </div>
+                            <ViewSource source={sources} regions={['complexSort', 'ExpensiveList', 'productMemo']} />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="analytics" className="space-y-6">
+                <TabsContent value={tabIds.analytics} className="space-y-6">
                     {/* User Analytics */}
                     <Card>
                         <CardHeader>
@@ -941,17 +901,16 @@ export function UseMemoDemo() {
                                     </div>
                                 </div>
 
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        {`const userAnalytics = useMemo(() => {
-                                              // Complex analytics calculations
-                                              return {
-                                                total, active, avgSalary, departmentStats, salaryDistribution
-                                              }
-                                            }, [users, selectedDepartment, salaryRange])`}
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`const userAnalytics = useMemo(() => {
+  // Complex analytics calculations
+  return {
+    total, active, avgSalary, departmentStats, salaryDistribution
+  }
+}, [users, selectedDepartment, salaryRange])`}
+                                />
                             </div>
+                            <ViewSource source={sources} regions="analyticsMemo" />
                         </CardContent>
                     </Card>
                 </TabsContent>
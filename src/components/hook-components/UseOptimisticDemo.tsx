@@ -0,0 +1,333 @@
+import { startTransition, useId, useOptimistic, useRef, useState, useTransition } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { CodeBlock } from '@/components/ui/code-block'
+import ViewSource from '@/components/ViewSource'
+import ServerControls from '@/components/ServerControls'
+import { useRouteTab } from '@/hooks/useRoute'
+import { getTabIds } from '@/lib/registry'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+    Heart,
+    ListTodo,
+    Loader2,
+    Plus,
+    Undo2
+} from 'lucide-react'
+import { createTodo, getLikes, getTodos, setLiked, setTodoDone, type Likes, type Todo } from '@/lib/fake-server'
+import demoSource from '@/components/hook-components/UseOptimisticDemo.tsx?raw'
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : 'Something went wrong'
+
+// Example 1: An optimistic todo list that rolls back on failure
+// #region applyTodoUpdate
+interface OptimisticTodo extends Todo {
+    pending?: boolean
+}
+
+type TodoUpdate =
+    | { type: 'add'; todo: OptimisticTodo }
+    | { type: 'toggle'; id: number; done: boolean }
+
+// Like a reducer: applied on top of the confirmed todos while an action is in flight
+const applyTodoUpdate = (todos: OptimisticTodo[], update: TodoUpdate): OptimisticTodo[] => {
+    switch (update.type) {
+        case 'add':
+            return [...todos, update.todo]
+        case 'toggle':
+            return todos.map(todo => todo.id === update.id ? { ...todo, done: update.done, pending: true } : todo)
+    }
+}
+// #endregion applyTodoUpdate
+
+// #region OptimisticTodoList
+const OptimisticTodoList = () => {
+    const id = useId()
+    const [todos, setTodos] = useState<Todo[]>(getTodos)
+    const [optimisticTodos, addOptimisticUpdate] = useOptimistic<OptimisticTodo[], TodoUpdate>(todos, applyTodoUpdate)
+    const [error, setError] = useState<string | null>(null)
+    // Temporary ids for todos the server hasn't assigned an id to yet
+    const nextTempId = useRef(-1)
+
+    const addTodo = async (formData: FormData) => {
+        const text = String(formData.get('text')).trim()
+        if (!text) return
+
+        setError(null)
+        addOptimisticUpdate({ type: 'add', todo: { id: nextTempId.current--, text, done: false, pending: true } })
+        try {
+            const todo = await createTodo(text)
+            // State set after an await needs its own transition to be part of the action
+            startTransition(() => setTodos(todos => [...todos, todo]))
+        } catch (error) {
+            // Nothing to undo by hand: when the action ends, the optimistic todo disappears
+            setError(`Couldn't add "${text}": ${errorMessage(error)}`)
+        }
+    }
+
+    const toggleTodo = (todo: Todo) => {
+        setError(null)
+        startTransition(async () => {
+            addOptimisticUpdate({ type: 'toggle', id: todo.id, done: !todo.done })
+            try {
+                const updated = await setTodoDone(todo.id, !todo.done)
+                startTransition(() => setTodos(todos => todos.map(t => t.id === updated.id ? updated : t)))
+            } catch (error) {
+                setError(`Couldn't update "${todo.text}": ${errorMessage(error)}`)
+            }
+        })
+    }
+
+    return (
+        <div className="space-y-4">
+            <form action={addTodo} className="flex gap-2">
+                <Label htmlFor={id} className="sr-only">New todo</Label>
+                <Input id={id} name="text" required placeholder="Add a todo" />
+                <Button type="submit">
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add
+                </Button>
+            </form>
+
+            {error && (
+                <Alert variant="destructive">
+                    <Undo2 className="h-4 w-4" />
+                    <AlertDescription>Rolled back. {error}</AlertDescription>
+                </Alert>
+            )}
+
+            <ul className="space-y-2">
+                {optimisticTodos.map(todo => (
+                    <li
+                        key={todo.id}
+                        className={`flex items-center gap-3 p-3 border rounded-lg ${todo.pending ? 'opacity-60' : ''}`}
+                    >
+                        <input
+                            type="checkbox"
+                            checked={todo.done}
+                            disabled={todo.id < 0}
+                            onChange={() => toggleTodo(todo)}
+                            aria-label={`Mark "${todo.text}" as ${todo.done ? 'not done' : 'done'}`}
+                        />
+                        <span className={`flex-1 text-sm ${todo.done ? 'line-through text-muted-foreground' : ''}`}>
+                            {todo.text}
+                        </span>
+                        {todo.pending && (
+                            <Badge variant="outline" className="gap-1">
+                                <Loader2 className="h-3 w-3 animate-spin" />
+                                Saving
+                            </Badge>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    )
+}
+// #endregion OptimisticTodoList
+
+// Example 2: Like buttons with and without an optimistic update
+// #region LikeButtons
+const LikeCount = ({ likes, pending, onClick }: { likes: Likes; pending: boolean; onClick: () => void }) => (
+    <div className="flex items-center gap-3">
+        <Button variant="outline" onClick={onClick} aria-pressed={likes.liked}>
+            <Heart className={`h-4 w-4 mr-2 ${likes.liked ? 'fill-red-500 text-red-500' : ''}`} />
+            {likes.count}
+        </Button>
+        {pending && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+    </div>
+)
+
+const OptimisticLikeButton = ({ postId }: { postId: string }) => {
+    const [likes, setLikes] = useState(() => getLikes(postId))
+    // Without an update function, the optimistic value simply replaces the confirmed one
+    const [optimisticLikes, setOptimisticLikes] = useOptimistic(likes)
+    const [isPending, startLikeTransition] = useTransition()
+    const [error, setError] = useState<string | null>(null)
+
+    const toggle = () => {
+        setError(null)
+        startLikeTransition(async () => {
+            const liked = !optimisticLikes.liked
+            setOptimisticLikes({ liked, count: optimisticLikes.count + (liked ? 1 : -1) })
+            try {
+                const confirmed = await setLiked(postId, liked)
+                startLikeTransition(() => setLikes(confirmed))
+            } catch (error) {
+                setError(errorMessage(error))
+            }
+        })
+    }
+
+    return (
+        <div className="space-y-2">
+            <LikeCount likes={optimisticLikes} pending={isPending} onClick={toggle} />
+            {error && <p role="alert" className="text-sm text-red-700">Rolled back: {error}</p>}
+        </div>
+    )
+}
+
+const WaitingLikeButton = ({ postId }: { postId: string }) => {
+    const [likes, setLikes] = useState(() => getLikes(postId))
+    const [isPending, startLikeTransition] = useTransition()
+    const [error, setError] = useState<string | null>(null)
+
+    const toggle = () => {
+        setError(null)
+        startLikeTransition(async () => {
+            try {
+                const confirmed = await setLiked(postId, !likes.liked)
+                startLikeTransition(() => setLikes(confirmed))
+            } catch (error) {
+                setError(errorMessage(error))
+            }
+        })
+    }
+
+    return (
+        <div className="space-y-2">
+            <LikeCount likes={likes} pending={isPending} onClick={toggle} />
+            {error && <p role="alert" className="text-sm text-red-700">{error}</p>}
+        </div>
+    )
+}
+// #endregion LikeButtons
+
+const tabIds = getTabIds('useOptimistic')
+
+export default function UseOptimisticDemo() {
+    const { tab, setTab, tabs } = useRouteTab()
+
+    return (
+        <div className="max-w-6xl mx-auto p-6 space-y-6">
+            {/* Header */}
+            <div className="text-center space-y-2">
+                <h1 className="text-3xl font-bold">useOptimistic Hook Interactive Demo</h1>
+                <p className="text-muted-foreground">
+                    Show the expected result of an action immediately, and fall back if the server disagrees
+                </p>
+            </div>
+
+            <ServerControls />
+
+            <Tabs value={tab} onValueChange={setTab} className="space-y-6">
+                <TabsList className="grid w-full grid-cols-2">
+                    {tabs.map(({ id, label }) => (
+                        <TabsTrigger key={id} value={id}>{label}</TabsTrigger>
+                    ))}
+                </TabsList>
+
+                <TabsContent value={tabIds.todos} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Lists</Badge>
+                                <ListTodo className="h-4 w-4" />
+                                Optimistic Todo List
+                            </CardTitle>
+                            <CardDescription>
+                                New and toggled todos appear instantly and are marked as saving. Use "Fail next request" to
+                                watch a change roll back.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <OptimisticTodoList />
+                            <CodeBlock
+                                code={`const [optimisticTodos, addOptimisticUpdate] = useOptimistic<OptimisticTodo[], TodoUpdate>(todos, applyTodoUpdate)
+
+const addTodo = async (formData) => {
+  addOptimisticUpdate({ type: 'add', todo: { text, pending: true } })
+  try {
+    const todo = await createTodo(text)
+    startTransition(() => setTodos(todos => [...todos, todo]))
+  } catch (error) {
+    setError(error.message) // the optimistic todo is dropped automatically
+  }
+}`}
+                                highlightLines={[1, 4]}
+                            />
+                            <ViewSource source={demoSource} regions={['applyTodoUpdate', 'OptimisticTodoList']} />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value={tabIds.likes} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Comparison</Badge>
+                                <Heart className="h-4 w-4" />
+                                Like Button
+                            </CardTitle>
+                            <CardDescription>
+                                Raise the latency and click both buttons: one updates immediately, the other waits for the server
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                <div className="space-y-2 p-4 border rounded-lg border-green-200">
+                                    <h4 className="font-medium text-green-700">useOptimistic</h4>
+                                    <OptimisticLikeButton postId="optimistic" />
+                                </div>
+                                <div className="space-y-2 p-4 border rounded-lg">
+                                    <h4 className="font-medium">Wait for the server</h4>
+                                    <WaitingLikeButton postId="waiting" />
+                                </div>
+                            </div>
+                            <CodeBlock
+                                code={`const [optimisticLikes, setOptimisticLikes] = useOptimistic(likes)
+
+startTransition(async () => {
+  setOptimisticLikes({ liked: true, count: likes.count + 1 })
+  const confirmed = await setLiked(true)
+  startTransition(() => setLikes(confirmed))
+})`}
+                                highlightLines={[4]}
+                            />
+                            <ViewSource source={demoSource} regions="LikeButtons" />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+            </Tabs>
+
+            {/* Key Concepts */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Key Concepts</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <h4 className="font-medium">⚡ Instant Feedback</h4>
+                            <p className="text-sm text-muted-foreground">
+                                The optimistic value renders right away, so the UI doesn't wait for the network.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">↩️ Automatic Rollback</h4>
+                            <p className="text-sm text-muted-foreground">
+                                Optimistic updates only live while their action runs. Afterwards React shows the real state again.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">🔄 Inside Actions Only</h4>
+                            <p className="text-sm text-muted-foreground">
+                                Set optimistic state from a form action or startTransition; outside one React warns and drops it.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">🏷️ Mark Pending Items</h4>
+                            <p className="text-sm text-muted-foreground">
+                                Flag optimistic entries so users can tell saved data from data that is still on its way.
+                            </p>
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
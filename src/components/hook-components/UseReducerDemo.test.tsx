@@ -0,0 +1,34 @@
+import { screen, within } from '@testing-library/react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { renderDemo } from '@/test/render'
+
+const CART_KEY = 'reducer-middleware-cart'
+
+const middlewareCart = () => within(screen.getByText('Cart with Middleware').closest<HTMLElement>('[data-slot="card"]')!)
+
+beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+describe('UseReducerDemo cart with middleware', () => {
+    it('restores the items saved before a reload', async () => {
+        localStorage.setItem(CART_KEY, JSON.stringify({ items: [{ id: '1', name: 'React Book', price: 29.99, quantity: 2 }] }))
+        await renderDemo('useReducer', { tab: 'practical' })
+
+        expect(middlewareCart().getByRole('button', { name: 'Fewer React Book' })).toBeInTheDocument()
+    })
+
+    it.each([
+        '{"items":"x"}',
+        '{"items":null}',
+        '{"items":[{"id":"1","name":"React Book"}]}',
+        'not json'
+    ])('starts empty when the saved cart is %s', async saved => {
+        localStorage.setItem(CART_KEY, saved)
+        await renderDemo('useReducer', { tab: 'practical' })
+
+        expect(middlewareCart().getByText('The cart is empty.')).toBeInTheDocument()
+        expect(console.warn).toHaveBeenCalledWith(`Ignoring the saved "${CART_KEY}"`, expect.any(Error))
+    })
+})
@@ -1,9 +1,34 @@
-import { useReducer, useState } from 'react'
+import { useMemo, useReducer, useRef, useState, type Reducer } from 'react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { CodeBlock } from '@/components/ui/code-block'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import ViewSource from '@/components/ViewSource'
+import Playground from '@/components/Playground'
+import ReducerDebugger from '@/components/ReducerDebugger'
+import ServerControls from '@/components/ServerControls'
+import { useInspectableReducer } from '@/hooks/useInspectableReducer'
+import { useRouteTab } from '@/hooks/useRoute'
+import { getTabIds } from '@/lib/registry'
+import { useUndoShortcuts } from '@/hooks/useUndoShortcuts'
+import {
+    addTodo,
+    cartReducer,
+    counterReducer,
+    formReducer,
+    timerReducer,
+    todoReducer,
+    type CartAction,
+    type CartItem,
+    type CartState,
+    type Todo,
+    type TodoState
+} from '@/lib/demo-reducers'
+import { placeOrder, type Order } from '@/lib/fake-server'
+import { initUndo, redo, undo, withUndo, type UndoHistoryAction, type UndoState } from '@/lib/with-undo'
 import {
     Plus,
     Minus,
@@ -17,338 +42,266 @@ import {
     Check,
     X,
     Save,
-    Loader2
+    Loader2,
+    Undo2,
+    Redo2
 } from 'lucide-react'
+import demoSource from '@/components/hook-components/UseReducerDemo.tsx?raw'
+import demoReducersSource from '@/lib/demo-reducers.ts?raw'
+import withUndoSource from '@/lib/with-undo.ts?raw'
+import useInspectableReducerSource from '@/hooks/useInspectableReducer.ts?raw'
+import useUndoShortcutsSource from '@/hooks/useUndoShortcuts.ts?raw'
 
-// Counter Reducer
-interface CounterState {
-    count: number
-    step: number
-}
+const sources = [demoSource, demoReducersSource, withUndoSource, useInspectableReducerSource, useUndoShortcutsSource]
 
-type CounterAction =
-    | { type: 'INCREMENT' }
-    | { type: 'DECREMENT' }
-    | { type: 'RESET' }
-    | { type: 'SET_STEP'; payload: number }
-    | { type: 'SET_COUNT'; payload: number }
+// Undo / redo: the todo and cart reducers, unchanged, wrapped in a higher-order reducer
+// #region undoableReducers
+const UNDO_LIMIT = 20
 
-const counterReducer = (state: CounterState, action: CounterAction): CounterState => {
-    switch (action.type) {
-        case 'INCREMENT':
-            return { ...state, count: state.count + state.step }
-        case 'DECREMENT':
-            return { ...state, count: state.count - state.step }
-        case 'RESET':
-            return { ...state, count: 0 }
-        case 'SET_STEP':
-            return { ...state, step: action.payload }
-        case 'SET_COUNT':
-            return { ...state, count: action.payload }
-        default:
-            return state
-    }
+const undoableTodoReducer = withUndo(todoReducer, {
+    limit: UNDO_LIMIT,
+    // Filtering and starting an edit only change the view, so they are not undo steps
+    filter: action => !['SET_FILTER', 'EDIT_TODO', 'CANCEL_EDIT'].includes(action.type)
+})
+
+const undoableCartReducer = withUndo(cartReducer, {
+    limit: UNDO_LIMIT,
+    // Several clicks on + or - for one item are undone in one step
+    groupBy: action => action.type === 'UPDATE_QUANTITY' ? `quantity:${action.payload.id}` : null
+})
+// #endregion undoableReducers
+
+// #region UndoToolbar
+interface UndoToolbarProps {
+    history: UndoState<unknown>
+    dispatch: (action: UndoHistoryAction) => void
 }
 
-// Timer Reducer
-interface TimerState {
-    seconds: number
-    isRunning: boolean
-    interval: number
+const UndoToolbar = ({ history, dispatch }: UndoToolbarProps) => (
+    <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" variant="outline" onClick={() => dispatch(undo())} disabled={history.past.length === 0}>
+            <Undo2 className="h-4 w-4 mr-1" />
+            Undo
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => dispatch(redo())} disabled={history.future.length === 0}>
+            <Redo2 className="h-4 w-4 mr-1" />
+            Redo
+        </Button>
+        <Badge variant="secondary">
+            {history.past.length}/{UNDO_LIMIT} past · {history.future.length} future
+        </Badge>
+    </div>
+)
+// #endregion UndoToolbar
+
+// Middleware for useReducer, composed around dispatch the way Redux does it
+// #region useReducerWithMiddleware
+type Thunk<S, A> = (dispatch: MiddlewareDispatch<S, A>, getState: () => S) => unknown
+
+// Dispatch takes plain actions and, with thunkMiddleware, functions
+type MiddlewareDispatch<S, A> = (action: A | Thunk<S, A>) => void
+
+interface MiddlewareAPI<S, A> {
+    getState: () => S
+    dispatch: MiddlewareDispatch<S, A>
 }
 
-type TimerAction =
-    | { type: 'START' }
-    | { type: 'PAUSE' }
-    | { type: 'STOP' }
-    | { type: 'TICK' }
-    | { type: 'SET_INTERVAL'; payload: number }
+// Each middleware receives the next dispatch in the chain and returns its own
+type Middleware<S, A> = (api: MiddlewareAPI<S, A>) => (next: MiddlewareDispatch<S, A>) => MiddlewareDispatch<S, A>
 
-const timerReducer = (state: TimerState, action: TimerAction): TimerState => {
-    switch (action.type) {
-        case 'START':
-            return { ...state, isRunning: true }
-        case 'PAUSE':
-            return { ...state, isRunning: false }
-        case 'STOP':
-            return { ...state, isRunning: false, seconds: 0 }
-        case 'TICK':
-            return state.isRunning ? { ...state, seconds: state.seconds + 1 } : state
-        case 'SET_INTERVAL':
-            return { ...state, interval: action.payload }
-        default:
-            return state
-    }
+// The middleware list is read once per reducer, so define it outside the component
+function useReducerWithMiddleware<S, A>(
+    reducer: Reducer<S, A>,
+    initialState: S,
+    middleware: Middleware<S, A>[],
+    init: (initialState: S) => S = state => state
+) {
+    const [state, reactDispatch] = useReducer(reducer, initialState, init)
+    // React only applies actions on the next render, so getState keeps its own copy up to date
+    const latestState = useRef(state)
+
+    const dispatch = useMemo(() => {
+        const applyAction: MiddlewareDispatch<S, A> = action => {
+            if (typeof action === 'function') {
+                throw new Error('Add thunkMiddleware to dispatch functions')
+            }
+            latestState.current = reducer(latestState.current, action as A)
+            reactDispatch(action as A)
+        }
+
+        const api: MiddlewareAPI<S, A> = {
+            getState: () => latestState.current,
+            // Actions dispatched from middleware go through the whole chain again
+            dispatch: action => chain(action)
+        }
+        const chain = middleware.reduceRight<MiddlewareDispatch<S, A>>((next, current) => current(api)(next), applyAction)
+        return chain
+    }, [reducer, middleware])
+
+    return [state, dispatch] as const
 }
+// #endregion useReducerWithMiddleware
 
-// Todo Reducer
-interface Todo {
-    id: string
-    text: string
-    completed: boolean
-    priority: 'low' | 'medium' | 'high'
+// #region middleware
+// Functions are called with dispatch and getState instead of reaching the reducer
+const thunkMiddleware = <S, A>(): Middleware<S, A> => ({ dispatch, getState }) => next => action => {
+    if (typeof action === 'function') {
+        (action as Thunk<S, A>)(dispatch, getState)
+    } else {
+        next(action)
+    }
 }
 
-interface TodoState {
-    todos: Todo[]
-    filter: 'all' | 'active' | 'completed'
-    editingId: string | null
+// Logs each action with the state before and after it (see the console panel below the page)
+const loggerMiddleware = <S, A>(name: string): Middleware<S, A> => ({ getState }) => next => action => {
+    const previous = getState()
+    next(action)
+    console.log(`[${name}] %o`, action, { previous, next: getState() })
 }
 
-type TodoAction =
-    | { type: 'ADD_TODO'; payload: { text: string; priority: 'low' | 'medium' | 'high' } }
-    | { type: 'TOGGLE_TODO'; payload: string }
-    | { type: 'DELETE_TODO'; payload: string }
-    | { type: 'EDIT_TODO'; payload: string }
-    | { type: 'UPDATE_TODO'; payload: { id: string; text: string } }
-    | { type: 'CANCEL_EDIT' }
-    | { type: 'SET_FILTER'; payload: 'all' | 'active' | 'completed' }
-    | { type: 'CLEAR_COMPLETED' }
-    | { type: 'SET_PRIORITY'; payload: { id: string; priority: 'low' | 'medium' | 'high' } }
-
-const todoReducer = (state: TodoState, action: TodoAction): TodoState => {
-    switch (action.type) {
-        case 'ADD_TODO':
-            return {
-                ...state,
-                todos: [...state.todos, {
-                    id: Date.now().toString(),
-                    text: action.payload.text,
-                    completed: false,
-                    priority: action.payload.priority
-                }]
-            }
-        case 'TOGGLE_TODO':
-            return {
-                ...state,
-                todos: state.todos.map(todo =>
-                    todo.id === action.payload ? { ...todo, completed: !todo.completed } : todo
-                )
-            }
-        case 'DELETE_TODO':
-            return {
-                ...state,
-                todos: state.todos.filter(todo => todo.id !== action.payload)
-            }
-        case 'EDIT_TODO':
-            return {
-                ...state,
-                editingId: action.payload
-            }
-        case 'UPDATE_TODO':
-            return {
-                ...state,
-                todos: state.todos.map(todo =>
-                    todo.id === action.payload.id ? { ...todo, text: action.payload.text } : todo
-                ),
-                editingId: null
-            }
-        case 'CANCEL_EDIT':
-            return {
-                ...state,
-                editingId: null
-            }
-        case 'SET_FILTER':
-            return {
-                ...state,
-                filter: action.payload
-            }
-        case 'CLEAR_COMPLETED':
-            return {
-                ...state,
-                todos: state.todos.filter(todo => !todo.completed)
-            }
-        case 'SET_PRIORITY':
-            return {
-                ...state,
-                todos: state.todos.map(todo =>
-                    todo.id === action.payload.id ? { ...todo, priority: action.payload.priority } : todo
-                )
-            }
-        default:
-            return state
+// Saves the selected part of the state after every action; rehydrate reads it back
+const persistMiddleware = <S, A>(key: string, select: (state: S) => Partial<S>): Middleware<S, A> => ({ getState }) => next => action => {
+    next(action)
+    try {
+        window.localStorage.setItem(key, JSON.stringify(select(getState())))
+    } catch (error) {
+        console.warn(`Could not persist "${key}"`, error)
     }
 }
 
-// Shopping Cart Reducer
-interface CartItem {
-    id: string
-    name: string
-    price: number
-    quantity: number
+// `validate` turns what was saved back into part of the state, or throws if it can't be used (an
+// older format, a hand edit), like useLocalStorage's option of the same name
+const rehydrate = <S,>(key: string, initialState: S, validate: (saved: unknown) => Partial<S>): S => {
+    try {
+        const saved = window.localStorage.getItem(key)
+        return saved ? { ...initialState, ...validate(JSON.parse(saved)) } : initialState
+    } catch (error) {
+        console.warn(`Ignoring the saved "${key}"`, error)
+        return initialState
+    }
 }
+// #endregion middleware
 
-interface CartState {
-    items: CartItem[]
-    discount: number
-    shipping: number
-    tax: number
+// The cart example again: cartReducer plus the states of an asynchronous checkout
+// #region checkoutCart
+interface CheckoutCartState extends CartState {
+    checkout:
+        | { status: 'idle' }
+        | { status: 'pending' }
+        | { status: 'success'; order: Order }
+        | { status: 'failure'; error: string }
 }
 
-type CartAction =
-    | { type: 'ADD_ITEM'; payload: Omit<CartItem, 'quantity'> }
-    | { type: 'REMOVE_ITEM'; payload: string }
-    | { type: 'UPDATE_QUANTITY'; payload: { id: string; quantity: number } }
-    | { type: 'APPLY_DISCOUNT'; payload: number }
-    | { type: 'SET_SHIPPING'; payload: number }
-    | { type: 'CLEAR_CART' }
-    | { type: 'CALCULATE_TAX' }
+type CheckoutCartAction =
+    | CartAction
+    | { type: 'CHECKOUT_PENDING' }
+    | { type: 'CHECKOUT_SUCCESS'; payload: Order }
+    | { type: 'CHECKOUT_FAILURE'; payload: string }
 
-const cartReducer = (state: CartState, action: CartAction): CartState => {
+const checkoutCartReducer = (state: CheckoutCartState, action: CheckoutCartAction): CheckoutCartState => {
     switch (action.type) {
-        case 'ADD_ITEM': {
-            const existingItem = state.items.find(item => item.id === action.payload.id)
-            if (existingItem) {
-                return {
-                    ...state,
-                    items: state.items.map(item =>
-                        item.id === action.payload.id
-                            ? {...item, quantity: item.quantity + 1}
-                            : item
-                    )
-                }
-            }
-            return {
-                ...state,
-                items: [...state.items, {...action.payload, quantity: 1}]
-            }
-        }
-        case 'REMOVE_ITEM':
-            return {
-                ...state,
-                items: state.items.filter(item => item.id !== action.payload)
-            }
-        case 'UPDATE_QUANTITY':
-            if (action.payload.quantity <= 0) {
-                return {
-                    ...state,
-                    items: state.items.filter(item => item.id !== action.payload.id)
-                }
-            }
-            return {
-                ...state,
-                items: state.items.map(item =>
-                    item.id === action.payload.id
-                        ? { ...item, quantity: action.payload.quantity }
-                        : item
-                )
-            }
-        case 'APPLY_DISCOUNT':
-            return {
-                ...state,
-                discount: action.payload
-            }
-        case 'SET_SHIPPING':
-            return {
-                ...state,
-                shipping: action.payload
-            }
-        case 'CLEAR_CART':
-            return {
-                ...state,
-                items: [],
-                discount: 0,
-                shipping: 0
-            }
-        case 'CALCULATE_TAX': {
-            const subtotal = state.items.reduce((sum, item) => sum + (item.price * item.quantity), 0)
-            return {
-                ...state,
-                tax: subtotal * 0.08 // 8% tax
-            }
+        case 'CHECKOUT_PENDING':
+            return { ...state, checkout: { status: 'pending' } }
+        case 'CHECKOUT_SUCCESS':
+            return { ...state, items: [], discount: 0, checkout: { status: 'success', order: action.payload } }
+        case 'CHECKOUT_FAILURE':
+            return { ...state, checkout: { status: 'failure', error: action.payload } }
+        default: {
+            const cart = cartReducer(state, action)
+            return cart === state ? state : { ...state, ...cart }
         }
-        default:
-            return state
     }
 }
 
-// Form Reducer
-interface FormState {
-    values: Record<string, string>
-    errors: Record<string, string>
-    touched: Record<string, boolean>
-    isSubmitting: boolean
-    isValid: boolean
+// An async action: a thunk that dispatches pending, then success or failure
+const checkout = (): Thunk<CheckoutCartState, CheckoutCartAction> => async (dispatch, getState) => {
+    if (getState().checkout.status === 'pending') return
+
+    dispatch({ type: 'CHECKOUT_PENDING' })
+    try {
+        const order = await placeOrder(getState().items)
+        dispatch({ type: 'CHECKOUT_SUCCESS', payload: order })
+    } catch (error) {
+        dispatch({ type: 'CHECKOUT_FAILURE', payload: error instanceof Error ? error.message : String(error) })
+    }
 }
 
-type FormAction =
-    | { type: 'SET_FIELD'; payload: { field: string; value: string } }
-    | { type: 'SET_ERROR'; payload: { field: string; error: string } }
-    | { type: 'CLEAR_ERROR'; payload: string }
-    | { type: 'TOUCH_FIELD'; payload: string }
-    | { type: 'SET_SUBMITTING'; payload: boolean }
-    | { type: 'VALIDATE_FORM' }
-    | { type: 'RESET_FORM' }
+const CHECKOUT_CART_KEY = 'reducer-middleware-cart'
 
-const formReducer = (state: FormState, action: FormAction): FormState => {
-    switch (action.type) {
-        case 'SET_FIELD':
-            return {
-                ...state,
-                values: { ...state.values, [action.payload.field]: action.payload.value }
-            }
-        case 'SET_ERROR':
-            return {
-                ...state,
-                errors: { ...state.errors, [action.payload.field]: action.payload.error }
-            }
-        case 'CLEAR_ERROR': {
-            const {[action.payload]: _, ...restErrors} = state.errors
-            return {
-                ...state,
-                errors: restErrors
-            }
-        }
-        case 'TOUCH_FIELD':
-            return {
-                ...state,
-                touched: { ...state.touched, [action.payload]: true }
-            }
-        case 'SET_SUBMITTING':
-            return {
-                ...state,
-                isSubmitting: action.payload
-            }
-        case 'VALIDATE_FORM': {
-            const errors: Record<string, string> = {}
-
-            if (!state.values.name) errors.name = 'Name is required'
-            if (!state.values.email) errors.email = 'Email is required'
-            else if (!/\S+@\S+\.\S+/.test(state.values.email)) errors.email = 'Email is invalid'
-            if (!state.values.phone) errors.phone = 'Phone is required'
-
-            return {
-                ...state,
-                errors,
-                isValid: Object.keys(errors).length === 0
-            }
-        }
-        case 'RESET_FORM':
-            return {
-                values: {},
-                errors: {},
-                touched: {},
-                isSubmitting: false,
-                isValid: false
-            }
-        default:
-            return state
+const isCartItem = (value: unknown): value is CartItem =>
+    typeof value === 'object' && value !== null &&
+    'id' in value && typeof value.id === 'string' &&
+    'name' in value && typeof value.name === 'string' &&
+    'price' in value && typeof value.price === 'number' &&
+    'quantity' in value && Number.isInteger(value.quantity) && Number(value.quantity) > 0
+
+const parseSavedCart = (saved: unknown): Pick<CheckoutCartState, 'items'> => {
+    if (typeof saved !== 'object' || saved === null || !('items' in saved) ||
+        !Array.isArray(saved.items) || !saved.items.every(isCartItem)) {
+        throw new Error('expected { items: CartItem[] }')
     }
+    return { items: saved.items }
+}
+
+// Thunks first, so the logger and persistence only ever see plain actions
+const checkoutCartMiddleware: Middleware<CheckoutCartState, CheckoutCartAction>[] = [
+    thunkMiddleware(),
+    loggerMiddleware('checkout cart'),
+    // Only the items survive a reload; a checkout in flight does not
+    persistMiddleware(CHECKOUT_CART_KEY, ({ items }) => ({ items }))
+]
+// #endregion checkoutCart
+
+// Playground seeded with counterReducer; the preview below drives it with plain elements
+const counterPlayground = {
+    imports: `import { useReducer } from 'react'`,
+    preview: `export default function Preview() {
+    const [state, dispatch] = useReducer(counterReducer, { count: 0, step: 1 })
+
+    return (
+        <div className="space-y-4 text-center">
+            <div className="text-4xl font-bold">{state.count}</div>
+            <div className="flex justify-center gap-2">
+                <button className="rounded border px-3 py-1" onClick={() => dispatch({ type: 'DECREMENT' })}>-</button>
+                <button className="rounded border px-3 py-1" onClick={() => dispatch({ type: 'INCREMENT' })}>+</button>
+                <button className="rounded border px-3 py-1" onClick={() => dispatch({ type: 'RESET' })}>Reset</button>
+            </div>
+            <label className="block text-sm">
+                Step{' '}
+                <input
+                    type="number"
+                    className="w-16 rounded border px-2"
+                    value={state.step}
+                    onChange={(e) => dispatch({ type: 'SET_STEP', payload: Number(e.target.value) })}
+                />
+            </label>
+        </div>
+    )
+}`
 }
 
+const tabIds = getTabIds('useReducer')
+
 export function UseReducerDemo() {
+    const { tab, setTab, tabs } = useRouteTab()
+
     // Counter with useReducer
-    const [counterState, counterDispatch] = useReducer(counterReducer, { count: 0, step: 1 })
+    // #region counterState
+    const [counterState, counterDispatch, counterInspector] = useInspectableReducer(counterReducer, { count: 0, step: 1 })
+    // #endregion counterState
 
     // Timer with useReducer
-    const [timerState, timerDispatch] = useReducer(timerReducer, {
+    // #region timerState
+    const [timerState, timerDispatch, timerInspector] = useInspectableReducer(timerReducer, {
         seconds: 0,
         isRunning: false,
         interval: 1000
     })
+    // #endregion timerState
 
     // Todo list with useReducer
-    const [todoState, todoDispatch] = useReducer(todoReducer, {
+    // #region todoState
+    const [todoState, todoDispatch, todoInspector] = useInspectableReducer(todoReducer, {
         todos: [
             { id: '1', text: 'Learn useReducer', completed: false, priority: 'high' },
             { id: '2', text: 'Build todo app', completed: true, priority: 'medium' }
@@ -356,29 +309,67 @@ export function UseReducerDemo() {
         filter: 'all',
         editingId: null
     })
+    // #endregion todoState
 
     // Shopping cart with useReducer
-    const [cartState, cartDispatch] = useReducer(cartReducer, {
+    // #region cartState
+    const [cartState, cartDispatch, cartInspector] = useInspectableReducer(cartReducer, {
         items: [],
         discount: 0,
         shipping: 0,
         tax: 0
     })
+    // #endregion cartState
 
     // Form with useReducer
-    const [formState, formDispatch] = useReducer(formReducer, {
+    // #region formState
+    const [formState, formDispatch, formInspector] = useInspectableReducer(formReducer, {
         values: {},
         errors: {},
         touched: {},
         isSubmitting: false,
         isValid: false
     })
+    // #endregion formState
+
+    // Undoable todo list and cart; each panel handles the keyboard shortcuts while focused
+    // #region undoState
+    const [undoTodos, undoTodoDispatch] = useReducer(undoableTodoReducer, initUndo<TodoState>({
+        todos: [{ id: '1', text: 'Try Ctrl+Z', completed: false, priority: 'medium' }],
+        filter: 'all',
+        editingId: null
+    }))
+    const [undoCart, undoCartDispatch] = useReducer(undoableCartReducer, initUndo<CartState>({
+        items: [],
+        discount: 0,
+        shipping: 0,
+        tax: 0
+    }))
+
+    const undoTodoPanel = useRef<HTMLDivElement>(null)
+    const undoCartPanel = useRef<HTMLDivElement>(null)
+    useUndoShortcuts(undoTodoPanel, undoTodoDispatch)
+    useUndoShortcuts(undoCartPanel, undoCartDispatch)
+    // #endregion undoState
+
+    // The cart again, with middleware: thunks, a logger and persistence
+    // #region middlewareCartState
+    const [middlewareCart, middlewareCartDispatch] = useReducerWithMiddleware(
+        checkoutCartReducer,
+        { items: [], discount: 0, shipping: 0, tax: 0, checkout: { status: 'idle' } },
+        checkoutCartMiddleware,
+        initialState => rehydrate(CHECKOUT_CART_KEY, initialState, parseSavedCart)
+    )
+    const middlewareCartTotal = middlewareCart.items.reduce((sum, item) => sum + item.price * item.quantity, 0)
+    // #endregion middlewareCartState
 
     const [newTodo, setNewTodo] = useState('')
     const [newTodoPriority, setNewTodoPriority] = useState<'low' | 'medium' | 'high'>('medium')
     const [editText, setEditText] = useState('')
+    const [undoTodoText, setUndoTodoText] = useState('')
 
     // Timer effect
+    // #region timerTick
     const { seconds, isRunning } = timerState
 
     // Use useEffect to handle timer ticking
@@ -390,11 +381,13 @@ export function UseReducerDemo() {
             return () => clearInterval(interval)
         }
     })
+    // #endregion timerTick
 
     // Helper functions
-    const addTodo = () => {
+    // #region todoHandlers
+    const submitTodo = () => {
         if (newTodo.trim()) {
-            todoDispatch({ type: 'ADD_TODO', payload: { text: newTodo, priority: newTodoPriority } })
+            todoDispatch(addTodo(newTodo, newTodoPriority))
             setNewTodo('')
         }
     }
@@ -408,23 +401,31 @@ export function UseReducerDemo() {
         todoDispatch({ type: 'UPDATE_TODO', payload: { id, text: editText } })
         setEditText('')
     }
+    // #endregion todoHandlers
 
+    // #region products
     const products = [
         { id: '1', name: 'React Book', price: 29.99 },
         { id: '2', name: 'TypeScript Guide', price: 39.99 },
         { id: '3', name: 'JavaScript Course', price: 49.99 }
     ]
+    // #endregion products
 
+    // #region filteredTodos
     const filteredTodos = todoState.todos.filter(todo => {
         if (todoState.filter === 'active') return !todo.completed
         if (todoState.filter === 'completed') return todo.completed
         return true
     })
+    // #endregion filteredTodos
 
+    // #region cartTotals
     const cartTotal = cartState.items.reduce((sum, item) => sum + (item.price * item.quantity), 0)
     const discountAmount = cartTotal * (cartState.discount / 100)
     const finalTotal = cartTotal - discountAmount + cartState.shipping + cartState.tax
+    // #endregion cartTotals
 
+    // #region handleFormSubmit
     const handleFormSubmit = async () => {
         formDispatch({ type: 'VALIDATE_FORM' })
 
@@ -438,6 +439,7 @@ export function UseReducerDemo() {
             formDispatch({ type: 'RESET_FORM' })
         }
     }
+    // #endregion handleFormSubmit
 
     const getPriorityColor = (priority: string) => {
         switch (priority) {
@@ -458,15 +460,14 @@ export function UseReducerDemo() {
                 </p>
             </div>
 
-            <Tabs defaultValue="basic" className="space-y-6">
+            <Tabs value={tab} onValueChange={setTab} className="space-y-6">
                 <TabsList className="grid w-full grid-cols-4">
-                    <TabsTrigger value="basic">Basic Patterns</TabsTrigger>
-                    <TabsTrigger value="complex">Complex State</TabsTrigger>
-                    <TabsTrigger value="practical">Practical Examples</TabsTrigger>
-                    <TabsTrigger value="advanced">Advanced Patterns</TabsTrigger>
+                    {tabs.map(({ id, label }) => (
+                        <TabsTrigger key={id} value={id}>{label}</TabsTrigger>
+                    ))}
                 </TabsList>
 
-                <TabsContent value="basic" className="space-y-6">
+                <TabsContent value={tabIds.basic} className="space-y-6">
                     {/* Counter Example */}
                     <Card>
                         <CardHeader>
@@ -517,12 +518,20 @@ export function UseReducerDemo() {
                                     />
                                 </div>
 
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        {`const counterReducer = (state, action) => {\n  switch (action.type) {\n    case 'INCREMENT': return { ...state, count: state.count + state.step }\n    case 'DECREMENT': return { ...state, count: state.count - state.step }\n    case 'RESET': return { ...state, count: 0 }\n    default: return state\n  }\n}`}
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`const counterReducer = (state, action) => {
+  switch (action.type) {
+    case 'INCREMENT': return { ...state, count: state.count + state.step }
+    case 'DECREMENT': return { ...state, count: state.count - state.step }
+    case 'RESET': return { ...state, count: 0 }
+    default: return state
+  }
+}`}
+                                />
                             </div>
+                            <ReducerDebugger inspector={counterInspector} />
+                            <ViewSource source={sources} regions={['counterReducer', 'counterState', 'useInspectableReducer']} />
+                            <Playground source={sources} regions="counterReducer" {...counterPlayground} />
                         </CardContent>
                     </Card>
 
@@ -561,17 +570,19 @@ export function UseReducerDemo() {
                                     </div>
                                 </div>
 
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        {`dispatch({ type: 'START' })\ndispatch({ type: 'PAUSE' })\ndispatch({ type: 'STOP' })`}
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`dispatch({ type: 'START' })
+dispatch({ type: 'PAUSE' })
+dispatch({ type: 'STOP' })`}
+                                />
                             </div>
+                            <ReducerDebugger inspector={timerInspector} />
+                            <ViewSource source={sources} regions={['timerReducer', 'timerState', 'timerTick']} />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="complex" className="space-y-6">
+                <TabsContent value={tabIds.complex} className="space-y-6">
                     {/* Todo List */}
                     <Card>
                         <CardHeader>
@@ -591,7 +602,7 @@ export function UseReducerDemo() {
                                         placeholder="Add a new todo..."
                                         value={newTodo}
                                         onChange={(e) => setNewTodo(e.target.value)}
-                                        onKeyPress={(e) => e.key === 'Enter' && addTodo()}
+                                        onKeyPress={(e) => e.key === 'Enter' && submitTodo()}
                                     />
                                     <select
                                         value={newTodoPriority}
@@ -602,7 +613,7 @@ export function UseReducerDemo() {
                                         <option value="medium">Medium</option>
                                         <option value="high">High</option>
                                     </select>
-                                    <Button onClick={addTodo}>Add</Button>
+                                    <Button onClick={submitTodo}>Add</Button>
                                 </div>
 
                                 {/* Filter Buttons */}
@@ -703,11 +714,13 @@ export function UseReducerDemo() {
                                     {filteredTodos.length} items • {todoState.todos.filter(t => !t.completed).length} active
                                 </div>
                             </div>
+                            <ReducerDebugger inspector={todoInspector} />
+                            <ViewSource source={sources} regions={['todoReducer', 'todoState', 'todoHandlers', 'filteredTodos']} />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="practical" className="space-y-6">
+                <TabsContent value={tabIds.practical} className="space-y-6">
                     {/* Shopping Cart */}
                     <Card>
                         <CardHeader>
@@ -849,11 +862,122 @@ export function UseReducerDemo() {
                                     </div>
                                 )}
                             </div>
+                            <ReducerDebugger inspector={cartInspector} />
+                            <ViewSource source={sources} regions={['cartReducer', 'cartState', 'products', 'cartTotals']} />
+                        </CardContent>
+                    </Card>
+
+                    {/* Cart with Middleware */}
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Middleware</Badge>
+                                Cart with Middleware
+                            </CardTitle>
+                            <CardDescription>
+                                The same cartReducer behind a dispatch wrapped in thunk, logger and persistence middleware
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <div className="space-y-4">
+                                <ServerControls />
+
+                                <div className="flex flex-wrap gap-2">
+                                    {products.map(product => (
+                                        <Button
+                                            key={product.id}
+                                            onClick={() => middlewareCartDispatch({ type: 'ADD_ITEM', payload: product })}
+                                            size="sm"
+                                            variant="outline"
+                                        >
+                                            <ShoppingCart className="h-4 w-4 mr-2" />
+                                            {product.name}
+                                        </Button>
+                                    ))}
+                                </div>
+
+                                <div className="border rounded-lg p-4 space-y-2">
+                                    {middlewareCart.items.length === 0 && (
+                                        <p className="text-sm text-muted-foreground">The cart is empty.</p>
+                                    )}
+                                    {middlewareCart.items.map(item => (
+                                        <div key={item.id} className="flex items-center justify-between gap-2 text-sm">
+                                            <span className="flex-1">{item.name}</span>
+                                            <Button
+                                                onClick={() => middlewareCartDispatch({
+                                                    type: 'UPDATE_QUANTITY',
+                                                    payload: { id: item.id, quantity: item.quantity - 1 }
+                                                })}
+                                                size="sm"
+                                                variant="outline"
+                                                aria-label={`Fewer ${item.name}`}
+                                            >
+                                                <Minus className="h-3 w-3" />
+                                            </Button>
+                                            <span className="w-8 text-center">{item.quantity}</span>
+                                            <Button
+                                                onClick={() => middlewareCartDispatch({
+                                                    type: 'UPDATE_QUANTITY',
+                                                    payload: { id: item.id, quantity: item.quantity + 1 }
+                                                })}
+                                                size="sm"
+                                                variant="outline"
+                                                aria-label={`More ${item.name}`}
+                                            >
+                                                <Plus className="h-3 w-3" />
+                                            </Button>
+                                            <span className="w-20 text-right">${(item.price * item.quantity).toFixed(2)}</span>
+                                        </div>
+                                    ))}
+                                    <div className="flex items-center justify-between border-t pt-2">
+                                        <span className="font-bold">Total: ${middlewareCartTotal.toFixed(2)}</span>
+                                        <Button
+                                            onClick={() => middlewareCartDispatch(checkout())}
+                                            disabled={middlewareCart.checkout.status === 'pending'}
+                                            size="sm"
+                                        >
+                                            {middlewareCart.checkout.status === 'pending' ? (
+                                                <>
+                                                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                                    Placing order...
+                                                </>
+                                            ) : 'Checkout'}
+                                        </Button>
+                                    </div>
+                                </div>
+
+                                {middlewareCart.checkout.status === 'success' && (
+                                    <Alert>
+                                        <Check className="h-4 w-4" />
+                                        <AlertDescription>
+                                            Order #{middlewareCart.checkout.order.id} placed: {middlewareCart.checkout.order.itemCount} items,
+                                            ${middlewareCart.checkout.order.total.toFixed(2)}
+                                        </AlertDescription>
+                                    </Alert>
+                                )}
+                                {middlewareCart.checkout.status === 'failure' && (
+                                    <Alert variant="destructive">
+                                        <X className="h-4 w-4" />
+                                        <AlertDescription>
+                                            Checkout failed: {middlewareCart.checkout.error}. The cart was kept, so you can try again.
+                                        </AlertDescription>
+                                    </Alert>
+                                )}
+
+                                <p className="text-sm text-muted-foreground">
+                                    Every action is logged to the console panel with the state before and after it, and the
+                                    items are saved to localStorage, so they are still here after a reload.
+                                </p>
+                            </div>
+                            <ViewSource
+                                source={sources}
+                                regions={['useReducerWithMiddleware', 'middleware', 'checkoutCart', 'middlewareCartState']}
+                            />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="advanced" className="space-y-6">
+                <TabsContent value={tabIds.advanced} className="space-y-6">
                     {/* Form with Validation */}
                     <Card>
                         <CardHeader>
@@ -964,6 +1088,143 @@ export function UseReducerDemo() {
                                     </code>
                                 </div>
                             </div>
+                            <ReducerDebugger inspector={formInspector} />
+                            <ViewSource source={sources} regions={['formReducer', 'formState', 'handleFormSubmit']} />
+                        </CardContent>
+                    </Card>
+
+                    {/* Undo / Redo */}
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Higher-order</Badge>
+                                Undo / Redo with withUndo
+                            </CardTitle>
+                            <CardDescription>
+                                A reducer enhancer keeps past, present and future states, so any reducer gains undo and redo
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div
+                                    ref={undoTodoPanel}
+                                    tabIndex={-1}
+                                    aria-label="Undoable todo list"
+                                    className="space-y-3 p-4 border rounded-lg outline-none focus-within:ring-2 focus-within:ring-ring"
+                                >
+                                    <h4 className="font-medium">todoReducer</h4>
+                                    <UndoToolbar history={undoTodos} dispatch={undoTodoDispatch} />
+                                    <div className="flex gap-2">
+                                        <Input
+                                            value={undoTodoText}
+                                            onChange={(e) => setUndoTodoText(e.target.value)}
+                                            onKeyDown={(e) => {
+                                                if (e.key === 'Enter' && undoTodoText.trim()) {
+                                                    undoTodoDispatch(addTodo(undoTodoText, 'medium'))
+                                                    setUndoTodoText('')
+                                                }
+                                            }}
+                                            placeholder="Add a todo and press Enter"
+                                        />
+                                    </div>
+                                    <div className="flex gap-1">
+                                        {(['all', 'active', 'completed'] as const).map(filter => (
+                                            <Button
+                                                key={filter}
+                                                size="sm"
+                                                variant={undoTodos.present.filter === filter ? 'default' : 'outline'}
+                                                onClick={() => undoTodoDispatch({ type: 'SET_FILTER', payload: filter })}
+                                            >
+                                                {filter}
+                                            </Button>
+                                        ))}
+                                    </div>
+                                    <ul className="space-y-1">
+                                        {undoTodos.present.todos
+                                            .filter(todo => undoTodos.present.filter === 'all' || todo.completed === (undoTodos.present.filter === 'completed'))
+                                            .map(todo => (
+                                                <li key={todo.id} className="flex items-center gap-2 text-sm">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={todo.completed}
+                                                        onChange={() => undoTodoDispatch({ type: 'TOGGLE_TODO', payload: todo.id })}
+                                                    />
+                                                    <span className={`flex-1 ${todo.completed ? 'line-through text-muted-foreground' : ''}`}>{todo.text}</span>
+                                                    <Button
+                                                        size="sm"
+                                                        variant="ghost"
+                                                        aria-label={`Delete ${todo.text}`}
+                                                        onClick={() => undoTodoDispatch({ type: 'DELETE_TODO', payload: todo.id })}
+                                                    >
+                                                        <Trash2 className="h-4 w-4" />
+                                                    </Button>
+                                                </li>
+                                            ))}
+                                    </ul>
+                                    <p className="text-xs text-muted-foreground">
+                                        SET_FILTER is filtered out of the history: changing the filter is not an undo step.
+                                    </p>
+                                </div>
+
+                                <div
+                                    ref={undoCartPanel}
+                                    tabIndex={-1}
+                                    aria-label="Undoable cart"
+                                    className="space-y-3 p-4 border rounded-lg outline-none focus-within:ring-2 focus-within:ring-ring"
+                                >
+                                    <h4 className="font-medium">cartReducer</h4>
+                                    <UndoToolbar history={undoCart} dispatch={undoCartDispatch} />
+                                    <div className="flex flex-wrap gap-1">
+                                        {products.map(product => (
+                                            <Button
+                                                key={product.id}
+                                                size="sm"
+                                                variant="outline"
+                                                onClick={() => undoCartDispatch({ type: 'ADD_ITEM', payload: product })}
+                                            >
+                                                <Plus className="h-4 w-4 mr-1" />
+                                                {product.name}
+                                            </Button>
+                                        ))}
+                                    </div>
+                                    <ul className="space-y-1">
+                                        {undoCart.present.items.map(item => (
+                                            <li key={item.id} className="flex items-center gap-2 text-sm">
+                                                <span className="flex-1">{item.name}</span>
+                                                <Button
+                                                    size="sm"
+                                                    variant="outline"
+                                                    aria-label={`Fewer ${item.name}`}
+                                                    onClick={() => undoCartDispatch({ type: 'UPDATE_QUANTITY', payload: { id: item.id, quantity: item.quantity - 1 } })}
+                                                >
+                                                    <Minus className="h-4 w-4" />
+                                                </Button>
+                                                <span className="w-6 text-center">{item.quantity}</span>
+                                                <Button
+                                                    size="sm"
+                                                    variant="outline"
+                                                    aria-label={`More ${item.name}`}
+                                                    onClick={() => undoCartDispatch({ type: 'UPDATE_QUANTITY', payload: { id: item.id, quantity: item.quantity + 1 } })}
+                                                >
+                                                    <Plus className="h-4 w-4" />
+                                                </Button>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                    <p className="text-xs text-muted-foreground">
+                                        Quantity changes to the same item are grouped: several clicks on + or - undo in one step.
+                                    </p>
+                                </div>
+                            </div>
+                            <Alert className="mt-4">
+                                <AlertDescription>
+                                    Click inside a panel, then press Ctrl+Z to undo and Ctrl+Shift+Z to redo (⌘ on macOS).
+                                </AlertDescription>
+                            </Alert>
+                            <ViewSource
+                                source={sources}
+                                regions={['withUndo', 'undoableReducers', 'undoState', 'UndoToolbar', 'useUndoShortcuts']}
+                            />
                         </CardContent>
                     </Card>
                 </TabsContent>
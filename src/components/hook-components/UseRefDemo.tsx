@@ -4,6 +4,10 @@ import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { CodeBlock } from '@/components/ui/code-block'
+import ViewSource from '@/components/ViewSource'
+import { useRouteTab } from '@/hooks/useRoute'
+import { getTabIds } from '@/lib/registry'
 import { Label } from '@/components/ui/label'
 import { Progress } from '@/components/ui/progress'
 import {
@@ -19,8 +23,10 @@ import {
     Scroll
 } from 'lucide-react'
 import * as React from "react";
+import demoSource from '@/components/hook-components/UseRefDemo.tsx?raw'
 
 // Interface for video player imperative handle
+// #region VideoPlayer
 interface VideoPlayerRef {
     play: () => void;
     pause: () => void;
@@ -81,64 +87,98 @@ const VideoPlayer = forwardRef<VideoPlayerRef>((_, ref) => {
 });
 
 VideoPlayer.displayName = 'VideoPlayer';
+// #endregion VideoPlayer
+
+const tabIds = getTabIds('useRef')
 
 export default function UseRefDemo() {
+    const { tab, setTab, tabs } = useRouteTab()
+
     // Example 1: DOM element references
+    // #region inputRef
     const inputRef = useRef<HTMLInputElement>(null);
+    // #endregion inputRef
+    // #region textareaRef
     const textareaRef = useRef<HTMLTextAreaElement>(null);
+    // #endregion textareaRef
+    // #region canvasRef
     const canvasRef = useRef<HTMLCanvasElement>(null);
+    // #endregion canvasRef
 
     // Example 2: Mutable values (timers, intervals)
+    // #region timerState
     const timerRef = useRef<NodeJS.Timeout | null>(null);
     const [seconds, setSeconds] = useState(0);
     const [isRunning, setIsRunning] = useState(false);
+    // #endregion timerState
 
     // Example 3: Previous values
+    // #region prevCount
     const [count, setCount] = useState(0);
     const prevCountRef = useRef<number>(null);
+    // #endregion prevCount
 
     // Example 4: Focus management
+    // #region focusRefs
     const firstInputRef = useRef<HTMLInputElement>(null);
     const secondInputRef = useRef<HTMLInputElement>(null);
     const thirdInputRef = useRef<HTMLInputElement>(null);
+    // #endregion focusRefs
 
     // Example 5: Scroll to element
+    // #region scrollState
     const scrollTargetRef = useRef<HTMLDivElement>(null);
     const [scrollPosition, setScrollPosition] = useState(0);
+    // #endregion scrollState
 
     // Example 6: Mouse tracking
+    // #region mouseState
     const mouseDivRef = useRef<HTMLDivElement>(null);
     const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
+    // #endregion mouseState
 
     // Example 7: Canvas drawing
+    // #region drawingState
     const [isDrawing, setIsDrawing] = useState(false);
+    // #endregion drawingState
 
     // Example 8: Video player with imperative handle
+    // #region videoPlayerRef
     const videoPlayerRef = useRef<VideoPlayerRef>(null);
+    // #endregion videoPlayerRef
 
     // Example 9: Intersection observer
+    // #region observerState
     const observerTargetRef = useRef<HTMLDivElement>(null);
     const [isVisible, setIsVisible] = useState(false);
+    // #endregion observerState
 
     // Example 10: Auto-save functionality
+    // #region autoSaveState
     const [autoSaveText, setAutoSaveText] = useState('');
     const autoSaveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
     const [lastSaved, setLastSaved] = useState<Date | null>(null);
+    // #endregion autoSaveState
 
     // Focus input example
+    // #region focusInput
     const focusInput = () => {
         inputRef.current?.focus();
     };
+    // #endregion focusInput
 
     // Clear textarea example
+    // #region clearTextarea
     const clearTextarea = () => {
         if (textareaRef.current) {
             textareaRef.current.value = '';
             textareaRef.current.focus();
         }
     };
+    // #endregion clearTextarea
 
     // Timer functionality
+    // #region timerControls
     const startTimer = () => {
         if (!isRunning) {
             setIsRunning(true);
@@ -160,21 +200,27 @@ export default function UseRefDemo() {
         stopTimer();
         setSeconds(0);
     };
+    // #endregion timerControls
 
     // Track previous value
+    // #region prevCountEffect
     useEffect(() => {
         prevCountRef.current = count;
     });
+    // #endregion prevCountEffect
 
     // Focus management
+    // #region handleKeyDown
     const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, nextRef: React.RefObject<HTMLInputElement | null>) => {
         if (e.key === 'Enter' || e.key === 'Tab') {
             e.preventDefault();
             nextRef?.current?.focus();
         }
     };
+    // #endregion handleKeyDown
 
     // Scroll functionality
+    // #region scrollHandlers
     const scrollToTarget = () => {
         scrollTargetRef.current?.scrollIntoView({ behavior: 'smooth' });
     };
@@ -186,8 +232,10 @@ export default function UseRefDemo() {
         window.addEventListener('scroll', handleScroll);
         return () => window.removeEventListener('scroll', handleScroll);
     }, []);
+    // #endregion scrollHandlers
 
     // Mouse tracking
+    // #region handleMouseMove
     const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
         if (mouseDivRef.current) {
             const rect = mouseDivRef.current.getBoundingClientRect();
@@ -197,8 +245,10 @@ export default function UseRefDemo() {
             });
         }
     };
+    // #endregion handleMouseMove
 
     // Canvas drawing
+    // #region canvasHandlers
     const startDrawing = (e: React.MouseEvent<HTMLCanvasElement>) => {
         setIsDrawing(true);
         draw(e);
@@ -240,8 +290,10 @@ export default function UseRefDemo() {
             ctx?.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
         }
     };
+    // #endregion canvasHandlers
 
     // Intersection observer
+    // #region observerEffect
     useEffect(() => {
         const observer = new IntersectionObserver(
             ([entry]) => {
@@ -256,8 +308,10 @@ export default function UseRefDemo() {
 
         return () => observer.disconnect();
     }, []);
+    // #endregion observerEffect
 
     // Auto-save functionality
+    // #region handleAutoSaveChange
     const handleAutoSaveChange = (value: string) => {
         setAutoSaveText(value);
 
@@ -272,8 +326,10 @@ export default function UseRefDemo() {
             console.log('Auto-saved:', value);
         }, 1000);
     };
+    // #endregion handleAutoSaveChange
 
     // Cleanup
+    // #region cleanupEffect
     useEffect(() => {
         return () => {
             if (timerRef.current) {
@@ -284,6 +340,7 @@ export default function UseRefDemo() {
             }
         };
     }, []);
+    // #endregion cleanupEffect
 
     return (
         <div className="max-w-6xl mx-auto p-6 space-y-6">
@@ -295,15 +352,14 @@ export default function UseRefDemo() {
                 </p>
             </div>
 
-            <Tabs defaultValue="basic" className="space-y-6">
+            <Tabs value={tab} onValueChange={setTab} className="space-y-6">
                 <TabsList className="grid w-full grid-cols-4">
-                    <TabsTrigger value="basic">Basic Usage</TabsTrigger>
-                    <TabsTrigger value="mutable">Mutable Values</TabsTrigger>
-                    <TabsTrigger value="advanced">Advanced Patterns</TabsTrigger>
-                    <TabsTrigger value="practical">Practical Examples</TabsTrigger>
+                    {tabs.map(({ id, label }) => (
+                        <TabsTrigger key={id} value={id}>{label}</TabsTrigger>
+                    ))}
                 </TabsList>
 
-                <TabsContent value="basic" className="space-y-6">
+                <TabsContent value={tabIds.basic} className="space-y-6">
                     {/* DOM Element Access */}
                     <Card>
                         <CardHeader>
@@ -329,13 +385,12 @@ export default function UseRefDemo() {
                                         Focus Input
                                     </Button>
                                 </div>
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        const inputRef = useRef&lt;HTMLInputElement&gt;(null)<br />
-                                        // Later: inputRef.current?.focus()
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`const inputRef = useRef<HTMLInputElement>(null)
+// Later: inputRef.current?.focus()`}
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions={['inputRef', 'focusInput']} />
                         </CardContent>
                     </Card>
 
@@ -367,13 +422,12 @@ export default function UseRefDemo() {
                                     <RotateCcw className="h-4 w-4 mr-2" />
                                     Clear & Focus
                                 </Button>
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        textareaRef.current.value = ''<br />
-                                        textareaRef.current.focus()
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`textareaRef.current.value = ''
+textareaRef.current.focus()`}
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions={['textareaRef', 'clearTextarea']} />
                         </CardContent>
                     </Card>
 
@@ -409,17 +463,14 @@ export default function UseRefDemo() {
                                         Click and drag to draw
                                     </div>
                                 </div>
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        const ctx = canvasRef.current?.getContext('2d')
-                                    </code>
-                                </div>
+                                <CodeBlock code={`const ctx = canvasRef.current?.getContext('2d')`} />
                             </div>
+                            <ViewSource source={demoSource} regions={['canvasRef', 'drawingState', 'canvasHandlers']} />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="mutable" className="space-y-6">
+                <TabsContent value={tabIds.mutable} className="space-y-6">
                     {/* Timer with useRef */}
                     <Card>
                         <CardHeader>
@@ -462,14 +513,13 @@ export default function UseRefDemo() {
                                         Reset
                                     </Button>
                                 </div>
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        const timerRef = useRef&lt;NodeJS.Timeout | null&gt;(null)<br />
-                                        timerRef.current = setInterval(...)<br />
-                                        clearInterval(timerRef.current)
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`const timerRef = useRef<NodeJS.Timeout | null>(null)
+timerRef.current = setInterval(...)
+clearInterval(timerRef.current)`}
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions={['timerState', 'timerControls', 'cleanupEffect']} />
                         </CardContent>
                     </Card>
 
@@ -509,13 +559,12 @@ export default function UseRefDemo() {
                                         +1
                                     </Button>
                                 </div>
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        const prevCountRef = useRef&lt;number&gt;()<br />
-                                        useEffect(() =&gt; {'{'} prevCountRef.current = count {'}'})
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`const prevCountRef = useRef<number>()
+useEffect(() => { prevCountRef.current = count })`}
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions={['prevCount', 'prevCountEffect']} />
                         </CardContent>
                     </Card>
 
@@ -551,19 +600,18 @@ export default function UseRefDemo() {
                                         <span>No changes saved yet</span>
                                     )}
                                 </div>
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        const timeoutRef = useRef&lt;NodeJS.Timeout | null&gt;(null)<br />
-                                        clearTimeout(timeoutRef.current)<br />
-                                        timeoutRef.current = setTimeout(save, 1000)
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`const timeoutRef = useRef<NodeJS.Timeout | null>(null)
+clearTimeout(timeoutRef.current)
+timeoutRef.current = setTimeout(save, 1000)`}
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions={['autoSaveState', 'handleAutoSaveChange', 'cleanupEffect']} />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="advanced" className="space-y-6">
+                <TabsContent value={tabIds.advanced} className="space-y-6">
                     {/* Focus Management */}
                     <Card>
                         <CardHeader>
@@ -611,12 +659,9 @@ export default function UseRefDemo() {
                                 <div className="text-sm text-muted-foreground">
                                     Press Tab or Enter to move between fields
                                 </div>
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        nextInputRef.current?.focus()
-                                    </code>
-                                </div>
+                                <CodeBlock code={`nextInputRef.current?.focus()`} />
                             </div>
+                            <ViewSource source={demoSource} regions={['focusRefs', 'handleKeyDown']} />
                         </CardContent>
                     </Card>
 
@@ -657,13 +702,12 @@ export default function UseRefDemo() {
                                         <span className="text-sm text-gray-500">Bottom content</span>
                                     </div>
                                 </div>
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        const observer = new IntersectionObserver(...)<br />
-                                        observer.observe(targetRef.current)
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`const observer = new IntersectionObserver(...)
+observer.observe(targetRef.current)`}
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions={['observerState', 'observerEffect']} />
                         </CardContent>
                     </Card>
 
@@ -705,18 +749,17 @@ export default function UseRefDemo() {
                                         }}
                                     />
                                 </div>
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        const rect = divRef.current?.getBoundingClientRect()<br />
-                                        const x = e.clientX - rect.left
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`const rect = divRef.current?.getBoundingClientRect()
+const x = e.clientX - rect.left`}
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions={['mouseState', 'handleMouseMove']} />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="practical" className="space-y-6">
+                <TabsContent value={tabIds.practical} className="space-y-6">
                     {/* Scroll to Element */}
                     <Card>
                         <CardHeader>
@@ -759,12 +802,9 @@ export default function UseRefDemo() {
                                         </div>
                                     </div>
                                 </div>
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        targetRef.current?.scrollIntoView({'{'} behavior: 'smooth' {'}'})
-                                    </code>
-                                </div>
+                                <CodeBlock code={`targetRef.current?.scrollIntoView({ behavior: 'smooth' })`} />
                             </div>
+                            <ViewSource source={demoSource} regions={['scrollState', 'scrollHandlers']} />
                         </CardContent>
                     </Card>
 
@@ -808,15 +848,14 @@ export default function UseRefDemo() {
                                         Seek to 10s
                                     </Button>
                                 </div>
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        useImperativeHandle(ref, () =&gt; ({'{'}<br />
-                                        &nbsp;&nbsp;play: () =&gt; videoRef.current?.play(),<br />
-                                        &nbsp;&nbsp;pause: () =&gt; videoRef.current?.pause()<br />
-                                        {'}'}))
-                                    </code>
-                                </div>
+                                <CodeBlock
+                                    code={`useImperativeHandle(ref, () => ({
+  play: () => videoRef.current?.play(),
+  pause: () => videoRef.current?.pause()
+}))`}
+                                />
                             </div>
+                            <ViewSource source={demoSource} regions={['VideoPlayer', 'videoPlayerRef']} />
                         </CardContent>
                     </Card>
                 </TabsContent>
@@ -0,0 +1,68 @@
+import { screen, within } from '@testing-library/react'
+import { describe, expect, it } from 'vitest'
+import { renderDemo } from '@/test/render'
+
+const todoList = () => within(screen.getByText('Todo List').closest<HTMLElement>('[data-slot="card"]')!)
+
+// The row holding a todo's checkbox, text and delete button
+const todoRow = (text: string) => within(todoList().getByText(text).parentElement!)
+
+describe('UseStateDemo todo list', () => {
+    it('starts with the two example todos', async () => {
+        await renderDemo('useState', { tab: 'practical' })
+
+        expect(todoRow('Learn React').getByRole('checkbox')).toBeChecked()
+        expect(todoRow('Master useState').getByRole('checkbox')).not.toBeChecked()
+    })
+
+    it('adds a todo and clears the input', async () => {
+        const { user } = await renderDemo('useState', { tab: 'practical' })
+        const input = todoList().getByPlaceholderText('Add a new todo...')
+
+        await user.type(input, 'Write component tests')
+        await user.click(todoList().getByRole('button', { name: 'Add' }))
+
+        expect(todoRow('Write component tests').getByRole('checkbox')).not.toBeChecked()
+        expect(todoList().getAllByRole('checkbox')).toHaveLength(3)
+        expect(input).toHaveValue('')
+    })
+
+    it('adds a todo on Enter', async () => {
+        const { user } = await renderDemo('useState', { tab: 'practical' })
+
+        await user.type(todoList().getByPlaceholderText('Add a new todo...'), 'Press Enter{Enter}')
+
+        expect(todoList().getByText('Press Enter')).toBeInTheDocument()
+    })
+
+    it('ignores a blank todo', async () => {
+        const { user } = await renderDemo('useState', { tab: 'practical' })
+
+        await user.type(todoList().getByPlaceholderText('Add a new todo...'), '   ')
+        await user.click(todoList().getByRole('button', { name: 'Add' }))
+
+        expect(todoList().getAllByRole('checkbox')).toHaveLength(2)
+    })
+
+    it('toggles a todo', async () => {
+        const { user } = await renderDemo('useState', { tab: 'practical' })
+        const checkbox = todoRow('Master useState').getByRole('checkbox')
+
+        await user.click(checkbox)
+        expect(checkbox).toBeChecked()
+        expect(todoList().getByText('Master useState')).toHaveClass('line-through')
+
+        await user.click(checkbox)
+        expect(checkbox).not.toBeChecked()
+        expect(todoList().getByText('Master useState')).not.toHaveClass('line-through')
+    })
+
+    it('deletes only the chosen todo', async () => {
+        const { user } = await renderDemo('useState', { tab: 'practical' })
+
+        await user.click(todoRow('Learn React').getByRole('button'))
+
+        expect(todoList().queryByText('Learn React')).not.toBeInTheDocument()
+        expect(todoList().getByText('Master useState')).toBeInTheDocument()
+    })
+})
@@ -4,41 +4,65 @@ import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { CodeBlock } from '@/components/ui/code-block'
+import ViewSource from '@/components/ViewSource'
+import { useRouteTab } from '@/hooks/useRoute'
+import { getTabIds } from '@/lib/registry'
 import { Plus, Minus, RotateCcw, Heart, ShoppingCart, Trash2 } from 'lucide-react'
+import demoSource from '@/components/hook-components/UseStateDemo.tsx?raw'
 
+// #region TodoItem
 interface TodoItem {
     id: number;
     text: string;
     completed: boolean;
 }
+// #endregion TodoItem
+
+const tabIds = getTabIds('useState')
 
 export default function UseStateDemo() {
+    const { tab, setTab, tabs } = useRouteTab()
+
     // Example 1: Simple counter
+    // #region countState
     const [count, setCount] = useState(0)
+    // #endregion countState
 
     // Example 2: String state
+    // #region nameState
     const [name, setName] = useState('')
+    // #endregion nameState
 
     // Example 3: Boolean state
+    // #region likeState
     const [isLiked, setIsLiked] = useState(false)
+    // #endregion likeState
 
     // Example 4: Complex state (object)
+    // #region userState
     const [user, setUser] = useState({
         name: 'John Doe',
         age: 25,
         email: 'john@example.com'
     })
+    // #endregion userState
 
     // Example 5: Array state
+    // #region todoState
     const [todos, setTodos] = useState<TodoItem[]>([
         { id: 1, text: 'Learn React', completed: true },
         { id: 2, text: 'Master useState', completed: false }
     ])
     const [newTodo, setNewTodo] = useState('')
+    // #endregion todoState
 
     // Example 6: Shopping cart
+    // #region cartState
     const [cartItems, setCartItems] = useState<Array<{id: number, name: string, quantity: number}>>([])
+    // #endregion cartState
 
+    // #region todoHandlers
     const addTodo = () => {
         if (newTodo.trim()) {
             setTodos([...todos, {
@@ -59,7 +83,9 @@ export default function UseStateDemo() {
     const deleteTodo = (id: number) => {
         setTodos(todos.filter(todo => todo.id !== id))
     }
+    // #endregion todoHandlers
 
+    // #region addToCart
     const addToCart = (item: {id: number, name: string}) => {
         setCartItems(prev => {
             const existing = prev.find(cartItem => cartItem.id === item.id)
@@ -73,12 +99,15 @@ export default function UseStateDemo() {
             return [...prev, { ...item, quantity: 1 }]
         })
     }
+    // #endregion addToCart
 
+    // #region products
     const products = [
         { id: 1, name: 'React Handbook' },
         { id: 2, name: 'TypeScript Guide' },
         { id: 3, name: 'Next.js Course' }
     ]
+    // #endregion products
 
     return (
         <div className="max-w-6xl mx-auto p-6 space-y-6">
@@ -90,14 +119,14 @@ export default function UseStateDemo() {
                 </p>
             </div>
 
-            <Tabs defaultValue="basic" className="space-y-6">
+            <Tabs value={tab} onValueChange={setTab} className="space-y-6">
                 <TabsList className="grid w-full grid-cols-3">
-                    <TabsTrigger value="basic">Basic Examples</TabsTrigger>
-                    <TabsTrigger value="complex">Complex State</TabsTrigger>
-                    <TabsTrigger value="practical">Practical Examples</TabsTrigger>
+                    {tabs.map(({ id, label }) => (
+                        <TabsTrigger key={id} value={id}>{label}</TabsTrigger>
+                    ))}
                 </TabsList>
 
-                <TabsContent value="basic" className="space-y-6">
+                <TabsContent value={tabIds.basic} className="space-y-6">
                     {/* Counter Example */}
                     <Card>
                         <CardHeader>
@@ -136,11 +165,8 @@ export default function UseStateDemo() {
                                     <RotateCcw className="h-4 w-4" />
                                 </Button>
                             </div>
-                            <div className="mt-4 p-3 bg-muted rounded-lg">
-                                <code className="text-sm">
-                                    const [count, setCount] = useState(0)
-                                </code>
-                            </div>
+                            <CodeBlock className="mt-4" code={`const [count, setCount] = useState(0)`} />
+                            <ViewSource source={demoSource} regions="countState" />
                         </CardContent>
                     </Card>
 
@@ -169,12 +195,9 @@ export default function UseStateDemo() {
                                         <p className="text-muted-foreground">Enter your name above</p>
                                     )}
                                 </div>
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        const [name, setName] = useState('')
-                                    </code>
-                                </div>
+                                <CodeBlock code={`const [name, setName] = useState('')`} />
                             </div>
+                            <ViewSource source={demoSource} regions="nameState" />
                         </CardContent>
                     </Card>
 
@@ -200,17 +223,14 @@ export default function UseStateDemo() {
                                     <Heart className={`h-5 w-5 mr-2 ${isLiked ? 'fill-current' : ''}`} />
                                     {isLiked ? 'Liked!' : 'Like this'}
                                 </Button>
-                                <div className="p-3 bg-muted rounded-lg">
-                                    <code className="text-sm">
-                                        const [isLiked, setIsLiked] = useState(false)
-                                    </code>
-                                </div>
+                                <CodeBlock code={`const [isLiked, setIsLiked] = useState(false)`} />
                             </div>
+                            <ViewSource source={demoSource} regions="likeState" />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="complex" className="space-y-6">
+                <TabsContent value={tabIds.complex} className="space-y-6">
                     {/* Object State Example */}
                     <Card>
                         <CardHeader>
@@ -254,11 +274,12 @@ export default function UseStateDemo() {
                                     <pre className="text-sm">{JSON.stringify(user, null, 2)}</pre>
                                 </div>
                             </div>
+                            <ViewSource source={demoSource} regions="userState" />
                         </CardContent>
                     </Card>
                 </TabsContent>
 
-                <TabsContent value="practical" className="space-y-6">
+                <TabsContent value={tabIds.practical} className="space-y-6">
                     {/* Todo List Example */}
                     <Card>
                         <CardHeader>
@@ -304,6 +325,7 @@ export default function UseStateDemo() {
                                     ))}
                                 </div>
                             </div>
+                            <ViewSource source={demoSource} regions={['TodoItem', 'todoState', 'todoHandlers']} />
                         </CardContent>
                     </Card>
 
@@ -348,6 +370,7 @@ export default function UseStateDemo() {
                                     </div>
                                 )}
                             </div>
+                            <ViewSource source={demoSource} regions={['cartState', 'products', 'addToCart']} />
                         </CardContent>
                     </Card>
                 </TabsContent>
@@ -0,0 +1,737 @@
+import { Component, memo, useEffect, useRef, useState, useSyncExternalStore, useTransition, type ReactNode } from 'react'
+import { renderToString } from 'react-dom/server'
+import { hydrateRoot, type Root } from 'react-dom/client'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { CodeBlock } from '@/components/ui/code-block'
+import ViewSource from '@/components/ViewSource'
+import { useRouteTab } from '@/hooks/useRoute'
+import { getTabIds } from '@/lib/registry'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+    AlertTriangle,
+    CheckCircle,
+    Database,
+    Loader2,
+    Monitor,
+    Play,
+    Plus,
+    Server,
+    Wifi,
+    WifiOff,
+    XCircle
+} from 'lucide-react'
+import demoSource from '@/components/hook-components/UseSyncExternalStoreDemo.tsx?raw'
+
+// Blocks the main thread to stand in for a component that is expensive to render
+// #region slowDown
+const slowDown = (ms: number) => {
+    const end = performance.now() + ms
+    while (performance.now() < end) {
+        // Busy wait
+    }
+}
+// #endregion slowDown
+
+// Example 1: Browser APIs as stores
+// #region onlineStore
+// Replaces the useState + useEffect pair in useOnlineStatus (useDebugValue demo)
+const onlineStore = {
+    subscribe: (onChange: () => void) => {
+        window.addEventListener('online', onChange)
+        window.addEventListener('offline', onChange)
+        return () => {
+            window.removeEventListener('online', onChange)
+            window.removeEventListener('offline', onChange)
+        }
+    },
+    getSnapshot: () => navigator.onLine,
+    // The server can't know, so assume online
+    getServerSnapshot: () => true
+}
+
+const useOnlineStatus = () =>
+    useSyncExternalStore(onlineStore.subscribe, onlineStore.getSnapshot, onlineStore.getServerSnapshot)
+// #endregion onlineStore
+
+// #region windowSizeStore
+// Replaces the resize listener effect in the useEffect demo
+const windowSizeStore = {
+    subscribe: (onChange: () => void) => {
+        window.addEventListener('resize', onChange)
+        return () => window.removeEventListener('resize', onChange)
+    },
+    // Two primitive snapshots: returning { width, height } would be a new object on every call
+    getWidth: () => window.innerWidth,
+    getHeight: () => window.innerHeight,
+    getServerWidth: () => 1024,
+    getServerHeight: () => 768
+}
+
+const useWindowSize = () => ({
+    width: useSyncExternalStore(windowSizeStore.subscribe, windowSizeStore.getWidth, windowSizeStore.getServerWidth),
+    height: useSyncExternalStore(windowSizeStore.subscribe, windowSizeStore.getHeight, windowSizeStore.getServerHeight)
+})
+// #endregion windowSizeStore
+
+// #region BrowserStores
+const BrowserStores = () => {
+    const isOnline = useOnlineStatus()
+    const { width, height } = useWindowSize()
+
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="p-4 border rounded-lg flex items-center gap-3">
+                {isOnline ? <Wifi className="h-6 w-6 text-green-600" /> : <WifiOff className="h-6 w-6 text-red-600" />}
+                <div>
+                    <div className="font-medium">{isOnline ? 'Online' : 'Offline'}</div>
+                    <div className="text-xs text-muted-foreground">Toggle offline mode in DevTools to see it change</div>
+                </div>
+            </div>
+            <div className="p-4 border rounded-lg flex items-center gap-3">
+                <Monitor className="h-6 w-6" />
+                <div>
+                    <div className="font-medium font-mono">{width} × {height}</div>
+                    <div className="text-xs text-muted-foreground">Resize the window</div>
+                </div>
+            </div>
+        </div>
+    )
+}
+// #endregion BrowserStores
+
+// Example 2: A tiny hand-written store
+// #region createStore
+type Listener = () => void
+
+const createStore = <T,>(initialState: T) => {
+    let state = initialState
+    const listeners = new Set<Listener>()
+
+    return {
+        getSnapshot: () => state,
+        setState: (update: (state: T) => T) => {
+            state = update(state)
+            listeners.forEach(listener => listener())
+        },
+        subscribe: (listener: Listener) => {
+            listeners.add(listener)
+            return () => {
+                listeners.delete(listener)
+            }
+        }
+    }
+}
+// #endregion createStore
+
+// #region counterStore
+const counterStore = createStore({ count: 0, updatedBy: 'nobody' })
+
+const useCounterStore = () => useSyncExternalStore(counterStore.subscribe, counterStore.getSnapshot)
+
+const increment = (by: string) =>
+    counterStore.setState(state => ({ count: state.count + 1, updatedBy: by }))
+// #endregion counterStore
+
+// #region StoreCounter
+const StoreCounter = ({ name }: { name: string }) => {
+    const { count, updatedBy } = useCounterStore()
+
+    return (
+        <div className="p-4 border rounded-lg space-y-2 text-center">
+            <div className="text-sm font-medium">{name}</div>
+            <div className="text-3xl font-bold">{count}</div>
+            <div className="text-xs text-muted-foreground">Last update: {updatedBy}</div>
+            <Button size="sm" variant="outline" onClick={() => increment(name)}>
+                <Plus className="h-4 w-4 mr-1" />
+                Increment
+            </Button>
+        </div>
+    )
+}
+// #endregion StoreCounter
+
+// Example 3: Tearing
+// #region tearingStore
+// A mutable value outside React that changes while React is rendering
+const createTearingStore = () => {
+    let value = 0
+    const listeners = new Set<Listener>()
+
+    return {
+        subscribe: (listener: Listener) => {
+            listeners.add(listener)
+            return () => {
+                listeners.delete(listener)
+            }
+        },
+        getSnapshot: () => value,
+        bump: () => {
+            value++
+            listeners.forEach(listener => listener())
+        }
+    }
+}
+
+// One store per grid: updates to a subscribed store would restart the other grid's render
+const directStore = createTearingStore()
+const syncedStore = createTearingStore()
+// #endregion tearingStore
+
+// #region TearingDemo
+// Reads the mutable value directly during render
+const DirectCell = () => {
+    slowDown(15)
+    return <Cell value={directStore.getSnapshot()} />
+}
+
+const SyncedCell = () => {
+    const value = useSyncExternalStore(syncedStore.subscribe, syncedStore.getSnapshot)
+    slowDown(15)
+    return <Cell value={value} />
+}
+
+const Cell = ({ value }: { value: number }) => (
+    <div data-value={value} className="p-2 border rounded text-center font-mono">{value}</div>
+)
+
+// memo keeps unrelated re-renders of the parent from redrawing (and "fixing") torn cells
+const TearingCells = memo(({ synced, renders }: { synced: boolean; renders: number }) => {
+    const CellComponent = synced ? SyncedCell : DirectCell
+    return Array.from({ length: 8 }, (_, i) => <CellComponent key={`${renders}-${i}`} />)
+})
+
+const TearingDemo = ({ synced }: { synced: boolean }) => {
+    const [renders, setRenders] = useState(0)
+    const [distinctValues, setDistinctValues] = useState<number | null>(null)
+    const [isPending, startTransition] = useTransition()
+    const gridRef = useRef<HTMLDivElement>(null)
+
+    // After each commit, count how many different values the cells ended up showing
+    useEffect(() => {
+        if (renders === 0 || !gridRef.current) return
+        const values = [...gridRef.current.querySelectorAll('[data-value]')].map(cell => cell.getAttribute('data-value'))
+        setDistinctValues(new Set(values).size)
+    }, [renders])
+
+    const run = () => {
+        setDistinctValues(null)
+        // Keep changing the store while the transition renders the slow cells
+        const interval = setInterval(synced ? syncedStore.bump : directStore.bump, 20)
+        setTimeout(() => clearInterval(interval), 300)
+        startTransition(() => setRenders(r => r + 1))
+    }
+
+    return (
+        <div className="space-y-3 p-4 border rounded-lg">
+            <div className="flex items-center justify-between">
+                <span className="font-medium text-sm">{synced ? 'useSyncExternalStore' : 'Read directly in render'}</span>
+                <Button size="sm" variant="outline" onClick={run} disabled={isPending}>
+                    {isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+                    Render during updates
+                </Button>
+            </div>
+            <div ref={gridRef} className="grid grid-cols-4 gap-2">
+                <TearingCells synced={synced} renders={renders} />
+            </div>
+            {distinctValues !== null && (
+                distinctValues > 1 ? (
+                    <p className="flex items-center gap-1 text-sm text-red-700">
+                        <XCircle className="h-4 w-4" />
+                        Tearing: one render shows {distinctValues} different values
+                    </p>
+                ) : (
+                    <p className="flex items-center gap-1 text-sm text-green-700">
+                        <CheckCircle className="h-4 w-4" />
+                        Consistent: every cell shows the same value
+                    </p>
+                )
+            )}
+        </div>
+    )
+}
+// #endregion TearingDemo
+
+// Example 4: getServerSnapshot
+// #region ServerSnapshotExample
+const WidthLabel = ({ onRender }: { onRender?: (width: number) => void }) => {
+    const { width } = useWindowSize()
+    onRender?.(width)
+    return <span>Window width: {width}px</span>
+}
+
+// The same component without a server snapshot can't be rendered on the server at all
+const WidthLabelWithoutServerSnapshot = () => {
+    const width = useSyncExternalStore(windowSizeStore.subscribe, windowSizeStore.getWidth)
+    return <span>Window width: {width}px</span>
+}
+
+const ServerSnapshotExample = () => {
+    const containerRef = useRef<HTMLDivElement>(null)
+    const rootRef = useRef<Root | null>(null)
+    const [serverHtml, setServerHtml] = useState<string | null>(null)
+    const [renderedWidths, setRenderedWidths] = useState<number[]>([])
+    const [missingError, setMissingError] = useState<string | null>(null)
+
+    useEffect(() => () => {
+        const root = rootRef.current
+        // A root can't be unmounted synchronously while React is committing another one
+        setTimeout(() => root?.unmount())
+    }, [])
+
+    const run = () => {
+        const container = containerRef.current
+        if (!container) return
+        rootRef.current?.unmount()
+
+        try {
+            renderToString(<WidthLabelWithoutServerSnapshot />)
+            setMissingError(null)
+        } catch (error) {
+            setMissingError(error instanceof Error ? error.message.split('\n')[0] : String(error))
+        }
+
+        const html = renderToString(<WidthLabel />)
+        container.innerHTML = html
+        setServerHtml(html)
+
+        const widths: number[] = []
+        rootRef.current = hydrateRoot(container, (
+            <WidthLabel onRender={(width) => {
+                widths.push(width)
+                // Defer so the log updates after the hydrated root has finished rendering
+                setTimeout(() => setRenderedWidths([...widths]))
+            }} />
+        ))
+    }
+
+    return (
+        <div className="space-y-4">
+            <Button size="sm" variant="outline" onClick={run}>
+                <Server className="h-4 w-4 mr-2" />
+                Render to string &amp; hydrate
+            </Button>
+            <div ref={containerRef} className="p-3 border rounded-lg text-sm min-h-11" />
+            {serverHtml && (
+                <div className="space-y-2 text-sm">
+                    <div>
+                        <span className="text-muted-foreground">Server HTML (getServerSnapshot → 1024)</span>
+                        <code className="block font-mono text-xs break-all">{serverHtml}</code>
+                    </div>
+                    <div>
+                        <span className="text-muted-foreground">Widths rendered on the client</span>
+                        <code className="block font-mono text-xs">{JSON.stringify(renderedWidths)}</code>
+                        <p className="text-xs text-muted-foreground">
+                            Hydration renders with the server snapshot so the HTML matches, then React re-renders with the real width.
+                        </p>
+                    </div>
+                </div>
+            )}
+            {missingError && (
+                <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                        <span className="font-medium">Without getServerSnapshot:</span> {missingError}
+                    </AlertDescription>
+                </Alert>
+            )}
+        </div>
+    )
+}
+// #endregion ServerSnapshotExample
+
+// Example 5: Selector pitfalls
+// #region todoStore
+interface Todo {
+    id: number
+    text: string
+    done: boolean
+}
+
+const todoStore = createStore({
+    todos: [
+        { id: 1, text: 'Read the docs', done: true },
+        { id: 2, text: 'Write a store', done: false },
+        { id: 3, text: 'Subscribe with useSyncExternalStore', done: false }
+    ] as Todo[],
+    draft: ''
+})
+
+type TodoState = ReturnType<typeof todoStore.getSnapshot>
+// #endregion todoStore
+
+// #region BrokenSelector
+// Pitfall: filter() returns a new array on every call, so React sees a "change" after every
+// render and re-renders forever ("The result of getSnapshot should be cached")
+const BrokenSelector = () => {
+    const openTodos = useSyncExternalStore(
+        todoStore.subscribe,
+        () => todoStore.getSnapshot().todos.filter(todo => !todo.done)
+    )
+    return <p className="text-sm">{openTodos.length} open todos</p>
+}
+// #endregion BrokenSelector
+
+// #region useStoreSelector
+// Fix: only re-run the selector when the store's state object changes, and return the
+// cached result otherwise. Pass a stable (module-level or memoized) selector.
+const useStoreSelector = <S,>(selector: (state: TodoState) => S): S => {
+    const cache = useRef<{ state: TodoState; selection: S } | null>(null)
+
+    const getSelection = () => {
+        const state = todoStore.getSnapshot()
+        if (cache.current?.state !== state) {
+            cache.current = { state, selection: selector(state) }
+        }
+        return cache.current.selection
+    }
+
+    return useSyncExternalStore(todoStore.subscribe, getSelection)
+}
+
+const selectOpenTodos = (state: TodoState) => state.todos.filter(todo => !todo.done)
+const selectOpenCount = (state: TodoState) => state.todos.filter(todo => !todo.done).length
+// #endregion useStoreSelector
+
+// #region SelectorComparison
+const useRenderCount = () => {
+    const renders = useRef(0)
+    renders.current++
+    return renders.current
+}
+
+// Selects the whole state: re-renders on every keystroke in the draft input
+const WholeStateSubscriber = () => {
+    const state = useSyncExternalStore(todoStore.subscribe, todoStore.getSnapshot)
+    const renders = useRenderCount()
+    return (
+        <div className="p-3 border rounded-lg text-sm flex items-center justify-between">
+            <span>Whole state: {state.todos.filter(todo => !todo.done).length} open</span>
+            <Badge variant="outline">Renders: {renders}</Badge>
+        </div>
+    )
+}
+
+// Selects a number: only re-renders when the open count actually changes
+const OpenCountSubscriber = () => {
+    const openCount = useStoreSelector(selectOpenCount)
+    const renders = useRenderCount()
+    return (
+        <div className="p-3 border rounded-lg text-sm flex items-center justify-between">
+            <span>Open count selector: {openCount} open</span>
+            <Badge variant="outline">Renders: {renders}</Badge>
+        </div>
+    )
+}
+
+const TodoEditor = () => {
+    const { todos, draft } = useSyncExternalStore(todoStore.subscribe, todoStore.getSnapshot)
+    const openTodos = useStoreSelector(selectOpenTodos)
+
+    const toggle = (id: number) => todoStore.setState(state => ({
+        ...state,
+        todos: state.todos.map(todo => todo.id === id ? { ...todo, done: !todo.done } : todo)
+    }))
+
+    return (
+        <div className="space-y-3">
+            <Input
+                placeholder="Type a draft (changes unrelated state)"
+                value={draft}
+                onChange={(e) => todoStore.setState(state => ({ ...state, draft: e.target.value }))}
+            />
+            <div className="space-y-1">
+                {todos.map(todo => (
+                    <label key={todo.id} className="flex items-center gap-2 text-sm">
+                        <input type="checkbox" checked={todo.done} onChange={() => toggle(todo.id)} />
+                        <span className={todo.done ? 'line-through text-muted-foreground' : ''}>{todo.text}</span>
+                    </label>
+                ))}
+            </div>
+            <p className="text-xs text-muted-foreground">Memoized selector: {openTodos.length} open todos</p>
+        </div>
+    )
+}
+// #endregion SelectorComparison
+
+class PitfallBoundary extends Component<{ children: ReactNode }, { error: Error | null }> {
+    state: { error: Error | null } = { error: null }
+
+    static getDerivedStateFromError(error: Error) {
+        return { error }
+    }
+
+    render() {
+        if (this.state.error) {
+            return (
+                <p className="flex items-start gap-1 text-sm text-red-700">
+                    <XCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                    {this.state.error.message.split('\n')[0]}
+                </p>
+            )
+        }
+        return this.props.children
+    }
+}
+
+const tabIds = getTabIds('useSyncExternalStore')
+
+export default function UseSyncExternalStoreDemo() {
+    const { tab, setTab, tabs } = useRouteTab()
+    const [showBroken, setShowBroken] = useState(false)
+
+    return (
+        <div className="max-w-6xl mx-auto p-6 space-y-6">
+            {/* Header */}
+            <div className="text-center space-y-2">
+                <h1 className="text-3xl font-bold">useSyncExternalStore Hook Interactive Demo</h1>
+                <p className="text-muted-foreground">
+                    Subscribe to state that lives outside React, safely under concurrent rendering and SSR
+                </p>
+            </div>
+
+            <Tabs value={tab} onValueChange={setTab} className="space-y-6">
+                <TabsList className="grid w-full grid-cols-5">
+                    {tabs.map(({ id, label }) => (
+                        <TabsTrigger key={id} value={id}>{label}</TabsTrigger>
+                    ))}
+                </TabsList>
+
+                <TabsContent value={tabIds.browser} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Basic</Badge>
+                                Browser APIs as Stores
+                            </CardTitle>
+                            <CardDescription>
+                                The online status hook from the useDebugValue demo and the resize listener from the useEffect
+                                demo, rebuilt as subscribe/getSnapshot pairs
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <BrowserStores />
+                            <CodeBlock
+                                className="mt-4"
+                                code={`const subscribe = (onChange: () => void) => {
+  window.addEventListener('online', onChange)
+  window.addEventListener('offline', onChange)
+  return () => { /* remove both listeners */ }
+}
+
+const isOnline = useSyncExternalStore(subscribe, () => navigator.onLine, () => true)`}
+                                highlightLines={[7]}
+                            />
+                            <ViewSource source={demoSource} regions={['onlineStore', 'windowSizeStore', 'BrowserStores']} />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value={tabIds.store} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Store</Badge>
+                                <Database className="h-4 w-4" />
+                                A Hand-written Store
+                            </CardTitle>
+                            <CardDescription>
+                                Two independent components share one store without context or props
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <StoreCounter name="Counter A" />
+                                <StoreCounter name="Counter B" />
+                            </div>
+                            <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setTimeout(() => increment('setTimeout (outside React)'), 500)}
+                            >
+                                Increment from a timer in 0.5s
+                            </Button>
+                            <CodeBlock
+                                code={`const createStore = <T,>(initialState: T) => {
+  let state = initialState
+  const listeners = new Set<() => void>()
+  return {
+    getSnapshot: () => state,
+    setState: (update: (state: T) => T) => {
+      state = update(state)
+      listeners.forEach(listener => listener())
+    },
+    subscribe: (listener: () => void) => {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    }
+  }
+}`}
+                            />
+                            <ViewSource source={demoSource} regions={['createStore', 'counterStore', 'StoreCounter']} />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value={tabIds.tearing} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Concurrency</Badge>
+                                Tearing
+                            </CardTitle>
+                            <CardDescription>
+                                A transition renders eight slow cells while a timer keeps changing the external value.
+                                React yields between cells, so cells that read the value directly can disagree.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                                <TearingDemo synced={false} />
+                                <TearingDemo synced />
+                            </div>
+                            <Alert>
+                                <AlertTriangle className="h-4 w-4" />
+                                <AlertDescription>
+                                    useSyncExternalStore notices that the store changed mid-render and re-renders synchronously,
+                                    so every cell shows the same snapshot. The cost is that the update is no longer non-blocking.
+                                </AlertDescription>
+                            </Alert>
+                            <ViewSource source={demoSource} regions={['tearingStore', 'TearingDemo']} />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value={tabIds.server} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">SSR</Badge>
+                                <Server className="h-4 w-4" />
+                                getServerSnapshot
+                            </CardTitle>
+                            <CardDescription>
+                                The third argument is used on the server and during hydration, where window doesn't exist
+                                or the client value would not match the HTML
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <ServerSnapshotExample />
+                            <CodeBlock
+                                code={`const width = useSyncExternalStore(
+  subscribe,
+  () => window.innerWidth,  // client
+  () => 1024                // server and hydration
+)`}
+                                highlightLines={[4]}
+                            />
+                            <ViewSource source={demoSource} regions="ServerSnapshotExample" />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value={tabIds.selectors} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Pitfall</Badge>
+                                <XCircle className="h-4 w-4" />
+                                getSnapshot Must Return a Cached Value
+                            </CardTitle>
+                            <CardDescription>
+                                Deriving data inside getSnapshot returns a new array every call, which React treats as a change
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="flex items-center gap-3">
+                                <Button size="sm" variant="outline" onClick={() => setShowBroken(!showBroken)}>
+                                    {showBroken ? 'Remove' : 'Render'} broken component
+                                </Button>
+                            </div>
+                            {showBroken && (
+                                <div className="p-3 border rounded-lg border-red-200">
+                                    <PitfallBoundary>
+                                        <BrokenSelector />
+                                    </PitfallBoundary>
+                                </div>
+                            )}
+                            <CodeBlock
+                                code={`// ❌ New array on every call: infinite re-render loop
+useSyncExternalStore(store.subscribe, () => store.getSnapshot().todos.filter(t => !t.done))
+
+// ✅ Cache the selection per state object
+const getSelection = () => {
+  const state = store.getSnapshot()
+  if (cache.current?.state !== state) {
+    cache.current = { state, selection: selector(state) }
+  }
+  return cache.current.selection
+}`}
+                                highlightLines={[2]}
+                            />
+                            <ViewSource source={demoSource} regions={['BrokenSelector', 'useStoreSelector']} />
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Performance</Badge>
+                                Selecting Too Much
+                            </CardTitle>
+                            <CardDescription>
+                                Type in the draft: only the component that subscribed to the whole state re-renders
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <TodoEditor />
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <WholeStateSubscriber />
+                                <OpenCountSubscriber />
+                            </div>
+                            <ViewSource source={demoSource} regions={['todoStore', 'useStoreSelector', 'SelectorComparison']} />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+            </Tabs>
+
+            {/* Key Concepts */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Key Concepts</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <h4 className="font-medium">🔌 subscribe + getSnapshot</h4>
+                            <p className="text-sm text-muted-foreground">
+                                subscribe registers a callback and returns an unsubscribe function; getSnapshot reads the current value.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">🧊 Immutable Snapshots</h4>
+                            <p className="text-sm text-muted-foreground">
+                                getSnapshot must return the same value until the store changes. Replace state instead of mutating it.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">🧵 No Tearing</h4>
+                            <p className="text-sm text-muted-foreground">
+                                Every component in a render sees the same snapshot, even when the store changes mid-render.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">🌐 Server Snapshot</h4>
+                            <p className="text-sm text-muted-foreground">
+                                getServerSnapshot is required for server rendering and is used during hydration to match the HTML.
+                            </p>
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
@@ -0,0 +1,553 @@
+import { memo, useCallback, useMemo, useRef, useState, useTransition, type ReactNode } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { CodeBlock } from '@/components/ui/code-block'
+import ViewSource from '@/components/ViewSource'
+import { useRouteTab } from '@/hooks/useRoute'
+import { getTabIds } from '@/lib/registry'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+    Zap,
+    Hourglass,
+    Loader2,
+    Search,
+    LayoutList,
+    MousePointerClick,
+    AlertTriangle
+} from 'lucide-react'
+import demoSource from '@/components/hook-components/UseTransitionDemo.tsx?raw'
+
+interface Product {
+    id: number
+    name: string
+    category: string
+    price: number
+    inStock: boolean
+}
+
+// Blocks the main thread to stand in for a component that is expensive to render
+// #region slowDown
+const slowDown = (ms: number) => {
+    const end = performance.now() + ms
+    while (performance.now() < end) {
+        // Busy wait
+    }
+}
+// #endregion slowDown
+
+// Same shape as useTransition, but applies updates synchronously when transitions are switched off
+// #region useOptionalTransition
+const useOptionalTransition = (enabled: boolean) => {
+    const [isPending, startTransition] = useTransition()
+
+    const start = useCallback((update: () => void) => {
+        if (enabled) {
+            startTransition(update)
+        } else {
+            update()
+        }
+    }, [enabled])
+
+    return [enabled && isPending, start] as const
+}
+// #endregion useOptionalTransition
+
+// Example 1: Urgent vs non-urgent updates
+// #region SlowResults
+const SlowResults = memo(({ query }: { query: string }) => {
+    const items = Array.from({ length: 250 }, (_, i) => `Result #${i + 1} for "${query}"`)
+
+    return (
+        <ul className="h-48 overflow-auto border rounded-lg divide-y text-sm">
+            {items.map(item => <SlowResult key={item} text={item} />)}
+        </ul>
+    )
+})
+
+const SlowResult = ({ text }: { text: string }) => {
+    slowDown(1)
+    return <li className="px-3 py-1">{text}</li>
+}
+// #endregion SlowResults
+
+// #region UrgentVsNonUrgent
+const UrgentVsNonUrgent = ({ transitions }: { transitions: boolean }) => {
+    const [text, setText] = useState('')
+    const [query, setQuery] = useState('')
+    const [isPending, start] = useOptionalTransition(transitions)
+
+    const handleChange = (value: string) => {
+        // Urgent: the input must reflect every keystroke immediately
+        setText(value)
+        // Non-urgent: the expensive list can lag behind and be interrupted
+        start(() => setQuery(value))
+    }
+
+    return (
+        <div className="space-y-4">
+            <Input
+                placeholder="Type quickly..."
+                value={text}
+                onChange={(e) => handleChange(e.target.value)}
+            />
+            <div className="grid grid-cols-2 gap-4 text-sm">
+                <div className="p-3 border rounded-lg">
+                    <div className="text-muted-foreground">Input value (urgent)</div>
+                    <code className="font-mono">{JSON.stringify(text)}</code>
+                </div>
+                <div className="p-3 border rounded-lg">
+                    <div className="text-muted-foreground flex items-center gap-2">
+                        List query (non-urgent)
+                        {isPending && <Loader2 className="h-3 w-3 animate-spin" />}
+                    </div>
+                    <code className="font-mono">{JSON.stringify(query)}</code>
+                </div>
+            </div>
+            <div className={isPending ? 'opacity-60 transition-opacity' : 'transition-opacity'}>
+                <SlowResults query={query} />
+            </div>
+        </div>
+    )
+}
+// #endregion UrgentVsNonUrgent
+
+// Example 2: isPending UI
+// #region PendingReport
+const reports = ['Weekly', 'Monthly', 'Yearly'] as const
+type Report = typeof reports[number]
+
+const reportRows: Record<Report, number> = { Weekly: 7, Monthly: 30, Yearly: 365 }
+
+const SlowReport = memo(({ report }: { report: Report }) => {
+    const rows = Array.from({ length: reportRows[report] }, (_, i) => i + 1)
+
+    return (
+        <div className="grid grid-cols-7 gap-1">
+            {rows.map(day => <SlowCell key={day} day={day} />)}
+        </div>
+    )
+})
+
+const SlowCell = ({ day }: { day: number }) => {
+    slowDown(2)
+    return <div className="h-6 rounded bg-blue-100 text-[10px] text-center leading-6">{day}</div>
+}
+
+const PendingReport = ({ transitions }: { transitions: boolean }) => {
+    const [report, setReport] = useState<Report>('Weekly')
+    const [selected, setSelected] = useState<Report>('Weekly')
+    const [clicks, setClicks] = useState(0)
+    const [isPending, start] = useOptionalTransition(transitions)
+
+    const selectReport = (next: Report) => {
+        setSelected(next)
+        start(() => setReport(next))
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+                {reports.map(name => (
+                    <Button
+                        key={name}
+                        size="sm"
+                        variant={selected === name ? 'default' : 'outline'}
+                        onClick={() => selectReport(name)}
+                    >
+                        {isPending && selected === name && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        {name}
+                    </Button>
+                ))}
+                {isPending && <Badge variant="secondary">Updating…</Badge>}
+            </div>
+
+            <div className="flex items-center gap-3">
+                <Button size="sm" variant="outline" onClick={() => setClicks(c => c + 1)}>
+                    <MousePointerClick className="h-4 w-4 mr-2" />
+                    Click me while it loads
+                </Button>
+                <span className="text-sm text-muted-foreground">Clicks: {clicks}</span>
+            </div>
+
+            <div className={isPending ? 'opacity-50 transition-opacity' : 'transition-opacity'}>
+                <p className="text-sm font-medium mb-2">{report} report</p>
+                <SlowReport report={report} />
+            </div>
+        </div>
+    )
+}
+// #endregion PendingReport
+
+// Example 3: A slow filtered list that stays responsive
+// #region productCatalog
+const productNames = ['Laptop', 'Phone', 'Tablet', 'Monitor', 'Keyboard', 'Mouse', 'Headphones', 'Camera']
+const productCategories = ['Electronics', 'Accessories', 'Audio', 'Photo']
+
+const productCatalog: Product[] = Array.from({ length: 5000 }, (_, i) => ({
+    id: i + 1,
+    name: `${productNames[i % productNames.length]} ${i + 1}`,
+    category: productCategories[i % productCategories.length],
+    price: Math.round((20 + (i * 37) % 980) * 100) / 100,
+    inStock: i % 3 !== 0
+}))
+// #endregion productCatalog
+
+// #region ResponsiveProductList
+const ProductRow = ({ product }: { product: Product }) => {
+    slowDown(1)
+    return (
+        <div className="flex items-center justify-between px-3 py-1 text-sm">
+            <span>{product.name}</span>
+            <span className="text-muted-foreground">
+                {product.category} · ${product.price.toFixed(2)}
+            </span>
+        </div>
+    )
+}
+
+const ProductResults = memo(({ filter }: { filter: string }) => {
+    const renderCount = useRef(0)
+    renderCount.current++
+
+    const filteredItems = useMemo(() => productCatalog.filter(product =>
+        product.name.toLowerCase().includes(filter.toLowerCase()) ||
+        product.category.toLowerCase().includes(filter.toLowerCase())
+    ), [filter])
+
+    const statistics = useMemo(() => ({
+        avgPrice: filteredItems.reduce((sum, item) => sum + item.price, 0) / filteredItems.length || 0,
+        inStockCount: filteredItems.filter(item => item.inStock).length
+    }), [filteredItems])
+
+    return (
+        <div className="p-4 border rounded-lg space-y-4">
+            <div className="flex items-center justify-between">
+                <h3 className="font-semibold">Products</h3>
+                <Badge variant="outline">Renders: {renderCount.current}</Badge>
+            </div>
+            <div className="grid grid-cols-3 gap-4 text-center">
+                <div>
+                    <div className="text-2xl font-bold">{filteredItems.length}</div>
+                    <div className="text-sm text-muted-foreground">Matches</div>
+                </div>
+                <div>
+                    <div className="text-2xl font-bold">${statistics.avgPrice.toFixed(2)}</div>
+                    <div className="text-sm text-muted-foreground">Avg Price</div>
+                </div>
+                <div>
+                    <div className="text-2xl font-bold">{statistics.inStockCount}</div>
+                    <div className="text-sm text-muted-foreground">In Stock</div>
+                </div>
+            </div>
+            <div className="h-64 overflow-auto border rounded divide-y">
+                {/* Only the first 300 rows are rendered, each one deliberately slow */}
+                {filteredItems.slice(0, 300).map(product => (
+                    <ProductRow key={product.id} product={product} />
+                ))}
+            </div>
+        </div>
+    )
+})
+
+const ResponsiveProductList = ({ transitions }: { transitions: boolean }) => {
+    const [filter, setFilter] = useState('')
+    const [listFilter, setListFilter] = useState('')
+    const [isPending, start] = useOptionalTransition(transitions)
+
+    return (
+        <div className="space-y-4">
+            <div className="relative">
+                <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                <Input
+                    className="pl-9"
+                    placeholder="Filter 5,000 products (try 'audio' or 'laptop 1')"
+                    value={filter}
+                    onChange={(e) => {
+                        setFilter(e.target.value)
+                        start(() => setListFilter(e.target.value))
+                    }}
+                />
+                {isPending && <Loader2 className="absolute right-3 top-3 h-4 w-4 animate-spin" />}
+            </div>
+            <div className={isPending ? 'opacity-60 transition-opacity' : 'transition-opacity'}>
+                <ProductResults filter={listFilter} />
+            </div>
+        </div>
+    )
+}
+// #endregion ResponsiveProductList
+
+// Example 4: Transitions for tab switching
+// #region TabSwitching
+type Panel = 'about' | 'posts' | 'contact'
+
+const TabButton = ({ isActive, isPending, onClick, children }: {
+    isActive: boolean
+    isPending: boolean
+    onClick: () => void
+    children: ReactNode
+}) => (
+    <Button size="sm" variant={isActive ? 'default' : 'outline'} onClick={onClick}>
+        {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        {children}
+    </Button>
+)
+
+const SlowPosts = memo(() => {
+    const posts = Array.from({ length: 300 }, (_, i) => i + 1)
+    return (
+        <ul className="h-48 overflow-auto border rounded-lg divide-y text-sm">
+            {posts.map(id => <SlowPost key={id} id={id} />)}
+        </ul>
+    )
+})
+
+const SlowPost = ({ id }: { id: number }) => {
+    slowDown(1)
+    return <li className="px-3 py-1">Post #{id}</li>
+}
+
+const TabSwitching = ({ transitions }: { transitions: boolean }) => {
+    const [panel, setPanel] = useState<Panel>('about')
+    const [nextPanel, setNextPanel] = useState<Panel>('about')
+    const [isPending, start] = useOptionalTransition(transitions)
+
+    const selectPanel = (next: Panel) => {
+        setNextPanel(next)
+        start(() => setPanel(next))
+    }
+
+    const tabs: { id: Panel; label: string }[] = [
+        { id: 'about', label: 'About' },
+        { id: 'posts', label: 'Posts (slow)' },
+        { id: 'contact', label: 'Contact' }
+    ]
+
+    return (
+        <div className="space-y-4">
+            <div className="flex gap-2">
+                {tabs.map(({ id, label }) => (
+                    <TabButton
+                        key={id}
+                        isActive={panel === id}
+                        isPending={isPending && nextPanel === id}
+                        onClick={() => selectPanel(id)}
+                    >
+                        {label}
+                    </TabButton>
+                ))}
+            </div>
+            <div className={isPending ? 'opacity-60 transition-opacity' : 'transition-opacity'}>
+                {panel === 'about' && <p className="text-sm p-3 border rounded-lg">Welcome! This panel renders instantly.</p>}
+                {panel === 'posts' && <SlowPosts />}
+                {panel === 'contact' && <p className="text-sm p-3 border rounded-lg">Reach us at hello@example.com</p>}
+            </div>
+        </div>
+    )
+}
+// #endregion TabSwitching
+
+const tabIds = getTabIds('useTransition')
+
+export default function UseTransitionDemo() {
+    const { tab, setTab, tabs } = useRouteTab()
+    const [transitions, setTransitions] = useState(true)
+
+    return (
+        <div className="max-w-6xl mx-auto p-6 space-y-6">
+            {/* Header */}
+            <div className="text-center space-y-2">
+                <h1 className="text-3xl font-bold">useTransition Hook Interactive Demo</h1>
+                <p className="text-muted-foreground">
+                    Mark state updates as non-urgent so expensive renders never block typing and clicking
+                </p>
+            </div>
+
+            {/* With / without startTransition */}
+            <Card>
+                <CardContent className="flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-2">
+                        {transitions ? <Zap className="h-4 w-4 text-green-600" /> : <Hourglass className="h-4 w-4 text-red-600" />}
+                        <Label htmlFor="use-transitions">Use startTransition</Label>
+                    </div>
+                    <Switch
+                        id="use-transitions"
+                        checked={transitions}
+                        onCheckedChange={setTransitions}
+                    />
+                </CardContent>
+            </Card>
+
+            {!transitions && (
+                <Alert>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                        Transitions are off: every update below is urgent, so typing and clicking freeze while the slow content renders.
+                    </AlertDescription>
+                </Alert>
+            )}
+
+            <Tabs value={tab} onValueChange={setTab} className="space-y-6">
+                <TabsList className="grid w-full grid-cols-4">
+                    {tabs.map(({ id, label }) => (
+                        <TabsTrigger key={id} value={id}>{label}</TabsTrigger>
+                    ))}
+                </TabsList>
+
+                <TabsContent value={tabIds.urgent} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Basic</Badge>
+                                Urgent vs Non-urgent Updates
+                            </CardTitle>
+                            <CardDescription>
+                                The input updates on every keystroke; the slow list below follows as a transition
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <UrgentVsNonUrgent transitions={transitions} />
+                            <CodeBlock
+                                className="mt-4"
+                                code={`const [isPending, startTransition] = useTransition()
+
+const handleChange = (value: string) => {
+  setText(value)                          // urgent
+  startTransition(() => setQuery(value))  // can be interrupted
+}`}
+                                highlightLines={[5]}
+                            />
+                            <ViewSource source={demoSource} regions={['useOptionalTransition', 'UrgentVsNonUrgent', 'SlowResults', 'slowDown']} />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value={tabIds.pending} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Feedback</Badge>
+                                <Hourglass className="h-4 w-4" />
+                                isPending UI
+                            </CardTitle>
+                            <CardDescription>
+                                Keep showing the old report, dimmed, while the new one renders in the background
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <PendingReport transitions={transitions} />
+                            <CodeBlock
+                                className="mt-4"
+                                code={`const [isPending, startTransition] = useTransition()
+
+<Button onClick={() => startTransition(() => setReport('Yearly'))}>
+  {isPending && <Spinner />}
+  Yearly
+</Button>
+<div className={isPending ? 'opacity-50' : ''}>
+  <SlowReport report={report} />
+</div>`}
+                            />
+                            <ViewSource source={demoSource} regions={['useOptionalTransition', 'PendingReport']} />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value={tabIds.list} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Performance</Badge>
+                                <LayoutList className="h-4 w-4" />
+                                Responsive Filtered List
+                            </CardTitle>
+                            <CardDescription>
+                                Like the ExpensiveList in the useMemo demo, but each row is slow to render. useMemo
+                                can't help with that; a transition lets React pause the list whenever you type.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <ResponsiveProductList transitions={transitions} />
+                            <CodeBlock
+                                className="mt-4"
+                                code={`<Input
+  value={filter}
+  onChange={(e) => {
+    setFilter(e.target.value)
+    startTransition(() => setListFilter(e.target.value))
+  }}
+/>
+<ProductResults filter={listFilter} />`}
+                            />
+                            <ViewSource source={demoSource} regions={['productCatalog', 'ResponsiveProductList']} />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value={tabIds.tabs} className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Badge variant="outline">Navigation</Badge>
+                                Tab Switching
+                            </CardTitle>
+                            <CardDescription>
+                                Open "Posts (slow)" and immediately click "Contact": with transitions the slow tab is abandoned
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <TabSwitching transitions={transitions} />
+                            <CodeBlock
+                                className="mt-4"
+                                code={`const selectPanel = (next: Panel) => {
+  startTransition(() => setPanel(next))
+}`}
+                            />
+                            <ViewSource source={demoSource} regions="TabSwitching" />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+            </Tabs>
+
+            {/* Key Concepts */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Key Concepts</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <h4 className="font-medium">⚡ Urgent vs Non-urgent</h4>
+                            <p className="text-sm text-muted-foreground">
+                                Typing and clicking are urgent. Updates wrapped in startTransition can wait and are interrupted by newer input.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">⏳ isPending</h4>
+                            <p className="text-sm text-muted-foreground">
+                                While a transition renders, the old UI stays on screen and isPending lets you show that it is updating.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">🧩 Interruptible Rendering</h4>
+                            <p className="text-sm text-muted-foreground">
+                                React yields between components during a transition, so the work must be split across many components to stay responsive.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <h4 className="font-medium">⚠️ Not for Inputs</h4>
+                            <p className="text-sm text-muted-foreground">
+                                State that drives a controlled input must stay urgent. Split it into an urgent value and a transition value instead.
+                            </p>
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
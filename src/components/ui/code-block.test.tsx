@@ -0,0 +1,25 @@
+import { screen } from "@testing-library/react"
+import { describe, expect, it, vi } from "vitest"
+import { CodeBlock } from "@/components/ui/code-block"
+import { renderWithUser } from "@/test/render"
+
+describe("CodeBlock copy button", () => {
+  it("copies the code", async () => {
+    const { user } = renderWithUser(<CodeBlock code="const answer = 42" />)
+    const writeText = vi.spyOn(navigator.clipboard, "writeText")
+
+    await user.click(screen.getByRole("button", { name: "Copy code" }))
+
+    expect(writeText).toHaveBeenCalledWith("const answer = 42")
+    expect(screen.getByRole("button", { name: "Copy code" })).toHaveTextContent("Copied")
+  })
+
+  it("says so when the clipboard refuses", async () => {
+    const { user } = renderWithUser(<CodeBlock code="const answer = 42" />)
+    vi.spyOn(navigator.clipboard, "writeText").mockRejectedValue(new DOMException("Denied", "NotAllowedError"))
+
+    await user.click(screen.getByRole("button", { name: "Copy code" }))
+
+    expect(screen.getByRole("button", { name: "Copy code" })).toHaveTextContent("Copy failed")
+  })
+})
@@ -0,0 +1,115 @@
+import * as React from "react"
+import { Highlight, themes } from "prism-react-renderer"
+import { Check, Copy, X } from "lucide-react"
+
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+
+type CodeLanguage = "ts" | "tsx" | "json"
+
+// Keys of the grammars bundled with prism-react-renderer (no CDN or runtime loading)
+const grammars: Record<CodeLanguage, string> = {
+  ts: "typescript",
+  tsx: "tsx",
+  json: "json",
+}
+
+const labels: Record<CodeLanguage, string> = {
+  ts: "TypeScript",
+  tsx: "TSX",
+  json: "JSON",
+}
+
+interface CodeBlockProps extends Omit<React.ComponentProps<"div">, "children"> {
+  code: string
+  language?: CodeLanguage
+  // 1-based line numbers to emphasise
+  highlightLines?: number[]
+  showLineNumbers?: boolean
+}
+
+function CodeBlock({
+  code,
+  language = "tsx",
+  highlightLines = [],
+  showLineNumbers = true,
+  className,
+  ...props
+}: CodeBlockProps) {
+  const [copyStatus, setCopyStatus] = React.useState<"idle" | "copied" | "failed">("idle")
+
+  React.useEffect(() => {
+    if (copyStatus === "idle") return
+    const timeout = setTimeout(() => setCopyStatus("idle"), 2000)
+    return () => clearTimeout(timeout)
+  }, [copyStatus])
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(code)
+      setCopyStatus("copied")
+    } catch {
+      // Permission denied, or no clipboard outside a secure context
+      setCopyStatus("failed")
+    }
+  }
+
+  return (
+    <div
+      data-slot="code-block"
+      className={cn("bg-muted relative rounded-lg border text-sm", className)}
+      {...props}
+    >
+      <div className="flex items-center justify-between border-b px-3 py-1">
+        <span className="text-muted-foreground text-xs font-medium">
+          {labels[language]}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          onClick={copy}
+          aria-label="Copy code"
+        >
+          {copyStatus === "copied" && <><Check className="h-3 w-3" />Copied</>}
+          {copyStatus === "failed" && <><X className="h-3 w-3" />Copy failed</>}
+          {copyStatus === "idle" && <><Copy className="h-3 w-3" />Copy</>}
+        </Button>
+      </div>
+      <Highlight code={code.trimEnd()} language={grammars[language]} theme={themes.oneLight}>
+        {({ tokens, getLineProps, getTokenProps }) => (
+          <pre className="overflow-x-auto py-3 font-mono">
+            {tokens.map((line, index) => {
+              const lineNumber = index + 1
+              const { className: lineClassName, ...lineProps } = getLineProps({ line })
+              return (
+                <div
+                  key={index}
+                  {...lineProps}
+                  className={cn(
+                    lineClassName,
+                    "flex min-h-5 px-3",
+                    highlightLines.includes(lineNumber) && "bg-yellow-200/60"
+                  )}
+                >
+                  {showLineNumbers && (
+                    <span className="text-muted-foreground mr-4 inline-block w-6 shrink-0 text-right select-none">
+                      {lineNumber}
+                    </span>
+                  )}
+                  <span>
+                    {line.map((token, key) => (
+                      <span key={key} {...getTokenProps({ token })} />
+                    ))}
+                  </span>
+                </div>
+              )
+            })}
+          </pre>
+        )}
+      </Highlight>
+    </div>
+  )
+}
+
+export { CodeBlock }
@@ -0,0 +1,12 @@
+import { useContext } from 'react'
+import { CartContext } from '@/lib/cart-context.ts'
+
+// #region useCart
+export function useCart() {
+    const context = useContext(CartContext)
+    if (!context) {
+        throw new Error('useCart must be used within a CartProvider')
+    }
+    return context
+}
+// #endregion useCart
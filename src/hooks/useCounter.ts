@@ -0,0 +1,16 @@
+import { useCallback, useDebugValue, useState } from 'react'
+
+// #region useCounter
+export function useCounter(initialValue = 0) {
+    const [count, setCount] = useState(initialValue)
+
+    // Basic debug value
+    useDebugValue(count)
+
+    const increment = useCallback(() => setCount(c => c + 1), [])
+    const decrement = useCallback(() => setCount(c => c - 1), [])
+    const reset = useCallback(() => setCount(initialValue), [initialValue])
+
+    return { count, increment, decrement, reset }
+}
+// #endregion useCounter
@@ -0,0 +1,65 @@
+import { useDebugValue, useEffect, useState } from 'react'
+
+// #region useFetch
+export interface FetchState<T> {
+    data: T | null
+    loading: boolean
+    error: string | null
+}
+
+export function useFetch<T>(url: string, enabled = true): FetchState<T> {
+    const [data, setData] = useState<T | null>(null)
+    const [loading, setLoading] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const state = { data, loading, error, url }
+
+    // Conditional debug value only when there's an error or loading
+    useDebugValue(
+        state,
+        (state) => {
+            if (state.error) return `❌ Error: ${state.error}`
+            if (state.loading) return `⏳ Loading: ${state.url}`
+            if (state.data) return `✅ Success: ${state.url}`
+            return `⚪ Idle: ${state.url}`
+        }
+    )
+
+    useEffect(() => {
+        if (!enabled) return
+
+        let cancelled = false
+
+        const fetchData = async () => {
+            setLoading(true)
+            setError(null)
+
+            try {
+                // Simulate API call
+                await new Promise(resolve => setTimeout(resolve, 1000))
+
+                if (!cancelled) {
+                    // Mock successful response
+                    setData({ message: `Data from ${url}`, timestamp: new Date().toISOString() } as T)
+                }
+            } catch (err) {
+                if (!cancelled) {
+                    setError(err instanceof Error ? err.message : 'An error occurred')
+                }
+            } finally {
+                if (!cancelled) {
+                    setLoading(false)
+                }
+            }
+        }
+
+        fetchData()
+
+        return () => {
+            cancelled = true
+        }
+    }, [url, enabled])
+
+    return { data, loading, error }
+}
+// #endregion useFetch
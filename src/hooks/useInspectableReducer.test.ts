@@ -0,0 +1,59 @@
+import { act, renderHook } from '@testing-library/react'
+import { describe, expect, it } from 'vitest'
+import { useInspectableReducer } from '@/hooks/useInspectableReducer.ts'
+
+const add = (state: number, amount: number) => state + amount
+
+const renderReducer = (limit?: number) => {
+    const { result } = renderHook(() => useInspectableReducer(add, 0, { limit }))
+    const dispatch = (...amounts: number[]) => act(() => amounts.forEach(amount => result.current[1](amount)))
+    return { result, dispatch }
+}
+
+describe('useInspectableReducer', () => {
+    it('records each action with the states around it', () => {
+        const { result, dispatch } = renderReducer()
+
+        dispatch(1, 2)
+
+        const [state, , inspector] = result.current
+        expect(state).toBe(3)
+        expect(inspector.entries.map(({ action, before, after }) => ({ action, before, after }))).toEqual([
+            { action: 1, before: 0, after: 1 },
+            { action: 2, before: 1, after: 3 }
+        ])
+        expect(inspector.cursor).toBe(2)
+    })
+
+    it('folds the oldest actions into the initial state past the limit', () => {
+        const { result, dispatch } = renderReducer(2)
+
+        dispatch(1, 2, 3, 4)
+
+        const [state, , inspector] = result.current
+        expect(state).toBe(10)
+        expect(inspector.initialState).toBe(3)
+        expect(inspector.entries.map(entry => entry.action)).toEqual([3, 4])
+        expect(inspector.cursor).toBe(2)
+    })
+
+    it('keeps no actions when the limit is 0', () => {
+        const { result, dispatch } = renderReducer(0)
+
+        dispatch(1, 2)
+
+        expect(result.current[0]).toBe(3)
+        expect(result.current[2].entries).toEqual([])
+    })
+
+    it('drops the actions after the shown state when dispatching from the past', () => {
+        const { result, dispatch } = renderReducer()
+
+        dispatch(1, 2)
+        act(() => result.current[2].jumpTo(1))
+        dispatch(10)
+
+        expect(result.current[0]).toBe(11)
+        expect(result.current[2].entries.map(entry => entry.action)).toEqual([1, 10])
+    })
+})
@@ -0,0 +1,110 @@
+import { useCallback, useDebugValue, useMemo, useReducer, type Reducer } from 'react'
+import { statesEqual } from '@/lib/state-diff.ts'
+
+// #region useInspectableReducer
+export interface ReducerHistoryEntry<S, A> {
+    action: A
+    before: S
+    after: S
+    time: number
+    // Set by a replay: whether running the action again produced the same state
+    replayed: 'same' | 'different' | null
+}
+
+// What the debugger panel reads and controls
+export interface ReducerInspector<S, A> {
+    entries: ReducerHistoryEntry<S, A>[]
+    cursor: number
+    initialState: S
+    jumpTo: (cursor: number) => void
+    replay: () => void
+    clear: () => void
+}
+
+interface ReducerHistory<S, A> {
+    initialState: S
+    entries: ReducerHistoryEntry<S, A>[]
+    // How many entries are applied; 0 shows the initial state
+    cursor: number
+}
+
+type HistoryAction<A> =
+    | { type: 'dispatch'; action: A; time: number }
+    | { type: 'jump'; cursor: number }
+    | { type: 'replay' }
+    | { type: 'clear' }
+
+const presentState = <S, A>({ initialState, entries, cursor }: ReducerHistory<S, A>) =>
+    cursor === 0 ? initialState : entries[cursor - 1].after
+
+const historyReducer = <S, A>(reducer: Reducer<S, A>, limit: number) =>
+    (history: ReducerHistory<S, A>, historyAction: HistoryAction<A>): ReducerHistory<S, A> => {
+        switch (historyAction.type) {
+            case 'dispatch': {
+                // Dispatching from a past state drops the actions that came after it
+                const before = presentState(history)
+                const { action, time } = historyAction
+                const entry = { action, before, after: reducer(before, action), time, replayed: null }
+                const entries = [...history.entries.slice(0, history.cursor), entry]
+                // Past the limit the oldest actions are folded into the initial state, so a timer
+                // ticking away doesn't grow the history forever
+                const dropped = Math.max(0, entries.length - Math.max(0, limit))
+                return {
+                    initialState: dropped > 0 ? entries[dropped - 1].after : history.initialState,
+                    entries: entries.slice(dropped),
+                    cursor: entries.length - dropped
+                }
+            }
+            case 'jump':
+                return { ...history, cursor: Math.max(0, Math.min(historyAction.cursor, history.entries.length)) }
+            case 'replay': {
+                // Runs every recorded action again from the initial state. A pure reducer gives
+                // back the same states it did the first time.
+                let state = history.initialState
+                const entries = history.entries.map(entry => {
+                    const after = reducer(state, entry.action)
+                    const replayed = statesEqual(after, entry.after) ? 'same' as const : 'different' as const
+                    const replayedEntry = { ...entry, before: state, after, replayed }
+                    state = after
+                    return replayedEntry
+                })
+                return { ...history, entries, cursor: 0 }
+            }
+            case 'clear':
+                return { initialState: presentState(history), entries: [], cursor: 0 }
+            default:
+                return history
+        }
+    }
+
+export interface InspectableReducerOptions {
+    // Most actions kept, like withUndo's limit; the oldest are dropped first
+    limit?: number
+}
+
+// useReducer that records every action with the states before and after it, so a debugger
+// panel can step back and forth through them. While a past state is shown, the component
+// renders that state.
+export function useInspectableReducer<S, A>(reducer: Reducer<S, A>, initialState: S, { limit = 100 }: InspectableReducerOptions = {}) {
+    const [history, dispatchHistory] = useReducer(
+        useMemo(() => historyReducer(reducer, limit), [reducer, limit]),
+        { initialState, entries: [], cursor: 0 }
+    )
+    const state = presentState(history)
+
+    useDebugValue(history, ({ entries, cursor }) => `${cursor} of ${entries.length} actions applied`)
+
+    const dispatch = useCallback((action: A) => dispatchHistory({ type: 'dispatch', action, time: Date.now() }), [])
+
+    const inspector = useMemo((): ReducerInspector<S, A> => ({
+        entries: history.entries,
+        cursor: history.cursor,
+        initialState: history.initialState,
+        jumpTo: (cursor: number) => dispatchHistory({ type: 'jump', cursor }),
+        replay: () => dispatchHistory({ type: 'replay' }),
+        clear: () => dispatchHistory({ type: 'clear' })
+    }), [history])
+
+    return [state, dispatch, inspector] as const
+}
+// #endregion useInspectableReducer
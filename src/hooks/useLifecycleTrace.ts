@@ -0,0 +1,23 @@
+import { useInsertionEffect } from 'react'
+import type { LifecycleTimeline } from '@/lib/lifecycle-timeline.ts'
+
+// #region useLifecycleTrace
+// Records a component's renders and commits on a lifecycle timeline. Its effects are traced
+// separately, from inside each effect:
+//
+//   useLifecycleTrace(timeline, 'Counter')
+//   useEffect(() => timeline.effect('Counter', 'sync title', () => { ... }, { count }), [count])
+export function useLifecycleTrace(timeline: LifecycleTimeline, component: string) {
+    // Insertion effects run while React applies DOM changes, before any layout effect. The render is
+    // recorded here too rather than while rendering: a render that never commits (StrictMode's
+    // second call, or the hook inspector running the component again) must not touch the timeline.
+    useInsertionEffect(() => {
+        timeline.record({ phase: 'render', component })
+        timeline.record({ phase: 'commit', component })
+    })
+    useInsertionEffect(() => () => {
+        timeline.record({ phase: 'commit', component, label: 'unmount' })
+        timeline.forget(component)
+    }, [timeline, component])
+}
+// #endregion useLifecycleTrace
@@ -0,0 +1,57 @@
+import { act, renderHook } from '@testing-library/react'
+import { describe, expect, it, vi } from 'vitest'
+import { useLocalStorage } from '@/hooks/useLocalStorage.ts'
+
+describe('useLocalStorage', () => {
+    it('stores the value and reads it back', () => {
+        const { result } = renderHook(() => useLocalStorage('count', 0))
+
+        act(() => result.current[1](count => count + 1))
+
+        expect(result.current[0]).toBe(1)
+        expect(localStorage.getItem('count')).toBe('1')
+    })
+
+    it('falls back to the initial value when the stored one can\'t be parsed', () => {
+        localStorage.setItem('count', '{')
+        const onError = vi.fn()
+        const { result } = renderHook(() => useLocalStorage('count', 0, { onError }))
+
+        expect(result.current[0]).toBe(0)
+        expect(result.current[2].error?.kind).toBe('parse')
+        expect(onError).toHaveBeenCalledOnce()
+    })
+
+    it.each<[string, unknown]>([
+        ['a circular object', (() => {
+            const value: Record<string, unknown> = {}
+            value.self = value
+            return value
+        })()],
+        ['a BigInt', 1n],
+        ['undefined', undefined]
+    ])('reports %s it can\'t serialize and keeps the stored value', (_, value) => {
+        localStorage.setItem('settings', '"stored"')
+        const onError = vi.fn()
+        const { result } = renderHook(() => useLocalStorage<unknown>('settings', null, { onError }))
+
+        act(() => result.current[1](value))
+
+        expect(localStorage.getItem('settings')).toBe('"stored"')
+        expect(result.current[0]).toBe('stored')
+        expect(result.current[2].error?.kind).toBe('serialize')
+        expect(onError).toHaveBeenCalledWith(result.current[2].error)
+    })
+
+    it('reports a full storage as a quota error', () => {
+        vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+            throw new DOMException('Full', 'QuotaExceededError')
+        })
+        const { result } = renderHook(() => useLocalStorage('count', 0))
+
+        act(() => result.current[1](1))
+
+        expect(result.current[0]).toBe(0)
+        expect(result.current[2].error?.kind).toBe('quota')
+    })
+})
@@ -0,0 +1,160 @@
+import { useCallback, useDebugValue, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react'
+
+// #region useLocalStorage
+export type LocalStorageErrorKind =
+    // The stored string couldn't be deserialized
+    | 'parse'
+    // The deserialized value was rejected by `validate`
+    | 'validation'
+    // The value to store couldn't be serialized (e.g. a circular object or a BigInt)
+    | 'serialize'
+    // The browser refused to store more data
+    | 'quota'
+    // Storage is disabled or blocked (e.g. some private modes)
+    | 'unavailable'
+
+export class LocalStorageError extends Error {
+    readonly kind: LocalStorageErrorKind
+    readonly key: string
+
+    constructor(kind: LocalStorageErrorKind, key: string, cause: unknown) {
+        super(`${kind} error for localStorage key "${key}": ${cause instanceof Error ? cause.message : String(cause)}`, { cause })
+        this.name = 'LocalStorageError'
+        this.kind = kind
+        this.key = key
+    }
+}
+
+export interface LocalStorageOptions<T> {
+    // Defaults to JSON.stringify and JSON.parse
+    serialize?: (value: T) => string
+    deserialize?: (raw: string) => unknown
+    // Turns what was read into a T: return it, migrate an older version of it, or throw if it
+    // can't be used, in which case the initial value is returned instead
+    validate?: (value: unknown) => T
+    onError?: (error: LocalStorageError) => void
+}
+
+const readItem = (key: string) => {
+    try {
+        return window.localStorage.getItem(key)
+    } catch {
+        return null
+    }
+}
+
+const isQuotaError = (error: unknown) =>
+    error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+
+// Writes a raw string (or removes the key when given null). Browsers only send `storage`
+// events to other tabs, so one is dispatched here too to update hooks in this tab.
+export const writeLocalStorage = (key: string, raw: string | null) => {
+    const oldValue = readItem(key)
+    if (raw === null) {
+        window.localStorage.removeItem(key)
+    } else {
+        window.localStorage.setItem(key, raw)
+    }
+    window.dispatchEvent(new StorageEvent('storage', { key, oldValue, newValue: raw, storageArea: window.localStorage }))
+}
+
+const decode = <T>(key: string, raw: string | null, initialValue: T, options: LocalStorageOptions<T>) => {
+    if (raw === null) {
+        return { value: initialValue, error: null }
+    }
+
+    let parsed: unknown
+    try {
+        parsed = (options.deserialize ?? JSON.parse)(raw)
+    } catch (error) {
+        return { value: initialValue, error: new LocalStorageError('parse', key, error) }
+    }
+
+    try {
+        return { value: options.validate ? options.validate(parsed) : parsed as T, error: null }
+    } catch (error) {
+        return { value: initialValue, error: new LocalStorageError('validation', key, error) }
+    }
+}
+
+export function useLocalStorage<T>(key: string, initialValue: T, options: LocalStorageOptions<T> = {}) {
+    // Options are usually inline functions, so the latest ones are read from a ref rather than
+    // re-parsing the stored value whenever they change identity
+    const optionsRef = useRef(options)
+    useEffect(() => {
+        optionsRef.current = options
+    })
+    const [fallback] = useState(initialValue)
+
+    const subscribe = useCallback((onChange: () => void) => {
+        const handleStorage = (event: StorageEvent) => {
+            // A null key means the whole storage was cleared
+            if (event.storageArea === window.localStorage && (event.key === key || event.key === null)) {
+                onChange()
+            }
+        }
+        window.addEventListener('storage', handleStorage)
+        return () => window.removeEventListener('storage', handleStorage)
+    }, [key])
+
+    // The raw string is the snapshot: it's cheap to compare and only changes when storage does
+    const raw = useSyncExternalStore(subscribe, () => readItem(key), () => null)
+    const read = useMemo(() => decode(key, raw, fallback, optionsRef.current), [key, raw, fallback])
+
+    // Write errors are tied to the stored value they failed to replace, and disappear once it changes
+    const [writeError, setWriteError] = useState<{ raw: string | null; error: LocalStorageError } | null>(null)
+    const error = writeError?.raw === raw ? writeError.error : read.error
+
+    // Report each read error once, even though StrictMode runs effects twice
+    const reportedRef = useRef<LocalStorageError | null>(null)
+    useEffect(() => {
+        if (read.error && reportedRef.current !== read.error) {
+            reportedRef.current = read.error
+            optionsRef.current.onError?.(read.error)
+        }
+    }, [read.error])
+
+    useDebugValue(
+        { key, value: read.value, error },
+        ({ key, value, error }) => error
+            ? `localStorage[${key}]: ${error.kind} error`
+            : `localStorage[${key}]: ${JSON.stringify(value)?.slice(0, 50)}...`
+    )
+
+    // The stored value stays as it was, so the error is kept until that changes
+    const failWrite = useCallback((error: LocalStorageError) => {
+        setWriteError({ raw: readItem(key), error })
+        optionsRef.current.onError?.(error)
+    }, [key])
+
+    const write = useCallback((next: string | null) => {
+        try {
+            writeLocalStorage(key, next)
+            setWriteError(null)
+        } catch (cause) {
+            failWrite(new LocalStorageError(isQuotaError(cause) ? 'quota' : 'unavailable', key, cause))
+        }
+    }, [key, failWrite])
+
+    const setValue = useCallback((value: T | ((current: T) => T)) => {
+        const { serialize = JSON.stringify } = optionsRef.current
+        // Read storage again instead of trusting this render's value: another tab may have written since
+        const current = decode(key, readItem(key), fallback, optionsRef.current).value
+        const nextValue = value instanceof Function ? value(current) : value
+        let next: string
+        try {
+            next = serialize(nextValue)
+            // JSON.stringify returns undefined for undefined and functions, which would be stored as "undefined"
+            if (typeof next !== 'string') throw new TypeError(`serialize returned ${typeof next}`)
+        } catch (cause) {
+            failWrite(new LocalStorageError('serialize', key, cause))
+            return
+        }
+        write(next)
+    }, [key, fallback, write, failWrite])
+
+    const remove = useCallback(() => write(null), [write])
+
+    return [read.value, setValue, { error, remove }] as const
+}
+// #endregion useLocalStorage
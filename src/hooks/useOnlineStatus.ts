@@ -0,0 +1,40 @@
+import { useDebugValue, useEffect, useState } from 'react'
+
+// #region useOnlineStatus
+export function useOnlineStatus() {
+    const [isOnline, setIsOnline] = useState(navigator.onLine)
+    const [lastChanged, setLastChanged] = useState<Date | null>(null)
+
+    // Debug value with timestamp
+    useDebugValue(
+        { isOnline, lastChanged },
+        ({ isOnline, lastChanged }) => {
+            const status = isOnline ? '🟢 Online' : '🔴 Offline'
+            const time = lastChanged ? lastChanged.toLocaleTimeString() : 'Never'
+            return `${status} (changed: ${time})`
+        }
+    )
+
+    useEffect(() => {
+        const handleOnline = () => {
+            setIsOnline(true)
+            setLastChanged(new Date())
+        }
+
+        const handleOffline = () => {
+            setIsOnline(false)
+            setLastChanged(new Date())
+        }
+
+        window.addEventListener('online', handleOnline)
+        window.addEventListener('offline', handleOffline)
+
+        return () => {
+            window.removeEventListener('online', handleOnline)
+            window.removeEventListener('offline', handleOffline)
+        }
+    }, [])
+
+    return { isOnline, lastChanged }
+}
+// #endregion useOnlineStatus
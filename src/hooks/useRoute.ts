@@ -0,0 +1,29 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react'
+import { navigate, parseHash, type Route } from '@/lib/routing.ts'
+import { getHook } from '@/lib/registry.ts'
+
+const subscribe = (onChange: () => void) => {
+    window.addEventListener('hashchange', onChange)
+    return () => window.removeEventListener('hashchange', onChange)
+}
+
+const getHash = () => window.location.hash
+
+export function useRoute(): Route {
+    const hash = useSyncExternalStore(subscribe, getHash, () => '')
+    return useMemo(() => parseHash(hash), [hash])
+}
+
+// Drives a demo's <Tabs> from the URL, using the tab list from the hook registry.
+// The first tab is used when the URL names none (or names one this demo doesn't have).
+export function useRouteTab() {
+    const { hook, tab } = useRoute()
+    const { tabs } = getHook(hook)
+    const value = tabs.find(t => t.id === tab)?.id ?? tabs[0].id
+
+    const setTab = useCallback((next: string) => {
+        navigate({ hook, tab: next })
+    }, [hook])
+
+    return { tab: value, setTab, tabs }
+}
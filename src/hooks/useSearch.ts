@@ -0,0 +1,31 @@
+import { useDebugValue, useMemo, useState } from 'react'
+
+// #region useSearch
+export function useSearch<T>(items: T[], searchTerm: string, searchFn: (item: T, term: string) => boolean) {
+    const [isSearching, setIsSearching] = useState(false)
+
+    const results = useMemo(() => {
+        if (!searchTerm.trim()) return items
+
+        setIsSearching(true)
+        const filtered = items.filter(item => searchFn(item, searchTerm))
+
+        // Simulate search delay
+        setTimeout(() => setIsSearching(false), 100)
+
+        return filtered
+    }, [items, searchTerm, searchFn])
+
+    // Debug value with search statistics
+    useDebugValue(
+        { searchTerm, totalItems: items.length, resultCount: results.length, isSearching },
+        ({ searchTerm, totalItems, resultCount, isSearching }) => {
+            if (isSearching) return '🔍 Searching...'
+            if (!searchTerm) return `📋 All items (${totalItems})`
+            return `🔍 "${searchTerm}": ${resultCount}/${totalItems} results`
+        }
+    )
+
+    return { results, isSearching }
+}
+// #endregion useSearch
@@ -0,0 +1,12 @@
+import { useContext } from 'react'
+import { SettingsContext } from '@/lib/settings-context.ts'
+
+// #region useSettings
+export function useSettings() {
+    const context = useContext(SettingsContext)
+    if (!context) {
+        throw new Error('useSettings must be used within a SettingsProvider')
+    }
+    return context
+}
+// #endregion useSettings
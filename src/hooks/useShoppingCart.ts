@@ -0,0 +1,49 @@
+import { useCallback, useDebugValue, useMemo, useState } from 'react'
+import type { CartItem } from '@/lib/cart-context.ts'
+
+// #region useShoppingCart
+export function useShoppingCart() {
+    const [items, setItems] = useState<CartItem[]>([])
+
+    const totalItems = useMemo(() =>
+            items.reduce((sum, item) => sum + item.quantity, 0),
+        [items]
+    )
+
+    const totalPrice = useMemo(() =>
+            items.reduce((sum, item) => sum + (item.price * item.quantity), 0),
+        [items]
+    )
+
+    // Debug value with complex computed state
+    useDebugValue(
+        { items, totalItems, totalPrice },
+        ({ items, totalItems, totalPrice }) =>
+            `Cart: ${items.length} types, ${totalItems} items, $${totalPrice.toFixed(2)}`
+    )
+
+    const addItem = useCallback((item: Omit<CartItem, 'quantity'>) => {
+        setItems(prev => {
+            const existing = prev.find(i => i.id === item.id)
+            if (existing) {
+                return prev.map(i =>
+                    i.id === item.id
+                        ? { ...i, quantity: i.quantity + 1 }
+                        : i
+                )
+            }
+            return [...prev, { ...item, quantity: 1 }]
+        })
+    }, [])
+
+    const removeItem = useCallback((id: string) => {
+        setItems(prev => prev.filter(item => item.id !== id))
+    }, [])
+
+    const clear = useCallback(() => {
+        setItems([])
+    }, [])
+
+    return { items, totalItems, totalPrice, addItem, removeItem, clear }
+}
+// #endregion useShoppingCart
@@ -0,0 +1,12 @@
+import { useContext } from 'react'
+import { ThemeContext } from '@/lib/theme-context.ts'
+
+// #region useTheme
+export function useTheme() {
+    const context = useContext(ThemeContext)
+    if (!context) {
+        throw new Error('useTheme must be used within a ThemeProvider')
+    }
+    return context
+}
+// #endregion useTheme
@@ -0,0 +1,43 @@
+import { useCallback, useDebugValue, useEffect, useState } from 'react'
+
+// #region useTimer
+export function useTimer(duration: number) {
+    const [timeLeft, setTimeLeft] = useState(duration)
+    const [isRunning, setIsRunning] = useState(false)
+
+    // Debug value with status indicator
+    useDebugValue(
+        { timeLeft, isRunning, duration },
+        ({ timeLeft, isRunning, duration }) => {
+            const progress = ((duration - timeLeft) / duration * 100).toFixed(1)
+            const status = isRunning ? '▶️' : timeLeft === 0 ? '🏁' : '⏸️'
+            return `${status} Timer: ${timeLeft}s (${progress}%)`
+        }
+    )
+
+    useEffect(() => {
+        if (!isRunning || timeLeft === 0) return
+
+        const timer = setTimeout(() => {
+            setTimeLeft(prev => {
+                if (prev <= 1) {
+                    setIsRunning(false)
+                    return 0
+                }
+                return prev - 1
+            })
+        }, 1000)
+
+        return () => clearTimeout(timer)
+    }, [timeLeft, isRunning])
+
+    const start = useCallback(() => setIsRunning(true), [])
+    const pause = useCallback(() => setIsRunning(false), [])
+    const reset = useCallback(() => {
+        setTimeLeft(duration)
+        setIsRunning(false)
+    }, [duration])
+
+    return { timeLeft, isRunning, start, pause, reset }
+}
+// #endregion useTimer
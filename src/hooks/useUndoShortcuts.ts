@@ -0,0 +1,36 @@
+import { useEffect, type RefObject } from 'react'
+import { redo, undo, type UndoHistoryAction } from '@/lib/with-undo.ts'
+
+// #region useUndoShortcuts
+const TEXT_INPUT_TYPES = ['text', 'search', 'email', 'url', 'tel', 'password', 'number']
+
+// Checkboxes, buttons and the like have no undo of their own, so the shortcuts still work on them
+const isTextField = (target: EventTarget | null) =>
+    target instanceof HTMLTextAreaElement ||
+    (target instanceof HTMLInputElement && TEXT_INPUT_TYPES.includes(target.type)) ||
+    (target instanceof HTMLElement && target.isContentEditable)
+
+// Ctrl+Z undoes and Ctrl+Shift+Z (or Ctrl+Y) redoes while focus is inside the element; ⌘ works
+// too on macOS. Text fields keep their own undo.
+export function useUndoShortcuts(ref: RefObject<HTMLElement | null>, dispatch: (action: UndoHistoryAction) => void) {
+    useEffect(() => {
+        const element = ref.current
+        if (!element) return
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!(event.ctrlKey || event.metaKey) || event.altKey || isTextField(event.target)) return
+            const key = event.key.toLowerCase()
+            if (key === 'z') {
+                event.preventDefault()
+                dispatch(event.shiftKey ? redo() : undo())
+            } else if (key === 'y' && !event.shiftKey) {
+                event.preventDefault()
+                dispatch(redo())
+            }
+        }
+
+        element.addEventListener('keydown', handleKeyDown)
+        return () => element.removeEventListener('keydown', handleKeyDown)
+    }, [ref, dispatch])
+}
+// #endregion useUndoShortcuts
@@ -0,0 +1,12 @@
+import { useContext } from 'react'
+import { UserContext } from '@/lib/user-context.ts'
+
+// #region useUser
+export function useUser() {
+    const context = useContext(UserContext)
+    if (!context) {
+        throw new Error('useUser must be used within a UserProvider')
+    }
+    return context
+}
+// #endregion useUser
@@ -0,0 +1,38 @@
+import { useDebugValue, useEffect, useState } from 'react'
+
+// #region useUserProfile
+export interface UserProfile {
+    id: string
+    name: string
+    email: string
+    status: 'loading' | 'success' | 'error'
+}
+
+export function useUserProfile(userId: string): UserProfile {
+    const [user, setUser] = useState<UserProfile>({
+        id: userId,
+        name: '',
+        email: '',
+        status: 'loading'
+    })
+
+    // Debug value with object
+    useDebugValue(user, user => `User: ${user.name} (${user.status})`)
+
+    useEffect(() => {
+        // Simulate API call
+        const timer = setTimeout(() => {
+            setUser({
+                id: userId,
+                name: `User ${userId}`,
+                email: `user${userId}@example.com`,
+                status: 'success'
+            })
+        }, 1000)
+
+        return () => clearTimeout(timer)
+    }, [userId])
+
+    return user
+}
+// #endregion useUserProfile
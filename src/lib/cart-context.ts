@@ -0,0 +1,22 @@
+import { createContext } from 'react'
+
+// #region CartContext
+export interface CartItem {
+    id: string
+    name: string
+    price: number
+    quantity: number
+}
+
+export interface CartContextType {
+    items: CartItem[]
+    addItem: (item: Omit<CartItem, 'quantity'>) => void
+    removeItem: (id: string) => void
+    updateQuantity: (id: string, quantity: number) => void
+    clearCart: () => void
+    total: number
+    itemCount: number
+}
+
+export const CartContext = createContext<CartContextType | undefined>(undefined)
+// #endregion CartContext
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { demoConsole } from '@/lib/demo-console.ts'
+
+describe('demoConsole', () => {
+    const original = console.info
+    let unsubscribe = () => {}
+
+    afterEach(() => {
+        unsubscribe()
+        demoConsole.setPaused(false)
+        demoConsole.clear()
+    })
+
+    it('leaves the console alone until the panel subscribes', () => {
+        expect(console.info).toBe(original)
+
+        unsubscribe = demoConsole.subscribe(() => {})
+        expect(console.info).not.toBe(original)
+
+        unsubscribe()
+        expect(console.info).toBe(original)
+    })
+
+    it('captures while subscribed', () => {
+        unsubscribe = demoConsole.subscribe(() => {})
+
+        console.debug('captured %d', 42)
+
+        expect(demoConsole.getSnapshot().entries).toMatchObject([{ level: 'debug', message: 'captured 42', fromDemo: false }])
+    })
+
+    it('puts the original console back while paused', () => {
+        unsubscribe = demoConsole.subscribe(() => {})
+
+        demoConsole.setPaused(true)
+        expect(console.info).toBe(original)
+        console.debug('not captured')
+
+        demoConsole.setPaused(false)
+        expect(console.info).not.toBe(original)
+        expect(demoConsole.getSnapshot().entries).toEqual([])
+    })
+})
@@ -0,0 +1,157 @@
+import { createStore } from '@/lib/external-store.ts'
+import type { HookType } from '@/lib/registry.ts'
+import { parseHash } from '@/lib/routing.ts'
+
+// Copies console output into the in-app console panel, for readers who never open DevTools.
+// The browser console still receives everything; this module only listens in, and only while the
+// panel is mounted and not paused. The rest of the time console methods are the browser's own, so
+// DevTools shows each message's real call site.
+
+export const LOG_LEVELS = ['debug', 'log', 'info', 'warn', 'error'] as const
+export type LogLevel = typeof LOG_LEVELS[number]
+
+export interface ConsoleEntry {
+    id: number
+    level: LogLevel
+    // The demo that was open when the entry was logged
+    demo: HookType
+    // False when the demo's own code wasn't on the stack: React's warnings, the app's error
+    // boundary and anything else logged while the demo happened to be open
+    fromDemo: boolean
+    message: string
+    // When it was last logged
+    time: number
+    // Identical consecutive entries are collapsed into one, like DevTools does
+    count: number
+}
+
+interface ConsoleState {
+    entries: ConsoleEntry[]
+    paused: boolean
+}
+
+const MAX_ENTRIES = 1000
+const MAX_MESSAGE_LENGTH = 2000
+
+let state: ConsoleState = { entries: [], paused: false }
+let nextId = 1
+
+const formatValue = (value: unknown): string => {
+    if (typeof value === 'string') return value
+    if (value instanceof Error) return value.stack ?? `${value.name}: ${value.message}`
+    if (typeof value === 'function') return `ƒ ${value.name || 'anonymous'}()`
+    if (typeof value === 'object' && value !== null) {
+        try {
+            return JSON.stringify(value)
+        } catch {
+            // Circular structures, such as DOM nodes or React elements
+            return Object.prototype.toString.call(value)
+        }
+    }
+    return String(value)
+}
+
+// Applies printf-style substitutions (%s, %d, %o...) the way the browser console does, dropping
+// %c styles, then appends the remaining arguments
+const formatMessage = (args: unknown[]) => {
+    if (typeof args[0] !== 'string') {
+        return args.map(formatValue).join(' ')
+    }
+
+    const rest = args.slice(1)
+    const first = args[0].replace(/%[sdifoOc%]/g, spec => {
+        if (spec === '%%') return '%'
+        if (rest.length === 0) return spec
+
+        const value = rest.shift()
+        switch (spec) {
+            case '%c':
+                return ''
+            case '%d':
+            case '%i':
+                return String(Math.trunc(Number(value)))
+            case '%f':
+                return String(Number(value))
+            default:
+                return formatValue(value)
+        }
+    })
+    return [first, ...rest.map(formatValue)].join(' ')
+}
+
+// A demo module in the stack: the source file on the dev server and in tests, or the chunk the
+// build splits it into (UseStateDemo-[hash].js). Shared hooks calling back later, from a timer or
+// a storage event, have no demo frame left and are counted as the app's.
+const DEMO_FRAME = /\/(?:hook-components\/\w+Demo\.tsx|assets\/\w+Demo-[\w-]+\.js)/
+
+const capture = (level: LogLevel, args: unknown[]) => {
+    const message = formatMessage(args).slice(0, MAX_MESSAGE_LENGTH)
+    const demo = parseHash(window.location.hash).hook
+    const fromDemo = DEMO_FRAME.test(new Error().stack ?? '')
+    const time = Date.now()
+    const last = state.entries.at(-1)
+
+    if (last && last.level === level && last.demo === demo && last.fromDemo === fromDemo && last.message === message) {
+        setState({ entries: [...state.entries.slice(0, -1), { ...last, time, count: last.count + 1 }] })
+    } else {
+        setState({ entries: [...state.entries.slice(1 - MAX_ENTRIES), { id: nextId++, level, demo, fromDemo, message, time, count: 1 }] })
+    }
+}
+
+// Replaces the console methods with ones that also capture, returning a function that puts the
+// originals back
+const wrapConsole = () => {
+    const originals = LOG_LEVELS.map(level => [level, console[level]] as const)
+    for (const [level, original] of originals) {
+        console[level] = (...args: unknown[]) => {
+            try {
+                capture(level, args)
+            } catch {
+                // A broken capture must never stop the message reaching the real console
+            }
+            original.apply(console, args)
+        }
+    }
+    return () => {
+        for (const [level, original] of originals) console[level] = original
+    }
+}
+
+let observed = false
+let unwrapConsole: (() => void) | null = null
+
+const updateCapture = () => {
+    const capturing = observed && !state.paused
+    if (capturing && !unwrapConsole) {
+        unwrapConsole = wrapConsole()
+    } else if (!capturing && unwrapConsole) {
+        unwrapConsole()
+        unwrapConsole = null
+    }
+}
+
+const { subscribe, getSnapshot, notify } = createStore(() => state, {
+    onObserved: () => {
+        observed = true
+        updateCapture()
+        return () => {
+            observed = false
+            updateCapture()
+        }
+    }
+})
+
+const setState = (changes: Partial<ConsoleState>) => {
+    state = { ...state, ...changes }
+    notify()
+}
+
+export const demoConsole = {
+    subscribe,
+    getSnapshot,
+    setPaused: (paused: boolean) => {
+        setState({ paused })
+        updateCapture()
+    },
+    clear: () => setState({ entries: [] })
+}
@@ -0,0 +1,19 @@
+import { lazy, type ComponentType, type LazyExoticComponent } from 'react'
+import type { HookInfo, HookType } from '@/lib/registry.ts'
+
+const components = new Map<HookType, LazyExoticComponent<ComponentType>>()
+
+// One lazy component per hook, so revisiting a page doesn't suspend again
+export const getDemoComponent = ({ id, load }: HookInfo) => {
+    let component = components.get(id)
+    if (!component) {
+        component = lazy(load)
+        components.set(id, component)
+    }
+    return component
+}
+
+// React.lazy remembers a failed import forever, so a retry needs a fresh lazy component
+export const discardDemoComponent = (id: HookType) => {
+    components.delete(id)
+}
@@ -0,0 +1,270 @@
+import fc from 'fast-check'
+import { describe, expect, it, vi } from 'vitest'
+import {
+    addTodo,
+    cartReducer,
+    counterReducer,
+    formReducer,
+    timerReducer,
+    todoReducer,
+    type CartAction,
+    type CartState,
+    type CounterAction,
+    type CounterState,
+    type FormState,
+    type TimerAction,
+    type TimerState,
+    type TodoAction,
+    type TodoState
+} from '@/lib/demo-reducers.ts'
+
+// Reducers must not mutate their input; frozen state makes any attempt throw
+const deepFreeze = <T>(value: T): T => {
+    if (typeof value === 'object' && value !== null) {
+        Object.values(value).forEach(deepFreeze)
+        Object.freeze(value)
+    }
+    return value
+}
+
+const run = <S, A>(reducer: (state: S, action: A) => S, state: S, actions: A[]) =>
+    actions.reduce((current, action) => reducer(deepFreeze(current), action), state)
+
+describe('counterReducer', () => {
+    const initial: CounterState = { count: 0, step: 1 }
+
+    it.each<[string, CounterState, CounterAction, CounterState]>([
+        ['increments by the step', { count: 1, step: 5 }, { type: 'INCREMENT' }, { count: 6, step: 5 }],
+        ['decrements by the step', { count: 1, step: 5 }, { type: 'DECREMENT' }, { count: -4, step: 5 }],
+        ['resets the count but keeps the step', { count: 7, step: 2 }, { type: 'RESET' }, { count: 0, step: 2 }],
+        ['sets the step', initial, { type: 'SET_STEP', payload: 10 }, { count: 0, step: 10 }],
+        ['sets the count', initial, { type: 'SET_COUNT', payload: 42 }, { count: 42, step: 1 }]
+    ])('%s', (_, state, action, expected) => {
+        expect(counterReducer(deepFreeze(state), action)).toEqual(expected)
+    })
+
+    it('returns the same state for an unknown action', () => {
+        expect(counterReducer(initial, { type: 'UNKNOWN' } as unknown as CounterAction)).toBe(initial)
+    })
+
+    it('ends at the start plus step times (increments - decrements)', () => {
+        fc.assert(fc.property(
+            fc.integer({ min: -100, max: 100 }),
+            fc.integer({ min: 1, max: 10 }),
+            fc.array(fc.constantFrom<CounterAction>({ type: 'INCREMENT' }, { type: 'DECREMENT' })),
+            (count, step, actions) => {
+                const increments = actions.filter(action => action.type === 'INCREMENT').length
+                const decrements = actions.length - increments
+                const result = run(counterReducer, { count, step }, actions)
+                expect(result).toEqual({ count: count + step * (increments - decrements), step })
+            }
+        ))
+    })
+})
+
+describe('timerReducer', () => {
+    const initial: TimerState = { seconds: 0, isRunning: false, interval: 1000 }
+
+    it.each<[string, TimerState, TimerAction, TimerState]>([
+        ['starts', initial, { type: 'START' }, { ...initial, isRunning: true }],
+        ['pauses without resetting', { ...initial, seconds: 5, isRunning: true }, { type: 'PAUSE' }, { ...initial, seconds: 5 }],
+        ['stops and resets', { ...initial, seconds: 5, isRunning: true }, { type: 'STOP' }, initial],
+        ['ticks while running', { ...initial, seconds: 5, isRunning: true }, { type: 'TICK' }, { ...initial, seconds: 6, isRunning: true }],
+        ['sets the interval', initial, { type: 'SET_INTERVAL', payload: 250 }, { ...initial, interval: 250 }]
+    ])('%s', (_, state, action, expected) => {
+        expect(timerReducer(deepFreeze(state), action)).toEqual(expected)
+    })
+
+    it('ignores ticks while paused', () => {
+        expect(timerReducer(initial, { type: 'TICK' })).toBe(initial)
+    })
+
+    it('counts the ticks received while running since the last stop', () => {
+        const action = fc.constantFrom<TimerAction>({ type: 'START' }, { type: 'PAUSE' }, { type: 'STOP' }, { type: 'TICK' })
+        fc.assert(fc.property(fc.array(action), actions => {
+            let expected = 0
+            let running = false
+            for (const { type } of actions) {
+                if (type === 'START') running = true
+                if (type === 'PAUSE') running = false
+                if (type === 'STOP') [running, expected] = [false, 0]
+                if (type === 'TICK' && running) expected++
+            }
+            const result = run(timerReducer, initial, actions)
+            expect(result.seconds).toBe(expected)
+            expect(result.isRunning).toBe(running)
+        }))
+    })
+})
+
+describe('todoReducer', () => {
+    const initial: TodoState = {
+        todos: [
+            { id: '1', text: 'Learn useReducer', completed: false, priority: 'high' },
+            { id: '2', text: 'Build todo app', completed: true, priority: 'medium' }
+        ],
+        filter: 'all',
+        editingId: null
+    }
+
+    it.each<[string, TodoAction, Partial<TodoState>]>([
+        ['adds an active todo', { type: 'ADD_TODO', payload: { id: '3', text: 'Write tests', priority: 'low' } }, {
+            todos: [...initial.todos, { id: '3', text: 'Write tests', completed: false, priority: 'low' }]
+        }],
+        ['toggles a todo', { type: 'TOGGLE_TODO', payload: '1' }, {
+            todos: [{ ...initial.todos[0], completed: true }, initial.todos[1]]
+        }],
+        ['deletes a todo', { type: 'DELETE_TODO', payload: '1' }, { todos: [initial.todos[1]] }],
+        ['starts editing', { type: 'EDIT_TODO', payload: '2' }, { editingId: '2' }],
+        ['updates the text and stops editing', { type: 'UPDATE_TODO', payload: { id: '2', text: 'Ship it' } }, {
+            todos: [initial.todos[0], { ...initial.todos[1], text: 'Ship it' }],
+            editingId: null
+        }],
+        ['sets the filter', { type: 'SET_FILTER', payload: 'completed' }, { filter: 'completed' }],
+        ['clears completed todos', { type: 'CLEAR_COMPLETED' }, { todos: [initial.todos[0]] }],
+        ['sets the priority', { type: 'SET_PRIORITY', payload: { id: '1', priority: 'low' } }, {
+            todos: [{ ...initial.todos[0], priority: 'low' }, initial.todos[1]]
+        }]
+    ])('%s', (_, action, changes) => {
+        expect(todoReducer(deepFreeze(structuredClone(initial)), action)).toEqual({ ...initial, ...changes })
+    })
+
+    it('gives new todos a timestamp id when the action is created', () => {
+        vi.useFakeTimers()
+        vi.setSystemTime(1_000)
+
+        const action = addTodo('Write tests', 'low')
+        vi.setSystemTime(2_000)
+
+        expect(action).toEqual({ type: 'ADD_TODO', payload: { id: '1000', text: 'Write tests', priority: 'low' } })
+        // Replaying the same action gives the same state
+        expect(todoReducer(initial, action)).toEqual(todoReducer(initial, action))
+    })
+
+    it('cancels editing', () => {
+        expect(todoReducer({ ...initial, editingId: '1' }, { type: 'CANCEL_EDIT' })).toEqual(initial)
+    })
+
+    it('undoes a toggle by toggling again', () => {
+        fc.assert(fc.property(fc.constantFrom('1', '2', 'missing'), id => {
+            const toggle: TodoAction = { type: 'TOGGLE_TODO', payload: id }
+            expect(run(todoReducer, initial, [toggle, toggle])).toEqual(initial)
+        }))
+    })
+
+    it('deletes only the todo with the given id', () => {
+        fc.assert(fc.property(fc.uniqueArray(fc.string({ minLength: 1 }), { minLength: 1 }), fc.nat(), (ids, index) => {
+            const todos = ids.map(id => ({ id, text: id, completed: false, priority: 'medium' as const }))
+            const deleted = ids[index % ids.length]
+            const result = todoReducer(deepFreeze({ ...initial, todos }), { type: 'DELETE_TODO', payload: deleted })
+            expect(result.todos).toEqual(todos.filter(todo => todo.id !== deleted))
+        }))
+    })
+})
+
+describe('cartReducer', () => {
+    const empty: CartState = { items: [], discount: 0, shipping: 0, tax: 0 }
+    const book = { id: '1', name: 'React Book', price: 29.99 }
+    const guide = { id: '2', name: 'TypeScript Guide', price: 39.99 }
+
+    it.each<[string, CartAction[], Partial<CartState>]>([
+        ['adds a new item once', [{ type: 'ADD_ITEM', payload: book }], { items: [{ ...book, quantity: 1 }] }],
+        ['increases the quantity of an item already in the cart', [
+            { type: 'ADD_ITEM', payload: book },
+            { type: 'ADD_ITEM', payload: book }
+        ], { items: [{ ...book, quantity: 2 }] }],
+        ['removes an item', [
+            { type: 'ADD_ITEM', payload: book },
+            { type: 'ADD_ITEM', payload: guide },
+            { type: 'REMOVE_ITEM', payload: '1' }
+        ], { items: [{ ...guide, quantity: 1 }] }],
+        ['updates a quantity', [
+            { type: 'ADD_ITEM', payload: book },
+            { type: 'UPDATE_QUANTITY', payload: { id: '1', quantity: 5 } }
+        ], { items: [{ ...book, quantity: 5 }] }],
+        ['removes an item whose quantity drops to zero', [
+            { type: 'ADD_ITEM', payload: book },
+            { type: 'UPDATE_QUANTITY', payload: { id: '1', quantity: 0 } }
+        ], { items: [] }],
+        ['applies a discount', [{ type: 'APPLY_DISCOUNT', payload: 15 }], { discount: 15 }],
+        ['sets shipping', [{ type: 'SET_SHIPPING', payload: 4.5 }], { shipping: 4.5 }],
+        ['clears items, discount and shipping but keeps tax', [
+            { type: 'ADD_ITEM', payload: book },
+            { type: 'CALCULATE_TAX' },
+            { type: 'APPLY_DISCOUNT', payload: 10 },
+            { type: 'SET_SHIPPING', payload: 5 },
+            { type: 'CLEAR_CART' }
+        ], { tax: 29.99 * 0.08 }]
+    ])('%s', (_, actions, changes) => {
+        expect(run(cartReducer, empty, actions)).toEqual({ ...empty, ...changes })
+    })
+
+    const cartAction = fc.oneof(
+        fc.constantFrom(book, guide).map((payload): CartAction => ({ type: 'ADD_ITEM', payload })),
+        fc.constantFrom('1', '2').map((payload): CartAction => ({ type: 'REMOVE_ITEM', payload })),
+        fc.record({ id: fc.constantFrom('1', '2'), quantity: fc.integer({ min: -3, max: 10 }) })
+            .map((payload): CartAction => ({ type: 'UPDATE_QUANTITY', payload })),
+        fc.constant<CartAction>({ type: 'CALCULATE_TAX' })
+    )
+
+    it('keeps one line per product, each with a positive quantity', () => {
+        fc.assert(fc.property(fc.array(cartAction), actions => {
+            const { items } = run(cartReducer, empty, actions)
+            expect(new Set(items.map(item => item.id)).size).toBe(items.length)
+            items.forEach(item => expect(item.quantity).toBeGreaterThan(0))
+        }))
+    })
+
+    it('calculates tax as 8% of the subtotal', () => {
+        fc.assert(fc.property(fc.array(cartAction), actions => {
+            const state = run(cartReducer, empty, actions)
+            const subtotal = state.items.reduce((sum, item) => sum + item.price * item.quantity, 0)
+            expect(cartReducer(state, { type: 'CALCULATE_TAX' }).tax).toBeCloseTo(subtotal * 0.08)
+        }))
+    })
+})
+
+describe('formReducer', () => {
+    const empty: FormState = { values: {}, errors: {}, touched: {}, isSubmitting: false, isValid: false }
+    const withValues = (values: Record<string, string>) => ({ ...empty, values })
+
+    it.each<[string, Record<string, string>, Record<string, string>]>([
+        ['requires every field', {}, { name: 'Name is required', email: 'Email is required', phone: 'Phone is required' }],
+        ['rejects an email without a domain', { name: 'Ada', email: 'ada@', phone: '555' }, { email: 'Email is invalid' }],
+        ['rejects an email without @', { name: 'Ada', email: 'ada.example.com', phone: '555' }, { email: 'Email is invalid' }],
+        ['accepts a complete form', { name: 'Ada', email: 'ada@example.com', phone: '555' }, {}]
+    ])('validation %s', (_, values, errors) => {
+        const result = formReducer(deepFreeze(withValues(values)), { type: 'VALIDATE_FORM' })
+        expect(result.errors).toEqual(errors)
+        expect(result.isValid).toBe(Object.keys(errors).length === 0)
+    })
+
+    it('sets fields, touches them and clears only the given error', () => {
+        const state = run(formReducer, empty, [
+            { type: 'SET_FIELD', payload: { field: 'name', value: 'Ada' } },
+            { type: 'TOUCH_FIELD', payload: 'name' },
+            { type: 'SET_ERROR', payload: { field: 'name', error: 'Too short' } },
+            { type: 'SET_ERROR', payload: { field: 'email', error: 'Missing' } },
+            { type: 'CLEAR_ERROR', payload: 'name' },
+            { type: 'SET_SUBMITTING', payload: true }
+        ])
+        expect(state).toEqual({
+            values: { name: 'Ada' },
+            errors: { email: 'Missing' },
+            touched: { name: true },
+            isSubmitting: true,
+            isValid: false
+        })
+    })
+
+    it('resets to an empty form from any state', () => {
+        fc.assert(fc.property(
+            fc.dictionary(fc.constantFrom('name', 'email', 'phone'), fc.string()),
+            fc.boolean(),
+            (values, isSubmitting) => {
+                const state = { ...withValues(values), isSubmitting, touched: { name: true } }
+                expect(formReducer(deepFreeze(state), { type: 'RESET_FORM' })).toEqual(empty)
+            }
+        ))
+    })
+})
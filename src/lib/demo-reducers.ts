@@ -0,0 +1,333 @@
+// The reducers behind the useReducer demos, one region each for View source. The undo, debugger
+// and middleware examples reuse them unchanged, and demo-reducers.test.ts pins down their behavior.
+
+// Counter Reducer
+// #region counterReducer
+export interface CounterState {
+    count: number
+    step: number
+}
+
+export type CounterAction =
+    | { type: 'INCREMENT' }
+    | { type: 'DECREMENT' }
+    | { type: 'RESET' }
+    | { type: 'SET_STEP'; payload: number }
+    | { type: 'SET_COUNT'; payload: number }
+
+export const counterReducer = (state: CounterState, action: CounterAction): CounterState => {
+    switch (action.type) {
+        case 'INCREMENT':
+            return { ...state, count: state.count + state.step }
+        case 'DECREMENT':
+            return { ...state, count: state.count - state.step }
+        case 'RESET':
+            return { ...state, count: 0 }
+        case 'SET_STEP':
+            return { ...state, step: action.payload }
+        case 'SET_COUNT':
+            return { ...state, count: action.payload }
+        default:
+            return state
+    }
+}
+// #endregion counterReducer
+
+// Timer Reducer
+// #region timerReducer
+export interface TimerState {
+    seconds: number
+    isRunning: boolean
+    interval: number
+}
+
+export type TimerAction =
+    | { type: 'START' }
+    | { type: 'PAUSE' }
+    | { type: 'STOP' }
+    | { type: 'TICK' }
+    | { type: 'SET_INTERVAL'; payload: number }
+
+export const timerReducer = (state: TimerState, action: TimerAction): TimerState => {
+    switch (action.type) {
+        case 'START':
+            return { ...state, isRunning: true }
+        case 'PAUSE':
+            return { ...state, isRunning: false }
+        case 'STOP':
+            return { ...state, isRunning: false, seconds: 0 }
+        case 'TICK':
+            return state.isRunning ? { ...state, seconds: state.seconds + 1 } : state
+        case 'SET_INTERVAL':
+            return { ...state, interval: action.payload }
+        default:
+            return state
+    }
+}
+// #endregion timerReducer
+
+// Todo Reducer
+// #region todoReducer
+export interface Todo {
+    id: string
+    text: string
+    completed: boolean
+    priority: 'low' | 'medium' | 'high'
+}
+
+export interface TodoState {
+    todos: Todo[]
+    filter: 'all' | 'active' | 'completed'
+    editingId: string | null
+}
+
+export type TodoAction =
+    | { type: 'ADD_TODO'; payload: { id: string; text: string; priority: 'low' | 'medium' | 'high' } }
+    | { type: 'TOGGLE_TODO'; payload: string }
+    | { type: 'DELETE_TODO'; payload: string }
+    | { type: 'EDIT_TODO'; payload: string }
+    | { type: 'UPDATE_TODO'; payload: { id: string; text: string } }
+    | { type: 'CANCEL_EDIT' }
+    | { type: 'SET_FILTER'; payload: 'all' | 'active' | 'completed' }
+    | { type: 'CLEAR_COMPLETED' }
+    | { type: 'SET_PRIORITY'; payload: { id: string; priority: 'low' | 'medium' | 'high' } }
+
+// The id is made here, not in the reducer, so the reducer stays pure: replaying an ADD_TODO in the
+// debugger adds the same todo again
+export const addTodo = (text: string, priority: Todo['priority']): TodoAction =>
+    ({ type: 'ADD_TODO', payload: { id: Date.now().toString(), text, priority } })
+
+export const todoReducer = (state: TodoState, action: TodoAction): TodoState => {
+    switch (action.type) {
+        case 'ADD_TODO':
+            return {
+                ...state,
+                todos: [...state.todos, {
+                    id: action.payload.id,
+                    text: action.payload.text,
+                    completed: false,
+                    priority: action.payload.priority
+                }]
+            }
+        case 'TOGGLE_TODO':
+            return {
+                ...state,
+                todos: state.todos.map(todo =>
+                    todo.id === action.payload ? { ...todo, completed: !todo.completed } : todo
+                )
+            }
+        case 'DELETE_TODO':
+            return {
+                ...state,
+                todos: state.todos.filter(todo => todo.id !== action.payload)
+            }
+        case 'EDIT_TODO':
+            return {
+                ...state,
+                editingId: action.payload
+            }
+        case 'UPDATE_TODO':
+            return {
+                ...state,
+                todos: state.todos.map(todo =>
+                    todo.id === action.payload.id ? { ...todo, text: action.payload.text } : todo
+                ),
+                editingId: null
+            }
+        case 'CANCEL_EDIT':
+            return {
+                ...state,
+                editingId: null
+            }
+        case 'SET_FILTER':
+            return {
+                ...state,
+                filter: action.payload
+            }
+        case 'CLEAR_COMPLETED':
+            return {
+                ...state,
+                todos: state.todos.filter(todo => !todo.completed)
+            }
+        case 'SET_PRIORITY':
+            return {
+                ...state,
+                todos: state.todos.map(todo =>
+                    todo.id === action.payload.id ? { ...todo, priority: action.payload.priority } : todo
+                )
+            }
+        default:
+            return state
+    }
+}
+// #endregion todoReducer
+
+// Shopping Cart Reducer
+// #region cartReducer
+export interface CartItem {
+    id: string
+    name: string
+    price: number
+    quantity: number
+}
+
+export interface CartState {
+    items: CartItem[]
+    discount: number
+    shipping: number
+    tax: number
+}
+
+export type CartAction =
+    | { type: 'ADD_ITEM'; payload: Omit<CartItem, 'quantity'> }
+    | { type: 'REMOVE_ITEM'; payload: string }
+    | { type: 'UPDATE_QUANTITY'; payload: { id: string; quantity: number } }
+    | { type: 'APPLY_DISCOUNT'; payload: number }
+    | { type: 'SET_SHIPPING'; payload: number }
+    | { type: 'CLEAR_CART' }
+    | { type: 'CALCULATE_TAX' }
+
+export const cartReducer = (state: CartState, action: CartAction): CartState => {
+    switch (action.type) {
+        case 'ADD_ITEM': {
+            const existingItem = state.items.find(item => item.id === action.payload.id)
+            if (existingItem) {
+                return {
+                    ...state,
+                    items: state.items.map(item =>
+                        item.id === action.payload.id
+                            ? {...item, quantity: item.quantity + 1}
+                            : item
+                    )
+                }
+            }
+            return {
+                ...state,
+                items: [...state.items, {...action.payload, quantity: 1}]
+            }
+        }
+        case 'REMOVE_ITEM':
+            return {
+                ...state,
+                items: state.items.filter(item => item.id !== action.payload)
+            }
+        case 'UPDATE_QUANTITY':
+            if (action.payload.quantity <= 0) {
+                return {
+                    ...state,
+                    items: state.items.filter(item => item.id !== action.payload.id)
+                }
+            }
+            return {
+                ...state,
+                items: state.items.map(item =>
+                    item.id === action.payload.id
+                        ? { ...item, quantity: action.payload.quantity }
+                        : item
+                )
+            }
+        case 'APPLY_DISCOUNT':
+            return {
+                ...state,
+                discount: action.payload
+            }
+        case 'SET_SHIPPING':
+            return {
+                ...state,
+                shipping: action.payload
+            }
+        case 'CLEAR_CART':
+            return {
+                ...state,
+                items: [],
+                discount: 0,
+                shipping: 0
+            }
+        case 'CALCULATE_TAX': {
+            const subtotal = state.items.reduce((sum, item) => sum + (item.price * item.quantity), 0)
+            return {
+                ...state,
+                tax: subtotal * 0.08 // 8% tax
+            }
+        }
+        default:
+            return state
+    }
+}
+// #endregion cartReducer
+
+// Form Reducer
+// #region formReducer
+export interface FormState {
+    values: Record<string, string>
+    errors: Record<string, string>
+    touched: Record<string, boolean>
+    isSubmitting: boolean
+    isValid: boolean
+}
+
+export type FormAction =
+    | { type: 'SET_FIELD'; payload: { field: string; value: string } }
+    | { type: 'SET_ERROR'; payload: { field: string; error: string } }
+    | { type: 'CLEAR_ERROR'; payload: string }
+    | { type: 'TOUCH_FIELD'; payload: string }
+    | { type: 'SET_SUBMITTING'; payload: boolean }
+    | { type: 'VALIDATE_FORM' }
+    | { type: 'RESET_FORM' }
+
+export const formReducer = (state: FormState, action: FormAction): FormState => {
+    switch (action.type) {
+        case 'SET_FIELD':
+            return {
+                ...state,
+                values: { ...state.values, [action.payload.field]: action.payload.value }
+            }
+        case 'SET_ERROR':
+            return {
+                ...state,
+                errors: { ...state.errors, [action.payload.field]: action.payload.error }
+            }
+        case 'CLEAR_ERROR': {
+            const {[action.payload]: _, ...restErrors} = state.errors
+            return {
+                ...state,
+                errors: restErrors
+            }
+        }
+        case 'TOUCH_FIELD':
+            return {
+                ...state,
+                touched: { ...state.touched, [action.payload]: true }
+            }
+        case 'SET_SUBMITTING':
+            return {
+                ...state,
+                isSubmitting: action.payload
+            }
+        case 'VALIDATE_FORM': {
+            const errors: Record<string, string> = {}
+
+            if (!state.values.name) errors.name = 'Name is required'
+            if (!state.values.email) errors.email = 'Email is required'
+            else if (!/\S+@\S+\.\S+/.test(state.values.email)) errors.email = 'Email is invalid'
+            if (!state.values.phone) errors.phone = 'Phone is required'
+
+            return {
+                ...state,
+                errors,
+                isValid: Object.keys(errors).length === 0
+            }
+        }
+        case 'RESET_FORM':
+            return {
+                values: {},
+                errors: {},
+                touched: {},
+                isSubmitting: false,
+                isValid: false
+            }
+        default:
+            return state
+    }
+}
+// #endregion formReducer
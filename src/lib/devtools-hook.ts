@@ -0,0 +1,88 @@
+// React reports every commit to a global DevTools hook. This module creates that hook (or wraps
+// it, when DevTools or Fast Refresh already did) so the render highlighter and hook inspector can
+// follow commits without the extension. React only looks for the hook when react-dom loads, so
+// index.html creates it ahead of the bundle; importing this module first covers the dev server and tests.
+
+// The few fiber fields used by this app. Fibers are React internals, so nothing else is relied on.
+export interface Fiber {
+    tag: number
+    type: unknown
+    key: string | null
+    flags: number
+    memoizedProps: Record<string, unknown> | null
+    memoizedState: unknown
+    child: Fiber | null
+    sibling: Fiber | null
+    return: Fiber | null
+    alternate: Fiber | null
+    stateNode: unknown
+}
+
+export interface FiberRoot {
+    current: Fiber
+}
+
+interface DevToolsHook {
+    supportsFiber: boolean
+    inject: (renderer: unknown) => number
+    onCommitFiberRoot: (rendererId: number, root: FiberRoot, ...rest: unknown[]) => void
+    onCommitFiberUnmount: (...args: unknown[]) => void
+}
+
+declare global {
+    interface Window {
+        __REACT_DEVTOOLS_GLOBAL_HOOK__?: DevToolsHook
+    }
+}
+
+// Fiber tags and flags, from react-reconciler
+export const FunctionComponent = 0
+export const ClassComponent = 1
+export const HostComponent = 5
+export const ContextProvider = 10
+export const ForwardRef = 11
+export const Profiler = 12
+export const MemoComponent = 14
+export const SimpleMemoComponent = 15
+export const PerformedWork = 0b1
+
+export const getComponentName = (fiber: Fiber): string | null => {
+    const type = (fiber.tag === ForwardRef ? (fiber.type as { render?: unknown })?.render : fiber.type) as
+        { displayName?: string; name?: string } | null
+    return type?.displayName || type?.name || null
+}
+
+const roots = new Set<FiberRoot>()
+const listeners = new Set<(root: FiberRoot) => void>()
+
+// Calls `listener` after every commit, until the returned function is called
+export const onCommit = (listener: (root: FiberRoot) => void) => {
+    listeners.add(listener)
+    return () => {
+        listeners.delete(listener)
+    }
+}
+
+// Every root React has committed so far; `root.current` is always its latest tree
+export const getRoots = (): ReadonlySet<FiberRoot> => roots
+
+const installHook = () => {
+    let rendererId = 0
+    const hook = window.__REACT_DEVTOOLS_GLOBAL_HOOK__ ??= {
+        supportsFiber: true,
+        inject: () => ++rendererId,
+        onCommitFiberRoot: () => {},
+        onCommitFiberUnmount: () => {}
+    }
+
+    const onCommitFiberRoot = hook.onCommitFiberRoot
+    hook.onCommitFiberRoot = function (rendererId, root, ...rest) {
+        roots.add(root)
+        listeners.forEach(listener => listener(root))
+        return onCommitFiberRoot.call(this, rendererId, root, ...rest)
+    }
+}
+
+if (typeof window !== 'undefined') {
+    installHook()
+}
@@ -0,0 +1,44 @@
+// Helpers for the module-level stores the panels read with useSyncExternalStore
+
+// Returns a function that runs `run` in a microtask, once however many times it was called before then
+export const batchInMicrotask = (run: () => void) => {
+    let scheduled = false
+    return () => {
+        if (scheduled) return
+        scheduled = true
+        queueMicrotask(() => {
+            scheduled = false
+            run()
+        })
+    }
+}
+
+interface StoreOptions {
+    // Called when the first listener subscribes; the function it returns is called when the last
+    // one unsubscribes
+    onObserved?: () => () => void
+}
+
+// The store keeps its own state and calls `notify` after changing it. Stores are mostly written
+// while React renders or commits, when other components can't be updated, so listeners are told in a
+// microtask, once for all the changes made until then.
+export const createStore = <T>(getSnapshot: () => T, { onObserved }: StoreOptions = {}) => {
+    const listeners = new Set<() => void>()
+    let stopObserving: (() => void) | null = null
+
+    return {
+        subscribe: (listener: () => void) => {
+            listeners.add(listener)
+            if (listeners.size === 1) stopObserving = onObserved?.() ?? null
+            return () => {
+                listeners.delete(listener)
+                if (listeners.size === 0) {
+                    stopObserving?.()
+                    stopObserving = null
+                }
+            }
+        },
+        getSnapshot,
+        notify: batchInMicrotask(() => listeners.forEach(listener => listener()))
+    }
+}
@@ -0,0 +1,183 @@
+// An in-memory "backend" for the Actions demos and the reducer checkout. Every request waits for the configured
+// latency and can fail, so pending, error and rollback states can be seen on demand.
+
+export interface ServerSettings {
+    latency: number
+    // Chance from 0 to 1 that a request fails
+    failureRate: number
+    // Fails the next request regardless of failureRate, then resets itself
+    failNext: boolean
+}
+
+export class ServerError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'ServerError'
+    }
+}
+
+let settings: ServerSettings = { latency: 1000, failureRate: 0, failNext: false }
+const listeners = new Set<() => void>()
+
+// Shaped for useSyncExternalStore, so the settings panel stays in sync across demos
+export const serverSettings = {
+    subscribe: (listener: () => void) => {
+        listeners.add(listener)
+        return () => {
+            listeners.delete(listener)
+        }
+    },
+    getSnapshot: () => settings,
+    update: (changes: Partial<ServerSettings>) => {
+        settings = { ...settings, ...changes }
+        listeners.forEach(listener => listener())
+    }
+}
+
+const request = async <T>(run: () => T): Promise<T> => {
+    await new Promise(resolve => setTimeout(resolve, settings.latency))
+
+    const { failureRate, failNext } = settings
+    if (failNext) {
+        serverSettings.update({ failNext: false })
+    }
+    if (failNext || Math.random() < failureRate) {
+        throw new ServerError('The server failed to handle the request')
+    }
+    return run()
+}
+
+// Newsletter
+const subscribers = new Set(['taken@example.com'])
+
+export type SubscribeResult =
+    | { ok: true; email: string }
+    | { ok: false; reason: string }
+
+export const subscribeToNewsletter = (email: string) =>
+    request((): SubscribeResult => {
+        if (subscribers.has(email)) {
+            return { ok: false, reason: `${email} is already subscribed` }
+        }
+        subscribers.add(email)
+        return { ok: true, email }
+    })
+
+// Usernames
+const takenUsernames = new Set(['admin', 'react', 'dan'])
+
+export const registerUsername = (username: string) =>
+    request(() => {
+        const available = !takenUsernames.has(username.toLowerCase())
+        if (available) takenUsernames.add(username.toLowerCase())
+        return available
+    })
+
+// Cart
+let cartQuantity = 0
+
+// Synchronous reads like this one stand in for data that arrived with the page
+export const getCartQuantity = () => cartQuantity
+
+export const addToCart = (quantity: number) =>
+    request(() => {
+        cartQuantity += quantity
+        return cartQuantity
+    })
+
+// Messages
+export interface Message {
+    id: number
+    author: string
+    text: string
+}
+
+let nextMessageId = 1
+
+export const sendMessage = (author: string, text: string) =>
+    request((): Message => ({ id: nextMessageId++, author, text }))
+
+// Channel posts
+export interface Post {
+    id: number
+    channel: string
+    text: string
+}
+
+let nextPostId = 1
+
+export const createPost = (channel: string, text: string) =>
+    request((): Post => ({ id: nextPostId++, channel, text }))
+
+// Todos
+export interface Todo {
+    id: number
+    text: string
+    done: boolean
+}
+
+let todos: Todo[] = [
+    { id: 1, text: 'Read about Actions', done: true },
+    { id: 2, text: 'Try useOptimistic', done: false }
+]
+let nextTodoId = 3
+
+export const getTodos = () => todos
+
+export const createTodo = (text: string) =>
+    request(() => {
+        const todo = { id: nextTodoId++, text, done: false }
+        todos = [...todos, todo]
+        return todo
+    })
+
+export const setTodoDone = (id: number, done: boolean) =>
+    request(() => {
+        todos = todos.map(todo => todo.id === id ? { ...todo, done } : todo)
+        return todos.find(todo => todo.id === id)!
+    })
+
+// Likes
+export interface Likes {
+    count: number
+    liked: boolean
+}
+
+const likesByPost = new Map<string, Likes>()
+
+export const getLikes = (postId: string): Likes => likesByPost.get(postId) ?? { count: 41, liked: false }
+
+export const setLiked = (postId: string, liked: boolean) =>
+    request(() => {
+        const likes = getLikes(postId)
+        const updated = likes.liked === liked ? likes : { count: likes.count + (liked ? 1 : -1), liked }
+        likesByPost.set(postId, updated)
+        return updated
+    })
+
+// Checkout
+export interface OrderLine {
+    id: string
+    price: number
+    quantity: number
+}
+
+export interface Order {
+    id: number
+    itemCount: number
+    total: number
+}
+
+let nextOrderId = 1001
+
+export const placeOrder = (lines: OrderLine[]) =>
+    request((): Order => {
+        if (lines.length === 0) {
+            throw new ServerError('Cannot place an order for an empty cart')
+        }
+        return {
+            id: nextOrderId++,
+            itemCount: lines.reduce((sum, line) => sum + line.quantity, 0),
+            total: lines.reduce((sum, line) => sum + line.price * line.quantity, 0)
+        }
+    })
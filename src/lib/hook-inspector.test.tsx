@@ -0,0 +1,48 @@
+import { act, screen } from '@testing-library/react'
+import { describe, expect, it } from 'vitest'
+import App from '@/App.tsx'
+import { hookInspector, type ComponentNode } from '@/lib/hook-inspector.ts'
+import { renderWithUser } from '@/test/render.tsx'
+
+const findNode = (node: ComponentNode | null, name: string): ComponentNode | undefined =>
+    node?.name === name ? node : node?.children.map(child => findNode(child, name)).find(Boolean)
+
+const wait = (ms: number) => act(() => new Promise(resolve => setTimeout(resolve, ms)))
+
+describe('hookInspector', () => {
+    it('inspects a traced component without setting off more commits', async () => {
+        window.history.replaceState(null, '', '#/useLayoutEffect/visual')
+        renderWithUser(<App />)
+        await screen.findByRole('heading', { level: 1, name: /useLayoutEffect/ })
+
+        let notifications = 0
+        const unsubscribe = hookInspector.subscribe(() => notifications++)
+        const flash = findNode(hookInspector.getSnapshot().tree, 'FlashComparison')
+        expect(flash).toBeDefined()
+        act(() => hookInspector.select(flash!.path))
+        expect(hookInspector.getSnapshot().hooks.map(hook => hook.name)).toContain('LifecycleTrace')
+
+        // The lifecycle timeline paints on the next frame; after that nothing should change
+        await wait(200)
+        notifications = 0
+        await wait(300)
+        expect(notifications).toBe(0)
+        unsubscribe()
+    })
+
+    it('inspects the selected component again when the demo re-renders', async () => {
+        window.history.replaceState(null, '', '#/useLayoutEffect/visual')
+        const { user } = renderWithUser(<App />)
+        await screen.findByRole('heading', { level: 1, name: /useLayoutEffect/ })
+
+        const unsubscribe = hookInspector.subscribe(() => {})
+        act(() => hookInspector.select(findNode(hookInspector.getSnapshot().tree, 'FlashComparison')!.path))
+        const count = () => hookInspector.getSnapshot().hooks.find(hook => hook.name === 'State')?.value
+
+        expect(count()).toBe(0)
+        await user.click(screen.getByRole('button', { name: 'Trigger Change (0)' }))
+        await wait(0)
+        expect(count()).toBe(1)
+        unsubscribe()
+    })
+})
@@ -0,0 +1,459 @@
+import * as React from 'react'
+import {
+    ClassComponent,
+    ContextProvider,
+    type Fiber,
+    ForwardRef,
+    FunctionComponent,
+    getComponentName,
+    getRoots,
+    HostComponent,
+    onCommit,
+    Profiler,
+    SimpleMemoComponent
+} from '@/lib/devtools-hook.ts'
+import { batchInMicrotask, createStore } from '@/lib/external-store.ts'
+import { isHookType } from '@/lib/registry.ts'
+
+// Shows the hooks of the open demo's components, the way React DevTools does: the component is
+// rendered again with a stand-in dispatcher that answers each hook from the fiber's saved hook
+// state, and records what was called, with what value, from which custom hook.
+
+export interface InspectedHook {
+    // Position in the component's list of stateful hooks. Context, DebugValue and use() keep no
+    // state and custom hooks are groups, so they have none.
+    index: number | null
+    // 'State', 'Effect'... for React's hooks, or the custom hook's name without "use"
+    name: string
+    // The hook's current value. For custom hooks, what they passed to useDebugValue (formatted)
+    value: unknown
+    isCustom: boolean
+    subHooks: InspectedHook[]
+}
+
+export interface ComponentNode {
+    // Names and positions from the demo root down, stable across re-renders
+    path: string
+    name: string
+    hasHooks: boolean
+    children: ComponentNode[]
+}
+
+export interface Inspection {
+    tree: ComponentNode | null
+    selected: string | null
+    props: Record<string, unknown>
+    hooks: InspectedHook[]
+    error: string | null
+}
+
+interface HookState {
+    memoizedState: unknown
+    next: HookState | null
+}
+
+interface Thenable {
+    status?: 'pending' | 'fulfilled' | 'rejected'
+    value?: unknown
+    reason?: unknown
+    then: unknown
+}
+
+interface CustomHookFrame {
+    name: string
+    // The frame that called the custom hook, so two calls to the same hook stay apart
+    callSite: string
+}
+
+interface HookCall {
+    index: number | null
+    name: string
+    value: unknown
+    path: CustomHookFrame[]
+}
+
+// What hooks call into while a component renders. It's private to React, which is why the
+// internals object has the name it has.
+type Dispatcher = Record<string, (...args: never[]) => unknown>
+const internals = (React as unknown as Record<string, { H: Dispatcher | null }>)
+    .__CLIENT_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE
+
+class SuspendedError extends Error {}
+
+const frameName = (frame: string) => {
+    // V8: "    at useFetch (url)", Firefox and Safari: "useFetch@url"
+    const name = /^\s*at (?:async )?(\S+) \(/.exec(frame)?.[1] ?? /^([^@]*)@/.exec(frame)?.[1] ?? ''
+    return name.split('.').at(-1) || 'anonymous'
+}
+
+const stackFrames = (error: Error) =>
+    (error.stack ?? '').split('\n').filter(line => /^\s*at |@/.test(line))
+
+const isContext = (value: unknown): value is React.Context<unknown> =>
+    typeof value === 'object' && value !== null && '$$typeof' in value &&
+    value.$$typeof === Symbol.for('react.context')
+
+// Rendering has finished, so a context's own value is back to its default: the value a component
+// sees comes from the nearest provider above it
+const readContext = (fiber: Fiber, context: React.Context<unknown>) => {
+    for (let node = fiber.return; node; node = node.return) {
+        if (node.tag === ContextProvider && node.type === context) {
+            return node.memoizedProps?.value
+        }
+    }
+    return (context as unknown as { _currentValue: unknown })._currentValue
+}
+
+// useFormStatus reads the status that the nearest <form> with a pending action keeps as hook state
+const readFormStatus = (fiber: Fiber) => {
+    for (let node = fiber.return; node; node = node.return) {
+        if (node.tag === HostComponent && node.memoizedState) {
+            return (node.memoizedState as HookState).memoizedState
+        }
+    }
+    return { pending: false, data: null, method: null, action: null }
+}
+
+const unwrap = (value: unknown) => {
+    if (typeof value === 'object' && value !== null && 'then' in value) {
+        const thenable = value as Thenable
+        return thenable.status === 'fulfilled' ? thenable.value : thenable
+    }
+    return value
+}
+
+const noop = () => {}
+
+const renderWithDispatcher = (fiber: Fiber, calls: HookCall[]) => {
+    let hook = fiber.memoizedState as HookState | null
+    let index = 0
+    const nextHook = () => {
+        const current = hook
+        hook = hook?.next ?? null
+        return { index: index++, state: current?.memoizedState }
+    }
+
+    const render = fiber.tag === ForwardRef ? (fiber.type as { render: (...args: unknown[]) => unknown }).render
+        : fiber.type as (...args: unknown[]) => unknown
+    const props = fiber.memoizedProps ?? {}
+
+    // Frames below this one belong to the inspector, not the component
+    const baseline = stackFrames(new Error()).length
+
+    // Called directly by each dispatcher method, so the stack always starts with this function,
+    // the method, and React's exported hook
+    const record = (name: string, index: number | null, value: unknown) => {
+        const frames = stackFrames(new Error())
+        // The custom hooks (innermost first), then the component itself
+        const inner = frames.slice(3, frames.length - baseline)
+        const path = inner.slice(0, -1).map((frame, i) => ({ name: frameName(frame), callSite: inner[i + 1] })).reverse()
+        calls.push({ index, name, value, path })
+    }
+
+    const effect = (name: string) => () => {
+        const { index, state } = nextHook()
+        record(name, index, (state as { deps: unknown } | undefined)?.deps ?? null)
+    }
+
+    const dispatcher: Dispatcher = {
+        readContext: (context: React.Context<unknown>) => readContext(fiber, context),
+        useContext: (context: React.Context<unknown>) => {
+            const value = readContext(fiber, context)
+            record('Context', null, value)
+            return value
+        },
+        use: (usable: unknown) => {
+            if (isContext(usable)) {
+                const value = readContext(fiber, usable)
+                record('Context', null, value)
+                return value
+            }
+            const thenable = usable as Thenable
+            if (thenable.status === 'rejected') throw thenable.reason
+            if (thenable.status !== 'fulfilled') throw new SuspendedError('suspended on a promise')
+            record('Use', null, thenable.value)
+            return thenable.value
+        },
+        useState: () => {
+            const { index, state } = nextHook()
+            record('State', index, state)
+            return [state, noop]
+        },
+        useReducer: () => {
+            const { index, state } = nextHook()
+            record('Reducer', index, state)
+            return [state, noop]
+        },
+        useRef: () => {
+            const { index, state } = nextHook()
+            record('Ref', index, state)
+            // A copy, so components that count renders in a ref aren't counted again
+            return { ...(state as object) }
+        },
+        useMemo: () => {
+            const { index, state } = nextHook()
+            const [value] = state as [unknown]
+            record('Memo', index, value)
+            return value
+        },
+        useCallback: () => {
+            const { index, state } = nextHook()
+            const [callback] = state as [unknown]
+            record('Callback', index, callback)
+            return callback
+        },
+        useEffect: effect('Effect'),
+        useLayoutEffect: effect('LayoutEffect'),
+        useInsertionEffect: effect('InsertionEffect'),
+        useImperativeHandle: effect('ImperativeHandle'),
+        useDebugValue: (value: unknown, format?: (value: unknown) => unknown) => {
+            record('DebugValue', null, format ? format(value) : value)
+        },
+        useId: () => {
+            const { index, state } = nextHook()
+            record('Id', index, state)
+            return state
+        },
+        // The snapshot is saved in the first hook, the subscription effect in the second
+        useSyncExternalStore: () => {
+            const { index, state } = nextHook()
+            nextHook()
+            record('SyncExternalStore', index, state)
+            return state
+        },
+        useDeferredValue: () => {
+            const { index, state } = nextHook()
+            record('DeferredValue', index, state)
+            return state
+        },
+        // isPending is saved in the first hook (as a thenable while an async action runs), the
+        // start function in the second
+        useTransition: () => {
+            const { index, state } = nextHook()
+            nextHook()
+            const isPending = typeof state === 'boolean' ? state : true
+            record('Transition', index, isPending)
+            return [isPending, noop]
+        },
+        useOptimistic: () => {
+            const { index, state } = nextHook()
+            record('Optimistic', index, state)
+            return [state, noop]
+        },
+        // State, pending flag and action queue each take a hook
+        useActionState: () => {
+            const { index, state } = nextHook()
+            const pending = nextHook().state
+            nextHook()
+            const value = unwrap(state)
+            record('ActionState', index, value)
+            return [value, noop, typeof pending === 'boolean' ? pending : true]
+        },
+        useHostTransitionStatus: () => {
+            const status = readFormStatus(fiber)
+            record('FormStatus', null, status)
+            return status
+        }
+    }
+
+    const previous = internals.H
+    internals.H = new Proxy(dispatcher, {
+        get: (target, name: string) => target[name] ?? (() => {
+            throw new Error(`${name} can't be inspected`)
+        })
+    })
+    try {
+        return render(props, props.ref ?? null)
+    } finally {
+        internals.H = previous
+    }
+}
+
+// Groups the calls into the custom hooks they were made from, and gives each custom hook the
+// value it passed to useDebugValue
+const buildHookTree = (calls: HookCall[]) => {
+    const hooks: InspectedHook[] = []
+    let open: { callSite: string; hook: InspectedHook }[] = []
+
+    for (const call of calls) {
+        let shared = 0
+        while (shared < open.length && shared < call.path.length && open[shared].callSite === call.path[shared].callSite) {
+            shared++
+        }
+        open = open.slice(0, shared)
+        for (const { name, callSite } of call.path.slice(shared)) {
+            const hook = { index: null, name: name.replace(/^use(?=[A-Z])/, ''), value: undefined, isCustom: true, subHooks: [] }
+            ;(open.at(-1)?.hook.subHooks ?? hooks).push(hook)
+            open.push({ callSite, hook })
+        }
+
+        const parent = open.at(-1)?.hook
+        if (call.name === 'DebugValue' && parent) {
+            parent.value = call.value
+        } else {
+            (parent?.subHooks ?? hooks).push({ index: call.index, name: call.name, value: call.value, isCustom: false, subHooks: [] })
+        }
+    }
+    return hooks
+}
+
+const CONSOLE_METHODS = ['log', 'info', 'warn', 'error', 'debug', 'group', 'groupCollapsed', 'groupEnd'] as const
+
+export const inspectHooks = (fiber: Fiber): { hooks: InspectedHook[]; error: string | null } => {
+    if (fiber.tag === ClassComponent) {
+        return { hooks: [{ index: null, name: 'State', value: fiber.memoizedState, isCustom: false, subHooks: [] }], error: null }
+    }
+
+    const calls: HookCall[] = []
+    // Rendering again must not log twice, and V8 keeps only 10 stack frames by default
+    const consoleMethods = CONSOLE_METHODS.map(method => [method, console[method]] as const)
+    CONSOLE_METHODS.forEach(method => console[method] = noop)
+    const stackTraceLimit = Error.stackTraceLimit
+    Error.stackTraceLimit = Infinity
+
+    let error: string | null = null
+    try {
+        renderWithDispatcher(fiber, calls)
+    } catch (thrown) {
+        error = thrown instanceof SuspendedError ? 'This component is suspended'
+            : `Rendering stopped: ${thrown instanceof Error ? thrown.message : String(thrown)}`
+    } finally {
+        consoleMethods.forEach(([method, original]) => console[method] = original)
+        Error.stackTraceLimit = stackTraceLimit
+    }
+    return { hooks: buildHookTree(calls), error }
+}
+
+const isComponent = (fiber: Fiber) =>
+    [FunctionComponent, ClassComponent, ForwardRef, SimpleMemoComponent].includes(fiber.tag)
+
+// The demo is the child of the <Profiler> that App wraps it in, whose id is the hook id
+const findDemoProfiler = (fiber: Fiber | null): Fiber | null => {
+    for (let node = fiber; node; node = node.sibling) {
+        if (node.tag === Profiler && isHookType(String(node.memoizedProps?.id))) return node
+        const found = findDemoProfiler(node.child)
+        if (found) return found
+    }
+    return null
+}
+
+const buildComponentTree = (first: Fiber | null, parentPath: string, fibers: Map<string, Fiber>) => {
+    const nodes: ComponentNode[] = []
+    const seen = new Map<string, number>()
+
+    const visit = (fiber: Fiber | null) => {
+        for (let node = fiber; node; node = node.sibling) {
+            if (!isComponent(node)) {
+                // Elements, fragments and providers aren't shown, but the components inside them are
+                visit(node.child)
+                continue
+            }
+            const name = getComponentName(node) ?? 'Anonymous'
+            const position = seen.get(name) ?? 0
+            seen.set(name, position + 1)
+            const path = `${parentPath}/${name}:${node.key ?? position}`
+
+            fibers.set(path, node)
+            nodes.push({
+                path,
+                name,
+                hasHooks: node.memoizedState !== null,
+                children: buildComponentTree(node.child, path, fibers)
+            })
+        }
+    }
+    visit(first)
+    return nodes
+}
+
+let inspection: Inspection = { tree: null, selected: null, props: {}, hooks: [], error: null }
+
+const findProfiler = () => {
+    let profiler: Fiber | null = null
+    for (const root of getRoots()) {
+        profiler ??= findDemoProfiler(root.current)
+    }
+    return profiler
+}
+
+// The demo's <Profiler> fiber as of the last inspection. React only replaces a fiber when it renders
+// it again, so while this one is still in the tree the demo hasn't changed, and commits elsewhere
+// (such as the inspector panel showing a new inspection) are skipped.
+let inspectedProfiler: Fiber | null = null
+
+const inspect = (selected: string | null) => {
+    const fibers = new Map<string, Fiber>()
+    const profiler = findProfiler()
+    inspectedProfiler = profiler
+    const [tree = null] = profiler ? buildComponentTree(profiler.child, '', fibers) : []
+
+    // Keep the selection while that component is still rendered, otherwise select the demo
+    const path = selected && fibers.has(selected) ? selected : tree?.path ?? null
+    const fiber = path ? fibers.get(path) : undefined
+    const props = Object.fromEntries(Object.entries(fiber?.memoizedProps ?? {}).filter(([key]) => key !== 'children'))
+
+    inspection = { tree, selected: path, props, ...(fiber ? inspectHooks(fiber) : { hooks: [], error: null }) }
+    notify()
+}
+
+let unsubscribeFromCommits: (() => void) | null = null
+
+// Commits are reported while React is still committing, so the component is run again afterwards
+const onDemoCommit = batchInMicrotask(() => {
+    if (unsubscribeFromCommits && findProfiler() !== inspectedProfiler) inspect(inspection.selected)
+})
+
+// While anyone listens, the selected component is inspected again after every commit that
+// re-rendered the demo. Running it again only records hook calls: effects don't run and console
+// output is dropped, so an inspection can't itself cause a commit.
+const { subscribe, getSnapshot, notify } = createStore(() => inspection, {
+    onObserved: () => {
+        unsubscribeFromCommits = onCommit(onDemoCommit)
+        inspect(inspection.selected)
+        return () => {
+            unsubscribeFromCommits?.()
+            unsubscribeFromCommits = null
+        }
+    }
+})
+
+export const hookInspector = {
+    subscribe,
+    getSnapshot,
+    select: (path: string) => inspect(path)
+}
+
+const MAX_ITEMS = 5
+
+// A one-line summary of a value, in the style of DevTools' hook and prop values
+export const previewValue = (value: unknown, depth = 0): string => {
+    if (typeof value === 'string') return depth > 1 && value.length > 20 ? `"${value.slice(0, 20)}…"` : JSON.stringify(value)
+    if (typeof value === 'function') return `ƒ ${value.name || 'anonymous'}()`
+    if (typeof value !== 'object' || value === null) return String(value)
+
+    if ('$$typeof' in value && 'type' in value) {
+        const { type } = value as { type: unknown }
+        const name = typeof type === 'string' ? type : (type as { displayName?: string; name?: string })?.displayName ?? (type as { name?: string })?.name
+        return `<${name ?? 'Anonymous'} />`
+    }
+    if (typeof Element !== 'undefined' && value instanceof Element) return `<${value.tagName.toLowerCase()}>`
+    if (value instanceof Date) return value.toISOString()
+    if (value instanceof Error) return `${value.name}: ${value.message}`
+    if (value instanceof Set || value instanceof Map) {
+        const items = [...value].slice(0, MAX_ITEMS).map(item => previewValue(item, depth + 1))
+        return depth > 0 ? `${value.constructor.name}(${value.size})` : `${value.constructor.name}(${value.size}) {${items.join(', ')}${value.size > MAX_ITEMS ? ', …' : ''}}`
+    }
+    if ('then' in value && typeof value.then === 'function') {
+        return `Promise {${(value as Thenable).status ?? 'pending'}}`
+    }
+    if (Array.isArray(value)) {
+        if (depth > 1) return `Array(${value.length})`
+        const items = value.slice(0, MAX_ITEMS).map(item => previewValue(item, depth + 1))
+        return `[${items.join(', ')}${value.length > MAX_ITEMS ? ', …' : ''}]`
+    }
+
+    if (depth > 1) return '{…}'
+    const entries = Object.entries(value)
+    const items = entries.slice(0, MAX_ITEMS).map(([key, item]) => `${key}: ${previewValue(item, depth + 1)}`)
+    return `{${items.join(', ')}${entries.length > MAX_ITEMS ? ', …' : ''}}`
+}
@@ -0,0 +1,125 @@
+import { createStore } from '@/lib/external-store.ts'
+
+// Records the lifecycle of instrumented components as a list of events, grouped into updates, for
+// the effect timeline visualizer. Renders and commits come from useLifecycleTrace; effects are
+// traced with the timeline's own effect and layoutEffect wrappers.
+
+export type LifecyclePhase =
+    // The component rendered, recorded once that render commits
+    | 'render'
+    // React applied the component's DOM changes (or removed it)
+    | 'commit'
+    | 'layout-cleanup'
+    | 'layout-effect'
+    // The next animation frame, just before the browser paints
+    | 'paint'
+    | 'cleanup'
+    | 'effect'
+
+export interface LifecycleEvent {
+    id: number
+    // Updates start with a render, or with a commit that unmounts
+    update: number
+    phase: LifecyclePhase
+    component: string
+    // The effect's name, or what happened ('unmount')
+    label: string
+    time: number
+    // For effect setups: the dependencies that changed, "count: 1 → 2". Null on the first run; empty
+    // when the effect re-ran without a change (no dependency array, or StrictMode's extra mount).
+    changes: string[] | null
+    // For cleanups: the id of the setup they undo
+    undoes: number | null
+}
+
+export type LifecycleEventInput = Pick<LifecycleEvent, 'phase' | 'component'> & Partial<Pick<LifecycleEvent, 'label' | 'changes' | 'undoes'>>
+
+// Intervals update once a second, so only the most recent updates are kept
+const MAX_UPDATES = 30
+
+type Cleanup = () => void
+
+const describe = (value: unknown) => typeof value === 'string' ? JSON.stringify(value) : String(value)
+
+export const createLifecycleTimeline = () => {
+    let events: LifecycleEvent[] = []
+    let nextId = 1
+    let update = 0
+    let paintScheduled = false
+    // Events are recorded while React renders and commits, so listeners hear about them afterwards
+    const { subscribe, getSnapshot, notify } = createStore(() => events)
+    // The dependencies each traced effect last ran with, by component, kind of effect and name
+    const lastDeps = new Map<string, Record<string, unknown>>()
+
+    const record = ({ phase, component, label = '', changes = null, undoes = null }: LifecycleEventInput) => {
+        const last = events.at(-1)
+        const continuesUpdate = last && (phase === 'render' || phase === 'commit'
+            ? last.phase === 'render' || last.phase === 'commit'
+            : true)
+        if (!continuesUpdate) {
+            update++
+            paintScheduled = false
+        }
+
+        const event: LifecycleEvent = { id: nextId++, update, phase, component, label, time: performance.now(), changes, undoes }
+        events = [...events.filter(({ update }) => update > event.update - MAX_UPDATES), event]
+
+        if (phase === 'commit' && !paintScheduled) {
+            paintScheduled = true
+            const paintedUpdate = update
+            requestAnimationFrame(() => {
+                // A later update may have started in the meantime; the paint still belongs to this one
+                const paint = { id: nextId++, update: paintedUpdate, phase: 'paint' as const, component: '', label: '', time: performance.now(), changes: null, undoes: null }
+                events = [...events, paint].sort((a, b) => a.update - b.update || a.time - b.time)
+                notify()
+            })
+        }
+        notify()
+        return event.id
+    }
+
+    // Runs an effect's setup and records it, returning a cleanup that records itself too.
+    // Called from inside the effect, so the effect keeps its ordinary dependency array:
+    //
+    //   useEffect(() => timeline.effect('Counter', 'sync title', () => { ... }, { count }), [count])
+    //
+    // The object passed last names the dependencies so the timeline can show which ones changed.
+    const traceEffect = (layout: boolean) =>
+        (component: string, name: string, setup: () => Cleanup | void, deps: Record<string, unknown> = {}): Cleanup => {
+            const key = `${component}/${layout ? 'layout' : 'passive'}/${name}`
+            const previous = lastDeps.get(key)
+            lastDeps.set(key, deps)
+            const changes = previous
+                ? Object.keys(deps)
+                    .filter(dep => !Object.is(previous[dep], deps[dep]))
+                    .map(dep => `${dep}: ${describe(previous[dep])} → ${describe(deps[dep])}`)
+                : null
+
+            const setupId = record({ phase: layout ? 'layout-effect' : 'effect', component, label: name, changes })
+            const cleanup = setup()
+            return () => {
+                record({ phase: layout ? 'layout-cleanup' : 'cleanup', component, label: name, undoes: setupId })
+                cleanup?.()
+            }
+        }
+
+    return {
+        subscribe,
+        getSnapshot,
+        record,
+        effect: traceEffect(false),
+        layoutEffect: traceEffect(true),
+        // After an unmount, the component's effects count as running for the first time again
+        forget: (component: string) => {
+            for (const key of lastDeps.keys()) {
+                if (key.startsWith(`${component}/`)) lastDeps.delete(key)
+            }
+        },
+        clear: () => {
+            events = []
+            notify()
+        }
+    }
+}
+
+export type LifecycleTimeline = ReturnType<typeof createLifecycleTimeline>
@@ -0,0 +1,173 @@
+import fc from 'fast-check'
+import { describe, expect, it } from 'vitest'
+import {
+    complexSort,
+    expensiveCalculation,
+    fibonacci,
+    isPrime,
+    processLargeDataset,
+    type DataPoint,
+    type Product
+} from '@/lib/memo-calculations.ts'
+
+describe('expensiveCalculation', () => {
+    it('is 0 for 0', () => {
+        expect(expensiveCalculation(0)).toBe(0)
+    })
+
+    it.each([1, 2, 3])('sums the square roots below %i × 100000', num => {
+        const n = num * 100000
+        // The sum of √i for i < n is close to the integral of √x from 0 to n
+        expect(expensiveCalculation(num) / ((2 / 3) * n ** 1.5)).toBeCloseTo(1, 3)
+    })
+
+    it('grows with its input', () => {
+        expect(expensiveCalculation(1)).toBeLessThan(expensiveCalculation(2))
+    })
+})
+
+describe('fibonacci', () => {
+    it.each([
+        [0, 0],
+        [1, 1],
+        [2, 1],
+        [3, 2],
+        [10, 55],
+        [20, 6765]
+    ])('fibonacci(%i) is %i', (n, expected) => {
+        expect(fibonacci(n)).toBe(expected)
+    })
+
+    it('adds the two previous numbers', () => {
+        fc.assert(fc.property(fc.integer({ min: 2, max: 12 }), n => {
+            expect(fibonacci(n)).toBe(fibonacci(n - 1) + fibonacci(n - 2))
+        }))
+    })
+})
+
+describe('isPrime', () => {
+    it.each([
+        [-7, false],
+        [0, false],
+        [1, false],
+        [2, true],
+        [3, true],
+        [4, false],
+        [25, false],
+        [97, true],
+        [7919, true]
+    ])('isPrime(%i) is %s', (num, expected) => {
+        expect(isPrime(num)).toBe(expected)
+    })
+
+    it('agrees with a sieve below 2000', () => {
+        const limit = 2000
+        const sieve = Array.from({ length: limit }, (_, i) => i >= 2)
+        for (let i = 2; i * i < limit; i++) {
+            if (sieve[i]) for (let j = i * i; j < limit; j += i) sieve[j] = false
+        }
+        sieve.forEach((prime, num) => expect(isPrime(num), String(num)).toBe(prime))
+    })
+
+    it('rejects every product of two numbers above 1', () => {
+        fc.assert(fc.property(fc.integer({ min: 2, max: 1000 }), fc.integer({ min: 2, max: 1000 }), (a, b) => {
+            expect(isPrime(a * b)).toBe(false)
+        }))
+    })
+})
+
+describe('processLargeDataset', () => {
+    const points = (ys: number[]): DataPoint[] => ys.map((y, x) => ({ x, y, label: `Point ${x}` }))
+
+    it.each([
+        ['a single point', [4], { mean: 4, median: 4, mode: 4, std: 0 }],
+        ['an odd count', [3, 1, 2], { mean: 2, median: 2, std: Math.sqrt(2 / 3) }],
+        ['an even count', [1, 2, 2, 3], { mean: 2, median: 2, mode: 2, std: Math.sqrt(0.5) }],
+        ['a repeated value', [5, 1, 5, 9], { mean: 5, median: 5, mode: 5, std: Math.sqrt(8) }]
+    ])('summarizes %s', (_, ys, expected) => {
+        const result = processLargeDataset(points(ys))
+        Object.entries(expected).forEach(([key, value]) => {
+            expect(result[key as keyof typeof result], key).toBeCloseTo(value)
+        })
+    })
+
+    it('reports zeros for an empty dataset', () => {
+        expect(processLargeDataset([])).toEqual({ mean: 0, median: 0, mode: 0, std: 0 })
+    })
+
+    it('keeps mean and median within the range, with a most frequent value as the mode', () => {
+        fc.assert(fc.property(fc.array(fc.integer({ min: -1000, max: 1000 }), { minLength: 1, maxLength: 200 }), ys => {
+            const { mean, median, mode, std } = processLargeDataset(points(ys))
+            const [min, max] = [Math.min(...ys), Math.max(...ys)]
+            expect(mean).toBeGreaterThanOrEqual(min - 1e-9)
+            expect(mean).toBeLessThanOrEqual(max + 1e-9)
+            expect(median).toBeGreaterThanOrEqual(min)
+            expect(median).toBeLessThanOrEqual(max)
+            expect(std).toBeGreaterThanOrEqual(0)
+
+            const count = (value: number) => ys.filter(y => y === value).length
+            expect(count(mode)).toBe(Math.max(...ys.map(count)))
+        }))
+    })
+
+    it('does not reorder the points it was given', () => {
+        const data = points([3, 1, 2])
+        processLargeDataset(data)
+        expect(data.map(point => point.y)).toEqual([3, 1, 2])
+    })
+})
+
+describe('complexSort', () => {
+    const product = fc.record({
+        id: fc.integer(),
+        name: fc.string(),
+        price: fc.integer({ min: 0, max: 500 }),
+        category: fc.constantFrom('Electronics', 'Books', 'Clothing'),
+        rating: fc.integer({ min: 1, max: 5 }),
+        inStock: fc.boolean(),
+        description: fc.string()
+    })
+    // Unique ids, so the output can be matched up with the input
+    const products = fc.uniqueArray(product, { selector: item => item.id })
+    const sortBy = fc.constantFrom<keyof Product>('name', 'price', 'category', 'rating', 'inStock')
+    const direction = fc.constantFrom<'asc' | 'desc'>('asc', 'desc')
+
+    const key = (item: Product, field: keyof Product) => {
+        const value = item[field]
+        return typeof value === 'string' ? value.toLowerCase() : value
+    }
+
+    it.each<[keyof Product, 'asc' | 'desc', string[]]>([
+        ['price', 'asc', ['Pen', 'Book', 'Laptop']],
+        ['price', 'desc', ['Laptop', 'Book', 'Pen']],
+        ['name', 'asc', ['Book', 'Laptop', 'Pen']],
+        ['rating', 'desc', ['Laptop', 'Pen', 'Book']]
+    ])('sorts by %s %s', (field, order, expected) => {
+        const items: Product[] = [
+            { id: 1, name: 'Laptop', price: 900, category: 'Electronics', rating: 5, inStock: true, description: '' },
+            { id: 2, name: 'Book', price: 20, category: 'Books', rating: 3, inStock: true, description: '' },
+            { id: 3, name: 'Pen', price: 2, category: 'Office', rating: 4, inStock: false, description: '' }
+        ]
+        expect(complexSort(items, field, order).map(item => item.name)).toEqual(expected)
+    })
+
+    it('returns a permutation of its input without changing it', () => {
+        fc.assert(fc.property(products, sortBy, direction, (items, field, order) => {
+            const copy = structuredClone(items)
+            const sorted = complexSort(items, field, order)
+            expect(items).toEqual(copy)
+            expect(sorted).toHaveLength(items.length)
+            expect([...sorted].sort((a, b) => a.id - b.id)).toEqual([...items].sort((a, b) => a.id - b.id))
+        }))
+    })
+
+    it('orders neighbours by the chosen field', () => {
+        fc.assert(fc.property(products, sortBy, direction, (items, field, order) => {
+            const sorted = complexSort(items, field, order)
+            for (let i = 1; i < sorted.length; i++) {
+                const [previous, current] = [key(sorted[i - 1], field), key(sorted[i], field)]
+                expect(order === 'asc' ? previous <= current : previous >= current).toBe(true)
+            }
+        }))
+    })
+})
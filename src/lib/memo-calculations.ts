@@ -0,0 +1,94 @@
+// The expensive calculations the useMemo demos memoize. The demos log when they call them, so
+// the console shows whether useMemo skipped one.
+
+export interface Product {
+    id: number
+    name: string
+    price: number
+    category: string
+    rating: number
+    inStock: boolean
+    description: string
+}
+
+export interface DataPoint {
+    x: number
+    y: number
+    label: string
+}
+
+// Expensive computation function
+// #region expensiveCalculation
+export const expensiveCalculation = (num: number): number => {
+    let result = 0
+    for (let i = 0; i < num * 100000; i++) {
+        result += Math.sqrt(i)
+    }
+    return result
+}
+// #endregion expensiveCalculation
+
+// Expensive fibonacci calculation
+// #region fibonacci
+export const fibonacci = (n: number): number => {
+    if (n <= 1) return n
+    return fibonacci(n - 1) + fibonacci(n - 2)
+}
+// #endregion fibonacci
+
+// Expensive prime calculation
+// #region isPrime
+export const isPrime = (num: number): boolean => {
+    if (num < 2) return false
+    for (let i = 2; i <= Math.sqrt(num); i++) {
+        if (num % i === 0) return false
+    }
+    return true
+}
+// #endregion isPrime
+
+// Expensive data processing
+// #region processLargeDataset
+export const processLargeDataset = (data: DataPoint[]): { mean: number; median: number; mode: number; std: number } => {
+    // An empty dataset has no statistics; report zeros rather than NaN
+    if (data.length === 0) return { mean: 0, median: 0, mode: 0, std: 0 }
+
+    const values = data.map(d => d.y).sort((a, b) => a - b)
+    const mean = values.reduce((sum, val) => sum + val, 0) / values.length
+    const median = values.length % 2 === 0
+        ? (values[values.length / 2 - 1] + values[values.length / 2]) / 2
+        : values[Math.floor(values.length / 2)]
+
+    // Calculate mode
+    const frequency: { [key: number]: number } = {}
+    values.forEach(val => frequency[val] = (frequency[val] || 0) + 1)
+    const mode = Object.keys(frequency).reduce((a, b) => frequency[Number(a)] > frequency[Number(b)] ? a : b)
+
+    // Calculate standard deviation
+    const variance = values.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / values.length
+    const std = Math.sqrt(variance)
+
+    return { mean, median, mode: Number(mode), std }
+}
+// #endregion processLargeDataset
+
+// Complex sorting algorithm
+// #region complexSort
+export const complexSort = (items: Product[], sortBy: string, direction: 'asc' | 'desc'): Product[] => {
+    return [...items].sort((a, b) => {
+        let aVal: string | number | boolean = a[sortBy as keyof Product]
+        let bVal: string | number | boolean = b[sortBy as keyof Product]
+
+        if (typeof aVal === 'string') {
+            aVal = aVal.toLowerCase()
+            bVal = (bVal as string).toLowerCase()
+        }
+
+        if (direction === 'asc') {
+            return aVal > bVal ? 1 : -1
+        } else {
+            return aVal < bVal ? 1 : -1
+        }
+    })
+}
+// #endregion complexSort
@@ -0,0 +1,29 @@
+// Messages exchanged between the playground panel and its sandboxed preview frame
+export type PlaygroundMessage =
+    | { type: 'ready' }
+    | { type: 'run'; code: string }
+    | { type: 'error'; message: string }
+
+export type CompileResult =
+    | { ok: true; code: string }
+    | { ok: false; error: string }
+
+export const isPlaygroundMessage = (data: unknown): data is PlaygroundMessage =>
+    typeof data === 'object' && data !== null && typeof (data as { type?: unknown }).type === 'string'
+
+// Strips types and JSX and turns ES imports into `require` calls the frame can satisfy.
+// Sucrase is only downloaded the first time a playground compiles something.
+export const compile = async (source: string): Promise<CompileResult> => {
+    try {
+        // Inside the try so that failing to download it, e.g. offline, is reported like a compile error
+        const { transform } = await import('sucrase')
+        const { code } = transform(source, {
+            transforms: ['typescript', 'jsx', 'imports'],
+            jsxRuntime: 'automatic',
+            production: true
+        })
+        return { ok: true, code }
+    } catch (error) {
+        return { ok: false, error: error instanceof Error ? error.message : String(error) }
+    }
+}
@@ -0,0 +1,88 @@
+import type { ProfilerOnRenderCallback } from 'react'
+import { createStore } from '@/lib/external-store.ts'
+import { getHook, isHookType } from '@/lib/registry.ts'
+import { parseHash } from '@/lib/routing.ts'
+
+type Phase = Parameters<ProfilerOnRenderCallback>[1]
+
+export interface SectionRender {
+    section: string
+    phase: Phase
+    actualDuration: number
+    baseDuration: number
+    // The update started inside this section, rather than the section re-rendering with its parent
+    triggered: boolean
+}
+
+// One React commit inside the current demo. Durations are in milliseconds: `actualDuration` is
+// the time spent rendering what changed, `baseDuration` an estimate of re-rendering everything
+export interface CommitRecord {
+    commit: number
+    demo: string
+    // Label of the demo's tab that was open
+    tab: string
+    phase: Phase
+    actualDuration: number
+    baseDuration: number
+    startTime: number
+    commitTime: number
+    // The <ProfiledSection>s that rendered in this commit, innermost first
+    sections: SectionRender[]
+}
+
+// Older commits are dropped so a long session doesn't grow without bound
+const MAX_COMMITS = 500
+
+let commits: CommitRecord[] = []
+let nextCommit = 1
+const { subscribe, getSnapshot, notify } = createStore(() => commits)
+
+const update = (commitTime: number, change: (commit: CommitRecord) => CommitRecord, create: () => CommitRecord) => {
+    const last = commits.at(-1)
+    // Every <Profiler> that rendered in a commit reports the same commitTime
+    commits = last?.commitTime === commitTime
+        ? [...commits.slice(0, -1), change(last)]
+        : [...commits.slice(1 - MAX_COMMITS), change(create())]
+    notify()
+}
+
+const createCommit = (phase: Phase, startTime: number, commitTime: number): CommitRecord => ({
+    commit: nextCommit++,
+    demo: '',
+    tab: '',
+    phase,
+    actualDuration: 0,
+    baseDuration: 0,
+    startTime,
+    commitTime,
+    sections: []
+})
+
+// For the demo-level <Profiler> in App, whose id is the hook id. Sections report before the demo that
+// contains them, so either may start a commit's record.
+const onRender: ProfilerOnRenderCallback = (id, phase, actualDuration, baseDuration, startTime, commitTime) => {
+    if (!isHookType(id)) return
+    const { tabs } = getHook(id)
+    const route = parseHash(window.location.hash)
+    const tab = (tabs.find(t => t.id === route.tab) ?? tabs[0]).label
+    update(commitTime, commit => ({ ...commit, demo: id, tab, phase, actualDuration, baseDuration, startTime }),
+        () => createCommit(phase, startTime, commitTime))
+}
+
+// For <ProfiledSection>, which works out whether the section triggered the commit
+const onSectionRender = (section: SectionRender, commitTime: number, startTime: number) => {
+    update(commitTime, commit => ({ ...commit, sections: [...commit.sections, section] }),
+        () => createCommit(section.phase, startTime, commitTime))
+}
+
+export const profilerTimeline = {
+    subscribe,
+    getSnapshot,
+    onRender,
+    onSectionRender,
+    clear: () => {
+        commits = []
+        notify()
+    },
+    toJSON: () => JSON.stringify({ exportedAt: new Date().toISOString(), commits }, null, 2)
+}
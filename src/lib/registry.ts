@@ -0,0 +1,330 @@
+import type { ComponentType } from 'react'
+
+export type HookCategory = 'Basic' | 'Advanced' | 'Performance' | 'Actions' | 'Patterns'
+
+export interface HookTab {
+    id: string
+    label: string
+}
+
+export interface HookDefinition {
+    name: string
+    description: string
+    category: HookCategory
+    // Demos are code-split: each one is only downloaded when its page is first opened
+    load: () => Promise<{ default: ComponentType }>
+    // The first tab is the one shown when the URL doesn't name a tab
+    tabs: readonly [HookTab, ...HookTab[]]
+    // Ids of other entries, shown as links under the header
+    related: readonly string[]
+    // The React version that introduced the hook, shown next to the related links
+    minReactVersion: string
+}
+
+// One entry per page, keyed by its id; key order is sidebar order. Kept `as const` so the ids, and
+// each demo's tab ids, are known to the compiler.
+const registry = {
+    useState: {
+        name: 'useState',
+        description: 'Manage component state',
+        category: 'Basic',
+        load: () => import('@/components/hook-components/UseStateDemo.tsx'),
+        tabs: [
+            { id: 'basic', label: 'Basic Examples' },
+            { id: 'complex', label: 'Complex State' },
+            { id: 'practical', label: 'Practical Examples' }
+        ],
+        related: ['useReducer', 'useRef'],
+        minReactVersion: '16.8'
+    },
+    useEffect: {
+        name: 'useEffect',
+        description: 'Handle side effects',
+        category: 'Basic',
+        load: () => import('@/components/hook-components/UseEffectDemo.tsx')
+            .then(module => ({ default: module.UseEffectDemo })),
+        tabs: [
+            { id: 'basic', label: 'Basic Effects' },
+            { id: 'cleanup', label: 'Cleanup & Timers' },
+            { id: 'events', label: 'Event Listeners' },
+            { id: 'advanced', label: 'Advanced Patterns' }
+        ],
+        related: ['useLayoutEffect', 'useRef'],
+        minReactVersion: '16.8'
+    },
+    useContext: {
+        name: 'useContext',
+        description: 'Access React context',
+        category: 'Basic',
+        load: () => import('@/components/hook-components/UseContextHookDemo.tsx')
+            .then(module => ({ default: module.UseContextDemo })),
+        tabs: [
+            { id: 'basic', label: 'Basic Usage' },
+            { id: 'multiple', label: 'Multiple Contexts' },
+            { id: 'practical', label: 'Practical Examples' }
+        ],
+        related: ['useReducer', 'useMemo'],
+        minReactVersion: '16.8'
+    },
+    useReducer: {
+        name: 'useReducer',
+        description: 'Complex state management',
+        category: 'Advanced',
+        load: () => import('@/components/hook-components/UseReducerDemo.tsx')
+            .then(module => ({ default: module.UseReducerDemo })),
+        tabs: [
+            { id: 'basic', label: 'Basic Patterns' },
+            { id: 'complex', label: 'Complex State' },
+            { id: 'practical', label: 'Practical Examples' },
+            { id: 'advanced', label: 'Advanced Patterns' }
+        ],
+        related: ['useState', 'useContext'],
+        minReactVersion: '16.8'
+    },
+    useCallback: {
+        name: 'useCallback',
+        description: 'Memoize callbacks',
+        category: 'Performance',
+        load: () => import('@/components/hook-components/UseCallbackDemo.tsx')
+            .then(module => ({ default: module.UseCallbackDemo })),
+        tabs: [
+            { id: 'basic', label: 'Basic Concepts' },
+            { id: 'dependencies', label: 'Dependencies' },
+            { id: 'optimization', label: 'Performance' },
+            { id: 'patterns', label: 'Advanced Patterns' }
+        ],
+        related: ['useMemo'],
+        minReactVersion: '16.8'
+    },
+    useMemo: {
+        name: 'useMemo',
+        description: 'Memoize expensive calculations',
+        category: 'Performance',
+        load: () => import('@/components/hook-components/UseMemoDemo.tsx')
+            .then(module => ({ default: module.UseMemoDemo })),
+        tabs: [
+            { id: 'basic', label: 'Basic Memoization' },
+            { id: 'complex', label: 'Complex Calculations' },
+            { id: 'filtering', label: 'Data Filtering' },
+            { id: 'analytics', label: 'Advanced Analytics' }
+        ],
+        related: ['useCallback'],
+        minReactVersion: '16.8'
+    },
+    useRef: {
+        name: 'useRef',
+        description: 'Access DOM elements',
+        category: 'Advanced',
+        load: () => import('@/components/hook-components/UseRefDemo.tsx'),
+        tabs: [
+            { id: 'basic', label: 'Basic Usage' },
+            { id: 'mutable', label: 'Mutable Values' },
+            { id: 'advanced', label: 'Advanced Patterns' },
+            { id: 'practical', label: 'Practical Examples' }
+        ],
+        related: ['useImperativeHandle', 'useState'],
+        minReactVersion: '16.8'
+    },
+    useImperativeHandle: {
+        name: 'useImperativeHandle',
+        description: 'Customize ref exposure',
+        category: 'Advanced',
+        load: () => import('@/components/hook-components/UseImperativeHandleDemo.tsx'),
+        tabs: [
+            { id: 'basic', label: 'Basic Usage' },
+            { id: 'forms', label: 'Forms & Validation' },
+            { id: 'media', label: 'Media Controls' },
+            { id: 'advanced', label: 'Advanced Patterns' }
+        ],
+        related: ['useRef'],
+        minReactVersion: '16.8'
+    },
+    useLayoutEffect: {
+        name: 'useLayoutEffect',
+        description: 'Synchronous effects',
+        category: 'Advanced',
+        load: () => import('@/components/hook-components/UseLayoutEffectDemo.tsx'),
+        tabs: [
+            { id: 'visual', label: 'Visual Differences' },
+            { id: 'measurements', label: 'DOM Measurements' },
+            { id: 'positioning', label: 'Positioning' },
+            { id: 'performance', label: 'Performance' }
+        ],
+        related: ['useEffect', 'useInsertionEffect'],
+        minReactVersion: '16.8'
+    },
+    useInsertionEffect: {
+        name: 'useInsertionEffect',
+        description: 'Inject styles before DOM mutations',
+        category: 'Advanced',
+        load: () => import('@/components/hook-components/UseInsertionEffectDemo.tsx'),
+        tabs: [
+            { id: 'injector', label: 'Style Injector' },
+            { id: 'order', label: 'Firing Order' },
+            { id: 'layout', label: 'Layout Effect Pitfall' }
+        ],
+        related: ['useLayoutEffect', 'useEffect'],
+        minReactVersion: '18.0'
+    },
+    useDebugValue: {
+        name: 'useDebugValue',
+        description: 'Display debug info',
+        category: 'Advanced',
+        load: () => import('@/components/hook-components/UseDebugValueDemo.tsx'),
+        tabs: [
+            { id: 'basic', label: 'Basic Usage' },
+            { id: 'formatted', label: 'Formatted Values' },
+            { id: 'complex', label: 'Complex State' },
+            { id: 'performance', label: 'Performance' }
+        ],
+        related: ['useState', 'useEffect'],
+        minReactVersion: '16.8'
+    },
+    useId: {
+        name: 'useId',
+        description: 'SSR-safe unique ids',
+        category: 'Advanced',
+        load: () => import('@/components/hook-components/UseIdDemo.tsx'),
+        tabs: [
+            { id: 'basic', label: 'Labels & Inputs' },
+            { id: 'errors', label: 'Error Messages' },
+            { id: 'instances', label: 'Multiple Instances' },
+            { id: 'hydration', label: 'SSR & Hydration' }
+        ],
+        related: ['useRef', 'useImperativeHandle'],
+        minReactVersion: '18.0'
+    },
+    useTransition: {
+        name: 'useTransition',
+        description: 'Non-blocking state updates',
+        category: 'Performance',
+        load: () => import('@/components/hook-components/UseTransitionDemo.tsx'),
+        tabs: [
+            { id: 'urgent', label: 'Urgent vs Non-urgent' },
+            { id: 'pending', label: 'isPending UI' },
+            { id: 'list', label: 'Responsive Lists' },
+            { id: 'tabs', label: 'Tab Switching' }
+        ],
+        related: ['useDeferredValue', 'useMemo'],
+        minReactVersion: '18.0'
+    },
+    useDeferredValue: {
+        name: 'useDeferredValue',
+        description: 'Defer expensive re-renders',
+        category: 'Performance',
+        load: () => import('@/components/hook-components/UseDeferredValueDemo.tsx'),
+        tabs: [
+            { id: 'basic', label: 'Deferred Rendering' },
+            { id: 'stale', label: 'Stale vs Fresh' },
+            { id: 'debounce', label: 'vs Debouncing' },
+            { id: 'initial', label: 'Initial Value' }
+        ],
+        related: ['useTransition', 'useMemo'],
+        minReactVersion: '18.0'
+    },
+    useSyncExternalStore: {
+        name: 'useSyncExternalStore',
+        description: 'Subscribe to external stores',
+        category: 'Advanced',
+        load: () => import('@/components/hook-components/UseSyncExternalStoreDemo.tsx'),
+        tabs: [
+            { id: 'browser', label: 'Browser APIs' },
+            { id: 'store', label: 'Custom Store' },
+            { id: 'tearing', label: 'Tearing' },
+            { id: 'server', label: 'Server Snapshot' },
+            { id: 'selectors', label: 'Selector Pitfalls' }
+        ],
+        related: ['useEffect', 'useTransition'],
+        minReactVersion: '18.0'
+    },
+    use: {
+        name: 'use',
+        description: 'Read promises and context',
+        category: 'Advanced',
+        load: () => import('@/components/hook-components/UseDemo.tsx'),
+        tabs: [
+            { id: 'suspense', label: 'Suspense' },
+            { id: 'caching', label: 'Promise Caching' },
+            { id: 'errors', label: 'Error Boundaries' },
+            { id: 'context', label: 'Conditional Context' }
+        ],
+        related: ['useEffect', 'useContext'],
+        minReactVersion: '19.0'
+    },
+    useActionState: {
+        name: 'useActionState',
+        description: 'State updated by async actions',
+        category: 'Actions',
+        load: () => import('@/components/hook-components/UseActionStateDemo.tsx'),
+        tabs: [
+            { id: 'basic', label: 'Form Submission' },
+            { id: 'validation', label: 'Server Validation' },
+            { id: 'queue', label: 'Queued Actions' }
+        ],
+        related: ['useFormStatus', 'useReducer'],
+        minReactVersion: '19.0'
+    },
+    useFormStatus: {
+        name: 'useFormStatus',
+        description: 'Status of the parent form',
+        category: 'Actions',
+        load: () => import('@/components/hook-components/UseFormStatusDemo.tsx'),
+        tabs: [
+            { id: 'button', label: 'Submit Button' },
+            { id: 'data', label: 'Submission Data' },
+            { id: 'pitfall', label: 'Pitfalls' }
+        ],
+        related: ['useActionState', 'useContext'],
+        minReactVersion: '19.0'
+    },
+    useOptimistic: {
+        name: 'useOptimistic',
+        description: 'Show results before the server confirms',
+        category: 'Actions',
+        load: () => import('@/components/hook-components/UseOptimisticDemo.tsx'),
+        tabs: [
+            { id: 'todos', label: 'Optimistic List' },
+            { id: 'likes', label: 'Like Button' }
+        ],
+        related: ['useActionState', 'useTransition'],
+        minReactVersion: '19.0'
+    },
+    customHooks: {
+        name: 'Custom Hooks',
+        description: 'Reusable hooks from src/hooks',
+        category: 'Patterns',
+        load: () => import('@/components/hook-components/CustomHooksDemo.tsx'),
+        tabs: [
+            { id: 'state', label: 'State & Timers' },
+            { id: 'data', label: 'Data & Browser' },
+            { id: 'context', label: 'Context' },
+            { id: 'storage', label: 'Storage Sync' }
+        ],
+        related: ['useDebugValue', 'useContext'],
+        minReactVersion: '16.8'
+    }
+} as const satisfies Record<string, HookDefinition>
+
+export type HookType = keyof typeof registry
+
+export interface HookInfo extends HookDefinition {
+    id: HookType
+    related: readonly HookType[]
+}
+
+export type HookTabId<H extends HookType> = typeof registry[H]['tabs'][number]['id']
+
+export const DEFAULT_HOOK: HookType = 'useState'
+
+export const isHookType = (value: string): value is HookType =>
+    Object.prototype.hasOwnProperty.call(registry, value)
+
+// Typed as HookInfo, so a related id that isn't a registry key fails to compile
+export const hooks: HookInfo[] = (Object.keys(registry) as HookType[]).map(id => ({ id, ...registry[id] }))
+
+export const getHook = (id: HookType): HookInfo => hooks.find(hook => hook.id === id)!
+
+// A demo's tab ids by name, for its <TabsContent value={tabIds.basic}>: a tab missing from the
+// registry is a type error instead of a panel that never shows
+export const getTabIds = <H extends HookType>(id: H) =>
+    Object.fromEntries(registry[id].tabs.map(tab => [tab.id, tab.id])) as { readonly [T in HookTabId<H>]: T }
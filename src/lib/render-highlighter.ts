@@ -0,0 +1,174 @@
+import {
+    ClassComponent,
+    type Fiber,
+    type FiberRoot,
+    ForwardRef,
+    FunctionComponent,
+    getComponentName,
+    HostComponent,
+    onCommit,
+    PerformedWork,
+    SimpleMemoComponent
+} from '@/lib/devtools-hook.ts'
+import { createStore } from '@/lib/external-store.ts'
+
+// Flashes an outline and a render count over every component that re-renders, like the
+// "Highlight updates" option of React DevTools.
+
+// Only components rendered inside an element with this attribute (App's <main>) are highlighted
+const HIGHLIGHT_ROOT = '[data-highlight-renders]'
+
+const FADE_MS = 800
+
+let enabled = false
+let counts = new WeakMap<Fiber, number>()
+const { subscribe, getSnapshot, notify } = createStore(() => enabled)
+
+export const renderHighlighting = {
+    subscribe,
+    getSnapshot,
+    setEnabled: (next: boolean) => {
+        enabled = next
+        // Counts start from zero each time highlighting is switched on
+        counts = new WeakMap()
+        notify()
+    }
+}
+
+// A component re-rendered in this commit if it existed before and React did work on it.
+// Subtrees React bailed out of keep their old child fibers, so they are skipped rather than
+// trusting flags left over from an earlier commit.
+const collectRerendered = (first: Fiber | null, found: Fiber[]) => {
+    for (let fiber = first; fiber; fiber = fiber.sibling) {
+        const previous = fiber.alternate
+        // Newly mounted subtrees are first renders, not re-renders
+        if (!previous) continue
+
+        const isComponent = [FunctionComponent, ClassComponent, ForwardRef, SimpleMemoComponent].includes(fiber.tag)
+        if (isComponent && (fiber.flags & PerformedWork) !== 0) {
+            found.push(fiber)
+        }
+        if (fiber.child !== previous.child) {
+            collectRerendered(fiber.child, found)
+        }
+    }
+}
+
+// The outermost DOM elements a component rendered
+const hostElements = (fiber: Fiber) => {
+    const elements: Element[] = []
+    const visit = (first: Fiber | null) => {
+        for (let node = first; node; node = node.sibling) {
+            if (node.tag === HostComponent) {
+                elements.push(node.stateNode as Element)
+            } else {
+                visit(node.child)
+            }
+        }
+    }
+    visit(fiber.child)
+    return elements
+}
+
+const boundingRect = (elements: Element[]) => {
+    const rects = elements.map(element => element.getBoundingClientRect()).filter(rect => rect.width || rect.height)
+    if (rects.length === 0) return null
+
+    const left = Math.min(...rects.map(rect => rect.left))
+    const top = Math.min(...rects.map(rect => rect.top))
+    return {
+        left,
+        top,
+        width: Math.max(...rects.map(rect => rect.right)) - left,
+        height: Math.max(...rects.map(rect => rect.bottom)) - top
+    }
+}
+
+interface Highlight {
+    box: HTMLDivElement
+    label: HTMLSpanElement
+    timeout?: ReturnType<typeof setTimeout>
+}
+
+let layer: HTMLDivElement | null = null
+const highlights = new Map<Element, Highlight>()
+
+const getLayer = () => {
+    if (!layer) {
+        layer = document.createElement('div')
+        layer.setAttribute('aria-hidden', 'true')
+        layer.style.cssText = 'position:fixed;inset:0;pointer-events:none;z-index:60;overflow:hidden'
+        document.body.append(layer)
+    }
+    return layer
+}
+
+const flash = (key: Element, elements: Element[], text: string) => {
+    const rect = boundingRect(elements)
+    if (!rect) return
+
+    let highlight = highlights.get(key)
+    if (!highlight) {
+        const box = document.createElement('div')
+        box.style.cssText = 'position:fixed;border:2px solid rgb(20 184 166);border-radius:4px'
+        const label = document.createElement('span')
+        label.style.cssText = 'position:absolute;top:-2px;left:-2px;transform:translateY(-100%);padding:0 4px;' +
+            'border-radius:4px 4px 0 0;background:rgb(20 184 166);color:white;font:11px/16px ui-monospace,monospace;white-space:nowrap'
+        box.append(label)
+        getLayer().append(box)
+        highlight = { box, label }
+        highlights.set(key, highlight)
+    }
+
+    const { box, label } = highlight
+    label.textContent = text
+    Object.assign(box.style, {
+        left: `${rect.left}px`,
+        top: `${rect.top}px`,
+        width: `${rect.width}px`,
+        height: `${rect.height}px`,
+        transition: 'none',
+        opacity: '1'
+    })
+    // Read layout so the fade restarts from full opacity instead of continuing
+    void box.offsetWidth
+    box.style.transition = `opacity ${FADE_MS}ms ease-out`
+    box.style.opacity = '0'
+
+    clearTimeout(highlight.timeout)
+    highlight.timeout = setTimeout(() => {
+        box.remove()
+        highlights.delete(key)
+    }, FADE_MS)
+}
+
+const handleCommit = (root: FiberRoot) => {
+    const rerendered: Fiber[] = []
+    collectRerendered(root.current.child, rerendered)
+
+    // Wrappers like Slot or memo often render the same element as their parent: the outermost
+    // component (found first) labels it
+    const byElement = new Map<Element, { elements: Element[]; text: string }>()
+    for (const fiber of rerendered) {
+        const name = getComponentName(fiber)
+        const elements = hostElements(fiber)
+        if (!name || elements.length === 0 || byElement.has(elements[0])) continue
+        if (!elements[0].closest(HIGHLIGHT_ROOT)) continue
+
+        const count = (counts.get(fiber) ?? 0) + 1
+        // React alternates between two fibers per component, so both carry the count
+        counts.set(fiber, count)
+        if (fiber.alternate) counts.set(fiber.alternate, count)
+
+        byElement.set(elements[0], { elements, text: `${name} ×${count}` })
+    }
+
+    // Measure after the browser has laid out this commit
+    requestAnimationFrame(() => byElement.forEach(({ elements, text }, key) => flash(key, elements, text)))
+}
+
+onCommit(root => {
+    if (enabled) {
+        handleCommit(root)
+    }
+})
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_HOOK } from '@/lib/registry.ts'
+import { formatHash, parseHash } from '@/lib/routing.ts'
+
+describe('parseHash', () => {
+    it.each([
+        ['#/useReducer/advanced', { hook: 'useReducer', tab: 'advanced' }],
+        ['#/useReducer', { hook: 'useReducer', tab: null }],
+        ['#useReducer/', { hook: 'useReducer', tab: null }],
+        ['#/useState/a%20b', { hook: 'useState', tab: 'a b' }]
+    ])('reads %s', (hash, route) => {
+        expect(parseHash(hash)).toEqual(route)
+    })
+
+    it.each(['', '#/', '#/useNothing/basic', '#/useState/%E0', '#/%/basic'])('opens the default page for %j', hash => {
+        expect(parseHash(hash)).toEqual({ hook: DEFAULT_HOOK, tab: null })
+    })
+
+    it('reads back what formatHash writes', () => {
+        const route = { hook: 'useEffect', tab: 'clean/up %' } as const
+        expect(parseHash(formatHash(route))).toEqual(route)
+    })
+})
@@ -0,0 +1,34 @@
+import { DEFAULT_HOOK, isHookType, type HookType } from '@/lib/registry.ts'
+
+export interface Route {
+    hook: HookType
+    tab: string | null
+}
+
+// Routes live in the hash (e.g. #/useReducer/advanced) so that deep links work on
+// GitHub Pages, which serves the app from a sub-path without server rewrites.
+export const parseHash = (hash: string): Route => {
+    let hook = '', tab = ''
+    try {
+        [hook = '', tab = ''] = hash.replace(/^#\/?/, '').split('/').map(decodeURIComponent)
+    } catch {
+        // A hand-edited link with a malformed escape (e.g. #/useState/%E0) opens the default page
+        return { hook: DEFAULT_HOOK, tab: null }
+    }
+
+    if (!isHookType(hook)) {
+        return { hook: DEFAULT_HOOK, tab: null }
+    }
+    return { hook, tab: tab || null }
+}
+
+export const formatHash = ({ hook, tab }: Route): string =>
+    tab ? `#/${hook}/${encodeURIComponent(tab)}` : `#/${hook}`
+
+export const navigate = (route: Route) => {
+    const hash = formatHash(route)
+    if (window.location.hash !== hash) {
+        // Assigning the hash pushes a history entry, so back/forward step through routes
+        window.location.hash = hash
+    }
+}
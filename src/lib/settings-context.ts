@@ -0,0 +1,17 @@
+import { createContext } from 'react'
+
+// #region SettingsContext
+export interface Settings {
+    language: 'en' | 'es' | 'fr'
+    notifications: boolean
+    soundEnabled: boolean
+    autoSave: boolean
+}
+
+export interface SettingsContextType {
+    settings: Settings
+    updateSettings: (updates: Partial<Settings>) => void
+}
+
+export const SettingsContext = createContext<SettingsContextType | undefined>(undefined)
+// #endregion SettingsContext
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { extractRegion } from '@/lib/source-regions.ts'
+
+// Every module in src, as the raw text a demo gets from a `?raw` import
+const modules = import.meta.glob<string>('/src/**/*.{ts,tsx}', { query: '?raw', import: 'default', eager: true })
+
+const demos = Object.entries(modules).filter(([path]) => /\/hook-components\/\w+Demo\.tsx$/.test(path))
+
+const quoted = (text: string) => [...text.matchAll(/'([^']+)'/g)].map(match => match[1])
+
+// Region names a demo passes to ViewSource or Playground, either directly or through the
+// `regions` field of an entry it renders
+const referencedRegions = (text: string) => [
+    ...[...text.matchAll(/\bregions="([^"]+)"/g)].map(match => match[1]),
+    ...[...text.matchAll(/\bregions(?:=\{|: )\[([^\]]*)\]/g)].flatMap(match => quoted(match[1]))
+]
+
+// The demo itself and every module it imports with `?raw`
+const rawSources = (path: string, text: string) => [
+    text,
+    ...[...text.matchAll(/from '@\/([^']+)\?raw'/g)]
+        .map(match => `/src/${match[1]}`)
+        .filter(modulePath => modulePath !== path)
+        .map(modulePath => modules[modulePath])
+]
+
+describe('extractRegion', () => {
+    const source = [
+        'const before = 1',
+        '    // #region outer',
+        '    const a = 1',
+        '    // #region inner',
+        '    const b = 2',
+        '    // #endregion inner',
+        '    // #endregion outer'
+    ].join('\n')
+
+    it('returns the dedented code between the markers, without nested markers', () => {
+        expect(extractRegion(source, 'outer')).toBe('const a = 1\nconst b = 2')
+        expect(extractRegion(source, 'inner')).toBe('const b = 2')
+    })
+
+    it('reads the region from the first module that defines it', () => {
+        expect(extractRegion(['const x = 1', source], 'inner')).toBe('const b = 2')
+    })
+
+    it('returns null when no module defines the region', () => {
+        expect(extractRegion([source], 'missing')).toBeNull()
+    })
+})
+
+describe.each(demos)('%s', (path, text) => {
+    const regions = referencedRegions(text)
+
+    it('references source regions', () => {
+        expect(regions.length).toBeGreaterThan(0)
+    })
+
+    it.each(regions)('defines the region "%s"', name => {
+        expect(extractRegion(rawSources(path, text), name)).not.toBeNull()
+    })
+})
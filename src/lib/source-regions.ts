@@ -0,0 +1,29 @@
+const MARKER = /^\s*\/\/ #(?:end)?region\b/
+
+const dedent = (lines: string[]) => {
+    const indents = lines
+        .filter(line => line.trim())
+        .map(line => line.length - line.trimStart().length)
+    const indent = Math.min(...indents)
+    return lines.map(line => line.slice(indent)).join('\n')
+}
+
+// Pulls the code between `// #region name` and `// #endregion name` out of a module's
+// raw source (imported with Vite's `?raw` suffix). Markers of other regions nested inside
+// are dropped so the snippet reads like ordinary code. Given several modules, the region
+// is read from the first one that defines it, so a demo can show code it imports. Returns null
+// when none of them does.
+export const extractRegion = (source: string | string[], name: string): string | null => {
+    const sources = typeof source === 'string' ? [source] : source
+
+    for (const text of sources) {
+        const lines = text.split('\n')
+        const start = lines.findIndex(line => line.trim() === `// #region ${name}`)
+        const end = lines.findIndex((line, index) => index > start && line.trim() === `// #endregion ${name}`)
+
+        if (start !== -1 && end !== -1) {
+            return dedent(lines.slice(start + 1, end).filter(line => !MARKER.test(line)))
+        }
+    }
+    return null
+}
@@ -0,0 +1,35 @@
+// Structural diff between two reducer states, for the time-travel debugger
+
+export interface StateChange {
+    // Dotted path to the changed value, e.g. "todos.1.completed"; empty for the root
+    path: string
+    kind: 'added' | 'removed' | 'changed'
+    before: unknown
+    after: unknown
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype
+
+// Reducers return new objects only along the path they changed, so identical references
+// are skipped without looking inside them
+export const diffStates = (before: unknown, after: unknown, path = ''): StateChange[] => {
+    if (Object.is(before, after)) return []
+
+    const bothArrays = Array.isArray(before) && Array.isArray(after)
+    if (bothArrays || (isPlainObject(before) && isPlainObject(after))) {
+        const a = before as Record<string, unknown>
+        const b = after as Record<string, unknown>
+        const keys = [...new Set([...Object.keys(a), ...Object.keys(b)])]
+        return keys.flatMap(key => {
+            const childPath = path ? `${path}.${key}` : key
+            if (!(key in b)) return [{ path: childPath, kind: 'removed' as const, before: a[key], after: undefined }]
+            if (!(key in a)) return [{ path: childPath, kind: 'added' as const, before: undefined, after: b[key] }]
+            return diffStates(a[key], b[key], childPath)
+        })
+    }
+
+    return [{ path, kind: 'changed', before, after }]
+}
+
+export const statesEqual = (a: unknown, b: unknown) => diffStates(a, b).length === 0
@@ -0,0 +1,50 @@
+// Versioned data for the storage sync demo. Version 1 only stored a name; version 2 added
+// a color and an explicit version field. Old data is migrated when it's read.
+
+// #region parseProfile
+export const PROFILE_KEY = 'custom-hooks-profile'
+export const FAVORITES_KEY = 'custom-hooks-favorites'
+
+export const PROFILE_COLORS = ['blue', 'green', 'purple', 'orange'] as const
+
+export interface Profile {
+    version: 2
+    name: string
+    color: typeof PROFILE_COLORS[number]
+}
+
+export const defaultProfile: Profile = { version: 2, name: 'Ada', color: 'blue' }
+
+const isColor = (value: unknown): value is Profile['color'] =>
+    PROFILE_COLORS.some(color => color === value)
+
+// Used as useLocalStorage's `validate` option: anything it throws is reported as a validation error
+export const parseProfile = (value: unknown): Profile => {
+    if (typeof value !== 'object' || value === null || !('name' in value) || typeof value.name !== 'string') {
+        throw new Error('expected an object with a string "name"')
+    }
+
+    const version = 'version' in value ? value.version : 1
+    if (version === 1) {
+        return { version: 2, name: value.name, color: defaultProfile.color }
+    }
+    if (version === 2 && 'color' in value && isColor(value.color)) {
+        return { version: 2, name: value.name, color: value.color }
+    }
+    throw new Error(`unsupported profile version ${JSON.stringify(version)}`)
+}
+// #endregion parseProfile
+
+// #region favoritesSerializer
+// A Set has no JSON form, so favorites are stored as an array and turned back into a Set
+export const favoritesSerializer = {
+    serialize: (favorites: Set<string>) => JSON.stringify([...favorites]),
+    deserialize: (raw: string): Set<string> => {
+        const parsed: unknown = JSON.parse(raw)
+        if (!Array.isArray(parsed)) {
+            throw new Error('expected an array of favorites')
+        }
+        return new Set(parsed.map(String))
+    }
+}
+// #endregion favoritesSerializer
@@ -0,0 +1,11 @@
+import { createContext } from 'react'
+
+// #region ThemeContext
+export interface ThemeContextType {
+    theme: 'light' | 'dark'
+    toggleTheme: () => void
+}
+
+// Shared by the useContext and use() demos
+export const ThemeContext = createContext<ThemeContextType | undefined>(undefined)
+// #endregion ThemeContext
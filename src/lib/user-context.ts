@@ -0,0 +1,20 @@
+import { createContext } from 'react'
+
+// #region UserContext
+export interface User {
+    id: string
+    name: string
+    email: string
+    avatar: string
+    role: 'admin' | 'user' | 'guest'
+}
+
+export interface UserContextType {
+    user: User | null
+    login: (user: User) => void
+    logout: () => void
+    updateUser: (updates: Partial<User>) => void
+}
+
+export const UserContext = createContext<UserContextType | undefined>(undefined)
+// #endregion UserContext
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import { clearHistory, initUndo, redo, undo, withUndo, type UndoableAction, type UndoOptions, type UndoState } from '@/lib/with-undo.ts'
+
+// A counter small enough that each state shows which actions reached it
+type Action = { type: 'ADD'; amount: number } | { type: 'SET'; value: number } | { type: 'VIEW' }
+
+const counter = (state: number, action: Action) => {
+    switch (action.type) {
+        case 'ADD':
+            return state + action.amount
+        case 'SET':
+            return action.value
+        case 'VIEW':
+            return state
+    }
+}
+
+const add = (amount: number): Action => ({ type: 'ADD', amount })
+const set = (value: number): Action => ({ type: 'SET', value })
+
+const run = (actions: UndoableAction<Action>[], options?: UndoOptions<Action>, state: UndoState<number> = initUndo(0)) =>
+    actions.reduce(withUndo(counter, options), state)
+
+describe('withUndo', () => {
+    it('records each change as an undo step', () => {
+        expect(run([add(1), add(2), add(3)])).toMatchObject({ past: [0, 1, 3], present: 6, future: [] })
+    })
+
+    it('undoes and redoes one step at a time', () => {
+        const state = run([add(1), add(2), undo(), undo()])
+        expect(state).toMatchObject({ past: [], present: 0, future: [1, 3] })
+
+        expect(run([redo()], {}, state)).toMatchObject({ past: [0], present: 1, future: [3] })
+    })
+
+    it('does nothing when there is nothing to undo or redo', () => {
+        const state = initUndo(0)
+        expect(run([undo()], {}, state)).toBe(state)
+        expect(run([redo()], {}, state)).toBe(state)
+    })
+
+    it('clears the redo steps when a new change is made', () => {
+        expect(run([add(1), add(2), undo(), set(10)])).toMatchObject({ past: [0, 1], present: 10, future: [] })
+    })
+
+    it('keeps the state when the reducer returns it unchanged', () => {
+        const state = run([add(1)])
+        expect(run([{ type: 'VIEW' }], {}, state)).toBe(state)
+    })
+
+    it('clears the history but keeps the present', () => {
+        expect(run([add(1), add(2), undo(), clearHistory()])).toEqual(initUndo(1))
+    })
+
+    describe('limit', () => {
+        it('drops the oldest steps first', () => {
+            expect(run([add(1), add(1), add(1), add(1)], { limit: 2 })).toMatchObject({ past: [2, 3], present: 4 })
+        })
+
+        it.each([0, -1])('keeps no steps when it is %i', limit => {
+            expect(run([add(1), add(1)], { limit })).toMatchObject({ past: [], present: 2 })
+        })
+    })
+
+    describe('filter', () => {
+        const filter = (action: Action) => action.type !== 'SET'
+
+        it('changes the present without recording filtered actions', () => {
+            expect(run([add(1), set(10)], { filter })).toMatchObject({ past: [0], present: 10 })
+        })
+
+        it('undoes to the state before the last recorded action', () => {
+            expect(run([add(1), add(2), set(10), undo()], { filter })).toMatchObject({ past: [0], present: 1, future: [10] })
+        })
+
+        it('clears the redo steps when a filtered action changes the present', () => {
+            const state = run([add(1), add(2), undo(), set(10)], { filter })
+            expect(state).toMatchObject({ past: [0], present: 10, future: [] })
+            expect(run([redo()], { filter }, state)).toBe(state)
+        })
+    })
+
+    describe('groupBy', () => {
+        const groupBy = (action: Action) => action.type === 'ADD' ? `add:${Math.sign(action.amount)}` : null
+
+        it('undoes consecutive actions with the same key together', () => {
+            const state = run([set(5), add(1), add(1), add(1)], { groupBy })
+            expect(state).toMatchObject({ past: [0, 5], present: 8 })
+            expect(run([undo()], { groupBy }, state)).toMatchObject({ present: 5, future: [8] })
+        })
+
+        it('starts a new step when the key changes', () => {
+            expect(run([add(1), add(1), add(-1)], { groupBy })).toMatchObject({ past: [0, 2], present: 1 })
+        })
+
+        it('starts a new step after an undo', () => {
+            expect(run([add(1), add(1), undo(), add(1), add(1)], { groupBy })).toMatchObject({ past: [0], present: 2 })
+        })
+
+        it('never groups actions without a key', () => {
+            expect(run([set(1), set(2)], { groupBy })).toMatchObject({ past: [0, 1], present: 2 })
+        })
+    })
+})
@@ -0,0 +1,73 @@
+import type { Reducer } from 'react'
+
+// #region withUndo
+export interface UndoState<S> {
+    past: S[]
+    present: S
+    future: S[]
+    // Group key of the last recorded action, so the next one can join its undo step
+    group: string | null
+}
+
+export type UndoHistoryAction =
+    | { type: '@@undo/UNDO' }
+    | { type: '@@undo/REDO' }
+    | { type: '@@undo/CLEAR_HISTORY' }
+
+export type UndoableAction<A> = A | UndoHistoryAction
+
+export interface UndoOptions<A> {
+    // Most undo steps kept; the oldest are dropped first. 0 or less keeps none.
+    limit?: number
+    // Return false for actions that change the present without becoming an undo step. Undoing
+    // goes back to the state before the last recorded action, filtered changes included, and
+    // a filtered change clears the redo steps like any other change.
+    filter?: (action: A) => boolean
+    // Consecutive actions with the same non-null key are undone together, as one step
+    groupBy?: (action: A) => string | null
+}
+
+export const undo = (): UndoHistoryAction => ({ type: '@@undo/UNDO' })
+export const redo = (): UndoHistoryAction => ({ type: '@@undo/REDO' })
+export const clearHistory = (): UndoHistoryAction => ({ type: '@@undo/CLEAR_HISTORY' })
+
+// Starts an empty history: useReducer(withUndo(reducer), initUndo(initialState))
+export const initUndo = <S>(present: S): UndoState<S> => ({ past: [], present, future: [], group: null })
+
+const isHistoryAction = (action: unknown): action is UndoHistoryAction =>
+    typeof action === 'object' && action !== null && 'type' in action &&
+    typeof action.type === 'string' && action.type.startsWith('@@undo/')
+
+// Higher-order reducer: takes a reducer and returns one that also keeps the states before and
+// after the present, so UNDO and REDO can move between them
+export const withUndo = <S, A>(reducer: Reducer<S, A>, { limit = 100, filter = () => true, groupBy = () => null }: UndoOptions<A> = {}) =>
+    (state: UndoState<S>, action: UndoableAction<A>): UndoState<S> => {
+        if (isHistoryAction(action)) {
+            const { past, present, future } = state
+            switch (action.type) {
+                case '@@undo/UNDO':
+                    if (past.length === 0) return state
+                    return { past: past.slice(0, -1), present: past[past.length - 1], future: [present, ...future], group: null }
+                case '@@undo/REDO':
+                    if (future.length === 0) return state
+                    return { past: [...past, present], present: future[0], future: future.slice(1), group: null }
+                case '@@undo/CLEAR_HISTORY':
+                    return initUndo(present)
+            }
+        }
+
+        const present = reducer(state.present, action as A)
+        if (Object.is(present, state.present)) return state
+        // The redo steps were recorded before this change and would silently revert it
+        if (!filter(action as A)) return { ...state, present, future: [] }
+
+        const group = groupBy(action as A)
+        if (group !== null && group === state.group) {
+            // Same undo step as the previous action: replace the present, keep the past
+            return { ...state, present, future: [] }
+        }
+        // slice(-0) would keep everything
+        const past = limit > 0 ? [...state.past, state.present].slice(-limit) : []
+        return { past, present, future: [], group }
+    }
+// #endregion withUndo
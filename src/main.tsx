@@ -1,3 +1,5 @@
+// Must load before react-dom, which looks for the DevTools hook this installs
+import './lib/devtools-hook.ts'
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
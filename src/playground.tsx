@@ -0,0 +1,83 @@
+import * as React from 'react'
+import * as jsxRuntime from 'react/jsx-runtime'
+import { Component, StrictMode, type ComponentType, type ErrorInfo, type ReactNode } from 'react'
+import { createRoot } from 'react-dom/client'
+import './index.css'
+import { isPlaygroundMessage, type PlaygroundMessage } from '@/lib/playground.ts'
+
+// Entry point of playground.html. It runs inside an <iframe sandbox="allow-scripts">, so the
+// code people type has an opaque origin and can't reach the app's DOM, storage or cookies.
+
+// The only modules playground code may import
+const modules: Record<string, unknown> = {
+    'react': React,
+    'react/jsx-runtime': jsxRuntime
+}
+
+const report = (message: PlaygroundMessage) => window.parent.postMessage(message, '*')
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error)
+
+const evaluate = (code: string): ComponentType => {
+    const module: { exports: { default?: unknown } } = { exports: {} }
+    const require = (name: string) => {
+        if (!(name in modules)) {
+            throw new Error(`Cannot import "${name}" in the playground (only react is available)`)
+        }
+        return modules[name]
+    }
+
+    new Function('require', 'module', 'exports', code)(require, module, module.exports)
+
+    if (typeof module.exports.default !== 'function') {
+        throw new Error('Playground code must `export default` a component to preview')
+    }
+    return module.exports.default as ComponentType
+}
+
+class PreviewBoundary extends Component<{ children: ReactNode }, { failed: boolean }> {
+    state = { failed: false }
+
+    static getDerivedStateFromError() {
+        return { failed: true }
+    }
+
+    componentDidCatch(error: Error, info: ErrorInfo) {
+        console.error(error, info.componentStack)
+        report({ type: 'error', message: errorMessage(error) })
+    }
+
+    render() {
+        return this.state.failed ? null : this.props.children
+    }
+}
+
+const root = createRoot(document.getElementById('root')!)
+let runs = 0
+
+window.addEventListener('message', event => {
+    if (event.source !== window.parent || !isPlaygroundMessage(event.data) || event.data.type !== 'run') {
+        return
+    }
+
+    try {
+        const Preview = evaluate(event.data.code)
+        // A fresh key resets the boundary and remounts the preview on every run
+        root.render(
+            <StrictMode>
+                <PreviewBoundary key={++runs}>
+                    <Preview />
+                </PreviewBoundary>
+            </StrictMode>
+        )
+    } catch (error) {
+        root.render(null)
+        report({ type: 'error', message: errorMessage(error) })
+    }
+})
+
+// Errors thrown from timers, event handlers and promises never reach the boundary
+window.addEventListener('error', event => report({ type: 'error', message: errorMessage(event.error ?? event.message) }))
+window.addEventListener('unhandledrejection', event => report({ type: 'error', message: errorMessage(event.reason) }))
+
+report({ type: 'ready' })
@@ -0,0 +1,14 @@
+import { StrictMode } from 'react'
+import { createRoot } from 'react-dom/client'
+import './index.css'
+import StorageSyncFrame from '@/components/StorageSyncFrame.tsx'
+
+// Entry point of storage-sync.html, which the Custom Hooks page embeds in two same-origin
+// iframes. The frame's label comes from the query string, e.g. storage-sync.html?frame=A
+const name = new URLSearchParams(window.location.search).get('frame') ?? 'A'
+
+createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+        <StorageSyncFrame name={name} />
+    </StrictMode>
+)
@@ -0,0 +1,23 @@
+import { screen } from '@testing-library/react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { hooks } from '@/lib/registry.ts'
+import { renderDemo } from '@/test/render.tsx'
+
+// Every page in the registry gets these checks without writing a test for it: each of its tabs
+// opens from the URL and renders without React reporting an error. Behavior is tested next to the
+// demo itself (UseStateDemo.test.tsx and friends).
+beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'info').mockImplementation(() => {})
+    vi.spyOn(console, 'error')
+})
+
+describe.each(hooks)('$name demo', ({ id, tabs }) => {
+    it.each(tabs)('opens the $label tab', async ({ id: tab, label }) => {
+        await renderDemo(id, { tab })
+
+        expect(screen.getByRole('heading', { level: 1 })).toBeInTheDocument()
+        expect(screen.getByRole('tab', { name: label })).toHaveAttribute('aria-selected', 'true')
+        expect(console.error).not.toHaveBeenCalled()
+    })
+})
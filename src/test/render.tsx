@@ -0,0 +1,26 @@
+import { StrictMode, type ReactElement } from 'react'
+import { render, type RenderOptions } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { vi } from 'vitest'
+import { getHook, type HookType } from '@/lib/registry.ts'
+import { formatHash } from '@/lib/routing.ts'
+
+// Renders in StrictMode like main.tsx, so effects are mounted, cleaned up and mounted again as in
+// development. The returned user drives the page through real DOM events; under vi.useFakeTimers()
+// it advances the fake clock instead of waiting between events.
+export function renderWithUser(ui: ReactElement, options: Omit<RenderOptions, 'queries'> = {}) {
+    const user = userEvent.setup({
+        advanceTimers: ms => {
+            if (vi.isFakeTimers()) vi.advanceTimersByTime(ms)
+        }
+    })
+    return { user, ...render(ui, { wrapper: StrictMode, ...options }) }
+}
+
+// Opens a demo page the way the app does: the demo comes from its registry entry, and the route in
+// the hash picks the tab (the hook's first tab when none is given).
+export async function renderDemo(hook: HookType, { tab = null }: { tab?: string | null } = {}) {
+    window.history.replaceState(null, '', formatHash({ hook, tab }))
+    const { default: Demo } = await getHook(hook).load()
+    return renderWithUser(<Demo />)
+}
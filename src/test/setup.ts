@@ -0,0 +1,46 @@
+// React looks for the DevTools hook when react-dom loads, so the hook inspector and render
+// highlighter only see commits if this comes first
+import '@/lib/devtools-hook.ts'
+import '@testing-library/jest-dom/vitest'
+import { cleanup } from '@testing-library/react'
+import { afterEach, vi } from 'vitest'
+
+// Browser APIs the demos (and the Radix primitives under the ui components) use that jsdom doesn't
+// implement. They only need to exist; no test depends on them reporting anything.
+class NoopObserver {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+    takeRecords() {
+        return []
+    }
+}
+
+globalThis.ResizeObserver ??= NoopObserver as unknown as typeof ResizeObserver
+globalThis.IntersectionObserver ??= NoopObserver as unknown as typeof IntersectionObserver
+Element.prototype.scrollIntoView ??= function () {}
+window.matchMedia ??= (query: string) => ({
+    matches: false,
+    media: query,
+    onchange: null,
+    addEventListener() {},
+    removeEventListener() {},
+    addListener() {},
+    removeListener() {},
+    dispatchEvent: () => false
+})
+
+// Testing Library only recognises Jest's fake timers: after every user event it waits on a
+// setTimeout, which never fires under vi.useFakeTimers() unless it can find `jest` to advance them
+Object.assign(globalThis, { jest: { advanceTimersByTime: (ms: number) => vi.advanceTimersByTime(ms) } })
+
+// Tests share one jsdom window, so start each with an empty route and empty storage, and undo the
+// fake timers and spies a test may have set up
+afterEach(() => {
+    cleanup()
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+    window.history.replaceState(null, '', window.location.pathname)
+    localStorage.clear()
+    sessionStorage.clear()
+})
@@ -1,15 +1,49 @@
+/// <reference types="vitest/config" />
 import path from "path"
 import tailwindcss from "@tailwindcss/vite"
 import react from "@vitejs/plugin-react"
 import { defineConfig } from "vite"
 
+// The playground preview runs in a sandboxed iframe with an opaque ("null") origin, so the
+// dev and preview servers must allow that origin to load the frame's module scripts.
+const cors = { origin: ["null"] }
+
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react(), tailwindcss()],
   base: '/react-hooks-interactive-demo/',
   resolve: {
-    alias: {
-      "@": path.resolve(__dirname, "./src"),
+    alias: [
+      { find: "@", replacement: path.resolve(__dirname, "./src") },
+      // The profiling build of react-dom keeps <Profiler> timings in production, so the
+      // Profiler timeline also records commits on the deployed site. It replaces react-dom for the
+      // whole app, which makes the bundle slightly larger and every commit slightly slower; the
+      // timeline is a feature of the site, so that is the intended tradeoff.
+      { find: /^react-dom\/client$/, replacement: "react-dom/profiling" },
+    ],
+  },
+  // Keep function names through minification: the render highlighter labels components by name,
+  // and without this the deployed site would show minified ones
+  esbuild: { keepNames: true },
+  server: {
+    cors,
+    // Chrome DevTools skips ignore-listed files when it shows where a console message came from, so
+    // messages the console panel passes on still point at the code that logged them
+    sourcemapIgnoreList: (sourcePath) => sourcePath.includes("node_modules") || sourcePath.endsWith("demo-console.ts"),
+  },
+  preview: { cors },
+  build: {
+    rollupOptions: {
+      input: {
+        main: path.resolve(__dirname, "index.html"),
+        playground: path.resolve(__dirname, "playground.html"),
+        storageSync: path.resolve(__dirname, "storage-sync.html"),
+      },
     },
   },
+  test: {
+    // Unit tests don't touch the DOM, but component tests render demos into jsdom
+    environment: "jsdom",
+    setupFiles: ["./src/test/setup.ts"],
+  },
 })
\ No newline at end of file